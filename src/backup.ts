@@ -0,0 +1,350 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+// src/backup.ts
+// Online backups (database snapshot + banner uploads) and restore
+
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as tar from 'tar';
+import * as Database from 'better-sqlite3';
+import { closeDatabase, getDatabase, initializeDatabase } from './database';
+import { MIGRATIONS, getMigrationStatus, getSchemaVersion } from './migrations';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const DB_PATH = process.env.DB_PATH ?? './rsvp.sqlite';
+const EVENT_BANNER_STORAGE_PATH = process.env.EVENT_BANNER_STORAGE_PATH || './data/uploads/event-banners';
+export const BACKUP_DIR = process.env.BACKUP_DIR || './data/backups';
+export const BACKUP_INTERVAL_MS = parseFloat(process.env.BACKUP_INTERVAL_HOURS ?? '24') * 60 * 60 * 1000 || 0; // 0 disables
+export const BACKUP_RETENTION = parseInt(process.env.BACKUP_RETENTION ?? '', 10) || 14;
+
+const BACKUP_FORMAT = 1;
+const BACKUP_FILENAME_PATTERN = /^odette-backup-[0-9TZ-]+\.tar\.gz$/;
+const ARCHIVE_DB_NAME = 'rsvp.sqlite';
+const ARCHIVE_BANNER_DIR = 'banners';
+const ARCHIVE_MANIFEST_NAME = 'manifest.json';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Written as manifest.json at the root of every backup archive */
+export interface BackupManifest {
+  format: number;
+  created_at: number;
+  schema_version: number;
+  banner_count: number;
+}
+
+export interface BackupInfo {
+  filename: string;
+  size: number;
+  created_at: number;
+}
+
+export interface RestoreResult {
+  manifest: BackupManifest;
+  previousDatabasePath: string | null; // Where the replaced database was moved aside
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function timestampForFilename(now: number): string {
+  return new Date(now).toISOString().replace(/[:.]/g, '-');
+}
+
+async function withStagingDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'odette-backup-'));
+  try {
+    return await fn(dir);
+  } finally {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Move a file or directory aside if it exists
+ * @returns The new path, or null if there was nothing to move
+ */
+function moveAside(target: string, suffix: string): string | null {
+  if (!fs.existsSync(target)) {
+    return null;
+  }
+  const aside = `${target}${suffix}`;
+  fs.renameSync(target, aside);
+  return aside;
+}
+
+/**
+ * Check an extracted backup before anything on disk is touched
+ * The snapshot must pass an integrity check and carry a schema this code
+ * knows how to run (older schemas are migrated forward after the restore).
+ */
+function validateExtractedBackup(stagingDir: string): BackupManifest {
+  const manifestPath = path.join(stagingDir, ARCHIVE_MANIFEST_NAME);
+  const dbPath = path.join(stagingDir, ARCHIVE_DB_NAME);
+
+  if (!fs.existsSync(manifestPath) || !fs.existsSync(dbPath)) {
+    throw new BackupError('Not an Odette backup: manifest or database missing from archive.');
+  }
+
+  let manifest: BackupManifest;
+  try {
+    manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+  } catch {
+    throw new BackupError('Backup manifest is not valid JSON.');
+  }
+  if (manifest.format !== BACKUP_FORMAT) {
+    throw new BackupError(`Unsupported backup format ${manifest.format} (expected ${BACKUP_FORMAT}).`);
+  }
+
+  let db: Database.Database;
+  try {
+    db = new Database.default(dbPath, { fileMustExist: true });
+  } catch (error: any) {
+    throw new BackupError(`Backup database cannot be opened: ${error.message}`);
+  }
+
+  try {
+    const integrity = db.pragma('integrity_check', { simple: true });
+    if (integrity !== 'ok') {
+      throw new BackupError(`Backup database failed integrity check: ${integrity}`);
+    }
+
+    const status = getMigrationStatus(db);
+    const incomplete = status.find(m => m.applied_at === null);
+    if (incomplete) {
+      throw new BackupError(`Backup was taken while migration ${incomplete.version} (${incomplete.name}) was incomplete.`);
+    }
+
+    const schemaVersion = getSchemaVersion(db);
+    const latestKnown = MIGRATIONS.reduce((max, m) => Math.max(max, m.version), 0);
+    if (schemaVersion < 1) {
+      throw new BackupError('Backup database has no schema.');
+    }
+    if (schemaVersion > latestKnown) {
+      throw new BackupError(`Backup has schema version ${schemaVersion}, but this version of Odette only knows up to ${latestKnown}.`);
+    }
+    if (schemaVersion !== manifest.schema_version) {
+      throw new BackupError(`Backup manifest claims schema version ${manifest.schema_version}, but the database is at ${schemaVersion}.`);
+    }
+  } finally {
+    db.close();
+  }
+
+  return manifest;
+}
+
+// ============================================================================
+// Backups
+// ============================================================================
+
+/**
+ * Resolve a backup filename inside BACKUP_DIR
+ * @throws BackupError for names that are not backups (including path traversal attempts)
+ */
+export function getBackupPath(filename: string): string {
+  if (!BACKUP_FILENAME_PATTERN.test(filename)) {
+    throw new BackupError('Invalid backup filename.');
+  }
+  return path.join(BACKUP_DIR, filename);
+}
+
+/**
+ * List backups in BACKUP_DIR
+ * @returns Backups, newest first
+ */
+export async function listBackups(): Promise<BackupInfo[]> {
+  let names: string[];
+  try {
+    names = await fs.promises.readdir(BACKUP_DIR);
+  } catch (err: any) {
+    if (err.code === 'ENOENT') {
+      return [];
+    }
+    throw err;
+  }
+
+  const backups = await Promise.all(names.filter(n => BACKUP_FILENAME_PATTERN.test(n)).map(async filename => {
+    const stat = await fs.promises.stat(path.join(BACKUP_DIR, filename));
+    return { filename, size: stat.size, created_at: stat.mtimeMs };
+  }));
+  // Filenames embed an ISO timestamp, so they sort chronologically
+  return backups.sort((a, b) => b.filename.localeCompare(a.filename));
+}
+
+/**
+ * Snapshot the live database (using SQLite's online backup API) and the
+ * banner uploads into a new archive in BACKUP_DIR
+ * @param now Current time (for testing)
+ * @returns The new backup
+ */
+export async function createBackup(now: number = Date.now()): Promise<BackupInfo> {
+  await fs.promises.mkdir(BACKUP_DIR, { recursive: true });
+  const filename = `odette-backup-${timestampForFilename(now)}.tar.gz`;
+  const target = path.join(BACKUP_DIR, filename);
+
+  await withStagingDir(async (stagingDir) => {
+    await getDatabase().backup(path.join(stagingDir, ARCHIVE_DB_NAME));
+
+    const bannerDir = path.join(stagingDir, ARCHIVE_BANNER_DIR);
+    await fs.promises.mkdir(bannerDir);
+    let bannerCount = 0;
+    if (fs.existsSync(EVENT_BANNER_STORAGE_PATH)) {
+      for (const entry of await fs.promises.readdir(EVENT_BANNER_STORAGE_PATH, { withFileTypes: true })) {
+        if (entry.isFile()) {
+          await fs.promises.copyFile(path.join(EVENT_BANNER_STORAGE_PATH, entry.name), path.join(bannerDir, entry.name));
+          bannerCount++;
+        }
+      }
+    }
+
+    // Read the version from the snapshot itself, not the live database
+    const snapshot = new Database.default(path.join(stagingDir, ARCHIVE_DB_NAME));
+    const manifest: BackupManifest = {
+      format: BACKUP_FORMAT,
+      created_at: now,
+      schema_version: getSchemaVersion(snapshot),
+      banner_count: bannerCount,
+    };
+    snapshot.close();
+    await fs.promises.writeFile(path.join(stagingDir, ARCHIVE_MANIFEST_NAME), JSON.stringify(manifest, null, 2));
+
+    // Write under a temporary name so a half-written archive is never listed
+    const partial = `${target}.partial`;
+    await tar.c({ gzip: true, file: partial, cwd: stagingDir, portable: true }, [ARCHIVE_MANIFEST_NAME, ARCHIVE_DB_NAME, ARCHIVE_BANNER_DIR]);
+    await fs.promises.rename(partial, target);
+  });
+
+  const stat = await fs.promises.stat(target);
+  console.log(`Wrote backup ${target} (${stat.size} bytes).`);
+  return { filename, size: stat.size, created_at: now };
+}
+
+/**
+ * Delete all but the newest backups
+ * @param keep Number of backups to keep
+ * @returns Filenames of deleted backups
+ */
+export async function pruneBackups(keep: number = BACKUP_RETENTION): Promise<string[]> {
+  const expired = (await listBackups()).slice(Math.max(keep, 1));
+  for (const backup of expired) {
+    await fs.promises.unlink(path.join(BACKUP_DIR, backup.filename));
+    console.log(`Deleted old backup ${backup.filename}`);
+  }
+  return expired.map(b => b.filename);
+}
+
+// ============================================================================
+// Restore
+// ============================================================================
+
+/**
+ * Replace the live database and banner uploads with the contents of a backup
+ * The archive is extracted and validated first; the current database and
+ * banner directory are moved aside (suffixed `.pre-restore-<timestamp>`)
+ * rather than deleted. The database is reopened afterwards, which also
+ * migrates a restored older schema forward.
+ *
+ * @param archivePath Path to a backup archive
+ * @param now Current time (for testing)
+ * @throws BackupError if the archive is not a usable backup (nothing is changed)
+ */
+export async function restoreBackup(archivePath: string, now: number = Date.now()): Promise<RestoreResult> {
+  if (DB_PATH === ':memory:') {
+    throw new BackupError('Cannot restore into an in-memory database.');
+  }
+
+  return withStagingDir(async (stagingDir) => {
+    try {
+      await tar.x({
+        file: archivePath,
+        cwd: stagingDir,
+        filter: (entryPath, entry) => ('type' in entry ? entry.type === 'File' || entry.type === 'Directory' : true),
+      });
+    } catch (error: any) {
+      throw new BackupError(`Cannot read backup archive: ${error.message}`);
+    }
+
+    const manifest = validateExtractedBackup(stagingDir);
+
+    // Everything from here on is synchronous so no request can observe a closed database
+    const suffix = `.pre-restore-${timestampForFilename(now)}`;
+    const targets = [DB_PATH, `${DB_PATH}-wal`, `${DB_PATH}-shm`, EVENT_BANNER_STORAGE_PATH];
+    const movedAside: [string, string][] = [];
+    closeDatabase();
+    try {
+      for (const target of targets) {
+        const aside = moveAside(target, suffix);
+        if (aside) {
+          movedAside.push([target, aside]);
+        }
+      }
+      fs.copyFileSync(path.join(stagingDir, ARCHIVE_DB_NAME), DB_PATH);
+      fs.cpSync(path.join(stagingDir, ARCHIVE_BANNER_DIR), EVENT_BANNER_STORAGE_PATH, { recursive: true });
+    } catch (error: any) {
+      console.error('Restore failed while swapping files, putting the previous files back:', error);
+      for (const [target, aside] of movedAside) {
+        fs.rmSync(target, { recursive: true, force: true });
+        fs.renameSync(aside, target);
+      }
+      throw new BackupError(`Restore failed while swapping files: ${error.message}`);
+    } finally {
+      initializeDatabase(DB_PATH);
+    }
+
+    const previousDatabasePath = movedAside.find(([target]) => target === DB_PATH)?.[1] ?? null;
+    console.log(`Restored backup ${archivePath} (schema version ${manifest.schema_version}, taken ${new Date(manifest.created_at).toISOString()}).`);
+    return { manifest, previousDatabasePath };
+  });
+}
+
+// ============================================================================
+// Schedule
+// ============================================================================
+
+/**
+ * Take a backup and apply the retention policy
+ */
+export async function runScheduledBackup(): Promise<void> {
+  await createBackup();
+  await pruneBackups();
+}
+
+/**
+ * Start the periodic backup timer (disabled when BACKUP_INTERVAL_HOURS is 0)
+ * A backup is taken right away if the newest one is already older than the interval.
+ * @returns Timer handle (unref'd so it never keeps the process alive), or undefined if disabled
+ */
+export function startBackupSchedule(): NodeJS.Timeout | undefined {
+  if (BACKUP_INTERVAL_MS <= 0) {
+    return undefined;
+  }
+
+  const run = () => {
+    runScheduledBackup().catch(err => console.error('Scheduled backup failed:', err));
+  };
+
+  listBackups()
+    .then(backups => {
+      if (backups.length === 0 || Date.now() - backups[0].created_at >= BACKUP_INTERVAL_MS) {
+        run();
+      }
+    })
+    .catch(err => console.error('Could not list backups:', err));
+
+  return setInterval(run, BACKUP_INTERVAL_MS).unref();
+}
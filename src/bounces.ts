@@ -0,0 +1,177 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+// src/bounces.ts
+// Bounces: delivery status notifications (RFC 3464) from a maildir or mbox drop, the CLI or an uploaded .eml,
+// matched to the delivery they report on so the admin can fix the address and send again
+
+import { decodeBody, mimeParts, readMailDrop, splitMessage } from './mailbox';
+import { findBouncedDelivery, recordBounce } from './repository';
+import { normalizeEmail } from './utils';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const BOUNCE_DROP = process.env.BOUNCE_DROP || null; // Maildir or mbox file to poll
+const BOUNCE_INTERVAL_MS = 5 * 60 * 1000;
+const CLOCK_SKEW_MS = 5 * 60 * 1000; // How far ahead of our clock a bounce's date may be
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** One recipient's report in a delivery status notification */
+export interface DsnRecipient {
+  recipient: string; // Final-Recipient (or Original-Recipient), normalized
+  action: string; // failed, delayed, delivered, relayed or expanded
+  status: string; // e.g. 5.1.1
+  diagnostic: string | null; // e.g. "smtp; 550 5.1.1 User unknown"
+}
+
+/** A delivery status notification: which message it is about, and what happened to each recipient */
+export interface DeliveryStatusReport {
+  messageId: string | null; // Message-ID of the message that bounced, if the report quotes it
+  reportedAt: number | null; // When the report was written (its Date, else the Arrival-Date of the message), if known
+  recipients: DsnRecipient[];
+}
+
+/** What became of one recipient found in a report */
+export interface BounceOutcome {
+  recorded: boolean;
+  attendeeId?: number;
+  summary: string; // e.g. "jo@example.com (Jo, Garden Party) bounced: 550 5.1.1 User unknown", or why nothing changed
+}
+
+// ============================================================================
+// Report Parsing
+// ============================================================================
+
+/** The value of an address field such as "Final-Recipient: rfc822; jo@example.com" */
+function addressValue(value: string | undefined): string | undefined {
+  const address = value?.replace(/^[^;]*;/, '').trim().replace(/^<(.*)>$/, '$1');
+  return address ? normalizeEmail(address) : undefined;
+}
+
+/** A date header as epoch ms, or null if it is missing or unreadable */
+function dateValue(value: string | undefined): number | null {
+  const parsed = value ? Date.parse(value) : NaN;
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Parse the fields of a message/delivery-status part
+ * The first group of fields is about the message; each following group is about one recipient.
+ */
+function parseDeliveryStatus(text: string): { arrivedAt: number | null; recipients: DsnRecipient[] } {
+  const groups = text.replace(/\r?\n[ \t]+/g, ' ').split(/(?:\r?\n){2,}/).map(group => splitMessage(`${group.trim()}\r\n`).headers);
+  const arrivedAt = dateValue(groups[0]?.['arrival-date']);
+  const recipients = groups.slice(1).flatMap(fields => {
+    const recipient = addressValue(fields['final-recipient']) ?? addressValue(fields['original-recipient']);
+    if (!recipient) return [];
+    return [{
+      recipient,
+      action: (fields['action'] ?? '').toLowerCase(),
+      status: (fields['status'] ?? '').split(/\s/)[0],
+      diagnostic: fields['diagnostic-code'] ?? null,
+    }];
+  });
+  return { arrivedAt, recipients };
+}
+
+/**
+ * Find the delivery status reports in a message
+ * @param message Raw message
+ * @returns One report per message/delivery-status part (normally one, or none if this isn't a bounce)
+ */
+export function extractDeliveryStatus(message: Buffer): DeliveryStatusReport[] {
+  const raw = message.toString('latin1');
+  const writtenAt = dateValue(splitMessage(raw).headers['date']);
+  const parts = mimeParts(raw);
+  const original = parts.find(part => part.mediaType === 'message/rfc822' || part.mediaType === 'text/rfc822-headers');
+  const originalHeaders = original ? splitMessage(decodeBody(original)).headers : {};
+  const messageId = originalHeaders['message-id']?.trim() || null;
+
+  return parts
+    .filter(part => part.mediaType === 'message/delivery-status' || part.mediaType === 'message/global-delivery-status')
+    .map(part => {
+      const { arrivedAt, recipients } = parseDeliveryStatus(decodeBody(part));
+      return { messageId, reportedAt: writtenAt ?? arrivedAt, recipients };
+    });
+}
+
+// ============================================================================
+// Recording Bounces
+// ============================================================================
+
+/** The SMTP reply in a Diagnostic-Code, without its "smtp;" type */
+function describeDiagnostic(recipient: DsnRecipient): string {
+  return recipient.diagnostic?.replace(/^[^;]*;\s*/, '') || recipient.status || 'no reason given';
+}
+
+/**
+ * Record the failed recipients in a bounce message
+ * Other reports (delays, successful relays) are skipped.
+ *
+ * @param message Raw email message
+ * @param now Current time (for testing)
+ * @returns One outcome per recipient reported (none if the message is not a delivery status notification)
+ */
+export function applyBounces(message: Buffer, now: number = Date.now()): BounceOutcome[] {
+  const outcomes: BounceOutcome[] = [];
+  for (const report of extractDeliveryStatus(message)) {
+    for (const recipient of report.recipients) {
+      if (recipient.action !== 'failed') {
+        outcomes.push({ recorded: false, summary: `${recipient.recipient}: ${recipient.action || 'no action'}, not a bounce.` });
+        continue;
+      }
+
+      const sentBefore = report.reportedAt === null ? null : report.reportedAt + CLOCK_SKEW_MS;
+      const delivery = findBouncedDelivery(recipient.recipient, report.messageId, sentBefore);
+      if (!delivery) {
+        outcomes.push({ recorded: false, summary: `No email to ${recipient.recipient}${report.messageId ? ` with Message-ID ${report.messageId}` : ''} was found.` });
+        continue;
+      }
+
+      const diagnostic = describeDiagnostic(recipient);
+      const recorded = recordBounce(delivery.id, recipient.recipient, recipient.status || null, diagnostic, now);
+      const who = `${recipient.recipient} (${delivery.attendee_name}, ${delivery.event_title})`;
+      outcomes.push(recorded
+        ? { recorded, attendeeId: delivery.attendee_id, summary: `${who} bounced: ${diagnostic}` }
+        : { recorded, attendeeId: delivery.attendee_id, summary: `The bounce from ${who} was already recorded.` });
+    }
+  }
+  return outcomes;
+}
+
+/**
+ * Read bounces from a maildir, an mbox file or a single message file
+ * Bounces already recorded change nothing, and a bounce without a Message-ID only matches emails sent
+ * before it was written, so re-reading an mbox is harmless even after emails to the address are sent again.
+ *
+ * @param dropPath Maildir directory, mbox file or .eml file
+ * @returns Outcomes of every recipient reported
+ * @throws MailboxError if the path is a directory but not a maildir
+ */
+export async function processBounceDrop(dropPath: string): Promise<BounceOutcome[]> {
+  return readMailDrop(dropPath, async message => applyBounces(message));
+}
+
+/**
+ * Read BOUNCE_DROP now and every few minutes (if it is set)
+ * @returns Timer handle (unref'd so it never keeps the process alive), or undefined if there is no drop
+ */
+export function startBouncePolling(): NodeJS.Timeout | undefined {
+  const dropPath = BOUNCE_DROP;
+  if (!dropPath) {
+    return undefined;
+  }
+
+  const run = () => {
+    processBounceDrop(dropPath)
+      .then(outcomes => outcomes.filter(o => o.recorded).forEach(o => console.log(`Bounce: ${o.summary}`)))
+      .catch(err => console.error('Reading bounces failed:', err));
+  };
+  run();
+  return setInterval(run, BOUNCE_INTERVAL_MS).unref();
+}
@@ -0,0 +1,166 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+// src/calendar-replies.ts
+// Guests' answers from their calendar apps: iMIP REPLY messages from a maildir or mbox drop, the CLI or an uploaded .eml
+
+import { tokenFromInvitationUid } from './calendar';
+import { parseCalendar, parseICSDate, type IcsComponent } from './ics';
+import { decodeBody, mimeParts, readMailDrop } from './mailbox';
+import { getAttendeeViewByToken } from './repository';
+import { responsesClosed, rsvpOptions, submitRsvp } from './rsvp';
+import { normalizeEmail, parseCCEmails } from './utils';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const CALENDAR_REPLY_DROP = process.env.CALENDAR_REPLY_DROP || null; // Maildir or mbox file to poll
+const CALENDAR_REPLY_INTERVAL_MS = 5 * 60 * 1000;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** What became of one reply found in a message */
+export interface CalendarReplyOutcome {
+  applied: boolean;
+  attendeeId?: number;
+  summary: string; // e.g. "Jo said yes to Garden Party.", or why nothing changed
+}
+
+/** Calendar answers that map onto an RSVP (TENTATIVE only for events that allow "maybe") */
+const PARTSTAT_RSVP: Record<string, string> = {
+  ACCEPTED: 'yes',
+  TENTATIVE: 'maybe',
+  DECLINED: 'no',
+};
+
+// ============================================================================
+// Message Parsing
+// ============================================================================
+
+/**
+ * Find the calendars in an email message (or a bare .ics file)
+ * @param message Raw message
+ * @returns Calendar texts
+ */
+export function extractCalendars(message: Buffer): string[] {
+  const raw = message.toString('latin1');
+  if (/^\s*BEGIN:VCALENDAR/i.test(raw)) {
+    return [message.toString('utf8')];
+  }
+  return mimeParts(raw)
+    .filter(part => ['text/calendar', 'application/ics'].includes(part.mediaType) || /\.ics$/i.test(part.filename))
+    .map(decodeBody);
+}
+
+// ============================================================================
+// Applying Replies
+// ============================================================================
+
+function firstProperty(component: IcsComponent, name: string): string | undefined {
+  return component.properties.find(p => p.name === name)?.value.trim();
+}
+
+/**
+ * Record the answer in one replied-to VEVENT
+ */
+async function applyReply(vevent: IcsComponent, appBaseUrl: string): Promise<CalendarReplyOutcome> {
+  const uid = firstProperty(vevent, 'UID') ?? '';
+  const token = tokenFromInvitationUid(uid);
+  const attendee = token ? getAttendeeViewByToken(token) : undefined;
+  if (!attendee) {
+    return { applied: false, summary: `No guest matches the invitation "${uid}".` };
+  }
+  if (attendee.event_cancelled_at) {
+    return { applied: false, attendeeId: attendee.id, summary: `${attendee.name} replied to ${attendee.event_title}, which was cancelled.` };
+  }
+  if (responsesClosed(attendee)) {
+    return { applied: false, attendeeId: attendee.id, summary: `${attendee.name} replied to ${attendee.event_title} after responses closed.` };
+  }
+
+  // Calendar apps answer with the address the invitation reached, which may be one of the guest's CCs
+  const primaryEmail = normalizeEmail(attendee.email);
+  const addresses = [primaryEmail, ...parseCCEmails(attendee.additional_emails ?? null, primaryEmail, attendee.id)];
+  const answers = vevent.properties.filter(p => p.name === 'ATTENDEE');
+  // Anyone else answering (someone the invitation was forwarded to, say) doesn't speak for the guest
+  const answer = answers.find(p => addresses.includes(normalizeEmail(p.value.replace(/^mailto:/i, ''))));
+  if (!answer) {
+    return { applied: false, attendeeId: attendee.id, summary: `No attendee in the reply to ${attendee.event_title} is one of ${attendee.name}'s addresses.` };
+  }
+  const partstat = (answer.params.PARTSTAT ?? '').toUpperCase();
+  const rsvp = PARTSTAT_RSVP[partstat];
+  if (!rsvp || !rsvpOptions(attendee.event_allow_maybe).includes(rsvp)) {
+    return { applied: false, attendeeId: attendee.id, summary: `${attendee.name} answered "${partstat || 'nothing'}" to ${attendee.event_title}, which isn't an RSVP option.` };
+  }
+
+  // Replies can arrive late or be read twice; an answer given since then wins
+  const sentAt = parseICSDate(firstProperty(vevent, 'DTSTAMP') ?? '');
+  if (sentAt !== undefined && attendee.responded_at && sentAt <= attendee.responded_at) {
+    return { applied: false, attendeeId: attendee.id, summary: `${attendee.name}'s calendar reply to ${attendee.event_title} is older than their latest response.` };
+  }
+
+  const from = normalizeEmail(answer.value.replace(/^mailto:/i, ''));
+  await submitRsvp(attendee, rsvp, attendee.party_size, { userAgent: `Calendar reply from ${from}` }, appBaseUrl);
+  return { applied: true, attendeeId: attendee.id, summary: `${attendee.name} said ${rsvp} to ${attendee.event_title}.` };
+}
+
+/**
+ * Record the answers in an iMIP REPLY message
+ * Other calendars in the message (e.g. our own request, quoted back) are ignored.
+ *
+ * @param message Raw email message, or a bare .ics file
+ * @param appBaseUrl Base URL for links in confirmation emails
+ * @returns One outcome per reply found (none if the message has no calendar reply)
+ */
+export async function applyCalendarReplies(message: Buffer, appBaseUrl: string): Promise<CalendarReplyOutcome[]> {
+  const outcomes: CalendarReplyOutcome[] = [];
+  for (const text of extractCalendars(message)) {
+    for (const calendar of parseCalendar(text).filter(c => c.name === 'VCALENDAR')) {
+      if (firstProperty(calendar, 'METHOD')?.toUpperCase() !== 'REPLY') continue;
+      for (const vevent of calendar.components.filter(c => c.name === 'VEVENT')) {
+        outcomes.push(await applyReply(vevent, appBaseUrl));
+      }
+    }
+  }
+  return outcomes;
+}
+
+// ============================================================================
+// Drops
+// ============================================================================
+
+/**
+ * Read calendar replies from a maildir, an mbox file or a single message file
+ * Maildir messages are moved from new/ to cur/ once read. Other files are read in full every time;
+ * replies already recorded are recognised by their timestamp and change nothing.
+ *
+ * @param dropPath Maildir directory, mbox file or .eml/.ics file
+ * @param appBaseUrl Base URL for links in confirmation emails
+ * @returns Outcomes of every reply found
+ * @throws MailboxError if the path is a directory but not a maildir
+ */
+export async function processCalendarReplyDrop(dropPath: string, appBaseUrl: string): Promise<CalendarReplyOutcome[]> {
+  return readMailDrop(dropPath, message => applyCalendarReplies(message, appBaseUrl));
+}
+
+/**
+ * Read CALENDAR_REPLY_DROP now and every few minutes (if it is set)
+ * @param appBaseUrl Base URL for links in confirmation emails
+ * @returns Timer handle (unref'd so it never keeps the process alive), or undefined if there is no drop
+ */
+export function startCalendarReplyPolling(appBaseUrl: string): NodeJS.Timeout | undefined {
+  const dropPath = CALENDAR_REPLY_DROP;
+  if (!dropPath) {
+    return undefined;
+  }
+
+  const run = () => {
+    processCalendarReplyDrop(dropPath, appBaseUrl)
+      .then(outcomes => outcomes.filter(o => o.applied).forEach(o => console.log(`Calendar reply: ${o.summary}`)))
+      .catch(err => console.error('Reading calendar replies failed:', err));
+  };
+  run();
+  return setInterval(run, CALENDAR_REPLY_INTERVAL_MS).unref();
+}
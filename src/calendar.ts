@@ -0,0 +1,122 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+// src/calendar.ts
+// The calendar file a guest gets for their invitation (download and email attachment),
+// and the iTIP request (or cancellation) embedded in emails for events that send calendar invitations
+
+import addressparser from 'addressparser';
+import type { EventRecord } from './database';
+import { buildCalendar, type IcsEvent, type IcsPerson } from './ics';
+import { getMailConfig } from './mail';
+import { getSeriesById } from './repository';
+import { seriesCalendarEvents } from './series';
+import { isValidToken } from './utils';
+
+/** Host name of the base URL, used in UIDs and PRODID */
+function calendarDomain(appBaseUrl: string): string {
+  return appBaseUrl.replace(/^https?:\/\//, '').split('/')[0];
+}
+
+/**
+ * The guest's own event, as it appears in their calendar file and their calendar invitation
+ * Both use the invitation UID, so calendar apps treat them as the same entry.
+ */
+function guestIcsEvent(event: EventRecord, token: string, appBaseUrl: string, timezone?: string | null): IcsEvent {
+  const rsvpLink = `${appBaseUrl}/rsvp/${token}`;
+  return {
+    uid: invitationUid(token, appBaseUrl),
+    sequence: event.sequence ?? 0,
+    status: event.cancelled_at ? 'CANCELLED' : null,
+    start: event.date,
+    end: event.date_end,
+    summary: event.title,
+    description: `${event.description || ''}\n\nManage your RSVP or view event details: ${rsvpLink}`,
+    locationName: event.location_name,
+    locationHref: event.location_href,
+    timezone,
+  };
+}
+
+/**
+ * Build a guest's calendar file for an event
+ * Occurrences of a series come with the rest of the series, so guests add it to their calendar once;
+ * their own date is left out of the series and given under their invitation UID.
+ * Once the event is cancelled, the file is a CANCEL of the guest's entry, which removes it from calendars.
+ *
+ * @param event Event
+ * @param token Guest's RSVP token
+ * @param appBaseUrl Base URL for RSVP links (its host is used in UIDs)
+ * @returns Suggested filename and iCalendar text
+ */
+export function buildGuestCalendar(event: EventRecord, token: string, appBaseUrl: string): { filename: string; content: string } {
+  const series = event.series_id ? getSeriesById(event.series_id) : undefined;
+  const domain = calendarDomain(appBaseUrl);
+  const own = guestIcsEvent(event, token, appBaseUrl, series?.timezone);
+
+  const filenameSafeTitle = (event.title || 'event').replace(/[^a-z0-9_.-]/gi, '_').substring(0, 50);
+  if (event.cancelled_at) {
+    return { filename: `${filenameSafeTitle}.ics`, content: buildCalendar([own], { domain, method: 'CANCEL' }) };
+  }
+  const icsEvents = series ? [...seriesCalendarEvents(series, event, domain), own] : [own];
+  return { filename: `${filenameSafeTitle}.ics`, content: buildCalendar(icsEvents, { domain }) };
+}
+
+// ============================================================================
+// Calendar Invitations (iTIP)
+// ============================================================================
+
+/**
+ * UID of a guest's event, in their calendar invitation and their calendar file
+ * It carries the guest's RSVP token, so a reply can only answer for the guest it was sent to.
+ */
+export function invitationUid(token: string, appBaseUrl: string): string {
+  return `invite-${token}@${calendarDomain(appBaseUrl)}`;
+}
+
+/**
+ * Get the RSVP token back from an invitation UID
+ * @param uid UID from a calendar reply
+ * @returns Token, or undefined if the UID isn't one of ours
+ */
+export function tokenFromInvitationUid(uid: string): string | undefined {
+  const token = uid.trim().match(/^invite-([^@]+)@/)?.[1];
+  return token && isValidToken(token) ? token : undefined;
+}
+
+/**
+ * The organizer of calendar invitations: the configured From address, where calendar apps send replies
+ */
+export function calendarOrganizer(): IcsPerson {
+  const [from] = addressparser(getMailConfig().from);
+  return { email: from?.address ?? getMailConfig().from, name: from?.name || null };
+}
+
+/** How a guest's answer is written in their calendar invitation */
+export const RSVP_PARTSTAT: Record<string, string> = {
+  yes: 'ACCEPTED',
+  maybe: 'TENTATIVE',
+  no: 'DECLINED',
+};
+
+/**
+ * Build the iTIP message for one guest's invitation
+ * While the event is on, it is a REQUEST: calendar apps show it with their own Yes/No buttons
+ * and mail the answer back to the organizer. Once the event is cancelled, it is a CANCEL of the same UID.
+ *
+ * @param event Event
+ * @param guest Guest the invitation is addressed to, with their answer so far (so an update keeps it)
+ * @param appBaseUrl Base URL for RSVP links (its host is used in the UID)
+ * @returns iCalendar text
+ */
+export function buildCalendarRequest(
+  event: EventRecord,
+  guest: { name: string; email: string; token: string; rsvp?: string | null },
+  appBaseUrl: string
+): string {
+  return buildCalendar([{
+    ...guestIcsEvent(event, guest.token, appBaseUrl),
+    organizer: calendarOrganizer(),
+    attendees: [{ email: guest.email, name: guest.name, partstat: RSVP_PARTSTAT[guest.rsvp ?? ''], rsvp: !event.cancelled_at }],
+  }], { domain: calendarDomain(appBaseUrl), method: event.cancelled_at ? 'CANCEL' : 'REQUEST' });
+}
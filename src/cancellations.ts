@@ -0,0 +1,37 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+// src/cancellations.ts
+// Cancelling an event: the cancellation email to every invited guest, which also removes it from their calendars
+
+import { kickEmailQueue, registerGuestEmailHandler } from './email-queue';
+import { sendCancellation } from './notifications';
+import { cancelEvent, enqueueEmailForInvited } from './repository';
+
+/**
+ * Cancel an event and queue a cancellation email for every guest who has been sent an invitation
+ * The event stays in the admin, marked cancelled; its RSVP page stops taking responses.
+ *
+ * @param eventId Event ID
+ * @param reason Reason to give guests (optional)
+ * @param appBaseUrl Base URL for links in the emails
+ * @returns Number of guests who will be emailed, or undefined if the event doesn't exist or was already cancelled
+ */
+export function cancelEventAndNotify(eventId: number, reason: string | null, appBaseUrl: string): number | undefined {
+  if (!cancelEvent(eventId, reason)) {
+    return undefined;
+  }
+  const queued = enqueueEmailForInvited('cancellation', eventId, { appBaseUrl });
+  if (queued > 0) {
+    kickEmailQueue();
+  }
+  return queued;
+}
+
+// Queued cancellations are sent by the email queue worker
+registerGuestEmailHandler(
+  'cancellation',
+  (attendee, primaryEmail, ccEmails, event, { appBaseUrl }) => sendCancellation(attendee, primaryEmail, ccEmails, event, appBaseUrl),
+  () => null,
+  { requireCancelled: true }
+);
@@ -0,0 +1,158 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+// src/cli.ts
+// Command-line maintenance tasks: `node dist/cli.js <command>`
+
+import * as Database from 'better-sqlite3';
+import { MIGRATIONS, getMigrationStatus, getPendingMigrations, runMigrations } from './migrations';
+import { closeDatabase, initializeDatabase } from './database';
+import { createBackup, pruneBackups, restoreBackup } from './backup';
+import { describeMailConfig, getMailConfig, sendMail } from './mail';
+import { processCalendarReplyDrop } from './calendar-replies';
+import { processBounceDrop } from './bounces';
+
+const DB_PATH = process.env.DB_PATH ?? './rsvp.sqlite';
+
+// ============================================================================
+// Commands
+// ============================================================================
+
+/**
+ * Print applied, failed and pending migrations without changing anything
+ */
+function migrationStatus(): void {
+  const db = new Database.default(DB_PATH);
+  const recorded = getMigrationStatus(db);
+  const pending = getPendingMigrations(db);
+
+  console.log(`Database: ${DB_PATH}`);
+  recorded.forEach(m => {
+    const state = m.applied_at !== null ? `applied ${new Date(m.applied_at).toISOString()}` : 'FAILED (never completed)';
+    console.log(`  ${m.version}  ${m.name}  [${state}]`);
+  });
+  pending.forEach(m => console.log(`  ${m.version}  ${m.name}  [pending]`));
+  console.log(`${pending.length} of ${MIGRATIONS.length} migration(s) pending.`);
+  db.close();
+}
+
+/**
+ * Apply pending migrations
+ */
+function migrate(): void {
+  const db = new Database.default(DB_PATH);
+  runMigrations(db);
+  console.log('Database is up to date.');
+  db.close();
+}
+
+/**
+ * Take a backup into BACKUP_DIR and apply the retention policy
+ */
+async function backup(): Promise<void> {
+  initializeDatabase(DB_PATH);
+  const created = await createBackup();
+  await pruneBackups();
+  console.log(`Backup written: ${created.filename}`);
+  closeDatabase();
+}
+
+/**
+ * Replace the database and banner uploads with a backup archive
+ * Odette must not be running: it would keep using the old database file.
+ */
+async function restore(args: string[]): Promise<void> {
+  const [archivePath] = args;
+  if (!archivePath) {
+    throw new Error('Usage: restore <backup.tar.gz>');
+  }
+  const result = await restoreBackup(archivePath);
+  console.log(`Restored backup taken ${new Date(result.manifest.created_at).toISOString()} (schema version ${result.manifest.schema_version}).`);
+  if (result.previousDatabasePath) {
+    console.log(`The previous database was kept at ${result.previousDatabasePath}.`);
+  }
+  closeDatabase();
+}
+
+/**
+ * Send a test message through the configured mail transport
+ */
+async function sendTestEmail(args: string[]): Promise<void> {
+  const [to] = args;
+  if (!to) {
+    throw new Error('Usage: send-test-email <address>');
+  }
+  console.log(`Mail transport: ${describeMailConfig(getMailConfig())}`);
+  const sent = await sendMail({
+    to,
+    subject: 'Odette test message',
+    text: 'If you can read this, Odette can send mail.',
+  });
+  console.log(`Sent ${sent.messageId}${sent.outboxPath ? ` to ${sent.outboxPath}` : ''}.`);
+}
+
+/**
+ * Record guests' calendar replies from maildirs, mbox files or saved messages
+ */
+async function ingestReplies(args: string[]): Promise<void> {
+  if (args.length === 0) {
+    throw new Error('Usage: ingest-replies <maildir|mbox|message.eml>...');
+  }
+  initializeDatabase(DB_PATH);
+  const appBaseUrl = process.env.APP_BASE_URL ?? `http://localhost:${process.env.PORT ?? '3000'}`;
+  for (const dropPath of args) {
+    const outcomes = await processCalendarReplyDrop(dropPath, appBaseUrl);
+    outcomes.forEach(o => console.log(`${o.applied ? 'Recorded' : 'Skipped'}: ${o.summary}`));
+    console.log(`${dropPath}: ${outcomes.filter(o => o.applied).length} of ${outcomes.length} calendar reply(s) recorded.`);
+  }
+  // The database stays open: confirmation emails queued above may still be on their way out
+}
+
+/**
+ * Record bounces from maildirs, mbox files or saved messages
+ */
+async function ingestBounces(args: string[]): Promise<void> {
+  if (args.length === 0) {
+    throw new Error('Usage: ingest-bounces <maildir|mbox|message.eml>...');
+  }
+  initializeDatabase(DB_PATH);
+  for (const dropPath of args) {
+    const outcomes = await processBounceDrop(dropPath);
+    outcomes.forEach(o => console.log(`${o.recorded ? 'Recorded' : 'Skipped'}: ${o.summary}`));
+    console.log(`${dropPath}: ${outcomes.filter(o => o.recorded).length} of ${outcomes.length} bounce(s) recorded.`);
+  }
+  closeDatabase();
+}
+
+const commands: Record<string, { run: (args: string[]) => void | Promise<void>; help: string }> = {
+  'migrations': { run: migrationStatus, help: 'list applied and pending schema migrations' },
+  'migrate': { run: migrate, help: 'apply pending schema migrations' },
+  'backup': { run: backup, help: 'snapshot the database and banners into BACKUP_DIR' },
+  'restore': { run: restore, help: 'restore a backup archive (stop the server first)' },
+  'send-test-email': { run: sendTestEmail, help: 'send a test message through the configured mail transport' },
+  'ingest-replies': { run: ingestReplies, help: 'record guests\' calendar replies from a maildir, mbox or .eml file' },
+  'ingest-bounces': { run: ingestBounces, help: 'flag guests whose email bounced, from a maildir, mbox or .eml file' },
+};
+
+// ============================================================================
+// Entry Point
+// ============================================================================
+
+async function main(argv: string[]): Promise<void> {
+  const [name, ...args] = argv;
+  const command = name ? commands[name] : undefined;
+
+  if (!command) {
+    console.log('Usage: node dist/cli.js <command> [args]\n\nCommands:');
+    Object.entries(commands).forEach(([n, c]) => console.log(`  ${n.padEnd(20)} ${c.help}`));
+    process.exitCode = name ? 1 : 0;
+    return;
+  }
+
+  await command.run(args);
+}
+
+main(process.argv.slice(2)).catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
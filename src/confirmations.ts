@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+// src/confirmations.ts
+// RSVP confirmation emails, queued when a guest responds to an event that has them turned on
+
+import type { EventRecord } from './database';
+import { kickEmailQueue, registerGuestEmailHandler } from './email-queue';
+import { sendConfirmation } from './notifications';
+import { enqueueEmail } from './repository';
+
+/**
+ * Queue a confirmation of a guest's response, if their event sends them
+ * The email describes the guest's answer when it is sent, so quick changes are covered by one message.
+ *
+ * @param event Event
+ * @param attendeeId Attendee who responded
+ * @param appBaseUrl Base URL for RSVP links
+ * @returns Whether a confirmation is on its way
+ */
+export function queueConfirmation(event: EventRecord, attendeeId: number, appBaseUrl: string): boolean {
+  if (!event.send_confirmations) return false;
+  enqueueEmail('confirmation', event.id, attendeeId, { appBaseUrl });
+  kickEmailQueue();
+  return true;
+}
+
+// Queued confirmations are sent by the email queue worker
+registerGuestEmailHandler(
+  'confirmation',
+  (attendee, primaryEmail, ccEmails, event, { appBaseUrl }) => sendConfirmation(attendee, primaryEmail, ccEmails, event, appBaseUrl),
+  (attendee) => attendee.rsvp ? null : 'they have no response on record'
+);
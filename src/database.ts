@@ -2,9 +2,11 @@
 // Copyright (C) 2025 Chris Danis
 
 // src/database.ts
-// Database initialization, migrations, types, and data access layer
+// Database connection, shared types, attendee upserts and statistics
 
 import * as Database from 'better-sqlite3';
+import { runMigrations } from './migrations';
+import { generateToken, normalizeAdditionalEmails, normalizeEmail } from './utils';
 
 // ============================================================================
 // Types
@@ -20,6 +22,19 @@ export type EventRecord = {
   location_href?: string | null;
   date_end?: number | null;
   timezone?: string | null;
+  archived_at?: number | null;
+  delete_requested_at?: number | null; // Deleted for good once the grace period passes
+  series_id?: number | null; // Set for occurrences of a recurring series
+  occurrence_start?: number | null; // Start the series scheduled this occurrence for (the date may since have been moved)
+  send_confirmations?: number; // 1 = email guests a confirmation of each response
+  calendar_invites?: number; // 1 = invitations carry an iTIP request guests can answer from their calendar
+  sequence?: number; // iCalendar SEQUENCE: bumped whenever the time or place changes, so calendar entries update in place
+  cancelled_at?: number | null; // Set = cancelled: the RSVP page is closed and calendars get a CANCEL
+  cancellation_reason?: string | null; // Told to guests in the cancellation email and on the RSVP page
+  allow_maybe?: number; // 1 = guests can answer "maybe" as well as yes or no
+  capacity?: number | null; // Most people who can come; further yeses go on the waitlist (NULL = no limit)
+  rsvp_deadline?: number | null; // Guests can't change their answer after this (NULL = until the event)
+  responses_reopened?: number; // 1 = guests can answer again although the deadline has passed
 };
 
 export type AttendeeView = { 
@@ -40,7 +55,14 @@ export type AttendeeView = {
   event_location_href?: string | null;
   event_date_end?: number | null;
   event_timezone?: string | null; 
+  event_cancelled_at?: number | null;
+  event_cancellation_reason?: string | null;
+  event_allow_maybe?: number;
+  event_rsvp_deadline?: number | null;
+  event_responses_reopened?: number;
   additional_emails?: string | null; // JSON string
+  waitlisted_at?: number | null;
+  late_rsvp_allowed?: number;
 };
 
 export type EventAttendeeView = { 
@@ -55,6 +77,11 @@ export type EventAttendeeView = {
   responded_at: number | null; 
   last_modified: number | null;
   additional_emails?: string | null; // JSON string
+  viewed_at?: number | null; // First time the guest opened their RSVP link
+  contact_id?: number | null;
+  last_delivery_error?: string | null; // Set when the most recent email to them failed
+  waitlisted_at?: number | null; // Set = said yes while the event was full, and still waiting for a place
+  late_rsvp_allowed?: number; // 1 = the host lets this guest answer after the RSVP deadline
 };
 
 export interface AttendeeStats {
@@ -62,18 +89,280 @@ export interface AttendeeStats {
   guestsNotSent: number;
   guestsInvited: number;
   guestsAwaitingReply: number;
+  guestsViewedNotResponded: number;
   guestsAttending: number;
   guestsNotAttending: number;
+  guestsMaybe: number;
+  guestsWaitlisted: number; // Said yes, but waiting for a place
+  invitationsFailed: number; // Attendees (not guests) whose most recent invitation failed to send
 }
 
 interface ExistingAttendee { 
   id: number; 
   party_size: number; 
   additional_emails?: string | null; // JSON string
+  contact_id: number | null;
 }
 
 export type EventRecordWithStats = EventRecord & { stats: AttendeeStats };
 
+export type RsvpHistoryEntry = {
+  id: number;
+  attendee_id: number;
+  changed_at: number;
+  old_rsvp: string | null;
+  old_party_size: number | null;
+  new_rsvp: string;
+  new_party_size: number;
+  user_agent: string | null;
+  ip: string | null;
+};
+
+/** Editable event fields, as submitted by the admin event forms */
+export type EventInput = {
+  title: string;
+  date: number;
+  description: string | null;
+  location_name: string | null;
+  location_href: string | null;
+  date_end: number | null;
+  timezone: string | null;
+};
+
+/** The attendee fields needed to send an invitation */
+export type Invitee = {
+  id: number;
+  name: string;
+  email: string;
+  token: string;
+  event_id: number;
+  additional_emails: string | null;
+  party_size?: number;
+  rsvp?: string | null; // Their answer so far, carried into calendar invitations
+  waitlisted_at?: number | null;
+};
+
+export interface RsvpRequestInfo {
+  userAgent?: string | null;
+  ip?: string | null;
+}
+
+/** A person in the contact directory; attendees link to it by contact_id */
+export type ContactRecord = {
+  id: number;
+  name: string;
+  email: string; // Primary email, unique across contacts
+  additional_emails: string | null; // JSON string
+  created_at: number;
+  updated_at: number;
+};
+
+export type ContactListEntry = ContactRecord & {
+  event_count: number;
+  last_event_date: number | null;
+};
+
+/** One event a contact was invited to, and how they responded */
+export type ContactEventEntry = {
+  attendee_id: number;
+  event_id: number;
+  event_title: string;
+  event_date: number;
+  is_sent: number;
+  rsvp: string | null;
+  party_size: number;
+  responded_at: number | null;
+  tags: string | null; // Space-separated
+};
+
+/** A recurring event; its occurrences are ordinary events with series_id set */
+export type SeriesRecord = {
+  id: number;
+  title: string;
+  description: string | null;
+  location_name: string | null;
+  location_href: string | null;
+  timezone: string; // Recurrence is expanded in this zone, so occurrences keep their local time across DST
+  dtstart: number; // First occurrence
+  duration_ms: number | null;
+  rrule: string; // RFC 5545 RRULE value, e.g. "FREQ=MONTHLY;BYDAY=+2FR"
+  exdates: string; // JSON array of skipped occurrence starts
+  horizon_days: number; // How far ahead occurrences are created
+  created_at: number;
+};
+
+/** Editable series fields */
+export type SeriesInput = Omit<SeriesRecord, 'id' | 'exdates' | 'created_at'>;
+
+/** Someone on a series' shared guest list, with their current contact details */
+export type SeriesMember = {
+  contact_id: number;
+  name: string;
+  email: string;
+  additional_emails: string | null; // JSON string
+  party_size: number;
+};
+
+/** One attempt at emailing an attendee, successful or not */
+export type Delivery = {
+  id: number;
+  attendee_id: number;
+  kind: string; // Email queue kind: 'invitation', ...
+  attempted_at: number;
+  message_id: string | null; // Message-ID of the sent message
+  to_address: string;
+  cc_addresses: string; // JSON array
+  error: string | null; // Null when the message was handed over successfully
+  payload: string | null; // JSON queue payload the email was sent with, if it came from the queue
+};
+
+/** A recipient of a delivery that bounced, with the attendee it was for */
+export type BounceView = {
+  id: number;
+  delivery_id: number;
+  attendee_id: number;
+  attendee_name: string;
+  kind: string; // Kind of email that bounced
+  recipient: string;
+  status: string | null; // DSN status, e.g. 5.1.1
+  diagnostic: string | null; // The receiving server's explanation, e.g. "550 5.1.1 User unknown"
+  received_at: number;
+};
+
+/** Who a reminder rule emails: guests who said yes, guests who said maybe, or guests who haven't replied */
+export type ReminderAudience = 'attending' | 'maybe' | 'no_reply';
+
+/** Email some of an event's guests a number of days before it starts */
+export type ReminderRule = {
+  id: number;
+  event_id: number;
+  days_before: number;
+  audience: ReminderAudience;
+  created_at: number;
+};
+
+export type ReminderRuleView = ReminderRule & {
+  queued: number; // Guests it has been queued for so far
+};
+
+export type RsvpQuestionType = 'text' | 'long_text' | 'single_choice' | 'multi_choice' | 'number';
+
+/** A question on an event's RSVP form, e.g. a meal choice */
+export type RsvpQuestion = {
+  id: number;
+  event_id: number;
+  position: number;
+  type: RsvpQuestionType;
+  label: string;
+  options: string; // JSON array of choices (choice questions only)
+  required: number; // 1 = must be answered
+  attending_only: number; // 1 = only asked of guests who say yes
+  per_person: number; // 1 = asked of everyone in the party, not once per response
+  created_at: number;
+};
+
+/** A guest's answer: text, a number, or the options picked for a multi-choice question */
+export type RsvpAnswer = string | number | string[];
+
+/** A guest's answers, by question ID */
+export type RsvpAnswers = Record<number, RsvpAnswer>;
+
+/** Someone coming with a guest, named on the RSVP form */
+export type PartyMember = {
+  id: number;
+  attendee_id: number;
+  position: number; // 2 for the first person after the guest
+  name: string;
+  answers: RsvpAnswers; // Answers to the per-person questions
+};
+
+/** A party member as submitted on the RSVP form, in order */
+export type PartyMemberInput = Pick<PartyMember, 'name' | 'answers'>;
+
+export type EmailJobStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+/** A queued outgoing email; `kind` selects the handler that builds and sends it */
+export type EmailJob = {
+  id: number;
+  kind: string;
+  event_id: number | null;
+  attendee_id: number | null;
+  payload: string | null; // JSON, handler-specific
+  status: EmailJobStatus; // failed = gave up (dead letter)
+  attempts: number;
+  next_attempt_at: number;
+  last_attempt_at: number | null;
+  last_error: string | null;
+  created_at: number;
+  sent_at: number | null;
+};
+
+/** Progress of an event's queued emails */
+export interface EmailQueueStats {
+  pending: number;
+  sending: number;
+  sent: number; // Since the oldest unsent message was queued (0 once nothing is waiting)
+  failed: number;
+  retrying: number; // Pending after at least one failed attempt
+  nextAttemptAt: number | null;
+}
+
+/** The settings of an event beyond its editable fields, as they travel with it (event export/import) */
+export type EventSettings = {
+  send_confirmations: number;
+  calendar_invites: number;
+  allow_maybe: number;
+  capacity: number | null;
+  rsvp_deadline: number | null;
+  responses_reopened: number;
+};
+
+/** An RSVP question as it travels with its event (event export/import) */
+export type QuestionSnapshot = Pick<RsvpQuestion, 'type' | 'label' | 'required' | 'attending_only' | 'per_person'> & {
+  options: string[];
+};
+
+/** A reminder rule as it travels with its event (event export/import) */
+export type ReminderRuleSnapshot = Pick<ReminderRule, 'days_before' | 'audience'>;
+
+/**
+ * Everything needed to recreate an attendee in another instance (event export/import)
+ * Answers and reminders refer to the event's questions and reminder rules by their position in its snapshot.
+ */
+export type AttendeeSnapshot = {
+  name: string;
+  email: string;
+  additional_emails: string[];
+  party_size: number;
+  token: string;
+  is_sent: number;
+  rsvp: string | null;
+  responded_at: number | null;
+  last_modified: number | null;
+  viewed_at: number | null;
+  waitlisted_at: number | null; // Keeps their place in the waitlist
+  late_rsvp_allowed: number;
+  history: Omit<RsvpHistoryEntry, 'id' | 'attendee_id'>[];
+  tags: string[];
+  answers: RsvpAnswers; // By question position
+  members: PartyMemberInput[]; // Their answers by question position too
+  reminded: number[]; // Positions of the reminder rules already queued for them
+};
+
+/** Everything needed to recreate an event in another instance, apart from its banner (event export/import) */
+export type EventSnapshot = {
+  event: EventInput & EventSettings;
+  questions: QuestionSnapshot[];
+  reminder_rules: ReminderRuleSnapshot[];
+  attendees: AttendeeSnapshot[];
+};
+
+/** Attendee statistics for the attendees of an event that carry one tag */
+export type TagStats = AttendeeStats & {
+  tag: string;
+  attendees: number;
+};
+
 // ============================================================================
 // Database Connection
 // ============================================================================
@@ -87,83 +376,8 @@ let database: Database.Database;
  */
 export function initializeDatabase(dbPath: string): Database.Database {
   database = new Database.default(dbPath);
-  
-  // Create tables if they don't exist
-  database.prepare(`CREATE TABLE IF NOT EXISTS events (
-    id INTEGER PRIMARY KEY,
-    title TEXT NOT NULL,
-    date INTEGER NOT NULL,
-    description TEXT,
-    banner_image_filename TEXT,
-    location_name TEXT,
-    location_href TEXT,
-    date_end INTEGER,
-    timezone TEXT
-  )`).run();
-
-  database.prepare(`CREATE TABLE IF NOT EXISTS attendees (
-    id INTEGER PRIMARY KEY,
-    event_id INTEGER NOT NULL,
-    name TEXT NOT NULL,
-    email TEXT NOT NULL,
-    party_size INTEGER NOT NULL DEFAULT 1,
-    token TEXT NOT NULL UNIQUE,
-    is_sent INTEGER NOT NULL DEFAULT 0,
-    rsvp TEXT DEFAULT NULL,
-    responded_at INTEGER DEFAULT NULL,
-    last_modified INTEGER,
-    additional_emails TEXT,
-    FOREIGN KEY(event_id) REFERENCES events(id) ON DELETE CASCADE
-  )`).run();
-
-  // Run migrations for events table
-  const columnsToAddEvents = [
-    { name: 'banner_image_filename', type: 'TEXT' },
-    { name: 'location_name', type: 'TEXT' },
-    { name: 'location_href', type: 'TEXT' },
-    { name: 'date_end', type: 'INTEGER' },
-    { name: 'timezone', type: 'TEXT' }
-  ];
-
-  columnsToAddEvents.forEach(col => {
-    try {
-      database.prepare(`SELECT ${col.name} FROM events LIMIT 1`).get();
-    } catch (error) {
-      console.log(`Attempting to add ${col.name} column to events table...`);
-      try {
-        database.prepare(`ALTER TABLE events ADD COLUMN ${col.name} ${col.type}`).run();
-        console.log(`Column ${col.name} added successfully.`);
-      } catch (alterError) {
-        console.error(`Failed to add ${col.name} column:`, alterError);
-      }
-    }
-  });
-
-  // Run migrations for attendees table
-  try {
-    database.prepare(`SELECT last_modified FROM attendees LIMIT 1`).get();
-  } catch (error) {
-    console.log(`Attempting to add last_modified column to attendees table...`);
-    try {
-      database.prepare(`ALTER TABLE attendees ADD COLUMN last_modified INTEGER`).run();
-      console.log(`Column last_modified added successfully to attendees table.`);
-    } catch (alterError) {
-      console.error(`Failed to add last_modified column to attendees:`, alterError);
-    }
-  }
-
-  try {
-    database.prepare(`SELECT additional_emails FROM attendees LIMIT 1`).get();
-  } catch (error) {
-    console.log(`Attempting to add additional_emails column to attendees table...`);
-    try {
-      database.prepare(`ALTER TABLE attendees ADD COLUMN additional_emails TEXT CHECK(json_valid(additional_emails) AND json_type(additional_emails) IN ('array', 'null'))`).run();
-      console.log(`Column additional_emails added successfully to attendees table.`);
-    } catch (alterError) {
-      console.error(`Failed to add additional_emails column to attendees:`, alterError);
-    }
-  }
-
+  database.pragma('foreign_keys = ON'); // Needed for ON DELETE CASCADE
+  runMigrations(database);
   return database;
 }
 
@@ -178,10 +392,40 @@ export function getDatabase(): Database.Database {
   return database;
 }
 
+/**
+ * Close the database connection, if open (used when swapping in a restored backup)
+ */
+export function closeDatabase(): void {
+  if (database?.open) {
+    database.close();
+  }
+}
+
 // ============================================================================
 // Data Access Functions
 // ============================================================================
 
+/**
+ * Find the contact with a primary email, creating it if there is none
+ * Existing contacts are left unchanged; they are edited from the contacts page.
+ *
+ * @param name Name for a new contact
+ * @param email Primary email (already trimmed and lowercased)
+ * @param additionalEmailsJson Additional emails for a new contact, as a JSON array string or null
+ * @returns Contact ID
+ */
+export function ensureContact(name: string, email: string, additionalEmailsJson: string | null): number {
+  const db = getDatabase();
+  const existing = db.prepare('SELECT id FROM contacts WHERE email = ?').get(email) as { id: number } | undefined;
+  if (existing) {
+    return existing.id;
+  }
+  const now = Date.now();
+  const result = db.prepare('INSERT INTO contacts (name, email, additional_emails, created_at, updated_at) VALUES (?,?,?,?,?)')
+    .run(name || email, email, additionalEmailsJson, now, now);
+  return Number(result.lastInsertRowid);
+}
+
 /**
  * Upsert an attendee - creates if doesn't exist, updates if exists
  * This is the ONLY way to create/update attendees to ensure consistency
@@ -191,17 +435,19 @@ export function getDatabase(): Database.Database {
  * @param primaryEmail Primary email (will be trimmed and lowercased)
  * @param party_size Party size (optional, defaults to 1, only updated if no RSVP exists)
  * @param additionalEmailsArray Array of additional CC emails (optional, undefined preserves existing)
+ * @param tags Tags to add (optional, already parsed; existing tags are never removed)
  */
 export function upsertAttendee(
   event_id: number, 
   name: string, 
   primaryEmail: string, 
   party_size?: number, 
-  additionalEmailsArray?: string[]
+  additionalEmailsArray?: string[],
+  tags?: string[]
 ): void {
   const db = getDatabase();
-  const stmtSelect = db.prepare('SELECT id, party_size, additional_emails FROM attendees WHERE event_id=? AND email=?');
-  const trimmedPrimaryEmail = primaryEmail.trim().toLowerCase();
+  const stmtSelect = db.prepare('SELECT id, party_size, additional_emails, contact_id FROM attendees WHERE event_id=? AND email=?');
+  const trimmedPrimaryEmail = normalizeEmail(primaryEmail);
   const existing = stmtSelect.get(event_id, trimmedPrimaryEmail) as ExistingAttendee | undefined;
   const finalPartySize = party_size === undefined || isNaN(party_size) || party_size < 1 ? 1 : party_size;
   const now = Date.now();
@@ -211,11 +457,7 @@ export function upsertAttendee(
   // signaling that the additional_emails field should not be modified for existing attendees.
   let additionalEmailsJson: string | null | undefined = undefined;
   if (additionalEmailsArray !== undefined) {
-    const uniqueAdditionalEmails = [...new Set(
-      additionalEmailsArray
-        .map(e => e.trim().toLowerCase())
-        .filter(e => e && e !== trimmedPrimaryEmail)
-    )];
+    const uniqueAdditionalEmails = normalizeAdditionalEmails(additionalEmailsArray, trimmedPrimaryEmail);
     additionalEmailsJson = uniqueAdditionalEmails.length > 0 ? JSON.stringify(uniqueAdditionalEmails) : null;
   }
 
@@ -248,54 +490,127 @@ export function upsertAttendee(
       }
     }
     
+    if (existing.contact_id === null) {
+      updateQuery += ', contact_id=?';
+      updateParams.push(ensureContact(name, trimmedPrimaryEmail, additionalEmailsJson ?? existing.additional_emails ?? null));
+    }
+    
     updateParams.push(attendeeId);
 
     // Run update (last_modified always updates, other fields conditionally)
     db.prepare(`${updateQuery} WHERE id=?`).run(...updateParams);
+    addAttendeeTags(attendeeId, tags);
   } else {
-    const { generateToken } = require('./utils');
     const token = generateToken();
     // For new attendees, if additionalEmailsJson is undefined (because array wasn't passed),
     // it defaults to null for the database insert.
     const finalAdditionalEmailsJsonForInsert = additionalEmailsJson === undefined ? null : additionalEmailsJson;
-    db.prepare('INSERT INTO attendees (event_id,name,email,party_size,token,last_modified,additional_emails) VALUES (?,?,?,?,?,?,?)')
-      .run(event_id, name, trimmedPrimaryEmail, finalPartySize, token, now, finalAdditionalEmailsJsonForInsert);
+    const contactId = ensureContact(name, trimmedPrimaryEmail, finalAdditionalEmailsJsonForInsert);
+    const result = db.prepare('INSERT INTO attendees (event_id,name,email,party_size,token,last_modified,additional_emails,contact_id) VALUES (?,?,?,?,?,?,?,?)')
+      .run(event_id, name, trimmedPrimaryEmail, finalPartySize, token, now, finalAdditionalEmailsJsonForInsert, contactId);
+    addAttendeeTags(Number(result.lastInsertRowid), tags);
   }
 }
 
+/**
+ * Add tags to an attendee, ignoring ones it already has
+ * @param attendeeId Attendee ID
+ * @param tags Tags (already parsed), or undefined for none
+ */
+export function addAttendeeTags(attendeeId: number, tags: string[] | undefined): void {
+  if (!tags || tags.length === 0) return;
+  const stmt = getDatabase().prepare('INSERT OR IGNORE INTO attendee_tags (attendee_id, tag) VALUES (?, ?)');
+  tags.forEach(tag => stmt.run(attendeeId, tag));
+}
+
+// Delivery-log expressions for an attendee aliased as "a"
+/** 1 if an invitation was ever sent successfully, else 0 */
+export const INVITATION_SENT_SQL =
+  `EXISTS (SELECT 1 FROM deliveries d WHERE d.attendee_id = a.id AND d.kind = 'invitation' AND d.error IS NULL)`;
+/** Error of the most recent delivery attempt, NULL if it succeeded or nothing was attempted */
+export const LAST_DELIVERY_ERROR_SQL =
+  `(SELECT d.error FROM deliveries d WHERE d.attendee_id = a.id ORDER BY d.attempted_at DESC, d.id DESC LIMIT 1)`;
+
+// Each attendee's invitation attempts, summed up in one pass over the delivery log; join it as "inv"
+// after attendees aliased as "a". sent: 1 if one ever went out; last_error: the latest attempt's error (NULL if it succeeded)
+const INVITATION_SUMMARY_JOIN = `
+     LEFT JOIN (
+       SELECT attendee_id, MAX(error IS NULL) AS sent, MAX(CASE WHEN latest = 1 THEN error END) AS last_error
+       FROM (SELECT attendee_id, error, ROW_NUMBER() OVER (PARTITION BY attendee_id ORDER BY attempted_at DESC, id DESC) AS latest
+             FROM deliveries WHERE kind = 'invitation')
+       GROUP BY attendee_id
+     ) inv ON inv.attendee_id = a.id`;
+
+// Guest counts shared by the per-event and per-tag statistics; expects attendees aliased as "a" and INVITATION_SUMMARY_JOIN
+const ATTENDEE_STATS_COLUMNS = `
+            COALESCE(SUM(a.party_size), 0) AS potentialGuests,
+            COALESCE(SUM(CASE WHEN inv.sent IS NOT 1 THEN a.party_size ELSE 0 END), 0) AS guestsNotSent,
+            COALESCE(SUM(CASE WHEN inv.sent = 1 THEN a.party_size ELSE 0 END), 0) AS guestsInvited,
+            COALESCE(SUM(CASE WHEN inv.sent = 1 AND a.rsvp IS NULL THEN a.party_size ELSE 0 END), 0) AS guestsAwaitingReply,
+            COALESCE(SUM(CASE WHEN inv.sent = 1 AND a.rsvp IS NULL AND a.viewed_at IS NOT NULL THEN a.party_size ELSE 0 END), 0) AS guestsViewedNotResponded,
+            COALESCE(SUM(CASE WHEN inv.sent = 1 AND a.rsvp = 'yes' AND a.waitlisted_at IS NULL THEN a.party_size ELSE 0 END), 0) AS guestsAttending,
+            COALESCE(SUM(CASE WHEN inv.sent = 1 AND a.rsvp = 'no' THEN a.party_size ELSE 0 END), 0) AS guestsNotAttending,
+            COALESCE(SUM(CASE WHEN inv.sent = 1 AND a.rsvp = 'maybe' THEN a.party_size ELSE 0 END), 0) AS guestsMaybe,
+            COALESCE(SUM(CASE WHEN inv.sent = 1 AND a.rsvp = 'yes' AND a.waitlisted_at IS NOT NULL THEN a.party_size ELSE 0 END), 0) AS guestsWaitlisted,
+            COUNT(inv.last_error) AS invitationsFailed`;
+
+/**
+ * Get attendee statistics for many events at once, using a single grouped query
+ * @param eventIds Events to include (all events if omitted)
+ * @returns Statistics keyed by event ID; every requested event that exists has an entry
+ */
+export function getAttendeeStatsForEvents(eventIds?: number[]): Map<number, AttendeeStats> {
+  const db = getDatabase();
+  const stats = new Map<number, AttendeeStats>();
+  if (eventIds && eventIds.length === 0) return stats;
+
+  const where = eventIds ? `WHERE e.id IN (${eventIds.map(() => '?').join(',')})` : '';
+  const rows = db.prepare(
+    `SELECT e.id AS event_id,${ATTENDEE_STATS_COLUMNS}
+     FROM events e
+     LEFT JOIN attendees a ON a.event_id = e.id${INVITATION_SUMMARY_JOIN}
+     ${where}
+     GROUP BY e.id`
+  ).all(...(eventIds ?? [])) as (AttendeeStats & { event_id: number })[];
+
+  rows.forEach(({ event_id, ...row }) => stats.set(event_id, row));
+  return stats;
+}
+
 /**
  * Get attendee statistics for an event
  * @param eventId Event ID
  * @returns Statistics about attendees and RSVPs
  */
 export function getEventAttendeeStats(eventId: number): AttendeeStats {
-  const db = getDatabase();
-  const stats: AttendeeStats = {
+  return getAttendeeStatsForEvents([eventId]).get(eventId) ?? {
     potentialGuests: 0,
     guestsNotSent: 0,
     guestsInvited: 0,
     guestsAwaitingReply: 0,
+    guestsViewedNotResponded: 0,
     guestsAttending: 0,
     guestsNotAttending: 0,
+    guestsMaybe: 0,
+    guestsWaitlisted: 0,
+    invitationsFailed: 0,
   };
+}
 
-  const potentialGuestsRow = db.prepare('SELECT SUM(party_size) as sum_party FROM attendees WHERE event_id = ?').get(eventId) as { sum_party: number | null };
-  stats.potentialGuests = potentialGuestsRow?.sum_party ?? 0;
-
-  const notSentRow = db.prepare('SELECT SUM(party_size) as sum_party FROM attendees WHERE event_id = ? AND is_sent = 0').get(eventId) as { sum_party: number | null };
-  stats.guestsNotSent = notSentRow?.sum_party ?? 0;
-
-  const invitedRow = db.prepare('SELECT SUM(party_size) as sum_party FROM attendees WHERE event_id = ? AND is_sent = 1').get(eventId) as { sum_party: number | null };
-  stats.guestsInvited = invitedRow?.sum_party ?? 0;
-  
-  const awaitingReplyRow = db.prepare('SELECT SUM(party_size) as sum_party FROM attendees WHERE event_id = ? AND is_sent = 1 AND rsvp IS NULL').get(eventId) as { sum_party: number | null };
-  stats.guestsAwaitingReply = awaitingReplyRow?.sum_party ?? 0;
-
-  const attendingRow = db.prepare("SELECT SUM(party_size) as sum_party FROM attendees WHERE event_id = ? AND is_sent = 1 AND rsvp = 'yes'").get(eventId) as { sum_party: number | null };
-  stats.guestsAttending = attendingRow?.sum_party ?? 0;
-
-  const notAttendingRow = db.prepare("SELECT SUM(party_size) as sum_party FROM attendees WHERE event_id = ? AND is_sent = 1 AND rsvp = 'no'").get(eventId) as { sum_party: number | null };
-  stats.guestsNotAttending = notAttendingRow?.sum_party ?? 0;
-
-  return stats;
+/**
+ * Get attendee statistics for each tag used in an event
+ * An attendee with several tags is counted under each of them.
+ *
+ * @param eventId Event ID
+ * @returns Statistics per tag, ordered by tag
+ */
+export function getEventTagStats(eventId: number): TagStats[] {
+  return getDatabase().prepare(
+    `SELECT t.tag, COUNT(*) AS attendees,${ATTENDEE_STATS_COLUMNS}
+     FROM attendee_tags t
+     JOIN attendees a ON a.id = t.attendee_id${INVITATION_SUMMARY_JOIN}
+     WHERE a.event_id = ?
+     GROUP BY t.tag
+     ORDER BY t.tag`
+  ).all(eventId) as TagStats[];
 }
@@ -0,0 +1,253 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+// src/email-queue.ts
+// Durable outgoing email queue: rate-limited background sending with retry, backoff and dead letters
+
+import type { EmailJob, EventAttendeeView, EventRecord } from './database';
+import type { SentMail } from './mail';
+import {
+  countEmailAttemptsSince,
+  getAttendeeById,
+  getEventById,
+  listDueEmailJobs,
+  markEmailJobFailed,
+  markEmailJobSending,
+  markEmailJobSent,
+  recordDelivery,
+  requeueInterruptedEmailJobs,
+} from './repository';
+import { normalizeEmail, parseCCEmails } from './utils';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export const EMAIL_RATE_PER_MINUTE = parseInt(process.env.EMAIL_RATE_PER_MINUTE ?? '', 10) || 20;
+export const EMAIL_RATE_PER_DAY = parseInt(process.env.EMAIL_RATE_PER_DAY ?? '', 10) || 0; // 0 = no daily limit
+export const EMAIL_MAX_ATTEMPTS = parseInt(process.env.EMAIL_MAX_ATTEMPTS ?? '', 10) || 8;
+const EMAIL_RETRY_BASE_MS = (parseInt(process.env.EMAIL_RETRY_BASE_SECONDS ?? '', 10) || 60) * 1000;
+const EMAIL_RETRY_MAX_MS = 6 * 60 * 60 * 1000;
+const EMAIL_QUEUE_INTERVAL_MS = 5 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Builds and sends one kind of queued email
+ * Throw to fail the attempt: PermanentEmailError (or an SMTP 5xx) gives up at once, anything else is retried.
+ */
+export type EmailJobHandler = (job: EmailJob) => Promise<void>;
+
+/**
+ * Sends one kind of email to a guest about their event
+ * @param payload The job's payload (appBaseUrl, ...)
+ */
+export type GuestEmailSender = (
+  attendee: EventAttendeeView,
+  primaryEmail: string,
+  ccEmails: string[],
+  event: EventRecord,
+  payload: Record<string, any>
+) => Promise<SentMail>;
+
+/**
+ * Says why a queued guest email no longer applies (it is then skipped), or null to send it
+ * Throw PermanentEmailError to give up on it instead.
+ */
+export type GuestEmailCheck = (attendee: EventAttendeeView, event: EventRecord, payload: Record<string, any>) => string | null;
+
+export interface GuestEmailOptions {
+  /** Send only about cancelled events, instead of never (for the cancellation email itself) */
+  requireCancelled?: boolean;
+}
+
+/** A failure that retrying cannot fix (bad address, deleted event, ...) */
+export class PermanentEmailError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentEmailError';
+  }
+}
+
+// ============================================================================
+// Handlers
+// ============================================================================
+
+const handlers = new Map<string, EmailJobHandler>();
+
+/**
+ * Register the handler for a kind of queued email
+ * @param kind Job kind, as passed to enqueueEmail()
+ * @param handler Handler
+ */
+export function registerEmailHandler(kind: string, handler: EmailJobHandler): void {
+  handlers.set(kind, handler);
+}
+
+/**
+ * Register the handler for a kind of email to one guest about their event
+ * The handler gives up if the guest or event is gone, the event is being deleted or cancelled, or the guest
+ * has no address; skips the email if it no longer applies; and logs each attempt in the guest's deliveries.
+ *
+ * @param kind Job kind, also the delivery kind
+ * @param send Sends the email
+ * @param stillApplies Checks the email is still worth sending
+ * @param options.requireCancelled Give up unless the event is cancelled, instead of if it is being deleted or cancelled
+ */
+export function registerGuestEmailHandler(
+  kind: string,
+  send: GuestEmailSender,
+  stillApplies: GuestEmailCheck = () => null,
+  options: GuestEmailOptions = {}
+): void {
+  registerEmailHandler(kind, async (job) => {
+    const attendee = job.attendee_id !== null ? getAttendeeById(job.attendee_id) : undefined;
+    const event = attendee ? getEventById(attendee.event_id) : undefined;
+    if (!attendee || !event) {
+      throw new PermanentEmailError('The guest or event no longer exists.');
+    }
+    if (options.requireCancelled) {
+      if (!event.cancelled_at) {
+        throw new PermanentEmailError('The event is not cancelled.');
+      }
+    } else if (event.delete_requested_at) {
+      throw new PermanentEmailError('The event is being deleted.');
+    } else if (event.cancelled_at) {
+      throw new PermanentEmailError('The event was cancelled.');
+    }
+
+    const payload = JSON.parse(job.payload ?? '{}');
+    const skipReason = stillApplies(attendee, event, payload);
+    if (skipReason) {
+      console.log(`Skipping ${kind} to attendee ${attendee.id}: ${skipReason}.`);
+      return;
+    }
+
+    const primaryEmail = normalizeEmail(attendee.email);
+    if (!primaryEmail) {
+      throw new PermanentEmailError(`Primary email missing for attendee ID ${attendee.id}`);
+    }
+    const ccEmails = parseCCEmails(attendee.additional_emails ?? null, primaryEmail, attendee.id);
+    let sent;
+    try {
+      sent = await send(attendee, primaryEmail, ccEmails, event, payload);
+    } catch (error: any) {
+      recordDelivery(attendee.id, kind, { to: primaryEmail, cc: ccEmails, error: String(error?.message ?? error), payload: job.payload });
+      throw error;
+    }
+    recordDelivery(attendee.id, kind, { to: primaryEmail, cc: ccEmails, messageId: sent.messageId, payload: job.payload });
+  });
+}
+
+// ============================================================================
+// Worker
+// ============================================================================
+
+/**
+ * Decide whether a send error is worth retrying
+ * SMTP 5xx replies, rejected envelopes and PermanentEmailError are final. Everything else
+ * (4xx replies, connection and login problems, a sendmail that failed to run) is retried,
+ * since it may be fixed by waiting or by correcting the configuration.
+ */
+export function isTransientEmailError(error: any): boolean {
+  if (error instanceof PermanentEmailError) return false;
+  if (typeof error?.responseCode === 'number') return error.responseCode < 500;
+  return error?.code !== 'EENVELOPE';
+}
+
+/**
+ * Delay before the next attempt: the base delay doubled for each failed attempt, capped at six hours
+ * @param attempts Attempts made so far (at least 1)
+ */
+export function retryDelay(attempts: number): number {
+  return Math.min(EMAIL_RETRY_BASE_MS * 2 ** (attempts - 1), EMAIL_RETRY_MAX_MS);
+}
+
+/**
+ * How many more emails the rate limits allow right now
+ */
+function sendBudget(now: number): number {
+  const perMinute = EMAIL_RATE_PER_MINUTE - countEmailAttemptsSince(now - MINUTE_MS);
+  const perDay = EMAIL_RATE_PER_DAY > 0 ? EMAIL_RATE_PER_DAY - countEmailAttemptsSince(now - DAY_MS) : Infinity;
+  return Math.min(perMinute, perDay);
+}
+
+/**
+ * Make one attempt at sending a queued email and record the outcome
+ */
+async function attemptJob(job: EmailJob, now: number): Promise<void> {
+  if (!markEmailJobSending(job.id, now)) return; // Retried, dismissed or claimed meanwhile
+
+  try {
+    const handler = handlers.get(job.kind);
+    if (!handler) {
+      throw new PermanentEmailError(`No handler for "${job.kind}" emails.`);
+    }
+    await handler(job);
+    markEmailJobSent(job.id, now);
+  } catch (error: any) {
+    const attempts = job.attempts + 1;
+    const message = String(error?.message ?? error);
+    const retryAt = isTransientEmailError(error) && attempts < EMAIL_MAX_ATTEMPTS ? now + retryDelay(attempts) : null;
+    markEmailJobFailed(job.id, message, retryAt);
+    if (retryAt === null) {
+      console.error(`Giving up on ${job.kind} email ${job.id} after ${attempts} attempt(s): ${message}`);
+    } else {
+      console.warn(`Sending ${job.kind} email ${job.id} failed (attempt ${attempts}), retrying at ${new Date(retryAt).toISOString()}: ${message}`);
+    }
+  }
+}
+
+let running = false;
+
+/**
+ * Send due emails, one at a time, until the queue is empty or a rate limit is reached
+ * Only one run is active at a time; overlapping calls return immediately.
+ *
+ * @param now Current time (for testing; defaults to the time of each attempt)
+ * @returns Number of attempts made
+ */
+export async function processEmailQueue(now?: number): Promise<number> {
+  if (running) return 0;
+  running = true;
+  let attempted = 0;
+  try {
+    for (;;) {
+      const at = now ?? Date.now();
+      if (sendBudget(at) <= 0) break;
+      const [job] = listDueEmailJobs(at, 1);
+      if (!job) break;
+      await attemptJob(job, at);
+      attempted++;
+    }
+  } finally {
+    running = false;
+  }
+  return attempted;
+}
+
+/**
+ * Start sending right away instead of waiting for the next tick (after queueing emails)
+ */
+export function kickEmailQueue(): void {
+  processEmailQueue().catch(err => console.error('Email queue failed:', err));
+}
+
+/**
+ * Start the queue worker
+ * Emails left mid-send by a previous run are queued again first.
+ * @returns Timer handle (unref'd so it never keeps the process alive)
+ */
+export function startEmailQueue(): NodeJS.Timeout {
+  const requeued = requeueInterruptedEmailJobs();
+  if (requeued > 0) {
+    console.log(`Requeued ${requeued} email(s) interrupted by a restart.`);
+  }
+  kickEmailQueue();
+  return setInterval(kickEmailQueue, EMAIL_QUEUE_INTERVAL_MS).unref();
+}
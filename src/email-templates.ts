@@ -0,0 +1,498 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+// src/email-templates.ts
+// Editable email templates: placeholders, per-event and instance-wide overrides, rendering
+
+import type { EventRecord } from './database';
+import { getEmailTemplate } from './repository';
+import { escapeHtml, htmlToPlainText } from './utils';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type EmailTemplateKind =
+  'invitation' | 'reminder' | 'nudge' | 'maybe_nudge' | 'confirmation' | 'update' | 'cancellation' | 'waitlist_promotion';
+
+/** Subject and HTML body, both with {{placeholders}} */
+export interface EmailTemplate {
+  subject: string;
+  body: string;
+}
+
+/** Where the template in use comes from */
+export type EmailTemplateSource = 'event' | 'instance' | 'built-in';
+
+/** A placeholder's value; `html` replaces the escaped text in HTML bodies (e.g. for links) */
+export type TemplateValue = { text: string; html?: string };
+export type TemplateValues = Record<string, TemplateValue>;
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/** A change to an event's details, as told to guests, e.g. { label: 'Where', before: 'The Pier', after: 'The Boathouse' } */
+export interface EventChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+/** The guest an email is rendered for */
+export interface TemplateGuest {
+  name: string;
+  token: string;
+  party_size?: number;
+  rsvp?: string | null; // Their answer, for confirmations
+  waitlisted_at?: number | null; // Set while they wait for a place, for confirmations
+  changes?: EventChange[]; // What changed since they were last told, for updates
+}
+
+export class EmailTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmailTemplateError';
+  }
+}
+
+// ============================================================================
+// Built-in Templates
+// ============================================================================
+
+interface TemplateDefinition {
+  label: string;
+  placeholders: Record<string, string>; // Name -> description, for the editor
+  defaults: EmailTemplate;
+}
+
+const GUEST_PLACEHOLDERS: Record<string, string> = {
+  guest_name: "Guest's name",
+  party_size: 'How many people the invitation is for',
+  event_title: 'Event title',
+  event_when: "Date and time, in the event's timezone",
+  event_location: 'Location (a link if the event has one)',
+  event_description: 'Description, as plain text',
+  rsvp_deadline: "Date to reply by, in the event's timezone (empty if there isn't one)",
+  rsvp_link: "The guest's RSVP page",
+  ics_link: 'Calendar file download',
+};
+
+const REMINDER_PLACEHOLDERS: Record<string, string> = {
+  ...GUEST_PLACEHOLDERS,
+  time_until: 'How long until the event starts, e.g. "in 3 days"',
+};
+
+const CONFIRMATION_PLACEHOLDERS: Record<string, string> = {
+  ...GUEST_PLACEHOLDERS,
+  response: 'Their answer, e.g. "Yes, 2 people"',
+  attending: 'Set when they said yes and have a place, for {{#attending}}...{{/attending}}',
+  waitlisted: 'Set when they said yes but the event is full, for {{#waitlisted}}...{{/waitlisted}}',
+  maybe_attending: 'Set when they said maybe, for {{#maybe_attending}}...{{/maybe_attending}}',
+  not_attending: 'Set when they said no, for {{#not_attending}}...{{/not_attending}}',
+};
+
+const UPDATE_PLACEHOLDERS: Record<string, string> = {
+  ...GUEST_PLACEHOLDERS,
+  changes: 'What changed, with the new details highlighted',
+};
+
+const CANCELLATION_PLACEHOLDERS: Record<string, string> = {
+  ...GUEST_PLACEHOLDERS,
+  cancellation_reason: 'The reason given when the event was cancelled (may be empty)',
+};
+
+export const TEMPLATE_DEFINITIONS: Record<EmailTemplateKind, TemplateDefinition> = {
+  invitation: {
+    label: 'Invitation',
+    placeholders: GUEST_PLACEHOLDERS,
+    defaults: {
+      subject: 'Invitation: {{event_title}}',
+      body: `<p>Hi {{guest_name}},</p>
+<p>You are invited to <strong>{{event_title}}</strong>.</p>
+
+<hr style="margin: 20px 0;">
+
+<p><strong>When:</strong><br>{{event_when}}</p>
+{{#event_location}}
+<p><strong>Where:</strong><br>{{event_location}}</p>
+{{/event_location}}
+{{#event_description}}
+<p><strong>Event Details:</strong></p>
+<div style="white-space: pre-wrap; padding: 10px; border: 1px solid #eeeeee; background-color: #f9f9f9; border-radius: 4px; margin-top: 5px;">{{event_description}}</div>
+{{/event_description}}
+
+<hr style="margin: 20px 0;">
+
+{{#rsvp_deadline}}
+<p>Please reply by <strong>{{rsvp_deadline}}</strong>.</p>
+{{/rsvp_deadline}}
+<p>Please RSVP here: <a href="{{rsvp_link}}">{{rsvp_link}}</a></p>
+<p>Add to your calendar: <a href="{{ics_link}}">Download Calendar File (.ics)</a></p>
+`,
+    },
+  },
+  reminder: {
+    label: 'Reminder (to guests who said yes)',
+    placeholders: REMINDER_PLACEHOLDERS,
+    defaults: {
+      subject: 'Reminder: {{event_title}} is {{time_until}}',
+      body: `<p>Hi {{guest_name}},</p>
+<p>Just a reminder that <strong>{{event_title}}</strong> is {{time_until}}. We're looking forward to seeing you!</p>
+
+<p><strong>When:</strong><br>{{event_when}}</p>
+{{#event_location}}
+<p><strong>Where:</strong><br>{{event_location}}</p>
+{{/event_location}}
+
+<p>Add to your calendar: <a href="{{ics_link}}">Download Calendar File (.ics)</a></p>
+<p>Plans changed? Update your RSVP here: <a href="{{rsvp_link}}">{{rsvp_link}}</a></p>
+`,
+    },
+  },
+  nudge: {
+    label: "RSVP nudge (to guests who haven't replied)",
+    placeholders: REMINDER_PLACEHOLDERS,
+    defaults: {
+      subject: 'Will you come to {{event_title}}?',
+      body: `<p>Hi {{guest_name}},</p>
+<p>We haven't heard back from you about <strong>{{event_title}}</strong>, which is {{time_until}}.</p>
+
+<p><strong>When:</strong><br>{{event_when}}</p>
+{{#event_location}}
+<p><strong>Where:</strong><br>{{event_location}}</p>
+{{/event_location}}
+
+<p>Please let us know if you can make it: <a href="{{rsvp_link}}">{{rsvp_link}}</a></p>
+`,
+    },
+  },
+  maybe_nudge: {
+    label: 'Maybe nudge (to guests who said maybe)',
+    placeholders: REMINDER_PLACEHOLDERS,
+    defaults: {
+      subject: 'Can you make it to {{event_title}}?',
+      body: `<p>Hi {{guest_name}},</p>
+<p>You told us you might come to <strong>{{event_title}}</strong>, which is {{time_until}}. Do you know yet?</p>
+
+<p><strong>When:</strong><br>{{event_when}}</p>
+{{#event_location}}
+<p><strong>Where:</strong><br>{{event_location}}</p>
+{{/event_location}}
+
+<p>Please update your RSVP once you're sure: <a href="{{rsvp_link}}">{{rsvp_link}}</a></p>
+`,
+    },
+  },
+  confirmation: {
+    label: 'RSVP confirmation',
+    placeholders: CONFIRMATION_PLACEHOLDERS,
+    defaults: {
+      subject: 'Your RSVP for {{event_title}}: {{response}}',
+      body: `<p>Hi {{guest_name}},</p>
+<p>Thanks for letting us know! We have your response to <strong>{{event_title}}</strong> as: <strong>{{response}}</strong>.</p>
+{{#attending}}
+<p>We're looking forward to seeing you. The event is attached, ready to add to your calendar.</p>
+
+<p><strong>When:</strong><br>{{event_when}}</p>
+{{#event_location}}
+<p><strong>Where:</strong><br>{{event_location}}</p>
+{{/event_location}}
+{{/attending}}
+{{#waitlisted}}
+<p>The event is full right now, so you're on the waitlist. We'll email you as soon as a place opens up.</p>
+{{/waitlisted}}
+{{#maybe_attending}}
+<p>We've noted you as a maybe. Please update your answer once you know.</p>
+{{/maybe_attending}}
+{{#not_attending}}
+<p>Sorry you can't make it.</p>
+{{/not_attending}}
+
+<p>Need to change your response? Use your RSVP link: <a href="{{rsvp_link}}">{{rsvp_link}}</a></p>
+`,
+    },
+  },
+  update: {
+    label: 'Event update (to invited guests)',
+    placeholders: UPDATE_PLACEHOLDERS,
+    defaults: {
+      subject: 'Updated: {{event_title}}',
+      body: `<p>Hi {{guest_name}},</p>
+<p>Please note that <strong>{{event_title}}</strong> has changed:</p>
+{{#changes}}
+{{changes}}
+{{/changes}}
+
+<hr style="margin: 20px 0;">
+
+<p><strong>When:</strong><br>{{event_when}}</p>
+{{#event_location}}
+<p><strong>Where:</strong><br>{{event_location}}</p>
+{{/event_location}}
+
+<p>The updated event is attached; open it to update your calendar.</p>
+<p>If this changes your plans, please update your RSVP: <a href="{{rsvp_link}}">{{rsvp_link}}</a></p>
+`,
+    },
+  },
+  cancellation: {
+    label: 'Cancellation (to invited guests)',
+    placeholders: CANCELLATION_PLACEHOLDERS,
+    defaults: {
+      subject: 'Cancelled: {{event_title}}',
+      body: `<p>Hi {{guest_name}},</p>
+<p>We're sorry to let you know that <strong>{{event_title}}</strong>, planned for {{event_when}}, has been cancelled.</p>
+{{#cancellation_reason}}
+<div style="white-space: pre-wrap; padding: 10px; border: 1px solid #eeeeee; background-color: #f9f9f9; border-radius: 4px;">{{cancellation_reason}}</div>
+{{/cancellation_reason}}
+
+<p>The attached calendar update removes the event from your calendar.</p>
+`,
+    },
+  },
+  waitlist_promotion: {
+    label: 'Place from the waitlist (to guests who were waiting)',
+    placeholders: GUEST_PLACEHOLDERS,
+    defaults: {
+      subject: "You're in: {{event_title}}",
+      body: `<p>Hi {{guest_name}},</p>
+<p>Good news: a place opened up at <strong>{{event_title}}</strong>, so you're off the waitlist and coming with a party of {{party_size}}. The event is attached, ready to add to your calendar.</p>
+
+<p><strong>When:</strong><br>{{event_when}}</p>
+{{#event_location}}
+<p><strong>Where:</strong><br>{{event_location}}</p>
+{{/event_location}}
+
+<p>If you can no longer make it, please let us know so someone else can have your place: <a href="{{rsvp_link}}">{{rsvp_link}}</a></p>
+`,
+    },
+  },
+};
+
+/** Whether a string names a kind of email template */
+export function isEmailTemplateKind(kind: unknown): kind is EmailTemplateKind {
+  return typeof kind === 'string' && Object.prototype.hasOwnProperty.call(TEMPLATE_DEFINITIONS, kind);
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+// {{name}} inserts a value; {{#name}}...{{/name}} keeps its content only when the value is not empty
+const TAG_PATTERN = /\{\{\s*([#/]?)\s*([a-z_]+)\s*\}\}/g;
+
+/**
+ * Fill in a template's placeholders
+ * @param template Template text
+ * @param values Placeholder values
+ * @param format 'html' to escape values for an HTML body, 'text' to insert them as they are
+ * @returns Rendered text
+ * @throws EmailTemplateError for unknown placeholders or unbalanced sections
+ */
+export function renderTemplate(template: string, values: TemplateValues, format: 'html' | 'text'): string {
+  let output = '';
+  let last = 0;
+  const open: string[] = [];
+  let skipDepth = 0; // Sections entered since the first one with an empty value
+
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const [tag, sigil, name] = match;
+    if (skipDepth === 0) output += template.slice(last, match.index);
+    last = match.index! + tag.length;
+
+    const value = values[name];
+    if (!value) {
+      throw new EmailTemplateError(`Unknown placeholder {{${name}}}.`);
+    }
+    if (sigil === '#') {
+      open.push(name);
+      if (skipDepth > 0 || !value.text) skipDepth++;
+    } else if (sigil === '/') {
+      if (open.pop() !== name) {
+        throw new EmailTemplateError(`{{/${name}}} does not match the section opened before it.`);
+      }
+      if (skipDepth > 0) skipDepth--;
+    } else if (skipDepth === 0) {
+      output += format === 'html' ? (value.html ?? escapeHtml(value.text)) : value.text;
+    }
+  }
+  if (open.length > 0) {
+    throw new EmailTemplateError(`{{#${open[open.length - 1]}}} is never closed.`);
+  }
+  return output + template.slice(last);
+}
+
+/**
+ * Check that a template only uses known placeholders and closes its sections
+ * @throws EmailTemplateError describing the first problem
+ */
+export function validateEmailTemplate(kind: EmailTemplateKind, template: EmailTemplate): void {
+  if (!template.subject.trim()) {
+    throw new EmailTemplateError('The subject cannot be empty.');
+  }
+  if (!template.body.trim()) {
+    throw new EmailTemplateError('The body cannot be empty.');
+  }
+  const values = Object.fromEntries(Object.keys(TEMPLATE_DEFINITIONS[kind].placeholders).map(name => [name, { text: name }]));
+  renderTemplate(template.subject, values, 'text');
+  renderTemplate(template.body, values, 'html');
+}
+
+/**
+ * Find the template to use: the event's own, else the instance default, else the built-in one
+ * @param kind Kind of email
+ * @param eventId Event ID, or null for the instance default
+ */
+export function resolveEmailTemplate(kind: EmailTemplateKind, eventId: number | null): { template: EmailTemplate; source: EmailTemplateSource } {
+  const own = eventId !== null ? getEmailTemplate(kind, eventId) : undefined;
+  if (own) return { template: own, source: 'event' };
+  const instance = getEmailTemplate(kind, null);
+  if (instance) return { template: instance, source: 'instance' };
+  return { template: TEMPLATE_DEFINITIONS[kind].defaults, source: 'built-in' };
+}
+
+/**
+ * Render a subject and HTML body; the plain-text part is derived from the HTML
+ */
+export function renderEmail(template: EmailTemplate, values: TemplateValues): RenderedEmail {
+  const html = renderTemplate(template.body, values, 'html');
+  return {
+    subject: renderTemplate(template.subject, values, 'text').replace(/\s+/g, ' ').trim(), // No header folding tricks
+    html,
+    text: htmlToPlainText(html),
+  };
+}
+
+// ============================================================================
+// Guest Emails
+// ============================================================================
+
+/**
+ * Describe when an event happens, in its timezone (or the server's)
+ * @param event Event
+ * @returns e.g. "Friday, June 6, 2025 at 7:00 PM to 10:00 PM"
+ */
+export function formatEventWhen(event: EventRecord): string {
+  const startDate = new Date(event.date);
+  const baseDateOptions: Intl.DateTimeFormatOptions = { dateStyle: 'full', timeStyle: 'short' };
+  const effectiveDateOptions: Intl.DateTimeFormatOptions = event.timezone
+    ? { ...baseDateOptions, timeZone: event.timezone }
+    : baseDateOptions;
+
+  let whenString = startDate.toLocaleString(undefined, effectiveDateOptions);
+
+  if (event.date_end) {
+    const endDate = new Date(event.date_end);
+    const timeOnlyOptions: Intl.DateTimeFormatOptions = event.timezone
+      ? { timeStyle: 'short', timeZone: event.timezone }
+      : { timeStyle: 'short' };
+
+    // Compare dates in the event's timezone (or server default if event.timezone is not set)
+    const tzForComparison = event.timezone || undefined;
+    if (startDate.toLocaleDateString(undefined, {timeZone: tzForComparison}) === endDate.toLocaleDateString(undefined, {timeZone: tzForComparison})) {
+      whenString += ` to ${endDate.toLocaleTimeString(undefined, timeOnlyOptions)}`;
+    } else {
+      whenString += ` to ${endDate.toLocaleString(undefined, effectiveDateOptions)}`;
+    }
+  }
+  return whenString;
+}
+
+/**
+ * Describe an event's RSVP deadline, in its timezone (or the server's)
+ * @param event Event
+ * @returns e.g. "Friday, May 30, 2025 at 11:59 PM", or an empty string if there's no deadline
+ */
+export function formatRsvpDeadline(event: Pick<EventRecord, 'rsvp_deadline' | 'timezone'>): string {
+  if (event.rsvp_deadline == null) return '';
+  const options: Intl.DateTimeFormatOptions = { dateStyle: 'full', timeStyle: 'short' };
+  return new Date(event.rsvp_deadline).toLocaleString(undefined, event.timezone ? { ...options, timeZone: event.timezone } : options);
+}
+
+/**
+ * Describe how long until an event starts
+ * @param start Event start
+ * @param now Current time
+ * @returns e.g. "in 3 days", "in 5 hours" or "starting soon"
+ */
+export function describeTimeUntil(start: number, now: number = Date.now()): string {
+  const hours = Math.round((start - now) / (60 * 60 * 1000));
+  if (hours < 1) return 'starting soon';
+  if (hours < 24) return `in ${hours} hour${hours === 1 ? '' : 's'}`;
+  const days = Math.round(hours / 24);
+  return `in ${days} day${days === 1 ? '' : 's'}`;
+}
+
+/**
+ * Describe a guest's answer for an email
+ * @returns e.g. "Yes, 2 people", "Waitlisted, 2 people", "Maybe, 1 person", "No" or "No response yet"
+ */
+export function describeResponse(rsvp: string | null | undefined, partySize: number = 1, waitlisted: boolean = false): string {
+  if (rsvp === 'yes') return `${waitlisted ? 'Waitlisted' : 'Yes'}, ${partySize} ${partySize === 1 ? 'person' : 'people'}`;
+  if (rsvp === 'maybe') return `Maybe, ${partySize} ${partySize === 1 ? 'person' : 'people'}`;
+  if (rsvp === 'no') return 'No';
+  return 'No response yet';
+}
+
+/**
+ * Placeholder values for the emails a guest receives
+ * @param event Event
+ * @param guest Guest the email is for
+ * @param appBaseUrl Base URL for RSVP links
+ * @param now Current time, for time_until
+ */
+export function guestEmailValues(event: EventRecord, guest: TemplateGuest, appBaseUrl: string, now: number = Date.now()): TemplateValues {
+  const link = (href: string, text: string) => `<a href="${escapeHtml(href)}" target="_blank">${escapeHtml(text)}</a>`;
+  const location: TemplateValue = { text: event.location_name || event.location_href || '' };
+  if (event.location_href) {
+    location.html = link(event.location_href, event.location_name || event.location_href);
+  }
+
+  return {
+    guest_name: { text: guest.name },
+    party_size: { text: String(guest.party_size ?? 1) },
+    event_title: { text: event.title },
+    event_when: { text: formatEventWhen(event) },
+    event_location: location,
+    event_description: { text: htmlToPlainText(event.description) },
+    rsvp_deadline: { text: formatRsvpDeadline(event) },
+    rsvp_link: { text: `${appBaseUrl}/rsvp/${guest.token}` },
+    ics_link: { text: `${appBaseUrl}/ics/${guest.token}` },
+    time_until: { text: describeTimeUntil(event.date, now) },
+    response: { text: describeResponse(guest.rsvp, guest.party_size, !!guest.waitlisted_at) },
+    attending: { text: guest.rsvp === 'yes' && !guest.waitlisted_at ? 'yes' : '' },
+    waitlisted: { text: guest.rsvp === 'yes' && guest.waitlisted_at ? 'yes' : '' },
+    maybe_attending: { text: guest.rsvp === 'maybe' ? 'yes' : '' },
+    not_attending: { text: guest.rsvp === 'no' ? 'yes' : '' },
+    cancellation_reason: { text: event.cancellation_reason ?? '' },
+    changes: {
+      text: (guest.changes ?? []).map(c => `${c.label}: ${c.after} (was ${c.before})`).join('\n'),
+      html: `<ul>${(guest.changes ?? []).map(c => `<li><strong>${escapeHtml(c.label)}:</strong> `
+        + `<span style="background-color: #fff3bf;">${escapeHtml(c.after)}</span><br>`
+        + `<small>was <s>${escapeHtml(c.before)}</s></small></li>`).join('')}</ul>`,
+    },
+  };
+}
+
+/**
+ * Render an email exactly as a guest would receive it
+ * @param kind Kind of email
+ * @param event Event
+ * @param guest Guest
+ * @param appBaseUrl Base URL for RSVP links
+ * @param template Template to use (defaults to the one in effect for the event)
+ * @param now Current time (for testing)
+ */
+export function renderGuestEmail(
+  kind: EmailTemplateKind,
+  event: EventRecord,
+  guest: TemplateGuest,
+  appBaseUrl: string,
+  template: EmailTemplate = resolveEmailTemplate(kind, event.id).template,
+  now: number = Date.now()
+): RenderedEmail {
+  return renderEmail(template, guestEmailValues(event, guest, appBaseUrl, now));
+}
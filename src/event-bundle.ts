@@ -0,0 +1,425 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+// src/event-bundle.ts
+// Portable event bundles: one event, its settings, questions, reminders, attendees and banner in a single archive
+
+import * as path from 'path';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as tar from 'tar';
+import type {
+  AttendeeSnapshot,
+  EventSnapshot,
+  PartyMemberInput,
+  QuestionSnapshot,
+  ReminderAudience,
+  ReminderRuleSnapshot,
+  RsvpAnswers,
+  RsvpQuestionType,
+} from './database';
+import { REMINDER_AUDIENCES } from './reminders';
+import { findExistingTokens, getEventById, getEventSnapshot, importEvent, setEventBanner } from './repository';
+import { RSVP_QUESTION_TYPES, checkStoredAnswer } from './rsvp-questions';
+import { generateToken, isValidToken, normalizeAdditionalEmails, normalizeEmail, parseTags } from './utils';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const EVENT_BANNER_STORAGE_PATH = process.env.EVENT_BANNER_STORAGE_PATH || './data/uploads/event-banners';
+
+// Format 2 added event settings, RSVP questions and answers, party members, the waitlist and reminders;
+// format 1 bundles import with the defaults for those
+const BUNDLE_FORMAT = 2;
+const BUNDLE_JSON_NAME = 'event.json';
+const BUNDLE_BANNER_DIR = 'banner';
+const BANNER_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif'];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Contents of event.json at the root of a bundle */
+export interface EventBundle extends EventSnapshot {
+  format: number;
+  exported_at: number;
+  event: EventSnapshot['event'] & { banner_image_filename: string | null };
+}
+
+/** Whether imported attendees keep their RSVP links or get new ones */
+export type TokenMode = 'keep' | 'regenerate';
+
+export interface ImportResult {
+  eventId: number;
+  attendeeCount: number;
+}
+
+export class EventBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EventBundleError';
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function withStagingDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'odette-bundle-'));
+  try {
+    return await fn(dir);
+  } finally {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+}
+
+type JsonObject = Record<string, unknown>;
+type HistorySnapshot = AttendeeSnapshot['history'][number];
+
+const RSVPS = ['yes', 'no', 'maybe'];
+const isObject = (v: unknown): v is JsonObject => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNullableString = (v: unknown): v is string | null | undefined => v === null || v === undefined || typeof v === 'string';
+const isNullableNumber = (v: unknown): v is number | null | undefined => v === null || v === undefined || typeof v === 'number';
+const isRsvp = (v: unknown): v is string => typeof v === 'string' && RSVPS.includes(v);
+const isNullableRsvp = (v: unknown): v is string | null | undefined => v === null || v === undefined || isRsvp(v);
+const isPositiveInteger = (v: unknown): v is number => Number.isInteger(v) && (v as number) >= 1;
+const isStringArray = (v: unknown): v is string[] => Array.isArray(v) && v.every(item => typeof item === 'string');
+const flag = (v: unknown) => (v ? 1 : 0);
+
+/** An optional list in the bundle: empty if missing, undefined if not a list */
+function optionalList(v: unknown): unknown[] | undefined {
+  return v === undefined ? [] : Array.isArray(v) ? v : undefined;
+}
+
+/** Check one RSVP history entry, or undefined if malformed */
+function parseHistoryEntry(h: unknown): HistorySnapshot | undefined {
+  if (!isObject(h) || typeof h.changed_at !== 'number' || !isRsvp(h.new_rsvp) || typeof h.new_party_size !== 'number' ||
+      !isNullableRsvp(h.old_rsvp) || !isNullableNumber(h.old_party_size) || !isNullableString(h.user_agent) || !isNullableString(h.ip)) {
+    return undefined;
+  }
+  return {
+    changed_at: h.changed_at,
+    old_rsvp: h.old_rsvp ?? null,
+    old_party_size: h.old_party_size ?? null,
+    new_rsvp: h.new_rsvp,
+    new_party_size: h.new_party_size,
+    user_agent: h.user_agent ?? null,
+    ip: h.ip ?? null,
+  };
+}
+
+/**
+ * Check one person's answers, keyed by question position in the bundle, against the bundle's questions
+ * as the RSVP form would (the type of answer, the choices offered, the length of text)
+ * @param answers Answers from the bundle
+ * @param questions The bundle's questions, undefined where the person isn't asked one
+ * @returns The answers, or undefined if malformed or for questions the person isn't asked
+ */
+function parseAnswers(answers: unknown, questions: (QuestionSnapshot | undefined)[]): RsvpAnswers | undefined {
+  if (answers === undefined || answers === null) return {};
+  if (!isObject(answers)) return undefined;
+  const parsed: RsvpAnswers = {};
+  for (const [key, answer] of Object.entries(answers)) {
+    const question = /^\d+$/.test(key) ? questions[Number(key)] : undefined;
+    const checked = question ? checkStoredAnswer({ ...question, options: JSON.stringify(question.options) }, answer) : undefined;
+    if (checked === undefined) return undefined;
+    parsed[Number(key)] = checked;
+  }
+  return parsed;
+}
+
+/** Check one question, or undefined if malformed */
+function parseQuestion(q: unknown): QuestionSnapshot | undefined {
+  if (!isObject(q) || typeof q.label !== 'string' || !q.label.trim() ||
+      typeof q.type !== 'string' || !Object.prototype.hasOwnProperty.call(RSVP_QUESTION_TYPES, q.type)) {
+    return undefined;
+  }
+  const type = q.type as RsvpQuestionType;
+  const isChoice = type === 'single_choice' || type === 'multi_choice';
+  const options = q.options ?? [];
+  if (!isStringArray(options) || (isChoice ? options.length < 2 : options.length > 0)) {
+    return undefined;
+  }
+  return {
+    type,
+    label: q.label,
+    options,
+    required: flag(q.required),
+    attending_only: flag(q.attending_only),
+    per_person: flag(q.per_person),
+  };
+}
+
+/** Check one reminder rule, or undefined if malformed */
+function parseReminderRule(r: unknown): ReminderRuleSnapshot | undefined {
+  if (!isObject(r) || !isPositiveInteger(r.days_before) ||
+      typeof r.audience !== 'string' || !Object.prototype.hasOwnProperty.call(REMINDER_AUDIENCES, r.audience)) {
+    return undefined;
+  }
+  return { days_before: r.days_before, audience: r.audience as ReminderAudience };
+}
+
+/** Check one attendee against the bundle's questions and reminder rules, or undefined if malformed */
+function parseAttendee(a: unknown, questions: QuestionSnapshot[], ruleCount: number): AttendeeSnapshot | undefined {
+  if (!isObject(a) || typeof a.name !== 'string' || typeof a.email !== 'string' || !a.email.trim() || typeof a.token !== 'string' ||
+      !isNullableRsvp(a.rsvp) || !isNullableNumber(a.responded_at) || !isNullableNumber(a.last_modified) ||
+      !isNullableNumber(a.viewed_at) || !isNullableNumber(a.waitlisted_at)) {
+    return undefined;
+  }
+  const additionalEmails = optionalList(a.additional_emails);
+  const tags = optionalList(a.tags);
+  const history = optionalList(a.history)?.map(parseHistoryEntry);
+  const reminded = optionalList(a.reminded);
+  const answers = parseAnswers(a.answers, questions);
+  // The people a guest brings only answer the per-person questions
+  const perPerson = questions.map(q => (q.per_person ? q : undefined));
+  const members = optionalList(a.members)?.map(m => {
+    if (!isObject(m) || typeof m.name !== 'string') return undefined;
+    const memberAnswers = parseAnswers(m.answers, perPerson);
+    return memberAnswers && { name: m.name, answers: memberAnswers };
+  });
+  if (!additionalEmails || !tags || !history || !reminded || !answers || !members ||
+      !history.every((entry): entry is HistorySnapshot => entry !== undefined) ||
+      !members.every((member): member is PartyMemberInput => member !== undefined) ||
+      !reminded.every((r): r is number => Number.isInteger(r) && (r as number) >= 0 && (r as number) < ruleCount)) {
+    return undefined;
+  }
+
+  const partySize = isPositiveInteger(a.party_size) ? a.party_size : 1;
+  return {
+    name: a.name,
+    email: a.email,
+    additional_emails: additionalEmails.map(String),
+    party_size: partySize,
+    token: a.token,
+    is_sent: flag(a.is_sent),
+    rsvp: a.rsvp ?? null,
+    responded_at: a.responded_at ?? null,
+    last_modified: a.last_modified ?? null,
+    viewed_at: a.viewed_at ?? null,
+    waitlisted_at: a.waitlisted_at ?? null,
+    late_rsvp_allowed: flag(a.late_rsvp_allowed),
+    history,
+    tags: parseTags(tags.map(String)),
+    answers,
+    members: members.slice(0, partySize - 1),
+    reminded: [...new Set(reminded)],
+  };
+}
+
+/**
+ * Check the shape of a parsed event.json and fill in optional fields
+ * @throws EventBundleError describing the first problem found
+ */
+function parseBundle(data: unknown): EventBundle {
+  if (!isObject(data)) {
+    throw new EventBundleError('event.json is not an object.');
+  }
+  if (!Number.isInteger(data.format) || (data.format as number) < 1 || (data.format as number) > BUNDLE_FORMAT) {
+    throw new EventBundleError(`Unsupported bundle format ${data.format} (expected ${BUNDLE_FORMAT} or earlier).`);
+  }
+
+  const e = data.event;
+  if (!isObject(e) || typeof e.title !== 'string' || !e.title || typeof e.date !== 'number' ||
+      !isNullableString(e.description) || !isNullableString(e.location_name) || !isNullableString(e.location_href) ||
+      !isNullableNumber(e.date_end) || !isNullableString(e.timezone) || !isNullableString(e.banner_image_filename) ||
+      (e.capacity != null && !isPositiveInteger(e.capacity)) || !isNullableNumber(e.rsvp_deadline)) {
+    throw new EventBundleError('Bundle has a missing or malformed event.');
+  }
+  if (!Array.isArray(data.attendees)) {
+    throw new EventBundleError('Bundle has no attendee list.');
+  }
+  const rawQuestions = optionalList(data.questions);
+  const rawRules = optionalList(data.reminder_rules);
+  if (!rawQuestions || !rawRules) {
+    throw new EventBundleError('Bundle has a malformed question or reminder list.');
+  }
+
+  const questions = rawQuestions.map((q, i) => {
+    const question = parseQuestion(q);
+    if (!question) throw new EventBundleError(`Question #${i + 1} in the bundle is malformed.`);
+    return question;
+  });
+  const reminderRules = rawRules.map((r, i) => {
+    const rule = parseReminderRule(r);
+    if (!rule) throw new EventBundleError(`Reminder #${i + 1} in the bundle is malformed.`);
+    return rule;
+  });
+  const attendees = data.attendees.map((a, i) => {
+    const attendee = parseAttendee(a, questions, reminderRules.length);
+    if (!attendee) throw new EventBundleError(`Attendee #${i + 1} in the bundle is malformed.`);
+    return attendee;
+  });
+
+  return {
+    format: data.format as number,
+    exported_at: typeof data.exported_at === 'number' ? data.exported_at : 0,
+    event: {
+      title: e.title,
+      date: e.date,
+      description: e.description ?? null,
+      location_name: e.location_name ?? null,
+      location_href: e.location_href ?? null,
+      date_end: e.date_end ?? null,
+      timezone: e.timezone ?? null,
+      banner_image_filename: e.banner_image_filename ?? null,
+      send_confirmations: flag(e.send_confirmations),
+      calendar_invites: flag(e.calendar_invites),
+      allow_maybe: flag(e.allow_maybe),
+      capacity: isPositiveInteger(e.capacity) ? e.capacity : null,
+      rsvp_deadline: e.rsvp_deadline ?? null,
+      responses_reopened: flag(e.responses_reopened),
+    },
+    questions,
+    reminder_rules: reminderRules,
+    attendees,
+  };
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Package an event with its settings, RSVP questions, reminder rules, attendees
+ * (with tokens, RSVPs, history, tags, answers, party members and reminders sent) and its banner
+ * @param eventId Event ID
+ * @returns Suggested filename and archive contents, or undefined if the event does not exist
+ */
+export async function exportEventBundle(eventId: number): Promise<{ filename: string; data: Buffer } | undefined> {
+  const event = getEventById(eventId);
+  const snapshot = getEventSnapshot(eventId);
+  if (!event || !snapshot) return undefined;
+
+  const bundle: EventBundle = {
+    format: BUNDLE_FORMAT,
+    exported_at: Date.now(),
+    ...snapshot,
+    event: { ...snapshot.event, banner_image_filename: null },
+  };
+
+  return withStagingDir(async (stagingDir) => {
+    const entries = [BUNDLE_JSON_NAME];
+    if (event.banner_image_filename) {
+      const bannerPath = path.join(EVENT_BANNER_STORAGE_PATH, event.banner_image_filename);
+      if (fs.existsSync(bannerPath)) {
+        await fs.promises.mkdir(path.join(stagingDir, BUNDLE_BANNER_DIR));
+        await fs.promises.copyFile(bannerPath, path.join(stagingDir, BUNDLE_BANNER_DIR, event.banner_image_filename));
+        bundle.event.banner_image_filename = event.banner_image_filename;
+        entries.push(BUNDLE_BANNER_DIR);
+      } else {
+        console.warn(`Banner ${bannerPath} for event ${eventId} is missing; exporting without it.`);
+      }
+    }
+
+    await fs.promises.writeFile(path.join(stagingDir, BUNDLE_JSON_NAME), JSON.stringify(bundle, null, 2));
+    const archivePath = path.join(stagingDir, 'bundle.tar.gz');
+    await tar.c({ gzip: true, file: archivePath, cwd: stagingDir, portable: true }, entries);
+
+    const slug = event.title.replace(/[^a-z0-9_.-]/gi, '_').substring(0, 50);
+    return { filename: `${slug}.odette-event.tar.gz`, data: await fs.promises.readFile(archivePath) };
+  });
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Find attendees that would be merged into one by upsertAttendee's matching rules
+ * (primary emails are compared trimmed and lowercased)
+ * @param attendees Attendees from a bundle
+ * @returns Groups of the original email spellings that collide
+ */
+export function findEmailCollisions(attendees: Pick<AttendeeSnapshot, 'email'>[]): string[][] {
+  const byEmail = new Map<string, string[]>();
+  attendees.forEach(a => {
+    const key = normalizeEmail(a.email);
+    byEmail.set(key, [...(byEmail.get(key) ?? []), a.email]);
+  });
+  return [...byEmail.values()].filter(group => group.length > 1);
+}
+
+/**
+ * Recreate an exported event as a new event in this instance
+ * Nothing is written unless the whole bundle is valid.
+ *
+ * @param archive Bundle archive contents
+ * @param options.tokens 'keep' to preserve RSVP links (fails if any token is already used here),
+ *   'regenerate' to issue new ones (attendees are then marked as not yet invited)
+ * @returns The new event's ID and the number of attendees imported
+ * @throws EventBundleError if the bundle is invalid, has colliding emails or tokens
+ */
+export async function importEventBundle(archive: Buffer, options: { tokens: TokenMode }): Promise<ImportResult> {
+  return withStagingDir(async (stagingDir) => {
+    const archivePath = path.join(stagingDir, 'bundle.tar.gz');
+    const contentDir = path.join(stagingDir, 'contents');
+    await fs.promises.writeFile(archivePath, archive);
+    await fs.promises.mkdir(contentDir);
+    try {
+      await tar.x({
+        file: archivePath,
+        cwd: contentDir,
+        filter: (entryPath, entry) => ('type' in entry ? entry.type === 'File' || entry.type === 'Directory' : true),
+      });
+    } catch (error: any) {
+      throw new EventBundleError(`Cannot read bundle archive: ${error.message}`);
+    }
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await fs.promises.readFile(path.join(contentDir, BUNDLE_JSON_NAME), 'utf8'));
+    } catch {
+      throw new EventBundleError(`Not an Odette event bundle: ${BUNDLE_JSON_NAME} missing or unreadable.`);
+    }
+    const bundle = parseBundle(raw);
+
+    const collisions = findEmailCollisions(bundle.attendees);
+    if (collisions.length > 0) {
+      throw new EventBundleError(`Bundle has attendees that share an email address: ${collisions.map(g => g.join(' / ')).join('; ')}`);
+    }
+
+    const attendees = bundle.attendees.map(a => {
+      const email = normalizeEmail(a.email);
+      return { ...a, email, additional_emails: normalizeAdditionalEmails(a.additional_emails, email) };
+    });
+
+    if (options.tokens === 'keep') {
+      const invalid = attendees.find(a => !isValidToken(a.token));
+      if (invalid) {
+        throw new EventBundleError(`Attendee ${invalid.email} has an invalid token; import with new tokens instead.`);
+      }
+      if (new Set(attendees.map(a => a.token)).size !== attendees.length) {
+        throw new EventBundleError('Bundle has attendees that share an RSVP token; import with new tokens instead.');
+      }
+      const taken = findExistingTokens(attendees.map(a => a.token));
+      if (taken.length > 0) {
+        throw new EventBundleError(`${taken.length} RSVP token(s) are already in use here (was this event imported before?); import with new tokens instead.`);
+      }
+    } else {
+      // The links guests already have stop working, so they need a fresh invitation
+      // and the reminders they were sent went to the old links
+      attendees.forEach(a => {
+        a.token = generateToken();
+        a.is_sent = 0;
+        a.reminded = [];
+      });
+    }
+
+    const { banner_image_filename: bannerName, ...event } = bundle.event;
+    const eventId = importEvent({ event, questions: bundle.questions, reminder_rules: bundle.reminder_rules, attendees });
+
+    const bannerPath = bannerName ? path.join(contentDir, BUNDLE_BANNER_DIR, path.basename(bannerName)) : null;
+    if (bannerPath && BANNER_EXTENSIONS.includes(path.extname(bannerPath).toLowerCase()) && fs.existsSync(bannerPath)) {
+      const finalFilename = `event-${eventId}-${Date.now()}${path.extname(bannerPath).toLowerCase()}`;
+      await fs.promises.mkdir(EVENT_BANNER_STORAGE_PATH, { recursive: true });
+      await fs.promises.copyFile(bannerPath, path.join(EVENT_BANNER_STORAGE_PATH, finalFilename));
+      setEventBanner(eventId, finalFilename);
+    }
+
+    console.log(`Imported event ${eventId} ("${bundle.event.title}") with ${attendees.length} attendee(s).`);
+    return { eventId, attendeeCount: attendees.length };
+  });
+}
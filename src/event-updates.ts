@@ -0,0 +1,120 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+// src/event-updates.ts
+// "Event updated" emails: spotting changes invited guests need to hear about, and the queue handler that tells them
+
+import type { EventRecord, SeriesInput } from './database';
+import { formatEventWhen, type EventChange } from './email-templates';
+import { kickEmailQueue, registerGuestEmailHandler } from './email-queue';
+import { sendUpdate } from './notifications';
+import { enqueueEmailForInvited, listEventAttendees, listSeriesOccurrences } from './repository';
+
+// ============================================================================
+// Changes
+// ============================================================================
+
+/** The details guests plan around; changing any of them is worth an email */
+export type EventDetails = Pick<EventRecord, 'date' | 'date_end' | 'timezone' | 'location_name' | 'location_href'>;
+
+const MATERIAL_FIELDS: (keyof EventDetails)[] = ['date', 'date_end', 'timezone', 'location_name', 'location_href'];
+
+/** Copy the material details out of an event (what the queue remembers guests were told) */
+export function pickEventDetails(event: EventDetails): EventDetails {
+  return Object.fromEntries(MATERIAL_FIELDS.map(field => [field, event[field] ?? null])) as EventDetails;
+}
+
+/** "When" as guests read it, naming the timezone so a change of zone alone shows up */
+function describeWhen(event: EventRecord): string {
+  return event.timezone ? `${formatEventWhen(event)} (${event.timezone})` : formatEventWhen(event);
+}
+
+function describeWhere(details: EventDetails): string {
+  return [details.location_name, details.location_href].filter(Boolean).join(', ') || 'Not set';
+}
+
+/**
+ * Describe how an event's time and place changed
+ * @param before Details before the change
+ * @param after The event after the change (other fields are used to format the time)
+ * @returns Changes, empty if nothing material changed
+ */
+export function describeEventChanges(before: EventDetails, after: EventRecord): EventChange[] {
+  const changes: EventChange[] = [];
+  const changed = (fields: (keyof EventDetails)[]) => fields.some(field => (before[field] ?? null) !== (after[field] ?? null));
+
+  if (changed(['date', 'date_end', 'timezone'])) {
+    changes.push({ label: 'When', before: describeWhen({ ...after, ...before }), after: describeWhen(after) });
+  }
+  if (changed(['location_name', 'location_href'])) {
+    changes.push({ label: 'Where', before: describeWhere(before), after: describeWhere(after) });
+  }
+  return changes;
+}
+
+/** An upcoming occurrence of a series that a change to the series moves or relocates */
+export interface OccurrenceChange {
+  event: EventRecord; // The occurrence before the change
+  changes: EventChange[];
+  invitedCount: number; // Guests already sent an invitation
+}
+
+/**
+ * Find the upcoming occurrences whose guests need to hear about a change to their series
+ * (updateSeries() gives them the series' title, description, location and timezone)
+ *
+ * @param seriesId Series ID
+ * @param input Series fields, as changed
+ * @param now Current time; occurrences starting before it are left alone
+ * @returns Occurrences with invited guests whose time or place changes
+ */
+export function describeSeriesChanges(seriesId: number, input: SeriesInput, now: number = Date.now()): OccurrenceChange[] {
+  return listSeriesOccurrences(seriesId)
+    .filter(event => event.date >= now && !event.cancelled_at && !event.delete_requested_at)
+    .map(event => ({
+      event,
+      changes: describeEventChanges(event, {
+        ...event,
+        title: input.title,
+        description: input.description,
+        location_name: input.location_name,
+        location_href: input.location_href,
+        timezone: input.timezone,
+      }),
+      invitedCount: listEventAttendees(event.id).filter(attendee => attendee.is_sent).length,
+    }))
+    .filter(occurrence => occurrence.changes.length > 0 && occurrence.invitedCount > 0);
+}
+
+/**
+ * Queue an "event updated" email for every guest who has been sent an invitation
+ * Guests with an update still waiting keep it: it remembers what they were told before,
+ * so one email covers several quick edits.
+ *
+ * @param eventId Event ID
+ * @param before Details before the change
+ * @param appBaseUrl Base URL for RSVP links
+ * @returns Number of guests who will be emailed
+ */
+export function queueEventUpdates(eventId: number, before: EventDetails, appBaseUrl: string): number {
+  const queued = enqueueEmailForInvited('update', eventId, { appBaseUrl, before: pickEventDetails(before) });
+  if (queued > 0) {
+    kickEmailQueue();
+  }
+  return queued;
+}
+
+// ============================================================================
+// Sending
+// ============================================================================
+
+// Queued updates are sent by the email queue worker. Retries from the delivery log don't say
+// what changed; the email then just gives the current details.
+registerGuestEmailHandler(
+  'update',
+  (attendee, primaryEmail, ccEmails, event, { appBaseUrl, before }) => {
+    const changes = before ? describeEventChanges(before, event) : [];
+    return sendUpdate({ ...attendee, changes }, primaryEmail, ccEmails, event, appBaseUrl);
+  },
+  (attendee, event, { before }) => before && describeEventChanges(before, event).length === 0 ? 'the event was changed back' : null
+);
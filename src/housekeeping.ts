@@ -0,0 +1,109 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+// src/housekeeping.ts
+// Periodic background cleanup (deferred event deletion, unused banner files, old email queue entries)
+
+import * as path from 'path';
+import * as fs from 'fs';
+import { listEventBannerFilenames, purgeDeletedEvents, pruneEmailAttempts, pruneSentEmailJobs } from './repository';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const EVENT_BANNER_STORAGE_PATH = process.env.EVENT_BANNER_STORAGE_PATH || './data/uploads/event-banners';
+export const EVENT_DELETE_GRACE_MS = (parseInt(process.env.EVENT_DELETE_GRACE_MINUTES ?? '', 10) || 60) * 60 * 1000;
+const HOUSEKEEPING_INTERVAL_MS = 60 * 1000;
+const SENT_EMAIL_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const EMAIL_ATTEMPT_RETENTION_MS = 24 * 60 * 60 * 1000; // The daily rate limit's window
+const UNUSED_BANNER_RETENTION_MS = 24 * 60 * 60 * 1000; // Time to answer an event update's confirmation page
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Delete events whose grace period has expired, along with their banner files
+ * @param now Current time (for testing)
+ * @returns Number of events deleted
+ */
+export async function purgeExpiredEventDeletions(now: number = Date.now()): Promise<number> {
+  const purged = purgeDeletedEvents(now - EVENT_DELETE_GRACE_MS);
+
+  for (const event of purged) {
+    console.log(`Deleted event ${event.id} ("${event.title}") after its grace period.`);
+    if (event.banner_image_filename) {
+      const bannerPath = path.join(EVENT_BANNER_STORAGE_PATH, event.banner_image_filename);
+      try {
+        await fs.promises.unlink(bannerPath);
+        console.log(`Deleted banner image ${bannerPath}`);
+      } catch (err: any) {
+        if (err.code !== 'ENOENT') {
+          console.error(`Failed to delete banner image ${bannerPath}:`, err);
+        }
+      }
+    }
+  }
+
+  return purged.length;
+}
+
+/**
+ * Delete banner files no event uses, such as uploads whose event update was never confirmed
+ * Files younger than a day are kept, since a confirmation page may still be about to use them.
+ * @param now Current time (for testing)
+ * @returns Number of files deleted
+ */
+export async function pruneUnusedBanners(now: number = Date.now()): Promise<number> {
+  if (!fs.existsSync(EVENT_BANNER_STORAGE_PATH)) return 0;
+
+  const inUse = new Set(listEventBannerFilenames());
+  let deleted = 0;
+  for (const entry of await fs.promises.readdir(EVENT_BANNER_STORAGE_PATH, { withFileTypes: true })) {
+    if (!entry.isFile() || inUse.has(entry.name)) continue;
+    const bannerPath = path.join(EVENT_BANNER_STORAGE_PATH, entry.name);
+    try {
+      const { mtimeMs } = await fs.promises.stat(bannerPath);
+      if (mtimeMs > now - UNUSED_BANNER_RETENTION_MS) continue;
+      await fs.promises.unlink(bannerPath);
+      console.log(`Deleted unused banner image ${bannerPath}`);
+      deleted++;
+    } catch (err: any) {
+      if (err.code !== 'ENOENT') {
+        console.error(`Failed to delete unused banner image ${bannerPath}:`, err);
+      }
+    }
+  }
+
+  return deleted;
+}
+
+/**
+ * Forget sent emails after a month (they only feed queue progress), and send attempts once the rate limits no longer count them
+ * @param now Current time (for testing)
+ * @returns Number of queue entries deleted
+ */
+export function pruneSentEmails(now: number = Date.now()): number {
+  pruneEmailAttempts(now - EMAIL_ATTEMPT_RETENTION_MS);
+  return pruneSentEmailJobs(now - SENT_EMAIL_RETENTION_MS);
+}
+
+/**
+ * Start the periodic housekeeping timer
+ * @returns Timer handle (unref'd so it never keeps the process alive)
+ */
+export function startHousekeeping(): NodeJS.Timeout {
+  const run = () => {
+    purgeExpiredEventDeletions()
+      .then(() => pruneUnusedBanners())
+      .catch(err => console.error('Housekeeping failed:', err));
+    try {
+      pruneSentEmails();
+    } catch (err) {
+      console.error('Pruning sent emails failed:', err);
+    }
+  };
+  run();
+  return setInterval(run, HOUSEKEEPING_INTERVAL_MS).unref();
+}
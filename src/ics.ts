@@ -0,0 +1,322 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+// src/ics.ts
+// iCalendar (RFC 5545) output for event downloads and iTIP (RFC 5546) messages, and parsing of received calendars
+
+import { formatInTimeZone } from 'date-fns-tz';
+import { escapeICSText, formatICSDate } from './utils';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A calendar user, written as e.g. ORGANIZER;CN="Name":mailto:address */
+export interface IcsPerson {
+  email: string;
+  name?: string | null;
+}
+
+/** An invited calendar user, with their participation status */
+export interface IcsAttendee extends IcsPerson {
+  partstat?: string; // NEEDS-ACTION (default), ACCEPTED, DECLINED, ...
+  rsvp?: boolean; // Whether a reply is expected
+}
+
+/** One VEVENT; recurring events carry rrule/exdates, overrides carry recurrenceId */
+export interface IcsEvent {
+  uid: string;
+  start: number;
+  end?: number | null;
+  summary: string;
+  description?: string | null; // HTML allowed, converted to plain text
+  locationName?: string | null;
+  locationHref?: string | null;
+  timezone?: string | null; // When set, times are written as local times in this zone (needed for recurrence across DST)
+  rrule?: string | null; // RRULE value, e.g. "FREQ=MONTHLY;BYDAY=2FR"
+  exdates?: number[];
+  recurrenceId?: number | null; // Original start of the occurrence this VEVENT overrides
+  sequence?: number; // Revision number, for iTIP messages
+  status?: string | null; // e.g. CANCELLED
+  organizer?: IcsPerson;
+  attendees?: IcsAttendee[];
+}
+
+/** A parsed content line, e.g. ATTENDEE;PARTSTAT=ACCEPTED:mailto:jo@example.com */
+export interface IcsProperty {
+  name: string; // Uppercased
+  params: Record<string, string>; // Parameter names uppercased, quotes removed
+  value: string;
+}
+
+/** A parsed component (VCALENDAR, VEVENT, ...) with its properties and subcomponents */
+export interface IcsComponent {
+  name: string; // Uppercased
+  properties: IcsProperty[];
+  components: IcsComponent[];
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Fold a content line to at most 75 octets per line (RFC 5545 section 3.1)
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74; // Continuation lines start with a space
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/** Local date-time in a timezone, e.g. "20300111T190000" */
+function formatLocalDate(timestamp: number, timezone: string): string {
+  return formatInTimeZone(timestamp, timezone, "yyyyMMdd'T'HHmmss");
+}
+
+/** A date-time property, in UTC or as local time with TZID */
+function dateProperty(name: string, timestamp: number, timezone?: string | null): string {
+  return timezone
+    ? `${name};TZID=${timezone}:${formatLocalDate(timestamp, timezone)}`
+    : `${name}:${formatICSDate(timestamp)}`;
+}
+
+/**
+ * UTC offset of a timezone at an instant, in milliseconds
+ * (date-fns-tz's getTimezoneOffset is off by an hour around DST changes)
+ */
+function offsetAt(timezone: string, timestamp: number): number {
+  const [, sign, hours, minutes] = formatInTimeZone(timestamp, timezone, 'xx').match(/([+-])(\d\d)(\d\d)/)!;
+  return (sign === '-' ? -1 : 1) * (+hours * 60 + +minutes) * 60000;
+}
+
+function formatOffset(offsetMs: number): string {
+  const sign = offsetMs < 0 ? '-' : '+';
+  const minutes = Math.abs(offsetMs) / 60000;
+  return `${sign}${String(Math.floor(minutes / 60)).padStart(2, '0')}${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Find the instants in [from, to) at which a timezone's UTC offset changes
+ * Assumes offsets change at most once a day, which holds for every real zone.
+ */
+function findOffsetTransitions(timezone: string, from: number, to: number): { at: number; offsetFrom: number; offsetTo: number }[] {
+  const transitions: { at: number; offsetFrom: number; offsetTo: number }[] = [];
+  let previous = offsetAt(timezone, from);
+  for (let t = from + DAY_MS; t < to; t += DAY_MS) {
+    const offset = offsetAt(timezone, t);
+    if (offset === previous) continue;
+
+    let low = t - DAY_MS;
+    let high = t;
+    while (high - low > 60000) {
+      const mid = low + Math.floor((high - low) / 2);
+      if (offsetAt(timezone, mid) === previous) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+    // Real transitions fall on a whole minute
+    transitions.push({ at: Math.floor(high / 60000) * 60000, offsetFrom: previous, offsetTo: offset });
+    previous = offset;
+  }
+  return transitions;
+}
+
+/**
+ * Build a VTIMEZONE for an IANA zone from the offset changes in the year starting at `from`
+ * Each yearly change becomes a STANDARD or DAYLIGHT observance with a yearly RRULE
+ * (e.g. the last Sunday of March), so the definition holds for later years too.
+ */
+function buildVTimezone(timezone: string, from: number): string[] {
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timezone}`];
+  const transitions = findOffsetTransitions(timezone, from, from + 366 * DAY_MS);
+
+  if (transitions.length === 0) {
+    const offset = formatOffset(offsetAt(timezone, from));
+    lines.push('BEGIN:STANDARD', 'DTSTART:19700101T000000', `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, 'END:STANDARD');
+  }
+
+  for (const transition of transitions) {
+    // Observance start is given in the local time in effect before the change
+    const local = new Date(transition.at + transition.offsetFrom);
+    const day = local.getUTCDate();
+    const daysInMonth = new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth() + 1, 0)).getUTCDate();
+    const ordinal = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+    const kind = transition.offsetTo > transition.offsetFrom ? 'DAYLIGHT' : 'STANDARD';
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${formatICSDate(local.getTime()).replace('Z', '')}`,
+      `RRULE:FREQ=YEARLY;BYMONTH=${local.getUTCMonth() + 1};BYDAY=${ordinal}${WEEKDAYS[local.getUTCDay()]}`,
+      `TZOFFSETFROM:${formatOffset(transition.offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(transition.offsetTo)}`,
+      `END:${kind}`
+    );
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+/** A calendar user address property, e.g. ATTENDEE;CN="Jo":mailto:jo@example.com */
+function personProperty(name: string, person: IcsPerson, params: string[] = []): string {
+  const cn = person.name ? [`CN="${person.name.replace(/["\r\n]/g, '')}"`] : [];
+  return `${[name, ...cn, ...params].join(';')}:mailto:${person.email}`;
+}
+
+// ============================================================================
+// Calendar Output
+// ============================================================================
+
+/**
+ * Build an iCalendar document
+ * @param events VEVENTs to include (a recurring event followed by its overrides share a UID)
+ * @param options.domain Host name used in PRODID
+ * @param options.method iTIP method (e.g. REQUEST, CANCEL) when the calendar is sent as a scheduling message
+ * @param options.now Timestamp for DTSTAMP (for testing)
+ * @returns Calendar text with CRLF line endings
+ */
+export function buildCalendar(events: IcsEvent[], options: { domain: string; method?: string; now?: number }): string {
+  const dtstamp = formatICSDate(options.now ?? Date.now());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${options.domain}//NONSGML Event Calendar//EN`,
+  ];
+  if (options.method) {
+    lines.push(`METHOD:${options.method}`);
+  }
+
+  const timezones = new Map<string, number>();
+  events.forEach(e => {
+    if (e.timezone) {
+      timezones.set(e.timezone, Math.min(timezones.get(e.timezone) ?? Infinity, e.start));
+    }
+  });
+  timezones.forEach((earliest, timezone) => lines.push(...buildVTimezone(timezone, earliest - DAY_MS)));
+
+  for (const e of events) {
+    lines.push('BEGIN:VEVENT', `UID:${e.uid}`, `DTSTAMP:${dtstamp}`);
+    if (e.sequence !== undefined) {
+      lines.push(`SEQUENCE:${e.sequence}`);
+    }
+    if (e.recurrenceId !== undefined && e.recurrenceId !== null) {
+      lines.push(dateProperty('RECURRENCE-ID', e.recurrenceId, e.timezone));
+    }
+    lines.push(dateProperty('DTSTART', e.start, e.timezone));
+    if (e.end) {
+      lines.push(dateProperty('DTEND', e.end, e.timezone));
+    }
+    if (e.rrule) {
+      lines.push(`RRULE:${e.rrule}`);
+    }
+    if (e.exdates && e.exdates.length > 0) {
+      lines.push(e.timezone
+        ? `EXDATE;TZID=${e.timezone}:${e.exdates.map(d => formatLocalDate(d, e.timezone!)).join(',')}`
+        : `EXDATE:${e.exdates.map(formatICSDate).join(',')}`);
+    }
+
+    lines.push(`SUMMARY:${escapeICSText(e.summary)}`);
+    if (e.status) {
+      lines.push(`STATUS:${e.status}`);
+    }
+    if (e.locationHref) {
+      lines.push(`URL:${escapeICSText(e.locationHref)}`);
+    }
+    if (e.description) {
+      lines.push(`DESCRIPTION:${escapeICSText(e.description, true)}`);
+    }
+    if (e.locationName) {
+      lines.push(`LOCATION:${escapeICSText(e.locationName)}`);
+    }
+    if (e.organizer) {
+      lines.push(personProperty('ORGANIZER', e.organizer));
+    }
+    for (const attendee of e.attendees ?? []) {
+      lines.push(personProperty('ATTENDEE', attendee, [
+        'ROLE=REQ-PARTICIPANT',
+        `PARTSTAT=${attendee.partstat ?? 'NEEDS-ACTION'}`,
+        ...(attendee.rsvp ? ['RSVP=TRUE'] : []),
+      ]));
+    }
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR', '');
+  return lines.map(foldLine).join('\r\n');
+}
+
+// ============================================================================
+// Calendar Input
+// ============================================================================
+
+/**
+ * Parse one unfolded content line
+ * Colons and semicolons inside quoted parameter values don't end the parameter.
+ */
+function parseContentLine(line: string): IcsProperty | undefined {
+  const match = line.match(/^([A-Za-z0-9-]+)((?:;[A-Za-z0-9-]+=(?:"[^"]*"|[^";:]*)(?:,(?:"[^"]*"|[^";:]*))*)*):(.*)$/);
+  if (!match) return undefined;
+
+  const params: Record<string, string> = {};
+  for (const param of match[2].matchAll(/;([A-Za-z0-9-]+)=((?:"[^"]*"|[^";:]*)(?:,(?:"[^"]*"|[^";:]*))*)/g)) {
+    params[param[1].toUpperCase()] = param[2].replace(/"/g, '');
+  }
+  return { name: match[1].toUpperCase(), params, value: match[3] };
+}
+
+/**
+ * Parse iCalendar text into components
+ * Lenient: unparseable lines and unbalanced END lines are skipped.
+ *
+ * @param text Calendar text (any line endings)
+ * @returns Top-level components (normally one VCALENDAR)
+ */
+export function parseCalendar(text: string): IcsComponent[] {
+  const root: IcsComponent = { name: '', properties: [], components: [] };
+  const stack = [root];
+
+  for (const line of text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)) {
+    const property = parseContentLine(line);
+    if (!property) continue;
+    const current = stack[stack.length - 1];
+    if (property.name === 'BEGIN') {
+      const component = { name: property.value.trim().toUpperCase(), properties: [], components: [] };
+      current.components.push(component);
+      stack.push(component);
+    } else if (property.name === 'END') {
+      if (stack.length > 1 && current.name === property.value.trim().toUpperCase()) stack.pop();
+    } else {
+      current.properties.push(property);
+    }
+  }
+  return root.components;
+}
+
+/**
+ * Parse a UTC date-time value such as "20300111T190000Z"
+ * @returns Timestamp, or undefined for other forms (local times, dates)
+ */
+export function parseICSDate(value: string): number | undefined {
+  const match = value.trim().match(/^(\d{4})(\d\d)(\d\d)T(\d\d)(\d\d)(\d\d)Z$/);
+  if (!match) return undefined;
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  return Date.UTC(year, month - 1, day, hours, minutes, seconds);
+}
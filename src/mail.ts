@@ -0,0 +1,271 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+// src/mail.ts
+// Outgoing mail transport (SMTP, Gmail, sendmail, file/JSON outbox), configured from the environment
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as nodemailer from 'nodemailer';
+import type Mail from 'nodemailer/lib/mailer';
+import type SendmailTransport from 'nodemailer/lib/sendmail-transport';
+import type StreamTransport from 'nodemailer/lib/stream-transport';
+import type JSONTransport from 'nodemailer/lib/json-transport';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type MailTransportKind = 'smtp' | 'gmail' | 'sendmail' | 'file' | 'json' | 'log';
+
+/**
+ * How an SMTP connection is secured
+ * implicit: TLS from the first byte (usually port 465); starttls: upgrade required;
+ * opportunistic: upgrade if the server offers it; none: never upgrade
+ */
+export type SmtpTlsMode = 'implicit' | 'starttls' | 'opportunistic' | 'none';
+
+export interface MailConfig {
+  transport: MailTransportKind;
+  from: string; // Address, or "Name <address>" once a From name is configured
+  replyTo?: string;
+  smtp?: {
+    host: string;
+    port: number;
+    tls: SmtpTlsMode;
+    rejectUnauthorized: boolean;
+    user?: string;
+    pass?: string;
+  };
+  sendmailPath?: string;
+  outboxDir?: string; // file and json transports
+  dkim?: {
+    domainName: string;
+    keySelector: string;
+    privateKey: string;
+  };
+}
+
+export interface SentMail {
+  messageId: string;
+  accepted: string[]; // Empty when the transport cannot tell (sendmail, outboxes)
+  rejected: string[];
+  outboxPath?: string; // file and json transports
+}
+
+export class MailConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MailConfigError';
+  }
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const TRANSPORT_KINDS: MailTransportKind[] = ['smtp', 'gmail', 'sendmail', 'file', 'json', 'log'];
+const TLS_MODES: SmtpTlsMode[] = ['implicit', 'starttls', 'opportunistic', 'none'];
+
+/**
+ * Read the mail configuration from environment variables
+ * Without MAIL_TRANSPORT, SMTP_HOST selects SMTP, SMTP_USER and SMTP_PASS alone select Gmail
+ * (the original behaviour), and otherwise messages are only logged.
+ *
+ * @param env Environment (defaults to process.env)
+ * @returns Validated configuration
+ * @throws MailConfigError if a setting is missing or invalid
+ */
+export function mailConfigFromEnv(env: NodeJS.ProcessEnv = process.env): MailConfig {
+  const transport = (env.MAIL_TRANSPORT?.trim().toLowerCase() ||
+    (env.SMTP_HOST ? 'smtp' : env.SMTP_USER && env.SMTP_PASS ? 'gmail' : 'log')) as MailTransportKind;
+  if (!TRANSPORT_KINDS.includes(transport)) {
+    throw new MailConfigError(`MAIL_TRANSPORT must be one of ${TRANSPORT_KINDS.join(', ')} (got "${env.MAIL_TRANSPORT}").`);
+  }
+
+  const fromAddress = env.MAIL_FROM || env.SMTP_USER || (['smtp', 'sendmail'].includes(transport) ? '' : 'odette@localhost');
+  if (!fromAddress) {
+    throw new MailConfigError(`MAIL_FROM is required for the ${transport} transport.`);
+  }
+  const config: MailConfig = {
+    transport,
+    from: env.MAIL_FROM_NAME ? `"${env.MAIL_FROM_NAME.replace(/["\\]/g, '')}" <${fromAddress}>` : fromAddress,
+    replyTo: env.MAIL_REPLY_TO || undefined,
+  };
+
+  if (transport === 'smtp') {
+    if (!env.SMTP_HOST) {
+      throw new MailConfigError('SMTP_HOST is required for the smtp transport.');
+    }
+    const port = parseInt(env.SMTP_PORT ?? '', 10) || (env.SMTP_TLS === 'implicit' ? 465 : 587);
+    const tls = (env.SMTP_TLS?.trim().toLowerCase() || (port === 465 ? 'implicit' : 'opportunistic')) as SmtpTlsMode;
+    if (!TLS_MODES.includes(tls)) {
+      throw new MailConfigError(`SMTP_TLS must be one of ${TLS_MODES.join(', ')} (got "${env.SMTP_TLS}").`);
+    }
+    config.smtp = {
+      host: env.SMTP_HOST,
+      port,
+      tls,
+      rejectUnauthorized: env.SMTP_TLS_REJECT_UNAUTHORIZED !== 'false',
+      user: env.SMTP_USER || undefined,
+      pass: env.SMTP_PASS || undefined,
+    };
+  } else if (transport === 'gmail') {
+    if (!env.SMTP_USER || !env.SMTP_PASS) {
+      throw new MailConfigError('SMTP_USER and SMTP_PASS are required for the gmail transport.');
+    }
+    config.smtp = { host: 'smtp.gmail.com', port: 465, tls: 'implicit', rejectUnauthorized: true, user: env.SMTP_USER, pass: env.SMTP_PASS };
+  } else if (transport === 'sendmail') {
+    config.sendmailPath = env.SENDMAIL_PATH || '/usr/sbin/sendmail';
+  } else if (transport === 'file' || transport === 'json') {
+    config.outboxDir = env.MAIL_OUTBOX_DIR || './data/outbox';
+  }
+
+  const dkimSettings = [env.DKIM_DOMAIN, env.DKIM_SELECTOR, env.DKIM_PRIVATE_KEY || env.DKIM_PRIVATE_KEY_FILE];
+  if (dkimSettings.some(Boolean)) {
+    if (!dkimSettings.every(Boolean)) {
+      throw new MailConfigError('DKIM signing needs DKIM_DOMAIN, DKIM_SELECTOR and DKIM_PRIVATE_KEY (or DKIM_PRIVATE_KEY_FILE).');
+    }
+    let privateKey: string;
+    try {
+      privateKey = env.DKIM_PRIVATE_KEY
+        ? env.DKIM_PRIVATE_KEY.replace(/\\n/g, '\n') // Allow a one-line key with literal \n
+        : fs.readFileSync(env.DKIM_PRIVATE_KEY_FILE!, 'utf8');
+    } catch (error: any) {
+      throw new MailConfigError(`Cannot read DKIM_PRIVATE_KEY_FILE: ${error.message}`);
+    }
+    if (!/-----BEGIN (RSA )?PRIVATE KEY-----/.test(privateKey)) {
+      throw new MailConfigError('The DKIM private key must be a PEM-encoded RSA key.');
+    }
+    config.dkim = { domainName: env.DKIM_DOMAIN!, keySelector: env.DKIM_SELECTOR!, privateKey };
+  }
+
+  return config;
+}
+
+/**
+ * One-line description of a mail configuration, for startup logs (no secrets)
+ */
+export function describeMailConfig(config: MailConfig): string {
+  const details: Record<MailTransportKind, () => string> = {
+    smtp: () => `SMTP ${config.smtp!.host}:${config.smtp!.port} (TLS: ${config.smtp!.tls}${config.smtp!.user ? `, as ${config.smtp!.user}` : ''})`,
+    gmail: () => `Gmail as ${config.smtp!.user}`,
+    sendmail: () => `sendmail at ${config.sendmailPath}`,
+    file: () => `.eml files in ${config.outboxDir}`,
+    json: () => `.json files in ${config.outboxDir}`,
+    log: () => 'not configured; messages are only logged',
+  };
+  return `${details[config.transport]()}, from ${config.from}${config.dkim ? `, DKIM-signed for ${config.dkim.domainName}` : ''}`;
+}
+
+// ============================================================================
+// Transport
+// ============================================================================
+
+/**
+ * Build the nodemailer transporter for a configuration
+ * @returns Transporter, or null for the log-only transport
+ */
+function createTransporter(config: MailConfig): nodemailer.Transporter | null {
+  const defaults: Mail.Options = { from: config.from, replyTo: config.replyTo };
+  const dkim = config.dkim ? { dkim: config.dkim } : {};
+
+  switch (config.transport) {
+    case 'smtp':
+    case 'gmail': {
+      const smtp = config.smtp!;
+      return nodemailer.createTransport({
+        host: smtp.host,
+        port: smtp.port,
+        secure: smtp.tls === 'implicit',
+        requireTLS: smtp.tls === 'starttls',
+        ignoreTLS: smtp.tls === 'none',
+        tls: { rejectUnauthorized: smtp.rejectUnauthorized },
+        auth: smtp.user && smtp.pass ? { user: smtp.user, pass: smtp.pass } : undefined,
+        ...dkim,
+      }, defaults);
+    }
+    case 'sendmail': {
+      const options: SendmailTransport.Options = { sendmail: true, path: config.sendmailPath, ...dkim };
+      return nodemailer.createTransport(options, defaults);
+    }
+    case 'file': {
+      const options: StreamTransport.Options = { streamTransport: true, buffer: true, ...dkim };
+      return nodemailer.createTransport(options, defaults);
+    }
+    case 'json': {
+      const options: JSONTransport.Options = { jsonTransport: true };
+      return nodemailer.createTransport(options, defaults);
+    }
+    case 'log':
+      return null;
+  }
+}
+
+let activeConfig: MailConfig | null = null;
+let transporter: nodemailer.Transporter | null = null;
+
+/**
+ * Get the mail configuration in use, reading it from the environment on first use
+ * @throws MailConfigError if the environment is misconfigured
+ */
+export function getMailConfig(): MailConfig {
+  if (!activeConfig) {
+    activeConfig = mailConfigFromEnv();
+    transporter = createTransporter(activeConfig);
+  }
+  return activeConfig;
+}
+
+/**
+ * Replace the mail configuration (for testing)
+ * @param config New configuration, or null to re-read the environment on next use
+ */
+export function setMailConfig(config: MailConfig | null): void {
+  transporter?.close();
+  activeConfig = config;
+  transporter = config ? createTransporter(config) : null;
+}
+
+/**
+ * Write a sent message into the outbox directory
+ */
+function writeToOutbox(dir: string, messageId: string, extension: string, content: string | Buffer): string {
+  fs.mkdirSync(dir, { recursive: true });
+  const safeId = messageId.replace(/[<>]/g, '').replace(/[^\w.@-]/g, '_');
+  const filePath = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${safeId}.${extension}`);
+  fs.writeFileSync(filePath, content);
+  return filePath;
+}
+
+/**
+ * Send a message through the configured transport
+ * From and Reply-To default to the configured ones.
+ *
+ * @param message nodemailer message (to, cc, subject, html, text, attachments, ...)
+ * @returns What the transport reported
+ * @throws MailConfigError if the environment is misconfigured, or the transport's error if sending failed
+ */
+export async function sendMail(message: Mail.Options): Promise<SentMail> {
+  const config = getMailConfig();
+  const recipients = [message.to, message.cc].flat().filter(Boolean).join(', ');
+
+  if (!transporter) {
+    const messageId = `<${Date.now()}.${Math.random().toString(36).slice(2)}@odette.invalid>`;
+    console.log(`Mail not configured. Mock sending to ${recipients}: Subject: ${message.subject}, Body: ${message.html ?? message.text}`);
+    return { messageId, accepted: [], rejected: [] };
+  }
+
+  const info = await transporter.sendMail(message);
+  const result: SentMail = {
+    messageId: info.messageId,
+    accepted: (info.accepted ?? []).map(String),
+    rejected: (info.rejected ?? []).map(String),
+  };
+  if (config.transport === 'file') {
+    result.outboxPath = writeToOutbox(config.outboxDir!, info.messageId, 'eml', info.message as Buffer);
+  } else if (config.transport === 'json') {
+    result.outboxPath = writeToOutbox(config.outboxDir!, info.messageId, 'json', info.message as string);
+  }
+  return result;
+}
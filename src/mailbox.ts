@@ -0,0 +1,159 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+// src/mailbox.ts
+// Reading mail Odette receives (calendar replies, bounces): a small MIME walker and maildir/mbox drops
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+const MAX_MIME_DEPTH = 10;
+
+export class MailboxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MailboxError';
+  }
+}
+
+/** One part of a message; containers (multipart/*, message/rfc822) are listed before their parts */
+export interface MimePart {
+  mediaType: string; // Lowercased, e.g. text/calendar
+  headers: Record<string, string>; // Names lowercased
+  body: string; // Still transfer-encoded; see decodeBody()
+  filename: string; // From Content-Disposition or Content-Type, or ''
+}
+
+// ============================================================================
+// Message Parsing
+// ============================================================================
+
+/**
+ * Split a message or body part into its (unfolded, lowercased) headers and body
+ * Messages are handled as latin1 strings so every byte survives until a part is decoded.
+ * A block with no blank line is read as headers only (e.g. text/rfc822-headers).
+ */
+export function splitMessage(raw: string): { headers: Record<string, string>; body: string } {
+  const blank = raw.match(/^\r?\n/) ? 0 : raw.search(/\r?\n\r?\n/);
+  const end = blank === -1 ? raw.length : blank;
+
+  const headers: Record<string, string> = {};
+  for (const line of raw.slice(0, end).replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon > 0) headers[line.slice(0, colon).trim().toLowerCase()] ??= line.slice(colon + 1).trim();
+  }
+  return { headers, body: raw.slice(end).replace(/^(\r?\n){1,2}/, '') };
+}
+
+/** A parameter of a header value, e.g. boundary in Content-Type */
+export function headerParam(value: string, name: string): string | undefined {
+  const match = value.match(new RegExp(`;\\s*${name}\\s*=\\s*(?:"([^"]*)"|([^;\\s]+))`, 'i'));
+  return match ? (match[1] ?? match[2]) : undefined;
+}
+
+/** The parts of a multipart body, between its boundary lines */
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const parts: string[] = [];
+  let current: string[] | null = null;
+  for (const line of body.split(/\r?\n/)) {
+    if (line.startsWith(delimiter)) {
+      if (current) parts.push(current.join('\r\n'));
+      current = line.startsWith(`${delimiter}--`) ? null : [];
+      if (!current) break;
+      continue;
+    }
+    current?.push(line);
+  }
+  if (current) parts.push(current.join('\r\n'));
+  return parts;
+}
+
+/** Undo a part's Content-Transfer-Encoding and read it as UTF-8 */
+export function decodeBody(part: Pick<MimePart, 'headers' | 'body'>): string {
+  switch ((part.headers['content-transfer-encoding'] ?? '').trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(part.body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64').toString('utf8');
+    case 'quoted-printable':
+      return Buffer.from(
+        part.body.replace(/=\r?\n/g, '').replace(/=([0-9A-Fa-f]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))),
+        'latin1'
+      ).toString('utf8');
+    default:
+      return Buffer.from(part.body, 'latin1').toString('utf8');
+  }
+}
+
+/**
+ * List every part of a message, searching nested multiparts and attached messages
+ * @param raw Message (or part) as a latin1 string
+ * @returns The message itself, then its parts depth first
+ */
+export function mimeParts(raw: string, depth: number = 0): MimePart[] {
+  if (depth > MAX_MIME_DEPTH) return [];
+  const { headers, body } = splitMessage(raw);
+  const contentType = headers['content-type'] ?? 'text/plain';
+  const mediaType = contentType.split(';')[0].trim().toLowerCase();
+  const filename = headerParam(headers['content-disposition'] ?? '', 'filename') ?? headerParam(contentType, 'name') ?? '';
+  const part = { mediaType, headers, body, filename };
+
+  if (mediaType.startsWith('multipart/')) {
+    const boundary = headerParam(contentType, 'boundary');
+    return [part, ...(boundary ? splitMultipart(body, boundary).flatMap(p => mimeParts(p, depth + 1)) : [])];
+  }
+  if (mediaType === 'message/rfc822') {
+    return [part, ...mimeParts(body, depth + 1)];
+  }
+  return [part];
+}
+
+// ============================================================================
+// Drops
+// ============================================================================
+
+/** The messages in an mbox file (mboxrd: ">From " lines in bodies are unescaped) */
+function splitMbox(content: Buffer): Buffer[] {
+  return content.toString('latin1')
+    .split(/^From .*\r?\n/m)
+    .filter(message => message.trim())
+    .map(message => Buffer.from(message.replace(/^>(>*From )/gm, '$1'), 'latin1'));
+}
+
+/**
+ * Read the messages in a maildir, an mbox file or a single message file
+ * Maildir messages are moved from new/ to cur/ once handled. Other files are read in full every time,
+ * so handlers must recognise messages they have already seen.
+ *
+ * @param dropPath Maildir directory, mbox file or .eml file
+ * @param handle Called with each message in turn
+ * @returns Everything the handler returned, in order
+ * @throws MailboxError if the path is a directory but not a maildir
+ */
+export async function readMailDrop<T>(dropPath: string, handle: (message: Buffer) => Promise<T[]>): Promise<T[]> {
+  const results: T[] = [];
+
+  if ((await fs.promises.stat(dropPath)).isDirectory()) {
+    const newDir = path.join(dropPath, 'new');
+    if (!fs.existsSync(newDir)) {
+      throw new MailboxError(`${dropPath} is not a maildir (it has no new/ directory).`);
+    }
+    for (const name of (await fs.promises.readdir(newDir)).sort()) {
+      if (name.startsWith('.')) continue;
+      results.push(...await handle(await fs.promises.readFile(path.join(newDir, name))));
+      await fs.promises.mkdir(path.join(dropPath, 'cur'), { recursive: true });
+      await fs.promises.rename(path.join(newDir, name), path.join(dropPath, 'cur', `${name}:2,S`));
+    }
+    return results;
+  }
+
+  const content = await fs.promises.readFile(dropPath);
+  const messages = content.subarray(0, 5).toString('latin1') === 'From ' ? splitMbox(content) : [content];
+  for (const message of messages) {
+    results.push(...await handle(message));
+  }
+  return results;
+}
@@ -2,6 +2,17 @@
 // Copyright (C) 2025 Chris Danis
 
 import app, { PORT, APP_BASE_URL } from './server';
+import { startHousekeeping } from './housekeeping';
+import { startBackupSchedule } from './backup';
+import { startSeriesSchedule } from './series';
+import { startEmailQueue } from './email-queue';
+import { startReminderSchedule } from './reminders';
+import { startCalendarReplyPolling } from './calendar-replies';
+import { startBouncePolling } from './bounces';
+import { describeMailConfig, getMailConfig } from './mail';
+
+// Fail fast on a broken mail configuration rather than on the first invitation
+console.log(`Mail transport: ${describeMailConfig(getMailConfig())}`);
 
 app.listen(+PORT, (err?: Error) => {
     if (err) {
@@ -9,4 +20,11 @@ app.listen(+PORT, (err?: Error) => {
         process.exit(1);
     }
     console.log(`Server running at ${APP_BASE_URL}`);
+    startHousekeeping();
+    startBackupSchedule();
+    startSeriesSchedule();
+    startEmailQueue();
+    startReminderSchedule(APP_BASE_URL);
+    startCalendarReplyPolling(APP_BASE_URL);
+    startBouncePolling();
 });
@@ -0,0 +1,569 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+// src/migrations.ts
+// Versioned schema migrations, tracked in the schema_migrations table
+
+import type * as Database from 'better-sqlite3';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  started_at: number;
+  applied_at: number | null; // NULL = started but never completed
+}
+
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Add a column to a table unless it is already present
+ * Only intended for bringing pre-migration-framework databases up to date
+ */
+function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    console.log(`Adding ${column} column to ${table} table...`);
+    db.prepare(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`).run();
+  }
+}
+
+// ============================================================================
+// Migrations
+// ============================================================================
+
+/**
+ * All schema migrations, in order. Append new entries with the next version
+ * number; never edit or reorder a migration that has shipped.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'baseline schema',
+    up: (db) => {
+      db.prepare(`CREATE TABLE IF NOT EXISTS events (
+        id INTEGER PRIMARY KEY,
+        title TEXT NOT NULL,
+        date INTEGER NOT NULL,
+        description TEXT,
+        banner_image_filename TEXT,
+        location_name TEXT,
+        location_href TEXT,
+        date_end INTEGER,
+        timezone TEXT
+      )`).run();
+
+      db.prepare(`CREATE TABLE IF NOT EXISTS attendees (
+        id INTEGER PRIMARY KEY,
+        event_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        email TEXT NOT NULL,
+        party_size INTEGER NOT NULL DEFAULT 1,
+        token TEXT NOT NULL UNIQUE,
+        is_sent INTEGER NOT NULL DEFAULT 0,
+        rsvp TEXT DEFAULT NULL,
+        responded_at INTEGER DEFAULT NULL,
+        last_modified INTEGER,
+        additional_emails TEXT,
+        FOREIGN KEY(event_id) REFERENCES events(id) ON DELETE CASCADE
+      )`).run();
+
+      // Databases created before versioned migrations may predate these columns
+      addColumnIfMissing(db, 'events', 'banner_image_filename', 'TEXT');
+      addColumnIfMissing(db, 'events', 'location_name', 'TEXT');
+      addColumnIfMissing(db, 'events', 'location_href', 'TEXT');
+      addColumnIfMissing(db, 'events', 'date_end', 'INTEGER');
+      addColumnIfMissing(db, 'events', 'timezone', 'TEXT');
+      addColumnIfMissing(db, 'attendees', 'last_modified', 'INTEGER');
+      addColumnIfMissing(db, 'attendees', 'additional_emails', `TEXT CHECK(json_valid(additional_emails) AND json_type(additional_emails) IN ('array', 'null'))`);
+    }
+  },
+  {
+    version: 2,
+    name: 'rsvp history',
+    up: (db) => {
+      db.prepare(`CREATE TABLE rsvp_history (
+        id INTEGER PRIMARY KEY,
+        attendee_id INTEGER NOT NULL,
+        changed_at INTEGER NOT NULL,
+        old_rsvp TEXT,
+        old_party_size INTEGER,
+        new_rsvp TEXT NOT NULL,
+        new_party_size INTEGER NOT NULL,
+        user_agent TEXT,
+        ip TEXT,
+        FOREIGN KEY(attendee_id) REFERENCES attendees(id) ON DELETE CASCADE
+      )`).run();
+      db.prepare('CREATE INDEX idx_rsvp_history_attendee ON rsvp_history(attendee_id, changed_at)').run();
+      // Append-only: rows may go away with their attendee, but are never rewritten
+      db.prepare(`CREATE TRIGGER rsvp_history_no_update BEFORE UPDATE ON rsvp_history
+        BEGIN SELECT RAISE(ABORT, 'rsvp_history is append-only'); END`).run();
+    }
+  },
+  {
+    version: 3,
+    name: 'event archiving and deferred deletion',
+    up: (db) => {
+      db.prepare('ALTER TABLE events ADD COLUMN archived_at INTEGER').run();
+      db.prepare('ALTER TABLE events ADD COLUMN delete_requested_at INTEGER').run();
+    }
+  },
+  {
+    version: 4,
+    name: 'attendee views and send failures',
+    up: (db) => {
+      db.prepare('ALTER TABLE attendees ADD COLUMN viewed_at INTEGER').run();
+      db.prepare('ALTER TABLE attendees ADD COLUMN last_send_error TEXT').run();
+      db.prepare('CREATE INDEX IF NOT EXISTS idx_attendees_event ON attendees(event_id)').run();
+    }
+  },
+  {
+    version: 5,
+    name: 'contact directory',
+    up: (db) => {
+      db.prepare(`CREATE TABLE contacts (
+        id INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        email TEXT NOT NULL UNIQUE,
+        additional_emails TEXT CHECK(json_valid(additional_emails) AND json_type(additional_emails) IN ('array', 'null')),
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )`).run();
+      db.prepare('ALTER TABLE attendees ADD COLUMN contact_id INTEGER REFERENCES contacts(id) ON DELETE SET NULL').run();
+      db.prepare('CREATE INDEX idx_attendees_contact ON attendees(contact_id)').run();
+
+      // One contact per distinct email, named after the most recently modified attendee
+      const now = Date.now();
+      db.prepare(`INSERT INTO contacts (name, email, additional_emails, created_at, updated_at)
+        SELECT a.name, lower(trim(a.email)), a.additional_emails, ?, ?
+        FROM attendees a
+        WHERE a.id = (SELECT b.id FROM attendees b WHERE lower(trim(b.email)) = lower(trim(a.email))
+                      ORDER BY COALESCE(b.last_modified, 0) DESC, b.id DESC LIMIT 1)`).run(now, now);
+      db.prepare('UPDATE attendees SET contact_id = (SELECT c.id FROM contacts c WHERE c.email = lower(trim(attendees.email)))').run();
+    }
+  },
+  {
+    version: 6,
+    name: 'attendee tags',
+    up: (db) => {
+      db.prepare(`CREATE TABLE attendee_tags (
+        attendee_id INTEGER NOT NULL REFERENCES attendees(id) ON DELETE CASCADE,
+        tag TEXT NOT NULL,
+        PRIMARY KEY (attendee_id, tag)
+      ) WITHOUT ROWID`).run();
+      db.prepare('CREATE INDEX idx_attendee_tags_tag ON attendee_tags(tag)').run();
+    }
+  },
+  {
+    version: 7,
+    name: 'recurring event series',
+    up: (db) => {
+      db.prepare(`CREATE TABLE series (
+        id INTEGER PRIMARY KEY,
+        title TEXT NOT NULL,
+        description TEXT,
+        location_name TEXT,
+        location_href TEXT,
+        timezone TEXT NOT NULL,
+        dtstart INTEGER NOT NULL,
+        duration_ms INTEGER,
+        rrule TEXT NOT NULL,
+        exdates TEXT NOT NULL DEFAULT '[]' CHECK(json_valid(exdates) AND json_type(exdates) = 'array'),
+        horizon_days INTEGER NOT NULL DEFAULT 60,
+        created_at INTEGER NOT NULL
+      )`).run();
+      db.prepare(`CREATE TABLE series_members (
+        series_id INTEGER NOT NULL REFERENCES series(id) ON DELETE CASCADE,
+        contact_id INTEGER NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+        party_size INTEGER NOT NULL DEFAULT 1,
+        PRIMARY KEY (series_id, contact_id)
+      ) WITHOUT ROWID`).run();
+      db.prepare('ALTER TABLE events ADD COLUMN series_id INTEGER REFERENCES series(id) ON DELETE SET NULL').run();
+      db.prepare('ALTER TABLE events ADD COLUMN occurrence_start INTEGER').run();
+      db.prepare('CREATE UNIQUE INDEX idx_events_series_occurrence ON events(series_id, occurrence_start)').run();
+    }
+  },
+  {
+    version: 8,
+    name: 'email queue',
+    up: (db) => {
+      db.prepare(`CREATE TABLE email_queue (
+        id INTEGER PRIMARY KEY,
+        kind TEXT NOT NULL,
+        event_id INTEGER REFERENCES events(id) ON DELETE CASCADE,
+        attendee_id INTEGER REFERENCES attendees(id) ON DELETE CASCADE,
+        payload TEXT CHECK(payload IS NULL OR json_valid(payload)),
+        status TEXT NOT NULL DEFAULT 'pending' CHECK(status IN ('pending', 'sending', 'sent', 'failed')),
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at INTEGER NOT NULL,
+        last_attempt_at INTEGER,
+        last_error TEXT,
+        created_at INTEGER NOT NULL,
+        sent_at INTEGER
+      )`).run();
+      db.prepare('CREATE INDEX idx_email_queue_due ON email_queue(status, next_attempt_at)').run();
+      db.prepare('CREATE INDEX idx_email_queue_event ON email_queue(event_id, status)').run();
+      db.prepare('CREATE INDEX idx_email_queue_attempts ON email_queue(last_attempt_at)').run();
+      // At most one unsent message of each kind per attendee
+      db.prepare(`CREATE UNIQUE INDEX idx_email_queue_unsent ON email_queue(kind, attendee_id)
+        WHERE status IN ('pending', 'sending')`).run();
+    }
+  },
+  {
+    version: 9,
+    name: 'delivery log',
+    up: (db) => {
+      db.prepare(`CREATE TABLE deliveries (
+        id INTEGER PRIMARY KEY,
+        attendee_id INTEGER NOT NULL REFERENCES attendees(id) ON DELETE CASCADE,
+        kind TEXT NOT NULL,
+        attempted_at INTEGER NOT NULL,
+        message_id TEXT,
+        to_address TEXT NOT NULL,
+        cc_addresses TEXT NOT NULL DEFAULT '[]' CHECK(json_valid(cc_addresses) AND json_type(cc_addresses) = 'array'),
+        error TEXT
+      )`).run();
+      db.prepare('CREATE INDEX idx_deliveries_attendee ON deliveries(attendee_id, attempted_at)').run();
+
+      // The old flag and error become one delivery each; when they were set is unknown, so use the last change
+      db.prepare(`INSERT INTO deliveries (attendee_id, kind, attempted_at, to_address)
+        SELECT id, 'invitation', COALESCE(last_modified, 0), email FROM attendees WHERE is_sent = 1`).run();
+      db.prepare(`INSERT INTO deliveries (attendee_id, kind, attempted_at, to_address, error)
+        SELECT id, 'invitation', COALESCE(last_modified, 0), email, last_send_error FROM attendees WHERE last_send_error IS NOT NULL`).run();
+      db.prepare('ALTER TABLE attendees DROP COLUMN is_sent').run();
+      db.prepare('ALTER TABLE attendees DROP COLUMN last_send_error').run();
+    }
+  },
+  {
+    version: 10,
+    name: 'email templates',
+    up: (db) => {
+      db.prepare(`CREATE TABLE email_templates (
+        id INTEGER PRIMARY KEY,
+        kind TEXT NOT NULL,
+        event_id INTEGER REFERENCES events(id) ON DELETE CASCADE,
+        subject TEXT NOT NULL,
+        body TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      )`).run();
+      // One template per kind for each event, plus one instance default (event_id NULL)
+      db.prepare('CREATE UNIQUE INDEX idx_email_templates_scope ON email_templates(kind, COALESCE(event_id, 0))').run();
+    }
+  },
+  {
+    version: 11,
+    name: 'reminders',
+    up: (db) => {
+      db.prepare(`CREATE TABLE reminder_rules (
+        id INTEGER PRIMARY KEY,
+        event_id INTEGER NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+        days_before INTEGER NOT NULL CHECK(days_before > 0),
+        audience TEXT NOT NULL CHECK(audience IN ('attending', 'no_reply')),
+        created_at INTEGER NOT NULL
+      )`).run();
+      db.prepare('CREATE INDEX idx_reminder_rules_event ON reminder_rules(event_id)').run();
+      // One row per guest a rule has queued a reminder for, so nobody gets the same reminder twice
+      db.prepare(`CREATE TABLE reminder_sends (
+        rule_id INTEGER NOT NULL REFERENCES reminder_rules(id) ON DELETE CASCADE,
+        attendee_id INTEGER NOT NULL REFERENCES attendees(id) ON DELETE CASCADE,
+        queued_at INTEGER NOT NULL,
+        PRIMARY KEY (rule_id, attendee_id)
+      )`).run();
+      db.prepare('CREATE INDEX idx_reminder_sends_attendee ON reminder_sends(attendee_id, queued_at)').run();
+    }
+  },
+  {
+    version: 12,
+    name: 'rsvp confirmations',
+    up: (db) => {
+      db.prepare('ALTER TABLE events ADD COLUMN send_confirmations INTEGER NOT NULL DEFAULT 0').run();
+    }
+  },
+  {
+    version: 13,
+    name: 'calendar invitations',
+    up: (db) => {
+      db.prepare('ALTER TABLE events ADD COLUMN calendar_invites INTEGER NOT NULL DEFAULT 0').run();
+    }
+  },
+  {
+    version: 14,
+    name: 'event sequence',
+    up: (db) => {
+      db.prepare('ALTER TABLE events ADD COLUMN sequence INTEGER NOT NULL DEFAULT 0').run();
+    }
+  },
+  {
+    version: 15,
+    name: 'event cancellation',
+    up: (db) => {
+      db.prepare('ALTER TABLE events ADD COLUMN cancelled_at INTEGER').run();
+      db.prepare('ALTER TABLE events ADD COLUMN cancellation_reason TEXT').run();
+    }
+  },
+  {
+    version: 16,
+    name: 'bounces',
+    up: (db) => {
+      db.prepare(`CREATE TABLE bounces (
+        id INTEGER PRIMARY KEY,
+        delivery_id INTEGER NOT NULL REFERENCES deliveries(id) ON DELETE CASCADE,
+        recipient TEXT NOT NULL,
+        status TEXT,
+        diagnostic TEXT,
+        received_at INTEGER NOT NULL,
+        UNIQUE (delivery_id, recipient)
+      )`).run();
+    }
+  },
+  {
+    version: 17,
+    name: 'rsvp questions',
+    up: (db) => {
+      db.prepare(`CREATE TABLE rsvp_questions (
+        id INTEGER PRIMARY KEY,
+        event_id INTEGER NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        type TEXT NOT NULL CHECK(type IN ('text', 'long_text', 'single_choice', 'multi_choice', 'number')),
+        label TEXT NOT NULL,
+        options TEXT NOT NULL DEFAULT '[]',
+        required INTEGER NOT NULL DEFAULT 0,
+        attending_only INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL
+      )`).run();
+      db.prepare('CREATE INDEX idx_rsvp_questions_event ON rsvp_questions(event_id, position)').run();
+      // Answers are JSON: a string, a number, or an array of the options picked
+      db.prepare(`CREATE TABLE rsvp_answers (
+        question_id INTEGER NOT NULL REFERENCES rsvp_questions(id) ON DELETE CASCADE,
+        attendee_id INTEGER NOT NULL REFERENCES attendees(id) ON DELETE CASCADE,
+        answer TEXT NOT NULL,
+        answered_at INTEGER NOT NULL,
+        PRIMARY KEY (question_id, attendee_id)
+      )`).run();
+      db.prepare('CREATE INDEX idx_rsvp_answers_attendee ON rsvp_answers(attendee_id)').run();
+    }
+  },
+  {
+    version: 18,
+    name: 'maybe responses',
+    up: (db) => {
+      db.prepare('ALTER TABLE events ADD COLUMN allow_maybe INTEGER NOT NULL DEFAULT 0').run();
+
+      // Widen the audience CHECK. Dropping reminder_rules would cascade to reminder_sends,
+      // so both are rebuilt and the sends copied back.
+      db.prepare('CREATE TEMP TABLE reminder_sends_copy AS SELECT * FROM reminder_sends').run();
+      db.prepare('DROP TABLE reminder_sends').run();
+      db.prepare(`CREATE TABLE reminder_rules_new (
+        id INTEGER PRIMARY KEY,
+        event_id INTEGER NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+        days_before INTEGER NOT NULL CHECK(days_before > 0),
+        audience TEXT NOT NULL CHECK(audience IN ('attending', 'maybe', 'no_reply')),
+        created_at INTEGER NOT NULL
+      )`).run();
+      db.prepare('INSERT INTO reminder_rules_new SELECT id, event_id, days_before, audience, created_at FROM reminder_rules').run();
+      db.prepare('DROP TABLE reminder_rules').run();
+      db.prepare('ALTER TABLE reminder_rules_new RENAME TO reminder_rules').run();
+      db.prepare('CREATE INDEX idx_reminder_rules_event ON reminder_rules(event_id)').run();
+      db.prepare(`CREATE TABLE reminder_sends (
+        rule_id INTEGER NOT NULL REFERENCES reminder_rules(id) ON DELETE CASCADE,
+        attendee_id INTEGER NOT NULL REFERENCES attendees(id) ON DELETE CASCADE,
+        queued_at INTEGER NOT NULL,
+        PRIMARY KEY (rule_id, attendee_id)
+      )`).run();
+      db.prepare('INSERT INTO reminder_sends SELECT rule_id, attendee_id, queued_at FROM reminder_sends_copy').run();
+      db.prepare('DROP TABLE reminder_sends_copy').run();
+      db.prepare('CREATE INDEX idx_reminder_sends_attendee ON reminder_sends(attendee_id, queued_at)').run();
+    }
+  },
+  {
+    version: 19,
+    name: 'party members',
+    up: (db) => {
+      db.prepare('ALTER TABLE rsvp_questions ADD COLUMN per_person INTEGER NOT NULL DEFAULT 0').run();
+      // The people coming with a guest; the guest is person 1, so members start at position 2
+      db.prepare(`CREATE TABLE party_members (
+        id INTEGER PRIMARY KEY,
+        attendee_id INTEGER NOT NULL REFERENCES attendees(id) ON DELETE CASCADE,
+        position INTEGER NOT NULL CHECK(position >= 2),
+        name TEXT NOT NULL,
+        UNIQUE (attendee_id, position)
+      )`).run();
+      db.prepare(`CREATE TABLE party_member_answers (
+        question_id INTEGER NOT NULL REFERENCES rsvp_questions(id) ON DELETE CASCADE,
+        member_id INTEGER NOT NULL REFERENCES party_members(id) ON DELETE CASCADE,
+        answer TEXT NOT NULL,
+        PRIMARY KEY (question_id, member_id)
+      )`).run();
+      db.prepare('CREATE INDEX idx_party_member_answers_member ON party_member_answers(member_id)').run();
+    }
+  },
+  {
+    version: 20,
+    name: 'waitlist',
+    up: (db) => {
+      db.prepare('ALTER TABLE events ADD COLUMN capacity INTEGER CHECK(capacity > 0)').run();
+      // Set on a guest who said yes while there was no room for their party; cleared when they get a place
+      db.prepare('ALTER TABLE attendees ADD COLUMN waitlisted_at INTEGER').run();
+    }
+  },
+  {
+    version: 21,
+    name: 'rsvp deadline',
+    up: (db) => {
+      db.prepare('ALTER TABLE events ADD COLUMN rsvp_deadline INTEGER').run();
+      // Lets guests answer again after the deadline has passed, until a new deadline is set
+      db.prepare('ALTER TABLE events ADD COLUMN responses_reopened INTEGER NOT NULL DEFAULT 0').run();
+      db.prepare('ALTER TABLE attendees ADD COLUMN late_rsvp_allowed INTEGER NOT NULL DEFAULT 0').run();
+    }
+  },
+  {
+    version: 22,
+    name: 'series until in utc',
+    up: (db) => {
+      // The series form wrote UNTIL as the end of the day in UTC, and occurrences were expanded as if that were
+      // local time; UNTIL is now a real UTC instant, so rewrite the old values to the end of that day in the series' timezone
+      const series = db.prepare('SELECT id, rrule, timezone FROM series').all() as { id: number; rrule: string; timezone: string }[];
+      const stmt = db.prepare('UPDATE series SET rrule = ? WHERE id = ?');
+      for (const { id, rrule, timezone } of series) {
+        const rewritten = rrule.replace(/UNTIL=(\d{4})(\d{2})(\d{2})T235959Z/, (_, y, m, d) =>
+          `UNTIL=${formatInTimeZone(fromZonedTime(`${y}-${m}-${d}T23:59:59`, timezone), 'UTC', "yyyyMMdd'T'HHmmss'Z'")}`);
+        if (rewritten !== rrule) stmt.run(rewritten, id);
+      }
+    }
+  },
+  {
+    version: 23,
+    name: 'delivery payloads',
+    up: (db) => {
+      // The queue payload an email was sent with (e.g. the reminder rule, or what an update changed), so a retry sends the same email
+      db.prepare('ALTER TABLE deliveries ADD COLUMN payload TEXT').run();
+    }
+  },
+  {
+    version: 24,
+    name: 'email attempt log',
+    up: (db) => {
+      // One row per send attempt, for the rate limits: queue rows only keep their latest attempt
+      db.prepare(`CREATE TABLE email_attempts (
+        id INTEGER PRIMARY KEY,
+        attempted_at INTEGER NOT NULL
+      )`).run();
+      db.prepare('CREATE INDEX idx_email_attempts_time ON email_attempts(attempted_at)').run();
+      db.prepare('INSERT INTO email_attempts (attempted_at) SELECT last_attempt_at FROM email_queue WHERE last_attempt_at IS NOT NULL').run();
+    }
+  },
+];
+
+// ============================================================================
+// Runner
+// ============================================================================
+
+function ensureMigrationsTable(db: Database.Database): void {
+  db.prepare(`CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name TEXT NOT NULL,
+    started_at INTEGER NOT NULL,
+    applied_at INTEGER
+  )`).run();
+}
+
+/**
+ * List every migration recorded in the database, including incomplete ones
+ * @param db Database instance
+ * @returns Recorded migrations ordered by version
+ */
+export function getMigrationStatus(db: Database.Database): MigrationStatus[] {
+  ensureMigrationsTable(db);
+  return db.prepare('SELECT version, name, started_at, applied_at FROM schema_migrations ORDER BY version')
+    .all() as MigrationStatus[];
+}
+
+/**
+ * Get the highest successfully applied migration version
+ * @param db Database instance
+ * @returns Schema version (0 for an empty database)
+ */
+export function getSchemaVersion(db: Database.Database): number {
+  ensureMigrationsTable(db);
+  const row = db.prepare('SELECT MAX(version) AS version FROM schema_migrations WHERE applied_at IS NOT NULL')
+    .get() as { version: number | null };
+  return row.version ?? 0;
+}
+
+/**
+ * List migrations that have not yet been applied to the database
+ * @param db Database instance
+ * @param migrations Migration list (defaults to MIGRATIONS)
+ * @returns Pending migrations in the order they would run
+ */
+export function getPendingMigrations(db: Database.Database, migrations: Migration[] = MIGRATIONS): Migration[] {
+  const applied = new Set(getMigrationStatus(db).filter(m => m.applied_at !== null).map(m => m.version));
+  return migrations
+    .filter(m => !applied.has(m.version))
+    .sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Apply all pending migrations, each inside its own transaction
+ * Refuses to run if a previous migration started but never completed,
+ * or if the database is newer than this version of the code.
+ *
+ * @param db Database instance
+ * @param migrations Migration list (defaults to MIGRATIONS)
+ * @throws MigrationError if the schema is in an unknown or failed state
+ */
+export function runMigrations(db: Database.Database, migrations: Migration[] = MIGRATIONS): void {
+  const status = getMigrationStatus(db);
+
+  const incomplete = status.find(m => m.applied_at === null);
+  if (incomplete) {
+    throw new MigrationError(
+      `Migration ${incomplete.version} (${incomplete.name}) started at ${new Date(incomplete.started_at).toISOString()} but never completed. ` +
+      `Inspect the database, then remove its row from schema_migrations to retry.`
+    );
+  }
+
+  const latestKnown = migrations.reduce((max, m) => Math.max(max, m.version), 0);
+  const unknown = status.find(m => m.version > latestKnown);
+  if (unknown) {
+    throw new MigrationError(
+      `Database has migration ${unknown.version} (${unknown.name}) applied, but this version of Odette only knows up to ${latestKnown}.`
+    );
+  }
+
+  for (const migration of getPendingMigrations(db, migrations)) {
+    console.log(`Applying migration ${migration.version}: ${migration.name}`);
+    // Recorded outside the transaction so a failure leaves a trace behind
+    db.prepare('INSERT INTO schema_migrations (version, name, started_at) VALUES (?, ?, ?)')
+      .run(migration.version, migration.name, Date.now());
+
+    try {
+      db.transaction(() => {
+        migration.up(db);
+        db.prepare('UPDATE schema_migrations SET applied_at = ? WHERE version = ?').run(Date.now(), migration.version);
+      })();
+    } catch (error: any) {
+      console.error(`Migration ${migration.version} (${migration.name}) failed:`, error);
+      throw new MigrationError(`Migration ${migration.version} (${migration.name}) failed: ${error.message}`);
+    }
+  }
+}
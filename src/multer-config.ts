@@ -5,11 +5,14 @@
 // Multer configuration for file uploads
 
 import multer from 'multer';
+import type { RequestHandler } from 'express';
 import * as path from 'path';
 
 const EVENT_BANNER_STORAGE_PATH = process.env.EVENT_BANNER_STORAGE_PATH || './data/uploads/event-banners';
+const BANNER_MAX_BYTES = 5 * 1024 * 1024;
+const UPLOAD_MAX_BYTES = 20 * 1024 * 1024; // Event bundles carry a banner plus the guest list
 
-const storage = multer.diskStorage({
+const diskStorage = multer.diskStorage({
   destination: function (req, file, cb) {
     cb(null, EVENT_BANNER_STORAGE_PATH);
   },
@@ -20,6 +23,31 @@ const storage = multer.diskStorage({
   }
 });
 
+const memoryStorage = multer.memoryStorage();
+
+// Banner images go straight to disk; everything else (CSV files, event bundles)
+// is only parsed, so it stays in memory and is available as req.file.buffer
+const storage: multer.StorageEngine = {
+  _handleFile(req, file, cb) {
+    if (file.fieldname !== 'banner_image') {
+      memoryStorage._handleFile(req, file, cb);
+      return;
+    }
+    diskStorage._handleFile(req, file, (err, info) => {
+      if (!err && info?.size !== undefined && info.size > BANNER_MAX_BYTES) {
+        diskStorage._removeFile(req, { ...file, ...info } as Express.Multer.File, () => {
+          cb(new Error('File too large. Banner images may be at most 5 MB.'));
+        });
+        return;
+      }
+      cb(err, info);
+    });
+  },
+  _removeFile(req, file, cb) {
+    (file.fieldname === 'banner_image' ? diskStorage : memoryStorage)._removeFile(req, file, cb);
+  },
+};
+
 const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
   // Allow image files for banners
   if (file.fieldname === 'banner_image') {
@@ -28,7 +56,7 @@ const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCa
     } else {
       cb(new Error('Invalid file type. Only JPEG, PNG, and GIF are allowed.'));
     }
-  } 
+  }
   // Allow CSV/TSV files for attendee uploads
   else if (file.fieldname === 'csv_file') {
     if (file.mimetype === 'text/csv' || file.mimetype === 'text/tab-separated-values' || file.mimetype === 'text/plain') {
@@ -36,7 +64,31 @@ const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCa
     } else {
       cb(new Error('Invalid file type. Only CSV and TSV files are allowed.'));
     }
-  } 
+  }
+  // Allow exported event bundles (browsers disagree on the MIME type of .tar.gz)
+  else if (file.fieldname === 'event_bundle') {
+    if (/\.(tar\.gz|tgz)$/i.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Event bundles are .tar.gz files.'));
+    }
+  }
+  // Allow saved emails (or bare .ics files) carrying a guest's calendar reply
+  else if (file.fieldname === 'calendar_reply') {
+    if (/\.(eml|ics|txt)$/i.test(file.originalname) || file.mimetype === 'message/rfc822' || file.mimetype === 'text/calendar') {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Calendar replies are .eml or .ics files.'));
+    }
+  }
+  // Allow saved bounce messages (delivery status notifications)
+  else if (file.fieldname === 'bounce') {
+    if (/\.(eml|txt)$/i.test(file.originalname) || file.mimetype === 'message/rfc822') {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Bounces are .eml files.'));
+    }
+  }
   else {
     cb(new Error('Unknown file field.'));
   }
@@ -45,12 +97,19 @@ const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCa
 export const upload = multer({
   storage: storage,
   fileFilter: fileFilter,
-  limits: { fileSize: 5 * 1024 * 1024 }
+  limits: { fileSize: UPLOAD_MAX_BYTES, files: 1 }
 });
 
-// Multer memory storage for CSV files (we need buffer access)
-export const uploadMemory = multer({
-  storage: multer.memoryStorage(),
-  fileFilter: fileFilter,
-  limits: { fileSize: 5 * 1024 * 1024 }
-});
+/**
+ * Parse multipart admin forms. Every admin form has at most one file field,
+ * so whichever field it uses ends up in req.file.
+ */
+export const adminUpload: RequestHandler = (req, res, next) => {
+  upload.any()(req, res, (err?: unknown) => {
+    const files = req.files as Express.Multer.File[] | undefined;
+    if (!err && files && files.length > 0) {
+      req.file = files[0];
+    }
+    next(err);
+  });
+};
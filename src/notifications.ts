@@ -4,36 +4,92 @@
 // src/notifications.ts
 // Email and notification handling
 
-import * as nodemailer from 'nodemailer';
-import { htmlToPlainText } from './utils';
+import { sendMail, type SentMail } from './mail';
+import type Mail from 'nodemailer/lib/mailer';
+import { buildCalendarRequest, buildGuestCalendar } from './calendar';
+import { renderGuestEmail, type EmailTemplateKind, type TemplateGuest } from './email-templates';
+import { formatRsvpResponse } from './utils';
 import type { EventRecord } from './database';
 
 // ============================================================================
 // Configuration
 // ============================================================================
 
-const SMTP_USER = process.env.SMTP_USER;
-const SMTP_PASS = process.env.SMTP_PASS;
 const NTFY_TOPIC = process.env.NTFY_TOPIC;
 const NTFY_BASE_URL = (process.env.NTFY_BASE_URL ?? 'https://ntfy.sh').replace(/\/+$/, '');
 const NTFY_USER = process.env.NTFY_USER;
 const NTFY_PASS = process.env.NTFY_PASS;
 
 // ============================================================================
-// Email Transporter
+// Functions
 // ============================================================================
 
-const transporter = nodemailer.createTransport({
-  service: 'gmail',
-  auth: { user: SMTP_USER, pass: SMTP_PASS }
-});
+/** The guest's iTIP request (a cancellation once the event is cancelled), as nodemailer's icalEvent */
+function calendarRequest(
+  event: EventRecord,
+  guest: { name: string; token: string; rsvp?: string | null },
+  primaryEmail: string,
+  appBaseUrl: string
+): Mail.IcalAttachment {
+  return {
+    method: event.cancelled_at ? 'CANCEL' : 'REQUEST',
+    filename: 'invite.ics',
+    content: buildCalendarRequest(event, { ...guest, email: primaryEmail }, appBaseUrl),
+  };
+}
 
-// ============================================================================
-// Functions
-// ============================================================================
+/** The guest's calendar file (as served by /ics/:token), as an attachment */
+function calendarAttachment(event: EventRecord, token: string, appBaseUrl: string): Mail.Attachment {
+  const calendar = buildGuestCalendar(event, token, appBaseUrl);
+  return { filename: calendar.filename, content: calendar.content, contentType: 'text/calendar; charset=utf-8' };
+}
+
+/**
+ * Send a guest an email built from the event's template of the given kind
+ * 
+ * @param kind Kind of email, also used in log messages
+ * @param guest Guest the email is rendered for
+ * @param primaryEmail Primary recipient email
+ * @param ccEmails Array of CC email addresses (will be filtered to exclude primary)
+ * @param event Event details
+ * @param appBaseUrl Base URL for generating RSVP links
+ * @param extra Files to attach and calendar request to embed (optional)
+ * @returns What the mail transport reported (Message-ID, ...)
+ */
+async function sendGuestEmail(
+  kind: EmailTemplateKind,
+  guest: TemplateGuest,
+  primaryEmail: string, 
+  ccEmails: string[], 
+  event: EventRecord,
+  appBaseUrl: string,
+  extra: Pick<Mail.Options, 'attachments' | 'icalEvent'> = {}
+): Promise<SentMail> {
+  const { subject, html, text } = renderGuestEmail(kind, event, guest, appBaseUrl);
+  const logRecipients = `To: ${primaryEmail}${ccEmails.length > 0 ? `, Cc: ${ccEmails.join(', ')}` : ''}`;
+  console.log(`Preparing to send ${kind} ${logRecipients} for event "${event.title}" (Timezone for email: ${event.timezone || 'Server Default'})`);
+
+  try {
+    const sent = await sendMail({
+      to: primaryEmail,
+      cc: ccEmails.length > 0 ? ccEmails : undefined,
+      subject,
+      html,
+      text,
+      ...extra
+    });
+    console.log(`${kind[0].toUpperCase()}${kind.slice(1)} successfully sent ${logRecipients}`);
+    return sent;
+  } catch (error) {
+    console.error(`Failed to send ${kind} ${logRecipients} for event "${event.title}". Error:`, error);
+    throw error; // Re-throw to allow caller to handle
+  }
+}
 
 /**
- * Send an event invitation email
+ * Send an event invitation email, built from the template in effect for the event
+ * Events with calendar invitations turned on also get an iTIP request addressed to the guest,
+ * which calendar apps show with their own Yes/No buttons.
  * 
  * @param name Recipient's name
  * @param primaryEmail Primary recipient email
@@ -41,6 +97,8 @@ const transporter = nodemailer.createTransport({
  * @param token Unique RSVP token
  * @param event Event details
  * @param appBaseUrl Base URL for generating RSVP links
+ * @param partySize Party size the invitation is for
+ * @returns What the mail transport reported (Message-ID, ...)
  */
 export async function sendInvitation(
   name: string, 
@@ -48,105 +106,139 @@ export async function sendInvitation(
   ccEmails: string[], 
   token: string, 
   event: EventRecord,
+  appBaseUrl: string,
+  partySize: number = 1
+): Promise<SentMail> {
+  const icalEvent = event.calendar_invites ? calendarRequest(event, { name, token }, primaryEmail, appBaseUrl) : undefined;
+  return sendGuestEmail('invitation', { name, token, party_size: partySize }, primaryEmail, ccEmails, event, appBaseUrl, { icalEvent });
+}
+
+/**
+ * Send a reminder about an upcoming event ('reminder' for guests coming, 'nudge' for guests yet to reply,
+ * 'maybe_nudge' for guests who said maybe)
+ * Other parameters as for sendInvitation().
+ */
+export async function sendReminder(
+  kind: 'reminder' | 'nudge' | 'maybe_nudge',
+  name: string, 
+  primaryEmail: string, 
+  ccEmails: string[], 
+  token: string, 
+  event: EventRecord,
+  appBaseUrl: string,
+  partySize: number = 1
+): Promise<SentMail> {
+  return sendGuestEmail(kind, { name, token, party_size: partySize }, primaryEmail, ccEmails, event, appBaseUrl);
+}
+
+/**
+ * Confirm a guest's RSVP, with the event's calendar file attached (as served by /ics/:token)
+ * 
+ * @param guest Guest, with their current answer and party size
+ * @param primaryEmail Primary recipient email
+ * @param ccEmails CC email addresses
+ * @param event Event details
+ * @param appBaseUrl Base URL for generating RSVP links
+ * @returns What the mail transport reported (Message-ID, ...)
+ */
+export async function sendConfirmation(
+  guest: TemplateGuest,
+  primaryEmail: string, 
+  ccEmails: string[], 
+  event: EventRecord,
   appBaseUrl: string
-): Promise<void> {
-  const rsvpLink = `${appBaseUrl}/rsvp/${token}`;
-  const icsLink = `${appBaseUrl}/ics/${token}`;
-
-  // Date formatting
-  const startDate = new Date(event.date);
-  const baseDateOptions: Intl.DateTimeFormatOptions = { dateStyle: 'full', timeStyle: 'short' };
-  const effectiveDateOptions: Intl.DateTimeFormatOptions = event.timezone 
-    ? { ...baseDateOptions, timeZone: event.timezone }
-    : baseDateOptions;
-  
-  let whenString = startDate.toLocaleString(undefined, effectiveDateOptions);
-
-  if (event.date_end) {
-    const endDate = new Date(event.date_end);
-    const timeOnlyOptions: Intl.DateTimeFormatOptions = event.timezone
-      ? { timeStyle: 'short', timeZone: event.timezone }
-      : { timeStyle: 'short' };
-
-    // Compare dates in the event's timezone (or server default if event.timezone is not set)
-    const tzForComparison = event.timezone || undefined;
-    if (startDate.toLocaleDateString(undefined, {timeZone: tzForComparison}) === endDate.toLocaleDateString(undefined, {timeZone: tzForComparison})) { 
-      whenString += ` to ${endDate.toLocaleTimeString(undefined, timeOnlyOptions)}`;
-    } else { 
-      whenString += ` to ${endDate.toLocaleString(undefined, effectiveDateOptions)}`;
-    }
-  }
+): Promise<SentMail> {
+  return sendGuestEmail('confirmation', guest, primaryEmail, ccEmails, event, appBaseUrl, {
+    attachments: [calendarAttachment(event, guest.token, appBaseUrl)],
+  });
+}
 
-  // Location formatting
-  let locationHtml = '';
-  if (event.location_name && event.location_href) {
-    locationHtml = `<a href="${event.location_href}" target="_blank">${event.location_name}</a>`;
-  } else if (event.location_name) {
-    locationHtml = event.location_name;
-  } else if (event.location_href) {
-    locationHtml = `<a href="${event.location_href}" target="_blank">${event.location_href}</a>`;
-  }
+/**
+ * Tell a guest that an event's time or place changed, with the updated calendar entry
+ * Events with calendar invitations get a new iTIP request (same UID, higher SEQUENCE) that
+ * calendar apps apply in place; others get the calendar file, which carries the SEQUENCE too.
+ * 
+ * @param guest Guest, with the changes they are being told about
+ * @param primaryEmail Primary recipient email
+ * @param ccEmails CC email addresses
+ * @param event Event details, as changed
+ * @param appBaseUrl Base URL for generating RSVP links
+ * @returns What the mail transport reported (Message-ID, ...)
+ */
+export async function sendUpdate(
+  guest: TemplateGuest,
+  primaryEmail: string, 
+  ccEmails: string[], 
+  event: EventRecord,
+  appBaseUrl: string
+): Promise<SentMail> {
+  return sendGuestEmail('update', guest, primaryEmail, ccEmails, event, appBaseUrl, event.calendar_invites
+    ? { icalEvent: calendarRequest(event, guest, primaryEmail, appBaseUrl) }
+    : { attachments: [calendarAttachment(event, guest.token, appBaseUrl)] });
+}
 
-  // Description formatting
-  const plainDescription = htmlToPlainText(event.description);
-
-  const html = `
-    <p>Hi ${name},</p>
-    <p>You are invited to <strong>${event.title}</strong>.</p>
-    
-    <hr style="margin: 20px 0;">
-
-    <p><strong>When:</strong><br>${whenString}</p>
-    
-    ${locationHtml ? `<p><strong>Where:</strong><br>${locationHtml}</p>` : ''}
-    
-    ${plainDescription ? `
-      <p><strong>Event Details:</strong></p>
-      <div style="white-space: pre-wrap; padding: 10px; border: 1px solid #eeeeee; background-color: #f9f9f9; border-radius: 4px; margin-top: 5px;">${plainDescription}</div>
-    ` : ''}
-    
-    <hr style="margin: 20px 0;">
-
-    <p>Please RSVP here: <a href="${rsvpLink}">${rsvpLink}</a></p>
-    <p>Add to your calendar: <a href="${icsLink}">Download Calendar File (.ics)</a></p>
-  `;
-
-  const subject = `Invitation: ${event.title}`;
-  const logRecipients = `To: ${primaryEmail}${ccEmails.length > 0 ? `, Cc: ${ccEmails.join(', ')}` : ''}`;
-  console.log(`Preparing to send invite ${logRecipients} for event "${event.title}" (Timezone for email: ${event.timezone || 'Server Default'})`);
-
-  if (SMTP_USER && SMTP_PASS) {
-    try {
-      await transporter.sendMail({ 
-        from: SMTP_USER, 
-        to: primaryEmail, 
-        cc: ccEmails.length > 0 ? ccEmails : undefined, 
-        subject, 
-        html, 
-        text: htmlToPlainText(html) 
-      });
-      console.log(`Invite successfully sent ${logRecipients}`);
-    } catch (error) {
-      console.error(`Failed to send invite ${logRecipients} for event "${event.title}". Error:`, error);
-      throw error; // Re-throw to allow caller to handle
-    }
-  } else {
-    console.log(`SMTP not configured. Mock sending invite ${logRecipients}: Subject: ${subject}, Body: ${html}`);
-  }
+/**
+ * Tell a guest that an event was cancelled
+ * The calendar part is a CANCEL of the entry they were sent (the iTIP invitation's UID for events
+ * with calendar invitations, else the calendar file's), so calendar apps remove it.
+ * 
+ * @param guest Guest
+ * @param primaryEmail Primary recipient email
+ * @param ccEmails CC email addresses
+ * @param event Event, as cancelled
+ * @param appBaseUrl Base URL for generating RSVP links
+ * @returns What the mail transport reported (Message-ID, ...)
+ */
+export async function sendCancellation(
+  guest: TemplateGuest,
+  primaryEmail: string, 
+  ccEmails: string[], 
+  event: EventRecord,
+  appBaseUrl: string
+): Promise<SentMail> {
+  return sendGuestEmail('cancellation', guest, primaryEmail, ccEmails, event, appBaseUrl, event.calendar_invites
+    ? { icalEvent: calendarRequest(event, guest, primaryEmail, appBaseUrl) }
+    : { attachments: [calendarAttachment(event, guest.token, appBaseUrl)] });
+}
+
+/**
+ * Tell a guest on the waitlist that they now have a place, with the event's calendar file attached
+ * Parameters as for sendConfirmation().
+ */
+export async function sendWaitlistPromotion(
+  guest: TemplateGuest,
+  primaryEmail: string, 
+  ccEmails: string[], 
+  event: EventRecord,
+  appBaseUrl: string
+): Promise<SentMail> {
+  return sendGuestEmail('waitlist_promotion', guest, primaryEmail, ccEmails, event, appBaseUrl, {
+    attachments: [calendarAttachment(event, guest.token, appBaseUrl)],
+  });
 }
 
 /**
  * Send push notification to admin via ntfy.sh
  * 
  * @param att Attendee data (must include name and event_title)
- * @param rsvp RSVP response ('yes' or 'no')
+ * @param rsvp RSVP response ('yes', 'maybe' or 'no')
  * @param partySize Party size
+ * @param previous Previous response, if the attendee had already responded
  */
-export async function notifyAdmin(att: any, rsvp: string, partySize: number): Promise<void> {
+export async function notifyAdmin(
+  att: any,
+  rsvp: string,
+  partySize: number,
+  previous?: { rsvp: string | null; party_size: number }
+): Promise<void> {
   if (!NTFY_TOPIC) return;
   
   const title = `RSVP: ${att.name}`;
-  const msg = `Event: ${att.event_title}\nResponse: ${rsvp}\nParty Size: ${partySize}`;
+  let msg = `Event: ${att.event_title}\nResponse: ${rsvp}\nParty Size: ${partySize}`;
+  const before = previous?.rsvp ? formatRsvpResponse(previous.rsvp, previous.party_size) : null;
+  if (before && before !== formatRsvpResponse(rsvp, partySize)) {
+    msg = `Event: ${att.event_title}\nResponse: changed from ${before} to ${formatRsvpResponse(rsvp, partySize)}`;
+  }
   const headers: Record<string, string> = { 'Title': title };
   
   if (NTFY_USER && NTFY_PASS) {
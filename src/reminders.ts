@@ -0,0 +1,154 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+// src/reminders.ts
+// Scheduled reminder emails: per-event rules, the background scheduler and the queue handler
+
+import type { EventAttendeeView, EventRecord, ReminderAudience, ReminderRule } from './database';
+import { PermanentEmailError, kickEmailQueue, registerGuestEmailHandler } from './email-queue';
+import { sendReminder } from './notifications';
+import { responsesClosed } from './rsvp';
+import {
+  createReminderRule,
+  getReminderRule,
+  listDueReminderRules,
+  queueReminders,
+} from './repository';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const REMINDER_INTERVAL_MS = 5 * 60 * 1000;
+const MAX_DAYS_BEFORE = 365;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export class ReminderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReminderError';
+  }
+}
+
+/** How each audience is described, and which email template it gets */
+export const REMINDER_AUDIENCES: Record<ReminderAudience, { label: string; template: 'reminder' | 'nudge' | 'maybe_nudge' }> = {
+  attending: { label: 'everyone who said yes', template: 'reminder' },
+  maybe: { label: 'everyone who said maybe', template: 'maybe_nudge' },
+  no_reply: { label: "everyone who hasn't replied", template: 'nudge' },
+};
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+/**
+ * Add a reminder rule to an event, from the admin form
+ * @param eventId Event ID
+ * @param daysBefore Days before the event, as entered
+ * @param audience Audience, as submitted
+ * @returns New rule ID
+ * @throws ReminderError if the input is invalid
+ */
+export function addReminderRule(eventId: number, daysBefore: string, audience: string): number {
+  const days = Number(daysBefore);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS_BEFORE) {
+    throw new ReminderError(`Reminders go out between 1 and ${MAX_DAYS_BEFORE} days before the event.`);
+  }
+  if (!Object.prototype.hasOwnProperty.call(REMINDER_AUDIENCES, audience)) {
+    throw new ReminderError('Choose who the reminder is for.');
+  }
+  return createReminderRule(eventId, days, audience as ReminderAudience);
+}
+
+/**
+ * Whether a guest's answer still puts them in a rule's audience (guests waiting for a place aren't coming yet)
+ * Guests can't be asked for an answer once the RSVP deadline has closed their responses.
+ */
+function inAudience(guest: EventAttendeeView, event: EventRecord, audience: ReminderAudience, now: number): boolean {
+  const { rsvp } = guest;
+  const canAnswer = !responsesClosed({
+    event_rsvp_deadline: event.rsvp_deadline ?? null,
+    event_responses_reopened: event.responses_reopened ?? 0,
+    late_rsvp_allowed: guest.late_rsvp_allowed,
+  }, now);
+  switch (audience) {
+    case 'attending': return rsvp === 'yes' && !guest.waitlisted_at;
+    case 'maybe': return rsvp === 'maybe' && canAnswer;
+    case 'no_reply': return rsvp === null && canAnswer;
+  }
+}
+
+// ============================================================================
+// Scheduler
+// ============================================================================
+
+/**
+ * Queue every reminder that is due and not yet queued
+ * Safe to run any number of times: each guest gets each rule's reminder once.
+ *
+ * @param appBaseUrl Base URL for RSVP links
+ * @param now Current time (for testing)
+ * @returns Number of reminders queued
+ */
+export function queueDueReminders(appBaseUrl: string, now: number = Date.now()): number {
+  let queued = 0;
+  for (const rule of listDueReminderRules(now)) {
+    queued += queueReminders(rule, { appBaseUrl }, now);
+  }
+  if (queued > 0) {
+    console.log(`Queued ${queued} reminder(s).`);
+    kickEmailQueue();
+  }
+  return queued;
+}
+
+/**
+ * Queue due reminders now and every few minutes
+ * @param appBaseUrl Base URL for RSVP links
+ * @returns Timer handle
+ */
+export function startReminderSchedule(appBaseUrl: string): NodeJS.Timeout {
+  const run = () => {
+    try {
+      queueDueReminders(appBaseUrl);
+    } catch (err) {
+      console.error('Queueing reminders failed:', err);
+    }
+  };
+  run();
+  return setInterval(run, REMINDER_INTERVAL_MS).unref();
+}
+
+// ============================================================================
+// Sending
+// ============================================================================
+
+/**
+ * The rule a queued reminder comes from
+ * @param ruleId Rule named in the job's payload
+ * @throws PermanentEmailError if the rule was deleted
+ */
+function reminderRuleFor(ruleId: number | undefined): ReminderRule {
+  const rule = ruleId !== undefined ? getReminderRule(ruleId) : undefined;
+  if (!rule) {
+    throw new PermanentEmailError('The reminder rule was deleted.');
+  }
+  return rule;
+}
+
+// Queued reminders are sent by the email queue worker
+registerGuestEmailHandler(
+  'reminder',
+  (attendee, primaryEmail, ccEmails, event, { appBaseUrl, ruleId }) => {
+    const { template } = REMINDER_AUDIENCES[reminderRuleFor(ruleId).audience];
+    return sendReminder(template, attendee.name, primaryEmail, ccEmails, attendee.token, event, appBaseUrl, attendee.party_size ?? 1);
+  },
+  // Things may have changed while the reminder waited in the queue
+  (attendee, event, { ruleId }) => {
+    const now = Date.now();
+    return inAudience(attendee, event, reminderRuleFor(ruleId).audience, now) && event.date > now ? null : 'it no longer applies';
+  }
+);
@@ -0,0 +1,1713 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+// src/repository.ts
+// Typed reads and writes of events and attendees, used by the route handlers
+
+import {
+  addAttendeeTags,
+  ensureContact,
+  getDatabase,
+  upsertAttendee,
+  INVITATION_SENT_SQL,
+  LAST_DELIVERY_ERROR_SQL,
+  type AttendeeSnapshot,
+  type EventSnapshot,
+  type ContactEventEntry,
+  type ContactListEntry,
+  type ContactRecord,
+  type AttendeeView,
+  type BounceView,
+  type Delivery,
+  type EmailJob,
+  type EmailQueueStats,
+  type EventAttendeeView,
+  type EventInput,
+  type EventRecord,
+  type Invitee,
+  type PartyMember,
+  type PartyMemberInput,
+  type ReminderAudience,
+  type ReminderRule,
+  type ReminderRuleView,
+  type RsvpAnswers,
+  type RsvpHistoryEntry,
+  type RsvpQuestion,
+  type RsvpQuestionType,
+  type RsvpRequestInfo,
+  type SeriesInput,
+  type SeriesMember,
+  type SeriesRecord,
+} from './database';
+
+// ============================================================================
+// Events
+// ============================================================================
+
+/**
+ * Get an event by ID
+ * @param eventId Event ID
+ * @returns Event, or undefined if it does not exist
+ */
+export function getEventById(eventId: number): EventRecord | undefined {
+  return getDatabase().prepare('SELECT * FROM events WHERE id = ?').get(eventId) as EventRecord | undefined;
+}
+
+/**
+ * List events for the dashboard, ordered by date
+ * Events that are scheduled for deletion are never included.
+ *
+ * @param options.archived True for archived events only, false (default) for current events only
+ * @returns Events
+ */
+export function listEvents(options: { archived?: boolean } = {}): EventRecord[] {
+  return getDatabase().prepare(
+    `SELECT * FROM events WHERE delete_requested_at IS NULL AND archived_at IS ${options.archived ? 'NOT NULL' : 'NULL'} ORDER BY date`
+  ).all() as EventRecord[];
+}
+
+/**
+ * List events that are scheduled for deletion, oldest request first
+ * @returns Events
+ */
+export function listEventsPendingDeletion(): EventRecord[] {
+  return getDatabase().prepare('SELECT * FROM events WHERE delete_requested_at IS NOT NULL ORDER BY delete_requested_at')
+    .all() as EventRecord[];
+}
+
+/**
+ * Count archived events that are not scheduled for deletion
+ * @returns Number of archived events
+ */
+export function countArchivedEvents(): number {
+  const row = getDatabase().prepare('SELECT COUNT(*) AS n FROM events WHERE archived_at IS NOT NULL AND delete_requested_at IS NULL')
+    .get() as { n: number };
+  return row.n;
+}
+
+/**
+ * List the ID and title of every event except one (for "copy attendees from" pickers)
+ * @param excludeEventId Event to leave out
+ * @returns Events ordered by title
+ */
+export function listOtherEvents(excludeEventId: number): { id: number; title: string }[] {
+  return getDatabase().prepare('SELECT id, title FROM events WHERE id != ? ORDER BY title')
+    .all(excludeEventId) as { id: number; title: string }[];
+}
+
+/**
+ * Create an event
+ * @param input Event fields
+ * @returns New event ID
+ */
+export function createEvent(input: EventInput): number {
+  const result = getDatabase().prepare(
+    'INSERT INTO events (title, date, description, banner_image_filename, location_name, location_href, date_end, timezone) VALUES (?,?,?,?,?,?,?,?)'
+  ).run(input.title, input.date, input.description, null, input.location_name, input.location_href, input.date_end, input.timezone);
+  return Number(result.lastInsertRowid);
+}
+
+/**
+ * Update an event's editable fields (the banner is changed with setEventBanner)
+ * @param eventId Event ID
+ * @param input Event fields
+ * @returns True if the event exists
+ */
+export function updateEvent(eventId: number, input: EventInput): boolean {
+  // SET expressions see the old row, so the sequence goes up only when the time or place changes
+  const result = getDatabase().prepare(
+    `UPDATE events SET
+       sequence = sequence + (date IS NOT @date OR date_end IS NOT @date_end OR timezone IS NOT @timezone
+                              OR location_name IS NOT @location_name OR location_href IS NOT @location_href),
+       title = @title, date = @date, description = @description, location_name = @location_name,
+       location_href = @location_href, date_end = @date_end, timezone = @timezone
+     WHERE id = @id`
+  ).run({ ...input, id: eventId });
+  return result.changes > 0;
+}
+
+/**
+ * Set or clear an event's banner image filename
+ * @param eventId Event ID
+ * @param filename Filename inside EVENT_BANNER_STORAGE_PATH, or null
+ */
+export function setEventBanner(eventId: number, filename: string | null): void {
+  getDatabase().prepare('UPDATE events SET banner_image_filename = ? WHERE id = ?').run(filename, eventId);
+}
+
+/**
+ * List the banner filenames events still use, including events awaiting deletion
+ * @returns Filenames inside EVENT_BANNER_STORAGE_PATH
+ */
+export function listEventBannerFilenames(): string[] {
+  return (getDatabase().prepare('SELECT banner_image_filename FROM events WHERE banner_image_filename IS NOT NULL')
+    .all() as { banner_image_filename: string }[]).map(row => row.banner_image_filename);
+}
+
+/**
+ * Turn RSVP confirmation emails on or off for an event
+ * @param eventId Event ID
+ * @param enabled Whether guests get a confirmation of each response
+ * @returns True if the event exists
+ */
+export function setEventSendConfirmations(eventId: number, enabled: boolean): boolean {
+  return getDatabase().prepare('UPDATE events SET send_confirmations = ? WHERE id = ?').run(enabled ? 1 : 0, eventId).changes > 0;
+}
+
+/**
+ * Let guests answer "maybe" to an event, or not
+ * Guests who already said maybe keep their answer.
+ * @param eventId Event ID
+ * @param enabled Whether the RSVP form offers "maybe"
+ * @returns True if the event exists
+ */
+export function setEventAllowMaybe(eventId: number, enabled: boolean): boolean {
+  return getDatabase().prepare('UPDATE events SET allow_maybe = ? WHERE id = ?').run(enabled ? 1 : 0, eventId).changes > 0;
+}
+
+/**
+ * Set how many people can come to an event
+ * @param eventId Event ID
+ * @param capacity Most people (guests and the people they bring), or null for no limit
+ * @returns True if the event exists
+ */
+export function setEventCapacity(eventId: number, capacity: number | null): boolean {
+  return getDatabase().prepare('UPDATE events SET capacity = ? WHERE id = ?').run(capacity, eventId).changes > 0;
+}
+
+/**
+ * Set the date guests must answer by
+ * A new deadline closes responses again if the host had reopened them after the old one.
+ * @param eventId Event ID
+ * @param deadline Epoch ms after which guests can't change their answer, or null for none
+ * @returns True if the event exists
+ */
+export function setEventRsvpDeadline(eventId: number, deadline: number | null): boolean {
+  return getDatabase().prepare('UPDATE events SET rsvp_deadline = ?, responses_reopened = 0 WHERE id = ?')
+    .run(deadline, eventId).changes > 0;
+}
+
+/**
+ * Let guests answer again after an event's RSVP deadline, or close responses again
+ * @param eventId Event ID
+ * @param reopened Whether guests can answer despite the deadline
+ * @returns True if the event exists
+ */
+export function setEventResponsesReopened(eventId: number, reopened: boolean): boolean {
+  return getDatabase().prepare('UPDATE events SET responses_reopened = ? WHERE id = ?').run(reopened ? 1 : 0, eventId).changes > 0;
+}
+
+/**
+ * Turn iTIP calendar invitations on or off for an event
+ * @param eventId Event ID
+ * @param enabled Whether invitations carry a calendar request guests can answer from their calendar
+ * @returns True if the event exists
+ */
+export function setEventCalendarInvites(eventId: number, enabled: boolean): boolean {
+  return getDatabase().prepare('UPDATE events SET calendar_invites = ? WHERE id = ?').run(enabled ? 1 : 0, eventId).changes > 0;
+}
+
+/**
+ * Archive or unarchive an event (archived events are hidden from the dashboard)
+ * @param eventId Event ID
+ * @param archived True to archive, false to restore
+ * @returns True if the event exists
+ */
+export function setEventArchived(eventId: number, archived: boolean): boolean {
+  const db = getDatabase();
+  const result = db.prepare('UPDATE events SET archived_at = ? WHERE id = ?').run(archived ? Date.now() : null, eventId);
+  return result.changes > 0;
+}
+
+/**
+ * Cancel an event
+ * Its SEQUENCE goes up, as iTIP requires of a CANCEL, so calendars take it over the invitation they hold.
+ * Emails still waiting to go out for the event (invitations, reminders, ...) are dropped.
+ *
+ * @param eventId Event ID
+ * @param reason Reason to give guests, or null
+ * @param now Current time (for testing)
+ * @returns True if the event exists and was not already cancelled
+ */
+export function cancelEvent(eventId: number, reason: string | null, now: number = Date.now()): boolean {
+  const db = getDatabase();
+  return db.transaction(() => {
+    const result = db.prepare(
+      `UPDATE events SET cancelled_at = ?, cancellation_reason = ?, sequence = sequence + 1
+       WHERE id = ? AND cancelled_at IS NULL`
+    ).run(now, reason, eventId);
+    if (result.changes === 0) return false;
+    db.prepare(`DELETE FROM email_queue WHERE event_id = ? AND status IN ('pending', 'failed')`).run(eventId);
+    return true;
+  })();
+}
+
+/**
+ * Schedule an event for deletion, or cancel a pending deletion
+ * The event is only removed by purgeDeletedEvents() once the grace period has passed.
+ *
+ * @param eventId Event ID
+ * @param deleted True to schedule deletion, false to undo it
+ * @returns True if the event exists
+ */
+export function setEventDeleteRequested(eventId: number, deleted: boolean): boolean {
+  const db = getDatabase();
+  const result = db.prepare('UPDATE events SET delete_requested_at = ? WHERE id = ?').run(deleted ? Date.now() : null, eventId);
+  return result.changes > 0;
+}
+
+/**
+ * Permanently delete events whose deletion was requested before the cutoff
+ * Attendees (and their history) are removed by ON DELETE CASCADE. Deleted series
+ * occurrences become exceptions of their series, so they are not created again.
+ *
+ * @param cutoff Timestamp; deletions requested at or before it are carried out
+ * @returns The deleted events, so callers can clean up their banner files
+ */
+export function purgeDeletedEvents(cutoff: number): EventRecord[] {
+  const db = getDatabase();
+  return db.transaction(() => {
+    const doomed = db.prepare('SELECT * FROM events WHERE delete_requested_at IS NOT NULL AND delete_requested_at <= ?')
+      .all(cutoff) as EventRecord[];
+    const stmtDelete = db.prepare('DELETE FROM events WHERE id = ?');
+    doomed.forEach(event => {
+      if (event.series_id && event.occurrence_start !== null && event.occurrence_start !== undefined) {
+        addSeriesExdate(event.series_id, event.occurrence_start);
+      }
+      stmtDelete.run(event.id);
+    });
+    return doomed;
+  })();
+}
+
+// ============================================================================
+// Attendees
+// ============================================================================
+
+/**
+ * Get an attendee together with the details of their event
+ * @param token RSVP token
+ * @returns Attendee and event fields, or undefined if the token is unknown
+ */
+export function getAttendeeViewByToken(token: string): AttendeeView | undefined {
+  return getDatabase().prepare(
+    `SELECT a.*,
+            ${INVITATION_SENT_SQL} AS is_sent,
+            e.title AS event_title,
+            e.date as event_date,
+            e.description as event_desc,
+            e.banner_image_filename AS event_banner_image_filename,
+            e.location_name AS event_location_name,
+            e.location_href AS event_location_href,
+            e.date_end AS event_date_end,
+            e.timezone AS event_timezone,
+            e.cancelled_at AS event_cancelled_at,
+            e.cancellation_reason AS event_cancellation_reason,
+            e.allow_maybe AS event_allow_maybe,
+            e.rsvp_deadline AS event_rsvp_deadline,
+            e.responses_reopened AS event_responses_reopened
+     FROM attendees a
+     JOIN events e ON a.event_id=e.id
+     WHERE a.token=?`
+  ).get(token) as AttendeeView | undefined;
+}
+
+// Columns of an EventAttendeeView, for attendees aliased as "a"
+const EVENT_ATTENDEE_COLUMNS = `a.id, a.event_id, a.name, a.email, a.party_size, a.token, ${INVITATION_SENT_SQL} AS is_sent,
+            a.rsvp, a.responded_at, a.last_modified, a.additional_emails, a.viewed_at, a.contact_id, a.waitlisted_at, a.late_rsvp_allowed,
+            ${LAST_DELIVERY_ERROR_SQL} AS last_delivery_error`;
+
+/**
+ * List all attendees of an event, ordered by name
+ * @param eventId Event ID
+ * @returns Attendees
+ */
+export function listEventAttendees(eventId: number): EventAttendeeView[] {
+  return getDatabase().prepare(
+    `SELECT ${EVENT_ATTENDEE_COLUMNS}
+     FROM attendees a WHERE a.event_id = ? ORDER BY a.name`
+  ).all(eventId) as EventAttendeeView[];
+}
+
+/**
+ * Get an attendee's event ID, RSVP and contact details
+ * @param attendeeId Attendee ID
+ * @returns Attendee, or undefined if it does not exist
+ */
+export function getAttendeeById(attendeeId: number): EventAttendeeView | undefined {
+  return getDatabase().prepare(
+    `SELECT ${EVENT_ATTENDEE_COLUMNS}
+     FROM attendees a WHERE a.id = ?`
+  ).get(attendeeId) as EventAttendeeView | undefined;
+}
+
+/**
+ * Get the fields needed to invite an attendee
+ * @param attendeeId Attendee ID
+ * @returns Invitee, or undefined if the attendee does not exist
+ */
+export function getInviteeById(attendeeId: number): Invitee | undefined {
+  return getDatabase().prepare('SELECT id, name, email, token, event_id, additional_emails, party_size, rsvp, waitlisted_at FROM attendees WHERE id = ?')
+    .get(attendeeId) as Invitee | undefined;
+}
+
+/**
+ * Get the fields needed to invite an attendee, by their primary email
+ * @param eventId Event ID
+ * @param email Primary email (trimmed and lowercased before lookup)
+ * @returns Invitee, or undefined if there is no such attendee
+ */
+export function getInviteeByEmail(eventId: number, email: string): Invitee | undefined {
+  return getDatabase().prepare('SELECT id, name, email, token, event_id, additional_emails, party_size FROM attendees WHERE event_id = ? AND email = ?')
+    .get(eventId, email.trim().toLowerCase()) as Invitee | undefined;
+}
+
+/**
+ * List attendees of an event who have not been sent an invitation yet
+ * @param eventId Event ID
+ * @param tag Only include attendees with this tag (optional)
+ * @returns Invitees
+ */
+export function listPendingInvitees(eventId: number, tag?: string): Invitee[] {
+  const db = getDatabase();
+  if (tag) {
+    return db.prepare(
+      `SELECT a.id, a.name, a.email, a.token, a.event_id, a.additional_emails, a.party_size FROM attendees a
+       JOIN attendee_tags t ON t.attendee_id = a.id AND t.tag = ?
+       WHERE a.event_id = ? AND NOT ${INVITATION_SENT_SQL}`
+    ).all(tag, eventId) as Invitee[];
+  }
+  return db.prepare(
+    `SELECT a.id, a.name, a.email, a.token, a.event_id, a.additional_emails, a.party_size FROM attendees a
+     WHERE a.event_id = ? AND NOT ${INVITATION_SENT_SQL}`
+  ).all(eventId) as Invitee[];
+}
+
+/**
+ * Record the first time a guest opened their RSVP link
+ * @param attendeeId Attendee ID
+ */
+export function markAttendeeViewed(attendeeId: number): void {
+  getDatabase().prepare('UPDATE attendees SET viewed_at = ? WHERE id = ? AND viewed_at IS NULL').run(Date.now(), attendeeId);
+}
+
+/**
+ * Change an attendee's name and email addresses
+ * @param attendeeId Attendee ID
+ * @param name New name
+ * @param primaryEmail New primary email (already trimmed and lowercased)
+ * @param additionalEmailsJson New additional emails as a JSON array string, or null
+ * @returns The attendee's event ID
+ * @throws Error if the attendee does not exist or the primary email is taken within the event
+ */
+export function updateAttendeeDetails(attendeeId: number, name: string, primaryEmail: string, additionalEmailsJson: string | null): number {
+  const db = getDatabase();
+  return db.transaction(() => {
+    const attendee = db.prepare('SELECT event_id, email FROM attendees WHERE id = ?').get(attendeeId) as { event_id: number; email: string } | undefined;
+    if (!attendee) {
+      throw new Error('Attendee not found.');
+    }
+
+    if (primaryEmail !== attendee.email) {
+      const conflictingAttendee = db.prepare('SELECT id FROM attendees WHERE event_id = ? AND email = ? AND id != ?')
+        .get(attendee.event_id, primaryEmail, attendeeId);
+      if (conflictingAttendee) {
+        throw new Error('This primary email is already in use by another attendee for this event.');
+      }
+    }
+
+    db.prepare('UPDATE attendees SET name = ?, email = ?, additional_emails = ?, last_modified = ? WHERE id = ?')
+      .run(name, primaryEmail, additionalEmailsJson, Date.now(), attendeeId);
+    if (primaryEmail !== attendee.email) {
+      // A different email is a different person as far as the directory is concerned
+      db.prepare('UPDATE attendees SET contact_id = ? WHERE id = ?').run(ensureContact(name, primaryEmail, additionalEmailsJson), attendeeId);
+    }
+
+    return attendee.event_id;
+  })();
+}
+
+/**
+ * Delete an attendee
+ * @param attendeeId Attendee ID
+ * @returns True if an attendee was deleted
+ */
+export function deleteAttendee(attendeeId: number): boolean {
+  return getDatabase().prepare('DELETE FROM attendees WHERE id = ?').run(attendeeId).changes > 0;
+}
+
+// ============================================================================
+// Series
+// ============================================================================
+
+/**
+ * Create a recurring series (occurrences are created separately)
+ * @param input Series fields
+ * @returns New series ID
+ */
+export function createSeries(input: SeriesInput): number {
+  const result = getDatabase().prepare(
+    `INSERT INTO series (title, description, location_name, location_href, timezone, dtstart, duration_ms, rrule, horizon_days, created_at)
+     VALUES (?,?,?,?,?,?,?,?,?,?)`
+  ).run(input.title, input.description, input.location_name, input.location_href, input.timezone, input.dtstart,
+    input.duration_ms, input.rrule, input.horizon_days, Date.now());
+  return Number(result.lastInsertRowid);
+}
+
+/**
+ * Get a series by ID
+ * @param seriesId Series ID
+ * @returns Series, or undefined if it does not exist
+ */
+export function getSeriesById(seriesId: number): SeriesRecord | undefined {
+  return getDatabase().prepare('SELECT * FROM series WHERE id = ?').get(seriesId) as SeriesRecord | undefined;
+}
+
+/**
+ * List all series, ordered by title
+ * @returns Series
+ */
+export function listSeries(): SeriesRecord[] {
+  return getDatabase().prepare('SELECT * FROM series ORDER BY title').all() as SeriesRecord[];
+}
+
+/**
+ * Change a series and apply its title, description, location and timezone to occurrences that have not happened yet
+ * Dates of occurrences that already exist are left alone; a new schedule only affects occurrences created later.
+ *
+ * @param seriesId Series ID
+ * @param input Series fields
+ * @param now Current time; occurrences starting before it are left alone
+ * @returns Number of existing occurrences updated, or undefined if the series does not exist
+ */
+export function updateSeries(seriesId: number, input: SeriesInput, now: number = Date.now()): number | undefined {
+  const db = getDatabase();
+  return db.transaction(() => {
+    const result = db.prepare(
+      `UPDATE series SET title = ?, description = ?, location_name = ?, location_href = ?, timezone = ?, dtstart = ?,
+              duration_ms = ?, rrule = ?, horizon_days = ? WHERE id = ?`
+    ).run(input.title, input.description, input.location_name, input.location_href, input.timezone, input.dtstart,
+      input.duration_ms, input.rrule, input.horizon_days, seriesId);
+    if (result.changes === 0) return undefined;
+
+    // As in updateEvent, the sequence goes up only when the time or place changes
+    return db.prepare(
+      `UPDATE events SET
+         sequence = sequence + (timezone IS NOT @timezone OR location_name IS NOT @location_name
+                                OR location_href IS NOT @location_href),
+         title = @title, description = @description, location_name = @location_name,
+         location_href = @location_href, timezone = @timezone
+       WHERE series_id = @seriesId AND date >= @now`
+    ).run({
+      title: input.title, description: input.description, location_name: input.location_name,
+      location_href: input.location_href, timezone: input.timezone, seriesId, now,
+    }).changes;
+  })();
+}
+
+/**
+ * Add a skipped occurrence to a series (no-op if it is already skipped)
+ * @param seriesId Series ID
+ * @param occurrenceStart Scheduled start of the occurrence
+ */
+export function addSeriesExdate(seriesId: number, occurrenceStart: number): void {
+  getDatabase().prepare(
+    `UPDATE series SET exdates = json_insert(exdates, '$[#]', CAST(? AS INTEGER))
+     WHERE id = ? AND NOT EXISTS (SELECT 1 FROM json_each(series.exdates) WHERE value = ?)`
+  ).run(occurrenceStart, seriesId, occurrenceStart);
+}
+
+/**
+ * Stop skipping an occurrence of a series
+ * @param seriesId Series ID
+ * @param occurrenceStart Scheduled start of the occurrence
+ */
+export function removeSeriesExdate(seriesId: number, occurrenceStart: number): void {
+  getDatabase().prepare(
+    `UPDATE series SET exdates = (SELECT json_group_array(value) FROM json_each(series.exdates) WHERE value != ?)
+     WHERE id = ?`
+  ).run(occurrenceStart, seriesId);
+}
+
+/**
+ * List the occurrences of a series that exist as events, including ones scheduled for deletion
+ * @param seriesId Series ID
+ * @returns Events ordered by date
+ */
+export function listSeriesOccurrences(seriesId: number): EventRecord[] {
+  return getDatabase().prepare('SELECT * FROM events WHERE series_id = ? ORDER BY date').all(seriesId) as EventRecord[];
+}
+
+/**
+ * List a series' shared guest list with each person's current contact details
+ * @param seriesId Series ID
+ * @returns Members ordered by name
+ */
+export function listSeriesMembers(seriesId: number): SeriesMember[] {
+  return getDatabase().prepare(
+    `SELECT m.contact_id, c.name, c.email, c.additional_emails, m.party_size
+     FROM series_members m
+     JOIN contacts c ON c.id = m.contact_id
+     WHERE m.series_id = ?
+     ORDER BY c.name`
+  ).all(seriesId) as SeriesMember[];
+}
+
+/**
+ * Add someone to a series' guest list (or change their party size) and invite them to upcoming occurrences
+ * @param seriesId Series ID
+ * @param contactId Contact ID
+ * @param partySize Party size
+ * @param now Current time; only occurrences starting after it are changed
+ */
+export function addSeriesMember(seriesId: number, contactId: number, partySize: number, now: number = Date.now()): void {
+  const db = getDatabase();
+  db.transaction(() => {
+    db.prepare(
+      `INSERT INTO series_members (series_id, contact_id, party_size) VALUES (?, ?, ?)
+       ON CONFLICT (series_id, contact_id) DO UPDATE SET party_size = excluded.party_size`
+    ).run(seriesId, contactId, partySize);
+    const member = listSeriesMembers(seriesId).find(m => m.contact_id === contactId)!;
+    const upcoming = db.prepare('SELECT id FROM events WHERE series_id = ? AND date >= ? AND delete_requested_at IS NULL')
+      .all(seriesId, now) as { id: number }[];
+    upcoming.forEach(event => inviteSeriesMember(event.id, member));
+  })();
+}
+
+/**
+ * Take someone off a series' guest list and out of the upcoming occurrences they have not replied to
+ * Occurrences they already replied to keep them, along with their RSVP, answers and history.
+ *
+ * @param seriesId Series ID
+ * @param contactId Contact ID
+ * @param now Current time; past occurrences keep their guest lists
+ * @returns Number of upcoming invitations removed, and of upcoming replies kept
+ */
+export function removeSeriesMember(seriesId: number, contactId: number, now: number = Date.now()): { removed: number; kept: number } {
+  const db = getDatabase();
+  return db.transaction(() => {
+    db.prepare('DELETE FROM series_members WHERE series_id = ? AND contact_id = ?').run(seriesId, contactId);
+    const upcoming = 'contact_id = ? AND event_id IN (SELECT id FROM events WHERE series_id = ? AND date >= ?)';
+    const removed = db.prepare(`DELETE FROM attendees WHERE ${upcoming} AND rsvp IS NULL`)
+      .run(contactId, seriesId, now).changes;
+    const { kept } = db.prepare(`SELECT COUNT(*) AS kept FROM attendees WHERE ${upcoming}`)
+      .get(contactId, seriesId, now) as { kept: number };
+    return { removed, kept };
+  })();
+}
+
+function inviteSeriesMember(eventId: number, member: SeriesMember): void {
+  const additionalEmails = member.additional_emails ? JSON.parse(member.additional_emails) as string[] : [];
+  upsertAttendee(eventId, member.name, member.email, member.party_size, additionalEmails);
+}
+
+/**
+ * Create one occurrence of a series as an event, with the series' guest list
+ * Each attendee gets their own token and RSVP, like in any other event.
+ *
+ * @param series Series
+ * @param occurrenceStart Start of the occurrence
+ * @returns New event ID
+ */
+export function createSeriesOccurrence(series: SeriesRecord, occurrenceStart: number): number {
+  const db = getDatabase();
+  return db.transaction(() => {
+    const result = db.prepare(
+      `INSERT INTO events (title, date, description, location_name, location_href, date_end, timezone, series_id, occurrence_start)
+       VALUES (?,?,?,?,?,?,?,?,?)`
+    ).run(series.title, occurrenceStart, series.description, series.location_name, series.location_href,
+      series.duration_ms ? occurrenceStart + series.duration_ms : null, series.timezone, series.id, occurrenceStart);
+    const eventId = Number(result.lastInsertRowid);
+    listSeriesMembers(series.id).forEach(member => inviteSeriesMember(eventId, member));
+    return eventId;
+  })();
+}
+
+// ============================================================================
+// Email Queue
+// ============================================================================
+
+/**
+ * Queue an email, unless one of the same kind is already waiting for the attendee
+ * @param kind Handler name, e.g. 'invitation'
+ * @param eventId Event ID (or null)
+ * @param attendeeId Attendee ID (or null)
+ * @param payload Handler-specific data, stored as JSON (optional)
+ * @param now Current time (for testing)
+ * @returns Whether a new message was queued
+ */
+export function enqueueEmail(
+  kind: string,
+  eventId: number | null,
+  attendeeId: number | null,
+  payload?: unknown,
+  now: number = Date.now()
+): boolean {
+  return getDatabase().prepare(
+    `INSERT OR IGNORE INTO email_queue (kind, event_id, attendee_id, payload, next_attempt_at, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  ).run(kind, eventId, attendeeId, payload === undefined ? null : JSON.stringify(payload), now, now).changes > 0;
+}
+
+/**
+ * Queue an email of one kind for every attendee of an event who has been sent an invitation
+ * Attendees with one already waiting keep it (and its payload).
+ *
+ * @param kind Handler name, e.g. 'update'
+ * @param eventId Event ID
+ * @param payload Handler-specific data
+ * @param now Current time (for testing)
+ * @returns Number of invited attendees
+ */
+export function enqueueEmailForInvited(kind: string, eventId: number, payload: unknown, now: number = Date.now()): number {
+  const db = getDatabase();
+  return db.transaction(() => {
+    const attendeeIds = (db.prepare(`SELECT a.id FROM attendees a WHERE a.event_id = ? AND ${INVITATION_SENT_SQL}`)
+      .all(eventId) as { id: number }[]).map(row => row.id);
+    attendeeIds.forEach(attendeeId => enqueueEmail(kind, eventId, attendeeId, payload, now));
+    return attendeeIds.length;
+  })();
+}
+
+/**
+ * List queued emails that are due, oldest first
+ * @param now Current time
+ * @param limit Maximum number to return
+ */
+export function listDueEmailJobs(now: number, limit: number): EmailJob[] {
+  return getDatabase().prepare(
+    `SELECT * FROM email_queue WHERE status = 'pending' AND next_attempt_at <= ?
+     ORDER BY next_attempt_at, id LIMIT ?`
+  ).all(now, limit) as EmailJob[];
+}
+
+/**
+ * Count send attempts (successful or not, retries included) since a time, for rate limiting
+ * @param since Start of the window
+ */
+export function countEmailAttemptsSince(since: number): number {
+  return (getDatabase().prepare('SELECT COUNT(*) AS n FROM email_attempts WHERE attempted_at > ?')
+    .get(since) as { n: number }).n;
+}
+
+/**
+ * Record that a queued email is being sent, and log the attempt
+ * @returns Whether the email was still pending (and is now claimed)
+ */
+export function markEmailJobSending(jobId: number, now: number): boolean {
+  const db = getDatabase();
+  return db.transaction(() => {
+    const claimed = db.prepare(
+      `UPDATE email_queue SET status = 'sending', attempts = attempts + 1, last_attempt_at = ?
+       WHERE id = ? AND status = 'pending'`
+    ).run(now, jobId).changes > 0;
+    if (claimed) {
+      db.prepare('INSERT INTO email_attempts (attempted_at) VALUES (?)').run(now);
+    }
+    return claimed;
+  })();
+}
+
+/**
+ * Record that a queued email was sent
+ */
+export function markEmailJobSent(jobId: number, now: number): void {
+  getDatabase().prepare(`UPDATE email_queue SET status = 'sent', sent_at = ?, last_error = NULL WHERE id = ?`).run(now, jobId);
+}
+
+/**
+ * Record a failed attempt at sending a queued email
+ * @param jobId Job ID
+ * @param error Error message
+ * @param retryAt When to try again, or null to give up (dead letter)
+ */
+export function markEmailJobFailed(jobId: number, error: string, retryAt: number | null): void {
+  getDatabase().prepare(
+    `UPDATE email_queue SET status = ?, last_error = ?, next_attempt_at = COALESCE(?, next_attempt_at) WHERE id = ?`
+  ).run(retryAt === null ? 'failed' : 'pending', error, retryAt, jobId);
+}
+
+/**
+ * Put emails left mid-send by a restart back in the queue
+ * The message may or may not have gone out; sending it again is the safer mistake.
+ * @returns Number of emails requeued
+ */
+export function requeueInterruptedEmailJobs(): number {
+  return getDatabase().prepare(`UPDATE email_queue SET status = 'pending' WHERE status = 'sending'`).run().changes;
+}
+
+/**
+ * Summarize an event's queued emails
+ * Only messages sent since the oldest waiting one was queued count as sent, so the numbers describe the current batch.
+ * @param eventId Event ID
+ */
+export function getEmailQueueStats(eventId: number): EmailQueueStats {
+  return getDatabase().prepare(
+    `WITH batch AS (SELECT MIN(created_at) AS since FROM email_queue WHERE event_id = ? AND status IN ('pending', 'sending'))
+     SELECT COALESCE(SUM(status = 'pending'), 0) AS pending,
+            COALESCE(SUM(status = 'sending'), 0) AS sending,
+            COALESCE(SUM(status = 'sent' AND sent_at >= (SELECT since FROM batch)), 0) AS sent,
+            COALESCE(SUM(status = 'failed'), 0) AS failed,
+            COALESCE(SUM(status = 'pending' AND attempts > 0), 0) AS retrying,
+            MIN(CASE WHEN status = 'pending' THEN next_attempt_at END) AS nextAttemptAt
+     FROM email_queue WHERE event_id = ?`
+  ).get(eventId, eventId) as EmailQueueStats;
+}
+
+/**
+ * Count emails waiting to be sent, across all events
+ */
+export function countUnsentEmails(): { pending: number; failed: number } {
+  return getDatabase().prepare(
+    `SELECT COALESCE(SUM(status IN ('pending', 'sending')), 0) AS pending, COALESCE(SUM(status = 'failed'), 0) AS failed FROM email_queue`
+  ).get() as { pending: number; failed: number };
+}
+
+/**
+ * List an event's emails that were given up on, with who they were for
+ * @param eventId Event ID
+ */
+export function listFailedEmailJobs(eventId: number): (EmailJob & { attendee_name: string | null; attendee_email: string | null })[] {
+  return getDatabase().prepare(
+    `SELECT q.*, a.name AS attendee_name, a.email AS attendee_email
+     FROM email_queue q LEFT JOIN attendees a ON a.id = q.attendee_id
+     WHERE q.event_id = ? AND q.status = 'failed' ORDER BY q.id`
+  ).all(eventId) as (EmailJob & { attendee_name: string | null; attendee_email: string | null })[];
+}
+
+/**
+ * Queue an event's failed emails again, with a fresh set of attempts
+ * Skips any whose attendee already has a newer message of the same kind waiting.
+ * @param eventId Event ID
+ * @param jobId Only this email (optional)
+ * @param now Current time (for testing)
+ * @returns Number of emails requeued
+ */
+export function retryFailedEmailJobs(eventId: number, jobId?: number, now: number = Date.now()): number {
+  return getDatabase().prepare(
+    `UPDATE OR IGNORE email_queue SET status = 'pending', attempts = 0, next_attempt_at = ?
+     WHERE event_id = ? AND status = 'failed' AND (? IS NULL OR id = ?)`
+  ).run(now, eventId, jobId ?? null, jobId ?? null).changes;
+}
+
+/**
+ * Remove an event's failed emails from the queue
+ * @param eventId Event ID
+ * @param jobId Only this email (optional)
+ * @returns Number of emails removed
+ */
+export function dismissFailedEmailJobs(eventId: number, jobId?: number): number {
+  return getDatabase().prepare(`DELETE FROM email_queue WHERE event_id = ? AND status = 'failed' AND (? IS NULL OR id = ?)`)
+    .run(eventId, jobId ?? null, jobId ?? null).changes;
+}
+
+/**
+ * Delete sent emails older than a cutoff
+ * @param cutoff Sent before this time
+ * @returns Number deleted
+ */
+export function pruneSentEmailJobs(cutoff: number): number {
+  return getDatabase().prepare(`DELETE FROM email_queue WHERE status = 'sent' AND sent_at < ?`).run(cutoff).changes;
+}
+
+/**
+ * Forget send attempts older than a cutoff
+ * @param cutoff Attempted before this time
+ */
+export function pruneEmailAttempts(cutoff: number): void {
+  getDatabase().prepare('DELETE FROM email_attempts WHERE attempted_at < ?').run(cutoff);
+}
+
+// ============================================================================
+// Deliveries
+// ============================================================================
+
+/**
+ * Log an attempt at emailing an attendee
+ * @param attendeeId Attendee ID
+ * @param kind Kind of email (email queue kind)
+ * @param attempt Recipients used, the Message-ID or error, and the queue payload the email was sent with
+ * @param now Time of the attempt
+ */
+export function recordDelivery(
+  attendeeId: number,
+  kind: string,
+  attempt: { to: string; cc?: string[]; messageId?: string | null; error?: string | null; payload?: string | null },
+  now: number = Date.now()
+): void {
+  const db = getDatabase();
+  db.transaction(() => {
+    db.prepare(
+      `INSERT INTO deliveries (attendee_id, kind, attempted_at, message_id, to_address, cc_addresses, error, payload)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(attendeeId, kind, now, attempt.messageId ?? null, attempt.to, JSON.stringify(attempt.cc ?? []), attempt.error ?? null,
+      attempt.payload ?? null);
+    db.prepare('UPDATE attendees SET last_modified = ? WHERE id = ?').run(now, attendeeId);
+  })();
+}
+
+/**
+ * List every delivery attempt to an event's attendees
+ * @param eventId Event ID
+ * @returns Attempts grouped by attendee ID, oldest first
+ */
+export function listEventDeliveries(eventId: number): Record<number, Delivery[]> {
+  const rows = getDatabase().prepare(
+    `SELECT d.* FROM deliveries d JOIN attendees a ON a.id = d.attendee_id
+     WHERE a.event_id = ? ORDER BY d.attempted_at, d.id`
+  ).all(eventId) as Delivery[];
+  const byAttendee: Record<number, Delivery[]> = {};
+  rows.forEach(d => (byAttendee[d.attendee_id] ??= []).push(d));
+  return byAttendee;
+}
+
+// Bounces
+
+/**
+ * Find the delivery a bounce reports on
+ * The Message-ID identifies it exactly; without one, the latest successful delivery to the address sent
+ * before the bounce is assumed, and a bounce with neither matches nothing.
+ *
+ * @param recipient Address that bounced (normalized)
+ * @param messageId Message-ID of the bounced message, if the report quotes it
+ * @param sentBefore Latest send time the bounce can be about (epoch ms), if the report is dated
+ * @returns The delivery, with its attendee's name and event title
+ */
+export function findBouncedDelivery(
+  recipient: string,
+  messageId: string | null,
+  sentBefore: number | null
+): (Delivery & { attendee_name: string; event_title: string }) | undefined {
+  if (messageId === null && sentBefore === null) return undefined;
+  return getDatabase().prepare(
+    `SELECT d.*, a.name AS attendee_name, e.title AS event_title
+     FROM deliveries d JOIN attendees a ON a.id = d.attendee_id JOIN events e ON e.id = a.event_id
+     WHERE d.error IS NULL AND (@messageId IS NULL OR d.message_id = @messageId)
+       AND (@messageId IS NOT NULL OR d.attempted_at <= @sentBefore)
+       AND (d.to_address = @recipient OR EXISTS (SELECT 1 FROM json_each(d.cc_addresses) WHERE value = @recipient))
+     ORDER BY d.attempted_at DESC, d.id DESC LIMIT 1`
+  ).get({ recipient, messageId, sentBefore }) as (Delivery & { attendee_name: string; event_title: string }) | undefined;
+}
+
+/**
+ * Record that a delivery bounced for one of its recipients
+ * @param deliveryId Delivery ID
+ * @param recipient Address that bounced
+ * @param status DSN status, e.g. 5.1.1
+ * @param diagnostic The receiving server's explanation
+ * @param now Current time (for testing)
+ * @returns False if this bounce was already recorded
+ */
+export function recordBounce(deliveryId: number, recipient: string, status: string | null, diagnostic: string | null, now: number = Date.now()): boolean {
+  return getDatabase().prepare(
+    `INSERT OR IGNORE INTO bounces (delivery_id, recipient, status, diagnostic, received_at) VALUES (?, ?, ?, ?, ?)`
+  ).run(deliveryId, recipient, status, diagnostic, now).changes > 0;
+}
+
+/**
+ * List the bounces an event's admin still needs to act on
+ * A bounce stops counting once the address is no longer one of the attendee's,
+ * or once a later email to it was sent (if that bounces too, it is listed again).
+ *
+ * @param eventId Event ID
+ * @returns Bounces, oldest first
+ */
+export function listEventBounces(eventId: number): BounceView[] {
+  return getDatabase().prepare(
+    `SELECT b.id, b.delivery_id, d.attendee_id, a.name AS attendee_name, d.kind, b.recipient, b.status, b.diagnostic, b.received_at
+     FROM bounces b
+     JOIN deliveries d ON d.id = b.delivery_id
+     JOIN attendees a ON a.id = d.attendee_id
+     WHERE a.event_id = ?
+       AND (a.email = b.recipient OR EXISTS (SELECT 1 FROM json_each(CASE WHEN json_valid(a.additional_emails) THEN a.additional_emails ELSE '[]' END) WHERE value = b.recipient))
+       AND NOT EXISTS (
+         SELECT 1 FROM deliveries later
+         WHERE later.attendee_id = d.attendee_id AND later.error IS NULL AND later.attempted_at > d.attempted_at
+           AND (later.to_address = b.recipient OR EXISTS (SELECT 1 FROM json_each(later.cc_addresses) WHERE value = b.recipient))
+       )
+     ORDER BY b.received_at, b.id`
+  ).all(eventId) as BounceView[];
+}
+
+/**
+ * List an event's attendees whose most recent delivery attempt failed, with the kind of email it was
+ * and the queue payload it was sent with (for attempts logged without one, that of the given-up queue entry)
+ * @param eventId Event ID
+ */
+function listFailedDeliveries(eventId: number): { attendee_id: number; kind: string; payload: string | null }[] {
+  return getDatabase().prepare(
+    `SELECT failed.attendee_id, last.kind,
+            COALESCE(last.payload, (SELECT q.payload FROM email_queue q WHERE q.kind = last.kind AND q.attendee_id = last.attendee_id
+                                 AND q.status = 'failed' ORDER BY q.id DESC LIMIT 1)) AS payload
+     FROM (SELECT a.id AS attendee_id,
+                  (SELECT d.id FROM deliveries d WHERE d.attendee_id = a.id ORDER BY d.attempted_at DESC, d.id DESC LIMIT 1) AS delivery_id
+           FROM attendees a
+           WHERE a.event_id = ? AND ${LAST_DELIVERY_ERROR_SQL} IS NOT NULL) failed
+     JOIN deliveries last ON last.id = failed.delivery_id`
+  ).all(eventId) as { attendee_id: number; kind: string; payload: string | null }[];
+}
+
+/**
+ * Queue emails again for an event's attendees whose most recent delivery attempt failed
+ * Each email is queued with the payload it was first sent with, so a retried reminder or update is the same email.
+ * Given-up queue entries for the same emails are replaced, so they leave the failed list.
+ *
+ * @param eventId Event ID
+ * @param payload Payload fields to set on the new queue entries, e.g. the current base URL
+ * @param attendeeId Only this attendee (optional)
+ * @param now Current time (for testing)
+ * @returns Number of emails queued
+ */
+export function requeueFailedDeliveries(eventId: number, payload: Record<string, unknown>, attendeeId?: number, now: number = Date.now()): number {
+  const db = getDatabase();
+  return db.transaction(() => {
+    const stmtDismiss = db.prepare(`DELETE FROM email_queue WHERE kind = ? AND attendee_id = ? AND status = 'failed'`);
+    let queued = 0;
+    for (const failed of listFailedDeliveries(eventId)) {
+      if (attendeeId !== undefined && failed.attendee_id !== attendeeId) continue;
+      stmtDismiss.run(failed.kind, failed.attendee_id);
+      const original = failed.payload ? JSON.parse(failed.payload) : {};
+      if (enqueueEmail(failed.kind, eventId, failed.attendee_id, { ...original, ...payload }, now)) queued++;
+    }
+    return queued;
+  })();
+}
+
+// ============================================================================
+// Email Templates
+// ============================================================================
+
+/**
+ * Get a saved email template
+ * @param kind Kind of email, e.g. 'invitation'
+ * @param eventId Event ID, or null for the instance default
+ * @returns Subject and body, or undefined if none was saved
+ */
+export function getEmailTemplate(kind: string, eventId: number | null): { subject: string; body: string } | undefined {
+  return getDatabase().prepare('SELECT subject, body FROM email_templates WHERE kind = ? AND event_id IS ?')
+    .get(kind, eventId) as { subject: string; body: string } | undefined;
+}
+
+/**
+ * Save an email template, replacing any saved before for the same kind and scope
+ * @param kind Kind of email
+ * @param eventId Event ID, or null for the instance default
+ * @param subject Subject template
+ * @param body Body template
+ */
+export function saveEmailTemplate(kind: string, eventId: number | null, subject: string, body: string): void {
+  const db = getDatabase();
+  db.transaction(() => {
+    const updated = db.prepare('UPDATE email_templates SET subject = ?, body = ?, updated_at = ? WHERE kind = ? AND event_id IS ?')
+      .run(subject, body, Date.now(), kind, eventId).changes;
+    if (updated === 0) {
+      db.prepare('INSERT INTO email_templates (kind, event_id, subject, body, updated_at) VALUES (?, ?, ?, ?, ?)')
+        .run(kind, eventId, subject, body, Date.now());
+    }
+  })();
+}
+
+/**
+ * Remove a saved email template, falling back to the instance default or the built-in one
+ * @param kind Kind of email
+ * @param eventId Event ID, or null for the instance default
+ */
+export function deleteEmailTemplate(kind: string, eventId: number | null): void {
+  getDatabase().prepare('DELETE FROM email_templates WHERE kind = ? AND event_id IS ?').run(kind, eventId);
+}
+
+// ============================================================================
+// Reminders
+// ============================================================================
+
+// Which of an event's attendees (aliased "a") each audience takes in
+const REMINDER_AUDIENCE_SQL: Record<ReminderAudience, string> = {
+  attending: `a.rsvp = 'yes' AND a.waitlisted_at IS NULL`,
+  maybe: `a.rsvp = 'maybe'`,
+  no_reply: 'a.rsvp IS NULL',
+};
+
+// Whether attendee "a" of event "e" can still answer at @now (see responsesClosed() in rsvp.ts)
+const RESPONSES_OPEN_SQL = `(e.rsvp_deadline IS NULL OR e.rsvp_deadline >= @now OR e.responses_reopened = 1 OR a.late_rsvp_allowed = 1)`;
+
+/**
+ * Add a reminder rule to an event
+ * @param eventId Event ID
+ * @param daysBefore Days before the event starts to send it
+ * @param audience Who gets it
+ * @param now Current time (for testing)
+ * @returns New rule ID
+ */
+export function createReminderRule(eventId: number, daysBefore: number, audience: ReminderAudience, now: number = Date.now()): number {
+  return Number(getDatabase().prepare('INSERT INTO reminder_rules (event_id, days_before, audience, created_at) VALUES (?, ?, ?, ?)')
+    .run(eventId, daysBefore, audience, now).lastInsertRowid);
+}
+
+/**
+ * Delete one of an event's reminder rules
+ * Reminders it already queued are still sent.
+ * @returns Whether the rule existed
+ */
+export function deleteReminderRule(eventId: number, ruleId: number): boolean {
+  return getDatabase().prepare('DELETE FROM reminder_rules WHERE id = ? AND event_id = ?').run(ruleId, eventId).changes > 0;
+}
+
+export function getReminderRule(ruleId: number): ReminderRule | undefined {
+  return getDatabase().prepare('SELECT * FROM reminder_rules WHERE id = ?').get(ruleId) as ReminderRule | undefined;
+}
+
+/**
+ * List an event's reminder rules, earliest first, with how many guests each was queued for
+ */
+export function listEventReminderRules(eventId: number): ReminderRuleView[] {
+  return getDatabase().prepare(
+    `SELECT r.*, (SELECT COUNT(*) FROM reminder_sends s WHERE s.rule_id = r.id) AS queued
+     FROM reminder_rules r WHERE r.event_id = ? ORDER BY r.days_before DESC, r.id`
+  ).all(eventId) as ReminderRuleView[];
+}
+
+/**
+ * List reminder rules whose time has come, for events that have not started yet
+ * Archived and cancelled events and events being deleted are left alone.
+ * @param now Current time
+ */
+export function listDueReminderRules(now: number): ReminderRule[] {
+  return getDatabase().prepare(
+    `SELECT r.* FROM reminder_rules r JOIN events e ON e.id = r.event_id
+     WHERE e.archived_at IS NULL AND e.delete_requested_at IS NULL AND e.cancelled_at IS NULL
+       AND e.date > ? AND e.date - r.days_before * 86400000 <= ?
+     ORDER BY e.date, r.id`
+  ).all(now, now) as ReminderRule[];
+}
+
+/**
+ * Queue a rule's reminder for every invited guest in its audience who has not had it yet
+ * Guests with another reminder still waiting to go out are picked up on a later run, and so are
+ * guests asked for an answer they can no longer give (after the RSVP deadline), should responses reopen.
+ *
+ * @param rule Reminder rule
+ * @param payload Extra payload for the queue entries (the rule ID is added)
+ * @param now Current time (for testing)
+ * @returns Number of reminders queued
+ */
+export function queueReminders(rule: ReminderRule, payload: Record<string, unknown>, now: number = Date.now()): number {
+  const db = getDatabase();
+  return db.transaction(() => {
+    const attendeeIds = (db.prepare(
+      `SELECT a.id FROM attendees a JOIN events e ON e.id = a.event_id
+       WHERE a.event_id = @eventId AND ${REMINDER_AUDIENCE_SQL[rule.audience]} AND ${INVITATION_SENT_SQL}
+         ${rule.audience === 'attending' ? '' : `AND ${RESPONSES_OPEN_SQL}`}
+         AND NOT EXISTS (SELECT 1 FROM reminder_sends s WHERE s.rule_id = @ruleId AND s.attendee_id = a.id)
+         AND NOT EXISTS (SELECT 1 FROM email_queue q WHERE q.kind = 'reminder' AND q.attendee_id = a.id
+                           AND q.status IN ('pending', 'sending'))`
+    ).all({ eventId: rule.event_id, ruleId: rule.id, now }) as { id: number }[]).map(row => row.id);
+
+    const stmtSend = db.prepare('INSERT INTO reminder_sends (rule_id, attendee_id, queued_at) VALUES (?, ?, ?)');
+    for (const attendeeId of attendeeIds) {
+      stmtSend.run(rule.id, attendeeId, now);
+      enqueueEmail('reminder', rule.event_id, attendeeId, { ...payload, ruleId: rule.id }, now);
+    }
+    return attendeeIds.length;
+  })();
+}
+
+// ============================================================================
+// RSVP Questions
+// ============================================================================
+
+/**
+ * Add a question to the end of an event's RSVP form
+ * @param eventId Event ID
+ * @param input Question type, label, choices (choice questions only) and flags
+ * @param now Current time (for testing)
+ * @returns New question ID
+ */
+export function createRsvpQuestion(
+  eventId: number,
+  input: { type: RsvpQuestionType; label: string; options: string[]; required: boolean; attendingOnly: boolean; perPerson: boolean },
+  now: number = Date.now()
+): number {
+  return Number(getDatabase().prepare(
+    `INSERT INTO rsvp_questions (event_id, position, type, label, options, required, attending_only, per_person, created_at)
+     VALUES (?, (SELECT COALESCE(MAX(position), 0) + 1 FROM rsvp_questions WHERE event_id = ?), ?, ?, ?, ?, ?, ?, ?)`
+  ).run(eventId, eventId, input.type, input.label, JSON.stringify(input.options),
+    input.required ? 1 : 0, input.attendingOnly ? 1 : 0, input.perPerson ? 1 : 0, now)
+    .lastInsertRowid);
+}
+
+/**
+ * Delete one of an event's RSVP questions, with every answer to it
+ * @returns Whether the question existed
+ */
+export function deleteRsvpQuestion(eventId: number, questionId: number): boolean {
+  return getDatabase().prepare('DELETE FROM rsvp_questions WHERE id = ? AND event_id = ?').run(questionId, eventId).changes > 0;
+}
+
+/**
+ * List an event's RSVP questions in the order the form asks them
+ */
+export function listEventRsvpQuestions(eventId: number): RsvpQuestion[] {
+  return getDatabase().prepare('SELECT * FROM rsvp_questions WHERE event_id = ? ORDER BY position, id')
+    .all(eventId) as RsvpQuestion[];
+}
+
+/**
+ * Get one guest's answers to their event's questions
+ * @returns Answers by question ID (unanswered questions are absent)
+ */
+export function getAttendeeRsvpAnswers(attendeeId: number): RsvpAnswers {
+  const rows = getDatabase().prepare('SELECT question_id, answer FROM rsvp_answers WHERE attendee_id = ?')
+    .all(attendeeId) as { question_id: number; answer: string }[];
+  return Object.fromEntries(rows.map(row => [row.question_id, JSON.parse(row.answer)]));
+}
+
+/**
+ * Get every guest's answers to an event's questions
+ * @returns Answers grouped by attendee ID, then question ID
+ */
+export function getEventRsvpAnswers(eventId: number): Record<number, RsvpAnswers> {
+  const rows = getDatabase().prepare(
+    `SELECT a.attendee_id, a.question_id, a.answer FROM rsvp_answers a
+     JOIN rsvp_questions q ON q.id = a.question_id WHERE q.event_id = ?`
+  ).all(eventId) as { attendee_id: number; question_id: number; answer: string }[];
+
+  const answers: Record<number, RsvpAnswers> = {};
+  for (const row of rows) {
+    (answers[row.attendee_id] ??= {})[row.question_id] = JSON.parse(row.answer);
+  }
+  return answers;
+}
+
+// ============================================================================
+// Party Members
+// ============================================================================
+
+/** Party members with their answers, from rows of party_members (in order) and their answers */
+function assemblePartyMembers(
+  rows: Omit<PartyMember, 'answers'>[],
+  answerRows: { member_id: number; question_id: number; answer: string }[]
+): PartyMember[] {
+  const members = new Map(rows.map(row => [row.id, { ...row, answers: {} as RsvpAnswers }]));
+  for (const row of answerRows) {
+    const member = members.get(row.member_id);
+    if (member) member.answers[row.question_id] = JSON.parse(row.answer);
+  }
+  return [...members.values()];
+}
+
+/**
+ * Get the people a guest named as coming with them
+ * @returns Party members in the order the guest gave them
+ */
+export function getAttendeePartyMembers(attendeeId: number): PartyMember[] {
+  const db = getDatabase();
+  return assemblePartyMembers(
+    db.prepare('SELECT * FROM party_members WHERE attendee_id = ? ORDER BY position').all(attendeeId) as Omit<PartyMember, 'answers'>[],
+    db.prepare(
+      `SELECT pa.member_id, pa.question_id, pa.answer FROM party_member_answers pa
+       JOIN party_members m ON m.id = pa.member_id WHERE m.attendee_id = ?`
+    ).all(attendeeId) as { member_id: number; question_id: number; answer: string }[]
+  );
+}
+
+/**
+ * Get the party members of every guest of an event
+ * @returns Party members grouped by attendee ID, in order (guests without any are absent)
+ */
+export function getEventPartyMembers(eventId: number): Record<number, PartyMember[]> {
+  const db = getDatabase();
+  const members = assemblePartyMembers(
+    db.prepare(
+      `SELECT m.* FROM party_members m JOIN attendees a ON a.id = m.attendee_id
+       WHERE a.event_id = ? ORDER BY m.attendee_id, m.position`
+    ).all(eventId) as Omit<PartyMember, 'answers'>[],
+    db.prepare(
+      `SELECT pa.member_id, pa.question_id, pa.answer FROM party_member_answers pa
+       JOIN party_members m ON m.id = pa.member_id
+       JOIN attendees a ON a.id = m.attendee_id WHERE a.event_id = ?`
+    ).all(eventId) as { member_id: number; question_id: number; answer: string }[]
+  );
+
+  const byAttendee: Record<number, PartyMember[]> = {};
+  for (const member of members) {
+    (byAttendee[member.attendee_id] ??= []).push(member);
+  }
+  return byAttendee;
+}
+
+// ============================================================================
+// Waitlist
+// ============================================================================
+
+/**
+ * Count the people with a place at an event: everyone in the party of a guest who said yes and isn't waiting
+ * @param eventId Event ID
+ * @param exceptAttendeeId Guest to leave out (the one whose answer is being placed)
+ */
+export function getConfirmedHeadcount(eventId: number, exceptAttendeeId: number = 0): number {
+  return (getDatabase().prepare(
+    `SELECT COALESCE(SUM(party_size), 0) AS headcount FROM attendees
+     WHERE event_id = ? AND rsvp = 'yes' AND waitlisted_at IS NULL AND id != ?`
+  ).get(eventId, exceptAttendeeId) as { headcount: number }).headcount;
+}
+
+/**
+ * List the guests waiting for a place at an event, first come first served
+ */
+export function listWaitlist(eventId: number): { id: number; party_size: number; waitlisted_at: number }[] {
+  return getDatabase().prepare(
+    `SELECT id, party_size, waitlisted_at FROM attendees
+     WHERE event_id = ? AND rsvp = 'yes' AND waitlisted_at IS NOT NULL
+     ORDER BY waitlisted_at, id`
+  ).all(eventId) as { id: number; party_size: number; waitlisted_at: number }[];
+}
+
+/**
+ * Put a guest on the waitlist (or keep their place in it), or take them off
+ * @param attendeeId Attendee ID
+ * @param waitlistedAt When they started waiting, or null if they have a place (or aren't coming)
+ */
+export function setAttendeeWaitlisted(attendeeId: number, waitlistedAt: number | null): void {
+  getDatabase().prepare('UPDATE attendees SET waitlisted_at = ? WHERE id = ?').run(waitlistedAt, attendeeId);
+}
+
+/**
+ * Let one guest answer after the RSVP deadline, or take that back
+ * @param attendeeId Attendee ID
+ * @param allowed Whether the guest can still answer
+ * @returns True if the attendee exists
+ */
+export function setAttendeeLateRsvpAllowed(attendeeId: number, allowed: boolean): boolean {
+  return getDatabase().prepare('UPDATE attendees SET late_rsvp_allowed = ? WHERE id = ?').run(allowed ? 1 : 0, attendeeId).changes > 0;
+}
+
+// ============================================================================
+// Tags
+// ============================================================================
+
+/**
+ * Get the tags of every attendee of an event
+ * @param eventId Event ID
+ * @returns Sorted tags grouped by attendee ID (attendees without tags are absent)
+ */
+export function getEventAttendeeTags(eventId: number): Record<number, string[]> {
+  const rows = getDatabase().prepare(
+    `SELECT t.attendee_id, t.tag FROM attendee_tags t
+     JOIN attendees a ON t.attendee_id = a.id
+     WHERE a.event_id = ?
+     ORDER BY t.tag`
+  ).all(eventId) as { attendee_id: number; tag: string }[];
+
+  const byAttendee: Record<number, string[]> = {};
+  rows.forEach(row => {
+    (byAttendee[row.attendee_id] ??= []).push(row.tag);
+  });
+  return byAttendee;
+}
+
+/**
+ * Replace an attendee's tags
+ * @param attendeeId Attendee ID
+ * @param tags New tags (already parsed)
+ */
+export function setAttendeeTags(attendeeId: number, tags: string[]): void {
+  const db = getDatabase();
+  db.transaction(() => {
+    db.prepare('DELETE FROM attendee_tags WHERE attendee_id = ?').run(attendeeId);
+    addAttendeeTags(attendeeId, tags);
+  })();
+}
+
+/**
+ * Add or remove one tag on several attendees of an event
+ * Attendee IDs that belong to other events are ignored.
+ *
+ * @param eventId Event ID
+ * @param attendeeIds Attendee IDs
+ * @param tag Tag (already parsed)
+ * @param action Whether to add or remove the tag
+ * @returns Number of attendees whose tags changed
+ */
+export function updateTagForAttendees(eventId: number, attendeeIds: number[], tag: string, action: 'add' | 'remove'): number {
+  const db = getDatabase();
+  const stmt = action === 'add'
+    ? db.prepare('INSERT OR IGNORE INTO attendee_tags (attendee_id, tag) SELECT id, ? FROM attendees WHERE id = ? AND event_id = ?')
+    : db.prepare('DELETE FROM attendee_tags WHERE tag = ? AND attendee_id = (SELECT id FROM attendees WHERE id = ? AND event_id = ?)');
+  return db.transaction(() => attendeeIds.reduce((changed, id) => changed + stmt.run(tag, id, eventId).changes, 0))();
+}
+
+// ============================================================================
+// Contacts
+// ============================================================================
+
+/**
+ * List every contact with the number of events they were invited to
+ * @returns Contacts, ordered by name
+ */
+export function listContacts(): ContactListEntry[] {
+  return getDatabase().prepare(
+    `SELECT c.*, COUNT(a.id) AS event_count, MAX(e.date) AS last_event_date
+     FROM contacts c
+     LEFT JOIN attendees a ON a.contact_id = c.id
+     LEFT JOIN events e ON a.event_id = e.id
+     GROUP BY c.id
+     ORDER BY c.name COLLATE NOCASE`
+  ).all() as ContactListEntry[];
+}
+
+/**
+ * Search contacts by name or email
+ * @param query Text to look for (case-insensitive substring)
+ * @param excludeEventId Leave out contacts already invited to this event (optional)
+ * @param limit Maximum number of results
+ * @returns Matching contacts, ordered by name
+ */
+export function searchContacts(query: string, excludeEventId?: number, limit: number = 20): ContactRecord[] {
+  const pattern = `%${query.trim().replace(/[\\%_]/g, c => `\\${c}`)}%`;
+  return getDatabase().prepare(
+    `SELECT * FROM contacts c
+     WHERE (c.name LIKE ? ESCAPE '\\' OR c.email LIKE ? ESCAPE '\\')
+       AND NOT EXISTS (SELECT 1 FROM attendees a WHERE a.contact_id = c.id AND a.event_id = ?)
+     ORDER BY c.name COLLATE NOCASE
+     LIMIT ?`
+  ).all(pattern, pattern, excludeEventId ?? null, limit) as ContactRecord[];
+}
+
+/**
+ * Get a contact by ID
+ * @param contactId Contact ID
+ * @returns Contact, or undefined if it does not exist
+ */
+export function getContactById(contactId: number): ContactRecord | undefined {
+  return getDatabase().prepare('SELECT * FROM contacts WHERE id = ?').get(contactId) as ContactRecord | undefined;
+}
+
+/**
+ * Get several contacts at once, with the party size they had in their most recent event
+ * @param contactIds Contact IDs
+ * @returns The contacts that exist (party_size is 1 for contacts not in any event)
+ */
+export function getContactsByIds(contactIds: number[]): (ContactRecord & { party_size: number })[] {
+  if (contactIds.length === 0) return [];
+  return getDatabase().prepare(
+    `SELECT c.*,
+            COALESCE((SELECT a.party_size FROM attendees a JOIN events e ON a.event_id = e.id
+                      WHERE a.contact_id = c.id ORDER BY e.date DESC, a.id DESC LIMIT 1), 1) AS party_size
+     FROM contacts c
+     WHERE c.id IN (${contactIds.map(() => '?').join(',')})`
+  ).all(...contactIds) as (ContactRecord & { party_size: number })[];
+}
+
+/**
+ * List the events a contact was invited to, with their response to each
+ * @param contactId Contact ID
+ * @returns Events, most recent first
+ */
+export function listContactEvents(contactId: number): ContactEventEntry[] {
+  return getDatabase().prepare(
+    `SELECT a.id AS attendee_id, e.id AS event_id, e.title AS event_title, e.date AS event_date,
+            ${INVITATION_SENT_SQL} AS is_sent, a.rsvp, a.party_size, a.responded_at,
+            (SELECT group_concat(t.tag, ' ') FROM attendee_tags t WHERE t.attendee_id = a.id) AS tags
+     FROM attendees a
+     JOIN events e ON a.event_id = e.id
+     WHERE a.contact_id = ?
+     ORDER BY e.date DESC`
+  ).all(contactId) as ContactEventEntry[];
+}
+
+/**
+ * Change a contact's details and apply them to the contact's attendees in
+ * events that have not happened yet (past events keep the details they had)
+ *
+ * @param contactId Contact ID
+ * @param name New name
+ * @param primaryEmail New primary email (already trimmed and lowercased)
+ * @param additionalEmailsJson New additional emails as a JSON array string, or null
+ * @param now Current time; events starting before it are left alone
+ * @returns Number of attendees updated
+ * @throws Error if the contact does not exist or the email belongs to someone else
+ */
+export function updateContact(
+  contactId: number,
+  name: string,
+  primaryEmail: string,
+  additionalEmailsJson: string | null,
+  now: number = Date.now()
+): number {
+  const db = getDatabase();
+  return db.transaction(() => {
+    if (!getContactById(contactId)) {
+      throw new Error('Contact not found.');
+    }
+    if (db.prepare('SELECT id FROM contacts WHERE email = ? AND id != ?').get(primaryEmail, contactId)) {
+      throw new Error('Another contact already uses this primary email.');
+    }
+
+    db.prepare('UPDATE contacts SET name = ?, email = ?, additional_emails = ?, updated_at = ? WHERE id = ?')
+      .run(name, primaryEmail, additionalEmailsJson, now, contactId);
+
+    const upcoming = db.prepare(
+      `SELECT a.id, a.event_id, e.title AS event_title FROM attendees a JOIN events e ON a.event_id = e.id
+       WHERE a.contact_id = ? AND e.date >= ?`
+    ).all(contactId, now) as { id: number; event_id: number; event_title: string }[];
+
+    for (const attendee of upcoming) {
+      const conflict = db.prepare('SELECT id FROM attendees WHERE event_id = ? AND email = ? AND id != ?')
+        .get(attendee.event_id, primaryEmail, attendee.id);
+      if (conflict) {
+        throw new Error(`${primaryEmail} is already invited separately to "${attendee.event_title}".`);
+      }
+      db.prepare('UPDATE attendees SET name = ?, email = ?, additional_emails = ?, last_modified = ? WHERE id = ?')
+        .run(name, primaryEmail, additionalEmailsJson, now, attendee.id);
+    }
+    return upcoming.length;
+  })();
+}
+
+// ============================================================================
+// RSVPs
+// ============================================================================
+
+/**
+ * Record an RSVP response and append it to the attendee's history
+ * The attendee row, the history entry, the answers and the party are written in one transaction.
+ *
+ * @param attendeeId Attendee ID
+ * @param rsvp RSVP response
+ * @param partySize Party size to store on the attendee
+ * @param requestInfo User agent and IP address of the submitter (optional)
+ * @param answers Answers to the event's questions, replacing the previous ones (kept if undefined)
+ * @param members The people coming with the guest, replacing the previous ones (kept if undefined)
+ * @returns The previous response, or undefined if the attendee does not exist
+ */
+export function recordRsvp(
+  attendeeId: number,
+  rsvp: string,
+  partySize: number,
+  requestInfo: RsvpRequestInfo = {},
+  answers?: RsvpAnswers,
+  members?: PartyMemberInput[]
+): { rsvp: string | null; party_size: number } | undefined {
+  const db = getDatabase();
+  const now = Date.now();
+
+  return db.transaction(() => {
+    const previous = db.prepare('SELECT rsvp, party_size FROM attendees WHERE id = ?')
+      .get(attendeeId) as { rsvp: string | null; party_size: number } | undefined;
+    if (!previous) return undefined;
+
+    db.prepare('UPDATE attendees SET rsvp=?, party_size=?, responded_at=?, last_modified=? WHERE id=?')
+      .run(rsvp, partySize, now, now, attendeeId);
+    db.prepare(
+      'INSERT INTO rsvp_history (attendee_id, changed_at, old_rsvp, old_party_size, new_rsvp, new_party_size, user_agent, ip) VALUES (?,?,?,?,?,?,?,?)'
+    ).run(attendeeId, now, previous.rsvp, previous.party_size, rsvp, partySize, requestInfo.userAgent ?? null, requestInfo.ip ?? null);
+
+    if (answers) {
+      db.prepare('DELETE FROM rsvp_answers WHERE attendee_id = ?').run(attendeeId);
+      const stmtAnswer = db.prepare('INSERT INTO rsvp_answers (question_id, attendee_id, answer, answered_at) VALUES (?, ?, ?, ?)');
+      for (const [questionId, answer] of Object.entries(answers)) {
+        stmtAnswer.run(+questionId, attendeeId, JSON.stringify(answer), now);
+      }
+    }
+
+    if (members) {
+      db.prepare('DELETE FROM party_members WHERE attendee_id = ?').run(attendeeId);
+      const stmtMember = db.prepare('INSERT INTO party_members (attendee_id, position, name) VALUES (?, ?, ?)');
+      const stmtMemberAnswer = db.prepare('INSERT INTO party_member_answers (question_id, member_id, answer) VALUES (?, ?, ?)');
+      members.forEach((member, index) => {
+        const memberId = stmtMember.run(attendeeId, index + 2, member.name).lastInsertRowid;
+        for (const [questionId, answer] of Object.entries(member.answers)) {
+          stmtMemberAnswer.run(+questionId, memberId, JSON.stringify(answer));
+        }
+      });
+    }
+
+    return previous;
+  })();
+}
+
+/**
+ * Get the RSVP history of every attendee of an event, oldest first
+ * @param eventId Event ID
+ * @returns History entries grouped by attendee ID
+ */
+export function getEventRsvpHistory(eventId: number): Record<number, RsvpHistoryEntry[]> {
+  const db = getDatabase();
+  const rows = db.prepare(
+    `SELECT h.* FROM rsvp_history h
+     JOIN attendees a ON h.attendee_id = a.id
+     WHERE a.event_id = ?
+     ORDER BY h.changed_at, h.id`
+  ).all(eventId) as RsvpHistoryEntry[];
+
+  const byAttendee: Record<number, RsvpHistoryEntry[]> = {};
+  rows.forEach(row => {
+    (byAttendee[row.attendee_id] ??= []).push(row);
+  });
+  return byAttendee;
+}
+
+// ============================================================================
+// Event Export/Import
+// ============================================================================
+
+/** Re-key answers by question position, dropping answers to questions not in the list */
+function answersByPosition(answers: RsvpAnswers, questionIds: number[]): RsvpAnswers {
+  return Object.fromEntries(Object.entries(answers)
+    .map(([questionId, answer]) => [questionIds.indexOf(+questionId), answer] as const)
+    .filter(([position]) => position >= 0));
+}
+
+/**
+ * Get an event with its settings, RSVP questions, reminder rules and attendees in a form that can be recreated elsewhere
+ * @param eventId Event ID
+ * @returns Snapshot (attendees with their RSVP history, ordered by ID), or undefined if the event does not exist
+ */
+export function getEventSnapshot(eventId: number): EventSnapshot | undefined {
+  const db = getDatabase();
+  const event = getEventById(eventId);
+  if (!event) return undefined;
+
+  const questions = listEventRsvpQuestions(eventId);
+  const questionIds = questions.map(q => q.id);
+  const rules = listEventReminderRules(eventId);
+  const ruleIds = rules.map(r => r.id);
+  const history = getEventRsvpHistory(eventId);
+  const tags = getEventAttendeeTags(eventId);
+  const answers = getEventRsvpAnswers(eventId);
+  const members = getEventPartyMembers(eventId);
+  const reminded: Record<number, number[]> = {};
+  for (const row of db.prepare(
+    `SELECT s.attendee_id, s.rule_id FROM reminder_sends s JOIN attendees a ON a.id = s.attendee_id WHERE a.event_id = ?`
+  ).all(eventId) as { attendee_id: number; rule_id: number }[]) {
+    (reminded[row.attendee_id] ??= []).push(ruleIds.indexOf(row.rule_id));
+  }
+
+  const rows = db.prepare(
+    `SELECT a.id, a.name, a.email, a.additional_emails, a.party_size, a.token, ${INVITATION_SENT_SQL} AS is_sent,
+            a.rsvp, a.responded_at, a.last_modified, a.viewed_at, a.waitlisted_at, a.late_rsvp_allowed
+     FROM attendees a WHERE a.event_id = ? ORDER BY a.id`
+  ).all(eventId) as (Omit<AttendeeSnapshot, 'additional_emails' | 'history' | 'tags' | 'answers' | 'members' | 'reminded'>
+    & { id: number; additional_emails: string | null })[];
+
+  return {
+    event: {
+      title: event.title,
+      date: event.date,
+      description: event.description,
+      location_name: event.location_name ?? null,
+      location_href: event.location_href ?? null,
+      date_end: event.date_end ?? null,
+      timezone: event.timezone ?? null,
+      send_confirmations: event.send_confirmations ?? 0,
+      calendar_invites: event.calendar_invites ?? 0,
+      allow_maybe: event.allow_maybe ?? 0,
+      capacity: event.capacity ?? null,
+      rsvp_deadline: event.rsvp_deadline ?? null,
+      responses_reopened: event.responses_reopened ?? 0,
+    },
+    questions: questions.map(q => ({
+      type: q.type,
+      label: q.label,
+      options: JSON.parse(q.options),
+      required: q.required,
+      attending_only: q.attending_only,
+      per_person: q.per_person,
+    })),
+    reminder_rules: rules.map(r => ({ days_before: r.days_before, audience: r.audience })),
+    attendees: rows.map(({ id, additional_emails, ...row }) => ({
+      ...row,
+      additional_emails: additional_emails ? JSON.parse(additional_emails) : [],
+      history: (history[id] ?? []).map(({ id: _id, attendee_id: _attendeeId, ...entry }) => entry),
+      tags: tags[id] ?? [],
+      answers: answersByPosition(answers[id] ?? {}, questionIds),
+      members: (members[id] ?? []).map(member => ({ name: member.name, answers: answersByPosition(member.answers, questionIds) })),
+      reminded: (reminded[id] ?? []).sort((a, b) => a - b),
+    })),
+  };
+}
+
+/**
+ * List which of the given tokens are already used by an attendee
+ * @param tokens RSVP tokens
+ * @returns The tokens that are taken
+ */
+export function findExistingTokens(tokens: string[]): string[] {
+  if (tokens.length === 0) return [];
+  return (getDatabase().prepare(`SELECT token FROM attendees WHERE token IN (${tokens.map(() => '?').join(',')})`)
+    .all(...tokens) as { token: string }[]).map(row => row.token);
+}
+
+/**
+ * Create an event together with its settings, RSVP questions, reminder rules and attendees
+ * (with their RSVP history, tags, answers, party members and the reminders already queued for them), in one transaction
+ * Attendees are inserted as given; callers are responsible for normalizing emails
+ * and choosing tokens. Invited attendees get one successful invitation delivery.
+ *
+ * @param snapshot Event to create
+ * @param now Current time, recorded as when answers were given and reminders queued (for testing)
+ * @returns New event ID
+ */
+export function importEvent(snapshot: EventSnapshot, now: number = Date.now()): number {
+  const db = getDatabase();
+  return db.transaction(() => {
+    const eventId = createEvent(snapshot.event);
+    db.prepare(
+      `UPDATE events SET send_confirmations = @send_confirmations, calendar_invites = @calendar_invites,
+         allow_maybe = @allow_maybe, capacity = @capacity, rsvp_deadline = @rsvp_deadline, responses_reopened = @responses_reopened
+       WHERE id = @id`
+    ).run({ ...snapshot.event, id: eventId });
+
+    const questionIds = snapshot.questions.map(q => createRsvpQuestion(eventId, {
+      type: q.type,
+      label: q.label,
+      options: q.options,
+      required: !!q.required,
+      attendingOnly: !!q.attending_only,
+      perPerson: !!q.per_person,
+    }, now));
+    const ruleIds = snapshot.reminder_rules.map(r => createReminderRule(eventId, r.days_before, r.audience, now));
+
+    const stmtAttendee = db.prepare(
+      `INSERT INTO attendees (event_id, name, email, additional_emails, party_size, token, rsvp, responded_at, last_modified, viewed_at,
+                              waitlisted_at, late_rsvp_allowed, contact_id)
+       VALUES (?,?,?,?,?,?,?,?,?,?,?,?,?)`
+    );
+    const stmtHistory = db.prepare(
+      'INSERT INTO rsvp_history (attendee_id, changed_at, old_rsvp, old_party_size, new_rsvp, new_party_size, user_agent, ip) VALUES (?,?,?,?,?,?,?,?)'
+    );
+    const stmtAnswer = db.prepare('INSERT INTO rsvp_answers (question_id, attendee_id, answer, answered_at) VALUES (?, ?, ?, ?)');
+    const stmtMember = db.prepare('INSERT INTO party_members (attendee_id, position, name) VALUES (?, ?, ?)');
+    const stmtMemberAnswer = db.prepare('INSERT INTO party_member_answers (question_id, member_id, answer) VALUES (?, ?, ?)');
+    const stmtReminded = db.prepare('INSERT INTO reminder_sends (rule_id, attendee_id, queued_at) VALUES (?, ?, ?)');
+
+    for (const a of snapshot.attendees) {
+      const additionalEmailsJson = a.additional_emails.length > 0 ? JSON.stringify(a.additional_emails) : null;
+      const result = stmtAttendee.run(
+        eventId, a.name, a.email, additionalEmailsJson, a.party_size, a.token, a.rsvp, a.responded_at,
+        a.last_modified, a.viewed_at, a.waitlisted_at, a.late_rsvp_allowed, ensureContact(a.name, a.email, additionalEmailsJson)
+      );
+      const attendeeId = Number(result.lastInsertRowid);
+      if (a.is_sent) {
+        recordDelivery(attendeeId, 'invitation', { to: a.email, cc: a.additional_emails }, a.last_modified ?? now);
+      }
+      for (const h of a.history) {
+        stmtHistory.run(attendeeId, h.changed_at, h.old_rsvp, h.old_party_size, h.new_rsvp, h.new_party_size, h.user_agent, h.ip);
+      }
+      addAttendeeTags(attendeeId, a.tags);
+      for (const [position, answer] of Object.entries(a.answers)) {
+        stmtAnswer.run(questionIds[+position], attendeeId, JSON.stringify(answer), a.responded_at ?? now);
+      }
+      a.members.forEach((member, index) => {
+        const memberId = stmtMember.run(attendeeId, index + 2, member.name).lastInsertRowid;
+        for (const [position, answer] of Object.entries(member.answers)) {
+          stmtMemberAnswer.run(questionIds[+position], memberId, JSON.stringify(answer));
+        }
+      });
+      for (const position of a.reminded) {
+        stmtReminded.run(ruleIds[position], attendeeId, now);
+      }
+    }
+    return eventId;
+  })();
+}
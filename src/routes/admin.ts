@@ -6,14 +6,100 @@
 
 import { Router } from 'express';
 import type { Request, Response } from 'express';
-import { getDatabase, getEventAttendeeStats, type EventRecord, type EventRecordWithStats } from '../database';
+import { getAttendeeStatsForEvents, getEventAttendeeStats, getEventTagStats, type EventInput, type EventRecordWithStats } from '../database';
+import {
+  countArchivedEvents,
+  countUnsentEmails,
+  createEvent,
+  getEmailQueueStats,
+  getEventAttendeeTags,
+  getEventById,
+  getEventPartyMembers,
+  getEventRsvpAnswers,
+  getEventRsvpHistory,
+  getSeriesById,
+  listEventAttendees,
+  listEventBounces,
+  listEventDeliveries,
+  listEventReminderRules,
+  listEventRsvpQuestions,
+  listEvents,
+  listEventsPendingDeletion,
+  listFailedEmailJobs,
+  listOtherEvents,
+  listSeries,
+  setEventAllowMaybe,
+  setEventArchived,
+  setEventBanner,
+  setEventCalendarInvites,
+  setEventCapacity,
+  setEventDeleteRequested,
+  setEventResponsesReopened,
+  setEventRsvpDeadline,
+  setEventSendConfirmations,
+  updateEvent,
+} from '../repository';
+import { EVENT_DELETE_GRACE_MS } from '../housekeeping';
+import { EventBundleError, exportEventBundle, importEventBundle } from '../event-bundle';
+import { applyBounces } from '../bounces';
+import { applyCalendarReplies } from '../calendar-replies';
+import { cancelEventAndNotify } from '../cancellations';
+import { formatRsvpDeadline } from '../email-templates';
+import { describeEventChanges, queueEventUpdates } from '../event-updates';
+import { REMINDER_AUDIENCES } from '../reminders';
+import { RSVP_QUESTION_TYPES, formatAnswer, partyRoster, questionOptions, tallyAnswers } from '../rsvp-questions';
+import { describeRecurrence } from '../series';
+import { updateWaitlist } from '../waitlist';
 import { getTimezones } from '../utils';
-import { toZonedTime, fromZonedTime } from 'date-fns-tz';
+import { toZonedTime, fromZonedTime, formatInTimeZone } from 'date-fns-tz';
 import * as path from 'path';
 import * as fs from 'fs';
 
 const router = Router();
 
+// ============================================================================
+// Helper functions
+// ============================================================================
+
+/**
+ * Convert the fields of the create/edit event forms into an EventInput
+ * datetime-local values are in format "2026-01-15T19:00" with no timezone info.
+ * We interpret them as being in the event's timezone (or server default if not specified).
+ */
+function parseEventForm(body: Record<string, string>): EventInput {
+  const { title, date, description, location_name, location_href, date_end, timezone } = body;
+  const eventTimezone = timezone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  return {
+    title,
+    date: fromZonedTime(date, eventTimezone).getTime(),
+    description: description ?? null,
+    location_name: location_name || null,
+    location_href: location_href || null,
+    date_end: date_end ? fromZonedTime(date_end, eventTimezone).getTime() : null,
+    timezone: timezone || null,
+  };
+}
+
+/** The event form fields, for carrying an edit through the confirmation step */
+function eventFormFields(body: Record<string, string>): Record<string, string> {
+  const fields = ['title', 'date', 'date_end', 'timezone', 'location_name', 'location_href', 'description'];
+  return Object.fromEntries(fields.map(field => [field, body[field] ?? '']));
+}
+
+/**
+ * Check a banner carried through the confirmation step of an edit
+ * @returns The filename, if it is an upload for this event that is still on disk
+ */
+function pendingBanner(event: { id: number; banner_image_filename?: string | null }, filename: unknown): string | undefined {
+  const eventBannerPath = process.env.EVENT_BANNER_STORAGE_PATH || './data/uploads/event-banners';
+  if (typeof filename !== 'string' || path.basename(filename) !== filename || !filename.startsWith(`event-${event.id}-`)
+      || filename === event.banner_image_filename) {
+    return undefined;
+  }
+  return fs.existsSync(path.join(eventBannerPath, filename)) ? filename : undefined;
+}
+
 // ============================================================================
 // Admin Dashboard
 // ============================================================================
@@ -22,13 +108,27 @@ const router = Router();
  * List all events with stats
  */
 router.get('/', (req: Request, res: Response) => {
-  const db = getDatabase();
-  const eventsRaw = db.prepare('SELECT * FROM events ORDER BY date').all() as EventRecord[];
+  const showArchived = req.query.archived === '1';
+  const eventsRaw = listEvents({ archived: showArchived });
+  const stats = getAttendeeStatsForEvents(eventsRaw.map(event => event.id));
   const events: EventRecordWithStats[] = eventsRaw.map(event => ({
     ...event,
-    stats: getEventAttendeeStats(event.id)
+    stats: stats.get(event.id)!
   }));
-  res.render('admin', { events, csrfToken: req.csrfToken(), timezones: getTimezones() });
+
+  res.render('admin', { 
+    events, 
+    showArchived, 
+    archivedCount: countArchivedEvents(), 
+    pendingDeletion: listEventsPendingDeletion(), 
+    series: listSeries().map(series => ({ ...series, recurrenceText: describeRecurrence(series.rrule) })), 
+    deleteGraceMs: EVENT_DELETE_GRACE_MS, 
+    unsentEmails: countUnsentEmails(), 
+    message: req.query.message,
+    error: req.query.error,
+    csrfToken: req.csrfToken(), 
+    timezones: getTimezones() 
+  });
 });
 
 /**
@@ -36,26 +136,49 @@ router.get('/', (req: Request, res: Response) => {
  */
 router.get('/:eventId', (req: Request, res: Response) => {
   const eventId = +req.params.eventId;
-  const db = getDatabase();
-  const event = db.prepare('SELECT * FROM events WHERE id = ?').get(eventId) as EventRecord | undefined;
+  const event = getEventById(eventId);
   
   if (!event) {
     res.status(404).send('Event not found');
     return;
   }
   
-  const attendees = db.prepare(
-    'SELECT id, event_id, name, email, party_size, token, is_sent, rsvp, responded_at, last_modified, additional_emails FROM attendees WHERE event_id = ? ORDER BY name'
-  ).all(eventId);
-  
-  const allEvents = db.prepare('SELECT id, title FROM events WHERE id != ? ORDER BY title').all(eventId) as {id: number, title: string}[];
-  const attendeeStats = getEventAttendeeStats(eventId);
-
+  const attendees = listEventAttendees(eventId);
+  const rsvpQuestions = listEventRsvpQuestions(eventId);
+  const rsvpAnswers = getEventRsvpAnswers(eventId);
+  const partyMembers = getEventPartyMembers(eventId);
+  const eventTimezone = event.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone;
   res.render('event-admin', { 
     event, 
+    series: event.series_id ? getSeriesById(event.series_id) : undefined, 
+    deleteGraceMs: EVENT_DELETE_GRACE_MS, 
     attendees, 
-    allEvents, 
-    attendeeStats, 
+    allEvents: listOtherEvents(eventId), 
+    attendeeStats: getEventAttendeeStats(eventId), 
+    rsvpHistory: getEventRsvpHistory(eventId), 
+    deliveries: listEventDeliveries(eventId), 
+    bounces: listEventBounces(eventId),
+    attendeeTags: getEventAttendeeTags(eventId), 
+    tagStats: getEventTagStats(eventId), 
+    emailQueue: getEmailQueueStats(eventId), 
+    failedEmails: listFailedEmailJobs(eventId), 
+    reminderRules: listEventReminderRules(eventId), 
+    reminderAudiences: REMINDER_AUDIENCES, 
+    rsvpQuestions,
+    rsvpAnswers,
+    partyMembers,
+    answerTallies: tallyAnswers(rsvpQuestions, attendees, rsvpAnswers, partyMembers),
+    roster: partyRoster(rsvpQuestions, attendees, rsvpAnswers, partyMembers),
+    questionTypes: RSVP_QUESTION_TYPES,
+    questionOptions,
+    formatAnswer,
+    rsvpDeadline: event.rsvp_deadline == null ? null : {
+      input: formatInTimeZone(event.rsvp_deadline, eventTimezone, "yyyy-MM-dd'T'HH:mm"),
+      text: formatRsvpDeadline(event),
+      passed: event.rsvp_deadline < Date.now(),
+    },
+    error: req.query.error,
+    message: req.query.message,
     csrfToken: req.csrfToken(), 
     timezones: getTimezones() 
   });
@@ -69,25 +192,7 @@ router.get('/:eventId', (req: Request, res: Response) => {
  * Create a new event
  */
 router.post('/event', (req: Request, res: Response) => {
-  const { title, date, description, location_name, location_href, date_end, timezone } = req.body;
-  
-  // Parse datetime-local values in the context of the event timezone
-  // datetime-local values are in format "2026-01-15T19:00" with no timezone info
-  // We interpret them as being in the event's timezone (or server default if not specified)
-  const eventTimezone = timezone || Intl.DateTimeFormat().resolvedOptions().timeZone;
-  const dateTimestamp = fromZonedTime(date, eventTimezone).getTime();
-  let dateEndTimestamp: number | null = null;
-  
-  if (date_end) {
-    dateEndTimestamp = fromZonedTime(date_end, eventTimezone).getTime();
-  }
-  
-  const db = getDatabase();
-  const result = db.prepare(
-    'INSERT INTO events (title, date, description, banner_image_filename, location_name, location_href, date_end, timezone) VALUES (?,?,?,?,?,?,?,?)'
-  ).run(title, dateTimestamp, description, null, location_name || null, location_href || null, dateEndTimestamp, timezone || null);
-  
-  const eventId = result.lastInsertRowid;
+  const eventId = createEvent(parseEventForm(req.body));
 
   // Handle file upload if present
   if (req.file && eventId) {
@@ -102,8 +207,7 @@ router.post('/event', (req: Request, res: Response) => {
       if (err) {
         console.error("Error renaming uploaded file for new event:", err);
       } else {
-        db.prepare('UPDATE events SET banner_image_filename = ? WHERE id = ?')
-          .run(finalFilename, eventId);
+        setEventBanner(eventId, finalFilename);
       }
       res.redirect('/admin');
     });
@@ -114,31 +218,42 @@ router.post('/event', (req: Request, res: Response) => {
 
 /**
  * Update an existing event
+ * When the time or place changes after invitations went out, the admin first sees what changed
+ * and chooses whether to email the guests (body: notify = '1' or '0').
  */
 router.post('/event/:eventId/update', (req: Request, res: Response) => {
   const eventId = +req.params.eventId;
-  const { title, date, description, location_name, location_href, date_end, timezone } = req.body;
-  
-  // Parse datetime-local values in the context of the event timezone
-  // datetime-local values are in format "2026-01-15T19:00" with no timezone info
-  // We interpret them as being in the event's timezone (or server default if not specified)
-  const eventTimezone = timezone || Intl.DateTimeFormat().resolvedOptions().timeZone;
-  const dateTimestamp = fromZonedTime(date, eventTimezone).getTime();
-  let dateEndTimestamp: number | null = null;
-  
-  if (date_end) {
-    dateEndTimestamp = fromZonedTime(date_end, eventTimezone).getTime();
+  const currentEventData = getEventById(eventId);
+
+  if (!currentEventData) {
+    res.status(404).send('Event not found');
+    return;
+  }
+
+  const input = parseEventForm(req.body);
+  const changes = describeEventChanges(currentEventData, { ...currentEventData, ...input });
+  const invitedCount = listEventAttendees(eventId).filter(attendee => attendee.is_sent).length;
+  const banner = req.file?.filename ?? pendingBanner(currentEventData, req.body.banner_upload);
+
+  if (changes.length > 0 && invitedCount > 0 && !currentEventData.cancelled_at && req.body.notify === undefined) {
+    res.render('event-update', {
+      event: currentEventData,
+      changes,
+      invitedCount,
+      form: eventFormFields(req.body),
+      bannerUpload: banner ?? null,
+      csrfToken: req.csrfToken(),
+    });
+    return;
   }
 
-  const db = getDatabase();
-  const currentEventData = db.prepare('SELECT banner_image_filename FROM events WHERE id = ?').get(eventId) as { banner_image_filename?: string | null };
+  updateEvent(eventId, input);
 
-  if (req.file) {
+  if (banner) {
     const eventBannerPath = process.env.EVENT_BANNER_STORAGE_PATH || './data/uploads/event-banners';
-    const newBannerFilename = req.file.filename; 
     
     // Delete old banner if it exists
-    if (currentEventData && currentEventData.banner_image_filename) {
+    if (currentEventData.banner_image_filename) {
       const oldBannerPath = path.join(eventBannerPath, currentEventData.banner_image_filename);
       fs.unlink(oldBannerPath, (err) => {
         if (err && err.code !== 'ENOENT') { 
@@ -149,16 +264,285 @@ router.post('/event/:eventId/update', (req: Request, res: Response) => {
       });
     }
     
-    db.prepare(
-      'UPDATE events SET title = ?, date = ?, description = ?, banner_image_filename = ?, location_name = ?, location_href = ?, date_end = ?, timezone = ? WHERE id = ?'
-    ).run(title, dateTimestamp, description, newBannerFilename, location_name || null, location_href || null, dateEndTimestamp, timezone || null, eventId);
-  } else {
-    db.prepare(
-      'UPDATE events SET title = ?, date = ?, description = ?, location_name = ?, location_href = ?, date_end = ?, timezone = ? WHERE id = ?'
-    ).run(title, dateTimestamp, description, location_name || null, location_href || null, dateEndTimestamp, timezone || null, eventId);
+    setEventBanner(eventId, banner);
+  }
+
+  if (req.body.notify === '1' && changes.length > 0) {
+    const appBaseUrl = req.app.locals.APP_BASE_URL || `http://localhost:${process.env.PORT || '3000'}`;
+    const queued = queueEventUpdates(eventId, currentEventData, appBaseUrl);
+    const message = `Saved. Emailing the changes to ${queued} guest${queued === 1 ? '' : 's'}.`;
+    res.redirect(`/admin/${eventId}?message=${encodeURIComponent(message)}`);
+    return;
   }
   
   res.redirect(`/admin/${eventId}`);
 });
 
+// ============================================================================
+// Cancellation
+// ============================================================================
+
+/**
+ * Cancel an event and email every invited guest
+ * Body: reason (optional, shown to guests)
+ */
+router.post('/event/:eventId/cancel', (req: Request, res: Response) => {
+  const eventId = +req.params.eventId;
+  const reason = typeof req.body.reason === 'string' && req.body.reason.trim() ? req.body.reason.trim() : null;
+  const appBaseUrl = req.app.locals.APP_BASE_URL || `http://localhost:${process.env.PORT || '3000'}`;
+  const queued = cancelEventAndNotify(eventId, reason, appBaseUrl);
+  if (queued === undefined) {
+    res.status(404).send('Event not found or already cancelled');
+    return;
+  }
+  console.log(`Event ${eventId} cancelled.`);
+  const message = `Event cancelled. Emailing ${queued} guest${queued === 1 ? '' : 's'}.`;
+  res.redirect(`/admin/${eventId}?message=${encodeURIComponent(message)}`);
+});
+
+// ============================================================================
+// Archiving and Deletion
+// ============================================================================
+
+/**
+ * Archive an event (hides it from the dashboard; nothing is deleted)
+ */
+router.post('/event/:eventId/archive', (req: Request, res: Response) => {
+  const eventId = +req.params.eventId;
+  if (!setEventArchived(eventId, true)) {
+    res.status(404).send('Event not found');
+    return;
+  }
+  res.redirect('/admin');
+});
+
+/**
+ * Return an archived event to the dashboard
+ */
+router.post('/event/:eventId/unarchive', (req: Request, res: Response) => {
+  const eventId = +req.params.eventId;
+  if (!setEventArchived(eventId, false)) {
+    res.status(404).send('Event not found');
+    return;
+  }
+  res.redirect(`/admin/${eventId}`);
+});
+
+/**
+ * Turn RSVP confirmation emails on or off
+ * Body: enabled ('1' to turn them on)
+ */
+router.post('/event/:eventId/confirmations', (req: Request, res: Response) => {
+  const eventId = +req.params.eventId;
+  const enabled = req.body.enabled === '1';
+  if (!setEventSendConfirmations(eventId, enabled)) {
+    res.status(404).send('Event not found');
+    return;
+  }
+  const message = enabled ? 'Guests will get a confirmation email when they respond.' : 'Confirmation emails turned off.';
+  res.redirect(`/admin/${eventId}?message=${encodeURIComponent(message)}`);
+});
+
+/**
+ * Set how many people can come, and give any places that opens up to the waitlist
+ * Body: capacity (empty for no limit)
+ */
+router.post('/event/:eventId/capacity', (req: Request, res: Response) => {
+  const eventId = +req.params.eventId;
+  const raw = String(req.body.capacity ?? '').trim();
+  const capacity = raw === '' ? null : Number(raw);
+  if (capacity !== null && (!Number.isInteger(capacity) || capacity < 1)) {
+    return res.redirect(`/admin/${eventId}?error=${encodeURIComponent('Capacity must be a whole number of people, or empty for no limit.')}`);
+  }
+  if (!setEventCapacity(eventId, capacity)) {
+    res.status(404).send('Event not found');
+    return;
+  }
+
+  const appBaseUrl = req.app.locals.APP_BASE_URL || `http://localhost:${process.env.PORT || '3000'}`;
+  const { promoted } = updateWaitlist(eventId, appBaseUrl);
+  let message = capacity === null ? 'The event no longer has a capacity.' : `Capacity set to ${capacity} ${capacity === 1 ? 'person' : 'people'}.`;
+  if (promoted.length > 0) {
+    message += ` ${promoted.length} waitlisted guest${promoted.length === 1 ? '' : 's'} got a place and will be emailed.`;
+  }
+  res.redirect(`/admin/${eventId}?message=${encodeURIComponent(message)}`);
+});
+
+/**
+ * Set the date guests must answer by, read in the event's timezone (or the server's)
+ * Body: deadline (datetime-local value, empty for none)
+ */
+router.post('/event/:eventId/deadline', (req: Request, res: Response) => {
+  const eventId = +req.params.eventId;
+  const event = getEventById(eventId);
+  if (!event) {
+    res.status(404).send('Event not found');
+    return;
+  }
+
+  const raw = String(req.body.deadline ?? '').trim();
+  const deadline = raw === '' ? null : fromZonedTime(raw, event.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone).getTime();
+  if (deadline !== null && (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/.test(raw) || isNaN(deadline))) {
+    return res.redirect(`/admin/${eventId}?error=${encodeURIComponent('Please give the RSVP deadline as a date and time, or leave it empty for none.')}`);
+  }
+  setEventRsvpDeadline(eventId, deadline);
+
+  let message = deadline === null
+    ? 'The event no longer has an RSVP deadline.'
+    : `Guests can answer until ${formatRsvpDeadline({ rsvp_deadline: deadline, timezone: event.timezone })}.`;
+  if (deadline !== null && deadline < Date.now()) {
+    message += ' That has already passed, so responses are closed.';
+  }
+  res.redirect(`/admin/${eventId}?message=${encodeURIComponent(message)}`);
+});
+
+/**
+ * Let guests answer again after the RSVP deadline, or close responses again
+ * Body: enabled ('1' to reopen them)
+ */
+router.post('/event/:eventId/reopen', (req: Request, res: Response) => {
+  const eventId = +req.params.eventId;
+  const enabled = req.body.enabled === '1';
+  if (!setEventResponsesReopened(eventId, enabled)) {
+    res.status(404).send('Event not found');
+    return;
+  }
+  const message = enabled ? 'Responses are open again, although the deadline has passed.' : 'Responses are closed again.';
+  res.redirect(`/admin/${eventId}?message=${encodeURIComponent(message)}`);
+});
+
+/**
+ * Offer "maybe" on the RSVP form, or stop offering it
+ * Body: enabled ('1' to offer it)
+ */
+router.post('/event/:eventId/maybe', (req: Request, res: Response) => {
+  const eventId = +req.params.eventId;
+  const enabled = req.body.enabled === '1';
+  if (!setEventAllowMaybe(eventId, enabled)) {
+    res.status(404).send('Event not found');
+    return;
+  }
+  const message = enabled ? 'Guests can now answer "maybe".' : 'The RSVP form no longer offers "maybe"; guests who said maybe keep their answer.';
+  res.redirect(`/admin/${eventId}?message=${encodeURIComponent(message)}`);
+});
+
+/**
+ * Turn iTIP calendar invitations on or off
+ * Body: enabled ('1' to turn them on)
+ */
+router.post('/event/:eventId/calendar-invites', (req: Request, res: Response) => {
+  const eventId = +req.params.eventId;
+  const enabled = req.body.enabled === '1';
+  if (!setEventCalendarInvites(eventId, enabled)) {
+    res.status(404).send('Event not found');
+    return;
+  }
+  const message = enabled
+    ? 'Invitations sent from now on can be answered from guests\' calendar apps.'
+    : 'Invitations will no longer include a calendar invitation.';
+  res.redirect(`/admin/${eventId}?message=${encodeURIComponent(message)}`);
+});
+
+/**
+ * Schedule an event for deletion (carried out by housekeeping after the grace period)
+ */
+router.post('/event/:eventId/delete', (req: Request, res: Response) => {
+  const eventId = +req.params.eventId;
+  if (!setEventDeleteRequested(eventId, true)) {
+    res.status(404).send('Event not found');
+    return;
+  }
+  console.log(`Event ${eventId} scheduled for deletion.`);
+  res.redirect('/admin');
+});
+
+/**
+ * Undo a pending deletion
+ */
+router.post('/event/:eventId/undelete', (req: Request, res: Response) => {
+  const eventId = +req.params.eventId;
+  if (!setEventDeleteRequested(eventId, false)) {
+    res.status(404).send('Event not found or already deleted');
+    return;
+  }
+  console.log(`Deletion of event ${eventId} undone.`);
+  res.redirect(`/admin/${eventId}`);
+});
+
+// ============================================================================
+// Export and Import
+// ============================================================================
+
+/**
+ * Download an event, its attendees and banner as a bundle for another instance
+ */
+router.get('/event/:eventId/export', async (req: Request, res: Response) => {
+  const bundle = await exportEventBundle(+req.params.eventId);
+  if (!bundle) {
+    res.status(404).send('Event not found');
+    return;
+  }
+  res.setHeader('Content-Type', 'application/gzip');
+  res.setHeader('Content-Disposition', `attachment; filename="${bundle.filename}"`);
+  res.send(bundle.data);
+});
+
+/**
+ * Recreate an exported event from a bundle as a new event
+ */
+router.post('/event/import', async (req: Request, res: Response) => {
+  if (!req.file) {
+    res.redirect(`/admin?error=${encodeURIComponent('No file uploaded')}`);
+    return;
+  }
+
+  try {
+    const result = await importEventBundle(req.file.buffer, { tokens: req.body.tokens === 'keep' ? 'keep' : 'regenerate' });
+    res.redirect(`/admin/${result.eventId}`);
+  } catch (error: any) {
+    if (!(error instanceof EventBundleError)) {
+      throw error;
+    }
+    console.error('Event import failed:', error.message);
+    res.redirect(`/admin?error=${encodeURIComponent(error.message)}`);
+  }
+});
+
+/**
+ * Record the answers in a guest's calendar reply, saved from the organizer's mailbox as an .eml file
+ */
+router.post('/calendar-replies', async (req: Request, res: Response) => {
+  if (!req.file) {
+    res.redirect(`/admin?error=${encodeURIComponent('No file uploaded')}`);
+    return;
+  }
+
+  const appBaseUrl = req.app.locals.APP_BASE_URL || `http://localhost:${process.env.PORT || '3000'}`;
+  const outcomes = await applyCalendarReplies(req.file.buffer, appBaseUrl);
+  if (outcomes.length === 0) {
+    res.redirect(`/admin?error=${encodeURIComponent('That file has no calendar reply in it.')}`);
+    return;
+  }
+  const summary = outcomes.map(o => o.summary).join(' ');
+  res.redirect(`/admin?${outcomes.some(o => o.applied) ? 'message' : 'error'}=${encodeURIComponent(summary)}`);
+});
+
+/**
+ * Record a bounce (delivery status notification) saved from the sender's mailbox as an .eml file
+ */
+router.post('/bounces', (req: Request, res: Response) => {
+  if (!req.file) {
+    res.redirect(`/admin?error=${encodeURIComponent('No file uploaded')}`);
+    return;
+  }
+
+  const outcomes = applyBounces(req.file.buffer);
+  if (outcomes.length === 0) {
+    res.redirect(`/admin?error=${encodeURIComponent("That file isn't a delivery status notification.")}`);
+    return;
+  }
+  const summary = outcomes.map(o => o.summary).join(' ');
+  res.redirect(`/admin?${outcomes.some(o => o.recorded) ? 'message' : 'error'}=${encodeURIComponent(summary)}`);
+});
+
 export default router;
@@ -7,79 +7,52 @@
 import { Router } from 'express';
 import type { Request, Response } from 'express';
 import addressparser from 'addressparser';
-import { getDatabase, upsertAttendee, type EventRecord } from '../database';
+import { upsertAttendee, type Invitee } from '../database';
+import {
+  deleteAttendee,
+  dismissFailedEmailJobs,
+  enqueueEmail,
+  getAttendeeById,
+  getContactsByIds,
+  getEmailQueueStats,
+  getEventAttendeeTags,
+  getEventById,
+  getInviteeByEmail,
+  getInviteeById,
+  listEventAttendees,
+  listPendingInvitees,
+  requeueFailedDeliveries,
+  retryFailedEmailJobs,
+  setAttendeeLateRsvpAllowed,
+  setAttendeeTags,
+  updateAttendeeDetails,
+  updateTagForAttendees,
+} from '../repository';
 import { sendInvitation } from '../notifications';
-import { deriveNameFromEmail, parseCsvTsvLine } from '../utils';
-import { uploadMemory } from '../multer-config';
+import { kickEmailQueue, registerGuestEmailHandler } from '../email-queue';
+import { deriveNameFromEmail, parseCCEmails, parseCsvTsvLine, parseTags } from '../utils';
+import { updateWaitlist } from '../waitlist';
 
 const router = Router();
 
-// ============================================================================
-// Helper interfaces
-// ============================================================================
-
-interface InviteeWithEventIdAndEmails { 
-  id: number; 
-  name: string; 
-  email: string;
-  token: string; 
-  event_id: number; 
-  additional_emails: string | null;
-}
-
 // ============================================================================
 // Helper functions
 // ============================================================================
 
 /**
- * Parse additional_emails JSON field and return CC email list
- * @param additionalEmailsJson JSON string from database
- * @param primaryEmail Primary email to exclude from CC list
- * @param attendeeId Attendee ID for error logging
- * @returns Array of CC email addresses
- */
-export function parseCCEmails(additionalEmailsJson: string | null, primaryEmail: string, attendeeId: number): string[] {
-  if (!additionalEmailsJson) return [];
-  
-  try {
-    const parsed = JSON.parse(additionalEmailsJson);
-    if (Array.isArray(parsed)) {
-      return parsed
-        .map(e => String(e).trim().toLowerCase())
-        .filter(e => e && e !== primaryEmail);
-    }
-  } catch (e) {
-    console.error(`Error parsing additional_emails for attendee ${attendeeId}:`, e);
-  }
-  
-  return [];
-}
-
-/**
- * Send invitation to an attendee and mark as sent
- * @param attendee Attendee record with email and token
- * @param event Event record
+ * Queue an attendee's invitation for the background sender
+ * @param attendee Attendee
  * @param appBaseUrl Base URL for RSVP links
- * @returns Promise that resolves when invitation is sent
+ * @returns Whether it was queued (false if their invitation is already waiting to be sent)
  */
-export async function sendAndMarkInvitation(
-  attendee: InviteeWithEventIdAndEmails,
-  event: EventRecord,
-  appBaseUrl: string
-): Promise<void> {
-  const db = getDatabase();
-  const primaryEmail = attendee.email?.trim().toLowerCase();
-  
-  if (!primaryEmail) {
-    throw new Error(`Primary email missing for attendee ID ${attendee.id}`);
-  }
-  
-  const ccEmails = parseCCEmails(attendee.additional_emails, primaryEmail, attendee.id);
-  
-  await sendInvitation(attendee.name, primaryEmail, ccEmails, attendee.token, event, appBaseUrl);
-  db.prepare('UPDATE attendees SET is_sent=1, last_modified=? WHERE id=?').run(Date.now(), attendee.id);
+function queueInvitation(attendee: Invitee, appBaseUrl: string): boolean {
+  return enqueueEmail('invitation', attendee.event_id, attendee.id, { appBaseUrl });
 }
 
+// Queued invitations are sent by the email queue worker
+registerGuestEmailHandler('invitation', (attendee, primaryEmail, ccEmails, event, { appBaseUrl }) =>
+  sendInvitation(attendee.name, primaryEmail, ccEmails, attendee.token, event, appBaseUrl, attendee.party_size ?? 1));
+
 // ============================================================================
 // Attendee CRUD Operations
 // ============================================================================
@@ -87,7 +60,7 @@ export async function sendAndMarkInvitation(
 /**
  * Add a single attendee
  */
-router.post('/attendee', async (req: Request, res: Response) => {
+router.post('/attendee', (req: Request, res: Response) => {
   const eventId = +req.body.event_id;
   const partySize = parseInt(req.body.party_size, 10);
   const primaryEmail = req.body.email;
@@ -102,25 +75,16 @@ router.post('/attendee', async (req: Request, res: Response) => {
       .filter(e => e && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(e));
   }
 
-  upsertAttendee(eventId, req.body.name, primaryEmail, isNaN(partySize) || partySize < 1 ? 1 : partySize, additionalEmailsList);
+  upsertAttendee(eventId, req.body.name, primaryEmail, isNaN(partySize) || partySize < 1 ? 1 : partySize, additionalEmailsList, parseTags(req.body.tags));
   
   // Send invitation if checkbox was checked
   if (sendInvite) {
-    const db = getDatabase();
-    const attendee = db.prepare('SELECT id, name, email, token, additional_emails FROM attendees WHERE event_id=? AND email=?')
-      .get(eventId, primaryEmail.trim().toLowerCase()) as InviteeWithEventIdAndEmails | undefined;
+    const attendee = getInviteeByEmail(eventId, primaryEmail);
     
     if (attendee) {
-      const event = db.prepare('SELECT * FROM events WHERE id = ?').get(eventId) as EventRecord | undefined;
-      if (event) {
-        try {
-          const appBaseUrl = req.app.locals.APP_BASE_URL || `http://localhost:${process.env.PORT || '3000'}`;
-          await sendAndMarkInvitation(attendee, event, appBaseUrl);
-        } catch (error) {
-          console.error(`Failed to send invitation for newly added attendee ${attendee.id}:`, error);
-          // Continue redirect even if send fails
-        }
-      }
+      const appBaseUrl = req.app.locals.APP_BASE_URL || `http://localhost:${process.env.PORT || '3000'}`;
+      queueInvitation(attendee, appBaseUrl);
+      kickEmailQueue();
     }
   }
   
@@ -148,6 +112,7 @@ router.post('/attendees/batch', (req: Request, res: Response) => {
 router.post('/event/:eventId/attendees/parse-emails', (req: Request, res: Response) => {
   const eventId = +req.params.eventId;
   const emailFieldData = req.body.email_field_data as string;
+  const tags = parseTags(req.body.tags);
 
   if (!emailFieldData) {
     return res.redirect(`/admin/${eventId}`);
@@ -158,7 +123,7 @@ router.post('/event/:eventId/attendees/parse-emails', (req: Request, res: Respon
     parsedAddresses.forEach(parsed => {
       if (parsed.address) {
         const name = deriveNameFromEmail(parsed);
-        upsertAttendee(eventId, name, parsed.address, 1, []); 
+        upsertAttendee(eventId, name, parsed.address, 1, [], tags);
       }
     });
   } catch (error) {
@@ -170,8 +135,9 @@ router.post('/event/:eventId/attendees/parse-emails', (req: Request, res: Respon
 
 /**
  * Upload and parse CSV/TSV file
+ * Rows get the tags from the form plus any #hashtag columns of their own.
  */
-router.post('/event/:eventId/attendees/upload-csv', uploadMemory.single('csv_file'), (req: Request, res: Response) => {
+router.post('/event/:eventId/attendees/upload-csv', (req: Request, res: Response) => {
   const eventId = +req.params.eventId;
   
   if (!req.file) {
@@ -181,11 +147,12 @@ router.post('/event/:eventId/attendees/upload-csv', uploadMemory.single('csv_fil
   try {
     const fileContent = req.file.buffer.toString('utf-8');
     const lines = fileContent.split(/\r?\n/);
+    const tags = parseTags(req.body.tags);
     
     lines.forEach(line => {
       const parsed = parseCsvTsvLine(line);
       if (parsed) {
-        upsertAttendee(eventId, parsed.name, parsed.email, parsed.party_size, []);
+        upsertAttendee(eventId, parsed.name, parsed.email, parsed.party_size, [], parseTags([...tags, ...(parsed.tags ?? [])]));
       }
     });
     
@@ -197,14 +164,35 @@ router.post('/event/:eventId/attendees/upload-csv', uploadMemory.single('csv_fil
 });
 
 /**
- * Copy attendees from one event to another
+ * Invite people picked from the contact directory, using their current details and the party size of their latest event
+ */
+router.post('/event/:eventId/attendees/from-contacts', (req: Request, res: Response) => {
+  const eventId = +req.params.eventId;
+  const contactIds = ([] as string[]).concat(req.body.contact_ids ?? []).map(Number).filter(id => !isNaN(id));
+  const tags = parseTags(req.body.tags);
+
+  if (!getEventById(eventId)) {
+    res.status(404).send('Event not found');
+    return;
+  }
+
+  getContactsByIds(contactIds).forEach(contact => {
+    upsertAttendee(eventId, contact.name, contact.email, contact.party_size, parseCCEmails(contact.additional_emails, contact.email, contact.id), tags);
+  });
+  res.redirect(`/admin/${eventId}`);
+});
+
+/**
+ * Copy attendees from one event to another, with their tags
+ * Optionally only those with a given tag (only_tag), and adding more tags (tags).
  */
 router.post('/attendees/copy', (req: Request, res: Response) => {
   const fromEventId = +req.body.from_event;
   const toEventId = +req.body.to_event;
-  const db = getDatabase();
-  const rows = db.prepare('SELECT name, email, party_size, additional_emails FROM attendees WHERE event_id=?')
-    .all(fromEventId) as {name: string, email: string, party_size: number, additional_emails: string | null}[];
+  const [onlyTag] = parseTags(req.body.only_tag);
+  const extraTags = parseTags(req.body.tags);
+  const sourceTags = getEventAttendeeTags(fromEventId);
+  const rows = listEventAttendees(fromEventId).filter(r => !onlyTag || sourceTags[r.id]?.includes(onlyTag));
   
   rows.forEach((r) => {
     let additionalEmailsList: string[] = [];
@@ -218,7 +206,7 @@ router.post('/attendees/copy', (req: Request, res: Response) => {
         console.error(`Error parsing additional_emails JSON for attendee ${r.email} from event ${fromEventId}:`, e);
       }
     }
-    upsertAttendee(toEventId, r.name, r.email, r.party_size, additionalEmailsList);
+    upsertAttendee(toEventId, r.name, r.email, r.party_size, additionalEmailsList, parseTags([...(sourceTags[r.id] ?? []), ...extraTags]));
   });
   res.redirect(`/admin/${toEventId}`);
 });
@@ -229,10 +217,7 @@ router.post('/attendees/copy', (req: Request, res: Response) => {
 router.post('/attendee/:attendeeId/update-party-size', (req: Request, res: Response) => {
   const attendeeId = +req.params.attendeeId;
   const newPartySize = parseInt(req.body.party_size, 10);
-  const db = getDatabase();
-
-  const attendeeInfo = db.prepare('SELECT event_id, rsvp FROM attendees WHERE id = ?')
-    .get(attendeeId) as { event_id: number; rsvp: string | null } | undefined;
+  const attendeeInfo = getAttendeeById(attendeeId);
 
   if (!attendeeInfo) {
     console.warn(`Attempt to update party size for non-existent attendee ID ${attendeeId}`);
@@ -251,33 +236,44 @@ router.post('/attendee/:attendeeId/update-party-size', (req: Request, res: Respo
     res.redirect(`/admin/${attendeeInfo.event_id}`);
     return ;
   }
-  
-  const existingAttendee = db.prepare('SELECT name, email FROM attendees WHERE id = ?').get(attendeeId) as { name: string, email: string } | undefined;
-  if (!existingAttendee) {
-    console.error(`Could not retrieve existing attendee data for ID ${attendeeId} during party size update.`);
-    res.status(500).send('Error updating party size.');
+
+  upsertAttendee(attendeeInfo.event_id, attendeeInfo.name, attendeeInfo.email, newPartySize, undefined);
+  res.redirect(`/admin/${attendeeInfo.event_id}`);
+});
+
+/**
+ * Let one guest answer after the RSVP deadline, or take that back
+ * Body: allowed ('1' to let them)
+ */
+router.post('/attendee/:attendeeId/late-rsvp', (req: Request, res: Response) => {
+  const attendeeId = +req.params.attendeeId;
+  const attendeeInfo = getAttendeeById(attendeeId);
+  if (!attendeeInfo) {
+    res.status(404).send('Attendee not found.');
     return;
   }
 
-  upsertAttendee(attendeeInfo.event_id, existingAttendee.name, existingAttendee.email, newPartySize, undefined);
-  res.redirect(`/admin/${attendeeInfo.event_id}`);
+  const allowed = req.body.allowed === '1';
+  setAttendeeLateRsvpAllowed(attendeeId, allowed);
+  const message = allowed
+    ? `${attendeeInfo.name} can change their answer although responses have closed.`
+    : `${attendeeInfo.name} can no longer answer after the deadline.`;
+  res.redirect(`/admin/${attendeeInfo.event_id}?message=${encodeURIComponent(message)}`);
 });
 
 /**
- * Update attendee name and emails
+ * Update attendee name, emails and tags
  */
 router.post('/attendee/:attendeeId/update-emails', (async (req: Request, res: Response) => {
   const attendeeId = +req.params.attendeeId;
   const { name: newNameRaw, primaryEmail: newPrimaryEmailRaw, additionalEmails: additionalEmailsRaw } = req.body;
-  const now = Date.now();
-  const db = getDatabase();
 
   const newName = (newNameRaw || '').toString().trim();
   const newPrimaryEmail = (newPrimaryEmailRaw || '').toString().trim().toLowerCase();
 
   let eventIdForRedirect: number | undefined;
   try {
-    const attendeeForEventId = db.prepare('SELECT event_id FROM attendees WHERE id = ?').get(attendeeId) as {event_id: number} | undefined;
+    const attendeeForEventId = getAttendeeById(attendeeId);
     if (!attendeeForEventId) {
       console.error(`Attendee with ID ${attendeeId} not found for redirect.`);
       return res.status(404).send('Attendee not found.');
@@ -300,50 +296,54 @@ router.post('/attendee/:attendeeId/update-emails', (async (req: Request, res: Re
     }
     const newAdditionalEmailsJson = newAdditionalEmailsList.length > 0 ? JSON.stringify([...new Set(newAdditionalEmailsList)]) : null;
 
-    const transaction = db.transaction(() => {
-      const attendee = db.prepare('SELECT event_id, email FROM attendees WHERE id = ?').get(attendeeId) as { event_id: number; email: string } | undefined;
-      if (!attendee) {
-        throw new Error('Attendee not found.');
-      }
-      eventIdForRedirect = attendee.event_id;
-
-      if (newPrimaryEmail !== attendee.email) {
-        const conflictingAttendee = db.prepare('SELECT id FROM attendees WHERE event_id = ? AND email = ? AND id != ?')
-          .get(attendee.event_id, newPrimaryEmail, attendeeId);
-        if (conflictingAttendee) {
-          throw new Error('This primary email is already in use by another attendee for this event.');
-        }
-      }
-
-      db.prepare('UPDATE attendees SET name = ?, email = ?, additional_emails = ?, last_modified = ? WHERE id = ?')
-        .run(newName, newPrimaryEmail, newAdditionalEmailsJson, now, attendeeId);
-      
-      return attendee.event_id;
-    });
-
-    const finalEventId = transaction();
+    const finalEventId = updateAttendeeDetails(attendeeId, newName, newPrimaryEmail, newAdditionalEmailsJson);
+    if (req.body.tags !== undefined) {
+      setAttendeeTags(attendeeId, parseTags(req.body.tags));
+    }
     res.redirect(`/admin/${finalEventId}`);
 
   } catch (error: any) {
     console.error('Error updating attendee details:', error.message);
     if (!eventIdForRedirect) {
-      const attendeeForEventIdOnError = db.prepare('SELECT event_id FROM attendees WHERE id = ?').get(attendeeId) as {event_id: number} | undefined;
-      eventIdForRedirect = attendeeForEventIdOnError?.event_id;
+      eventIdForRedirect = getAttendeeById(attendeeId)?.event_id;
     }
     res.redirect(`/admin/${eventIdForRedirect || ''}?error=${encodeURIComponent(error.message || 'Failed to update attendee details.')}`);
   }
 }) as any);
 
+/**
+ * Add or remove a tag on the selected attendees of an event
+ * Body: attendee_ids (repeated), tag, action ('add' or 'remove')
+ */
+router.post('/event/:eventId/attendees/tags', (req: Request, res: Response) => {
+  const eventId = +req.params.eventId;
+  const attendeeIds = ([] as string[]).concat(req.body.attendee_ids ?? []).map(Number).filter(id => !isNaN(id));
+  const [tag] = parseTags(req.body.tag);
+  const action = req.body.action === 'remove' ? 'remove' : 'add';
+
+  if (!tag) {
+    res.redirect(`/admin/${eventId}?error=${encodeURIComponent('Enter a tag to add or remove.')}`);
+    return;
+  }
+  if (attendeeIds.length === 0) {
+    res.redirect(`/admin/${eventId}?error=${encodeURIComponent('Select at least one attendee.')}`);
+    return;
+  }
+
+  const changed = updateTagForAttendees(eventId, attendeeIds, tag, action);
+  console.log(`${action === 'add' ? 'Added' : 'Removed'} tag "${tag}" ${action === 'add' ? 'to' : 'from'} ${changed} attendee(s) of event ${eventId}.`);
+  res.redirect(`/admin/${eventId}`);
+});
+
 /**
  * Delete an attendee
  */
 router.post('/attendee/:attendeeId/delete', async (req: Request, res: Response) => {
   const attendeeId = +req.params.attendeeId;
-  const db = getDatabase();
   let eventIdToRedirect: number | undefined;
 
   try {
-    const attendeeData = db.prepare('SELECT event_id FROM attendees WHERE id = ?').get(attendeeId) as { event_id: number } | undefined;
+    const attendeeData = getAttendeeById(attendeeId);
     
     if (!attendeeData) {
       console.warn(`Attempt to delete non-existent attendee ID ${attendeeId} or attendee already deleted.`);
@@ -351,10 +351,11 @@ router.post('/attendee/:attendeeId/delete', async (req: Request, res: Response)
     }
     eventIdToRedirect = attendeeData.event_id;
 
-    const result = db.prepare('DELETE FROM attendees WHERE id = ?').run(attendeeId);
-
-    if (result.changes > 0) {
+    if (deleteAttendee(attendeeId)) {
       console.log(`Attendee ${attendeeId} deleted successfully.`);
+      // Their place, if they had one, goes to the waitlist
+      const appBaseUrl = req.app.locals.APP_BASE_URL || `http://localhost:${process.env.PORT || '3000'}`;
+      updateWaitlist(eventIdToRedirect, appBaseUrl);
     } else {
       console.warn(`No attendee found with ID ${attendeeId} to delete during delete operation.`);
     }
@@ -372,46 +373,32 @@ router.post('/attendee/:attendeeId/delete', async (req: Request, res: Response)
 // ============================================================================
 
 /**
- * Send invitation to a single attendee
+ * Queue an invitation for one attendee (also used to resend one)
  */
-router.post('/attendees/send/:attendeeId', async (req: Request, res: Response) => {
+router.post('/attendees/send/:attendeeId', (req: Request, res: Response) => {
   const attendeeId = +req.params.attendeeId;
-  const db = getDatabase();
-  const a = db.prepare('SELECT id, name, email, token, event_id, additional_emails FROM attendees WHERE id=?')
-    .get(attendeeId) as InviteeWithEventIdAndEmails | undefined;
+  const a = getInviteeById(attendeeId);
   
   if (!a) {
     res.status(404).send('Attendee not found');
     return;
   }
 
-  const event = db.prepare('SELECT * FROM events WHERE id = ?').get(a.event_id) as EventRecord | undefined;
-  if (!event) {
-    console.error(`Event not found for attendee ID ${attendeeId} with event_id ${a.event_id}`);
-    res.status(404).send('Error: Associated event not found.');
-    return;
-  }
-
-  try {
-    const appBaseUrl = req.app.locals.APP_BASE_URL || `http://localhost:${process.env.PORT || '3000'}`;
-    await sendAndMarkInvitation(a, event, appBaseUrl);
-  } catch (error) {
-    const errorMessage = encodeURIComponent('Failed to send invitation. Check server logs.');
-    res.redirect(`/admin/${a.event_id}?error=${errorMessage}`);
-    return;
-  }
-  
-  res.redirect(`/admin/${a.event_id}`);
+  const appBaseUrl = req.app.locals.APP_BASE_URL || `http://localhost:${process.env.PORT || '3000'}`;
+  const message = queueInvitation(a, appBaseUrl)
+    ? `Sending an invitation to ${a.email}.`
+    : `An invitation to ${a.email} is already waiting to be sent.`;
+  kickEmailQueue();
+  res.redirect(`/admin/${a.event_id}?message=${encodeURIComponent(message)}`);
 });
 
 /**
- * Send all pending invitations for an event
+ * Queue all pending invitations for an event
+ * Body: tag (optional) to only send to attendees with that tag, e.g. one wave of a big event
  */
-router.post('/events/:eventId/send-invites', async (req: Request, res: Response) => {
+router.post('/events/:eventId/send-invites', (req: Request, res: Response) => {
   const eventId = +req.params.eventId;
-  const db = getDatabase();
-  const event = db.prepare('SELECT * FROM events WHERE id = ?').get(eventId) as EventRecord | undefined;
-  const now = Date.now();
+  const event = getEventById(eventId);
 
   if (!event) {
     console.error(`Event not found with ID ${eventId} when trying to send batch invites.`);
@@ -419,27 +406,62 @@ router.post('/events/:eventId/send-invites', async (req: Request, res: Response)
     return;
   }
 
-  const pending = db.prepare('SELECT id, name, email, token, additional_emails, event_id FROM attendees WHERE event_id=? AND is_sent=0')
-    .all(eventId) as InviteeWithEventIdAndEmails[];
-  
-  let overallSuccess = true;
-  const appBaseUrl = req.app.locals.APP_BASE_URL || `http://localhost:${process.env.PORT || '3000'}`;
-  
-  for (const a of pending) {
-    try {
-      await sendAndMarkInvitation(a, event, appBaseUrl);
-    } catch (sendError) {
-      overallSuccess = false;
-      console.error(`Failed to send batch invite for attendee ${a.id}. Continuing with others.`, sendError);
-    }
+  if (event.cancelled_at) {
+    res.redirect(`/admin/${eventId}?error=${encodeURIComponent('This event was cancelled, so no invitations were sent.')}`);
+    return;
   }
 
-  if (!overallSuccess) {
-    const errorMessage = encodeURIComponent('Some invitations could not be sent. Please check server logs for details.');
-    res.redirect(`/admin/${eventId}?error=${errorMessage}`);
-  } else {
-    res.redirect(`/admin/${eventId}`);
-  }
+  const [tag] = parseTags(req.body.tag);
+  const appBaseUrl = req.app.locals.APP_BASE_URL || `http://localhost:${process.env.PORT || '3000'}`;
+  const queued = listPendingInvitees(eventId, tag).filter(a => queueInvitation(a, appBaseUrl)).length;
+  kickEmailQueue();
+
+  const message = `Queued ${queued} invitation${queued === 1 ? '' : 's'}${tag ? ` for #${tag}` : ''}.`;
+  res.redirect(`/admin/${eventId}?message=${encodeURIComponent(message)}`);
+});
+
+// ============================================================================
+// Email Queue
+// ============================================================================
+
+/**
+ * Progress of an event's queued emails, polled by the event page
+ */
+router.get('/events/:eventId/email-queue', (req: Request, res: Response) => {
+  res.json(getEmailQueueStats(+req.params.eventId));
+});
+
+/**
+ * Try sending an event's failed emails again
+ * Body: job_id (optional) to retry just one
+ */
+router.post('/events/:eventId/email-queue/retry', (req: Request, res: Response) => {
+  const eventId = +req.params.eventId;
+  const retried = retryFailedEmailJobs(eventId, req.body.job_id ? +req.body.job_id : undefined);
+  kickEmailQueue();
+  res.redirect(`/admin/${eventId}?message=${encodeURIComponent(`Retrying ${retried} email${retried === 1 ? '' : 's'}.`)}`);
+});
+
+/**
+ * Queue emails again for guests whose most recent delivery failed
+ * Body: attendee_id (optional) to retry just one guest
+ */
+router.post('/events/:eventId/deliveries/retry', (req: Request, res: Response) => {
+  const eventId = +req.params.eventId;
+  const appBaseUrl = req.app.locals.APP_BASE_URL || `http://localhost:${process.env.PORT || '3000'}`;
+  const queued = requeueFailedDeliveries(eventId, { appBaseUrl }, req.body.attendee_id ? +req.body.attendee_id : undefined);
+  kickEmailQueue();
+  res.redirect(`/admin/${eventId}?message=${encodeURIComponent(`Queued ${queued} email${queued === 1 ? '' : 's'} again.`)}`);
+});
+
+/**
+ * Forget an event's failed emails
+ * Body: job_id (optional) to dismiss just one
+ */
+router.post('/events/:eventId/email-queue/dismiss', (req: Request, res: Response) => {
+  const eventId = +req.params.eventId;
+  dismissFailedEmailJobs(eventId, req.body.job_id ? +req.body.job_id : undefined);
+  res.redirect(`/admin/${eventId}`);
 });
 
 export default router;
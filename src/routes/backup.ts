@@ -0,0 +1,101 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+// src/routes/backup.ts
+// Admin routes for taking, downloading and restoring backups
+
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import {
+  BACKUP_DIR,
+  BACKUP_INTERVAL_MS,
+  BACKUP_RETENTION,
+  BackupError,
+  createBackup,
+  getBackupPath,
+  listBackups,
+  pruneBackups,
+  restoreBackup,
+} from '../backup';
+import * as path from 'path';
+
+const router = Router();
+
+// ============================================================================
+// Backup Page
+// ============================================================================
+
+/**
+ * List existing backups
+ */
+router.get('/backup', async (req: Request, res: Response) => {
+  res.render('backup', {
+    backups: await listBackups(),
+    backupDir: BACKUP_DIR,
+    intervalHours: BACKUP_INTERVAL_MS / (60 * 60 * 1000),
+    retention: BACKUP_RETENTION,
+    message: req.query.message,
+    error: req.query.error,
+    csrfToken: req.csrfToken(),
+  });
+});
+
+/**
+ * Download an existing backup
+ */
+router.get('/backup/files/:filename', (req: Request, res: Response) => {
+  let backupPath: string;
+  try {
+    backupPath = getBackupPath(req.params.filename);
+  } catch (error: any) {
+    res.status(400).send(error.message);
+    return;
+  }
+  res.download(path.resolve(backupPath), req.params.filename, (err) => {
+    if (err && !res.headersSent) {
+      res.status(404).send('Backup not found');
+    }
+  });
+});
+
+// ============================================================================
+// Backup Operations
+// ============================================================================
+
+/**
+ * Take a backup now (kept on the server)
+ */
+router.post('/backup', async (req: Request, res: Response) => {
+  const backup = await createBackup();
+  await pruneBackups();
+  res.redirect(`/admin/backup?message=${encodeURIComponent(`Created ${backup.filename}`)}`);
+});
+
+/**
+ * Take a backup now and download it (a POST, since it writes a backup and prunes old ones)
+ */
+router.post('/backup/download', async (req: Request, res: Response) => {
+  const backup = await createBackup();
+  await pruneBackups();
+  res.download(path.resolve(getBackupPath(backup.filename)), backup.filename);
+});
+
+/**
+ * Replace all data with the contents of an existing backup
+ */
+router.post('/backup/restore', async (req: Request, res: Response) => {
+  try {
+    const backupPath = getBackupPath(req.body.filename ?? '');
+    const result = await restoreBackup(backupPath);
+    const taken = new Date(result.manifest.created_at).toISOString();
+    res.redirect(`/admin/backup?message=${encodeURIComponent(`Restored the backup taken ${taken}`)}`);
+  } catch (error: any) {
+    if (!(error instanceof BackupError)) {
+      throw error;
+    }
+    console.error('Restore failed:', error.message);
+    res.redirect(`/admin/backup?error=${encodeURIComponent(error.message)}`);
+  }
+});
+
+export default router;
@@ -0,0 +1,93 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+// src/routes/contacts.ts
+// Contact directory routes (people shared across events)
+
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { getContactById, listContactEvents, listContacts, searchContacts, updateContact } from '../repository';
+import { normalizeAdditionalEmails, normalizeEmail } from '../utils';
+
+const router = Router();
+
+// ============================================================================
+// Contact Pages
+// ============================================================================
+
+/**
+ * List all contacts
+ */
+router.get('/contacts', (req: Request, res: Response) => {
+  res.render('contacts', { contacts: listContacts() });
+});
+
+/**
+ * Search contacts by name or email (used by the "add from contacts" picker)
+ * Query: q (search text), event_id (leave out people already invited to this event)
+ */
+router.get('/contacts/search', (req: Request, res: Response) => {
+  const query = typeof req.query.q === 'string' ? req.query.q : '';
+  const eventId = req.query.event_id ? +req.query.event_id : undefined;
+  res.json(searchContacts(query, eventId));
+});
+
+/**
+ * Show a contact with every event they were invited to
+ */
+router.get('/contacts/:contactId', (req: Request, res: Response) => {
+  const contactId = +req.params.contactId;
+  const contact = getContactById(contactId);
+
+  if (!contact) {
+    res.status(404).send('Contact not found');
+    return;
+  }
+
+  res.render('contact', {
+    contact,
+    events: listContactEvents(contactId),
+    error: req.query.error,
+    message: req.query.message,
+    csrfToken: req.csrfToken(),
+  });
+});
+
+// ============================================================================
+// Contact Updates
+// ============================================================================
+
+/**
+ * Update a contact's name and emails (also applied to their upcoming events)
+ */
+router.post('/contacts/:contactId/update', (req: Request, res: Response) => {
+  const contactId = +req.params.contactId;
+  const name = (req.body.name || '').toString().trim();
+  const primaryEmail = normalizeEmail((req.body.email || '').toString());
+  const redirectUrl = `/admin/contacts/${contactId}`;
+
+  if (!name) {
+    res.redirect(`${redirectUrl}?error=${encodeURIComponent('Name cannot be empty.')}`);
+    return;
+  }
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(primaryEmail)) {
+    res.redirect(`${redirectUrl}?error=${encodeURIComponent('Invalid or missing primary email format.')}`);
+    return;
+  }
+
+  const additionalEmails = normalizeAdditionalEmails(
+    (req.body.additional_emails || '').toString().split(/[\n\r,]+/).filter((e: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(e.trim())),
+    primaryEmail
+  );
+
+  try {
+    const updated = updateContact(contactId, name, primaryEmail, additionalEmails.length > 0 ? JSON.stringify(additionalEmails) : null);
+    const message = updated > 0 ? `Saved, and updated ${updated} upcoming invitation${updated === 1 ? '' : 's'}.` : 'Saved.';
+    res.redirect(`${redirectUrl}?message=${encodeURIComponent(message)}`);
+  } catch (error: any) {
+    console.error(`Error updating contact ${contactId}:`, error.message);
+    res.redirect(`${redirectUrl}?error=${encodeURIComponent(error.message)}`);
+  }
+});
+
+export default router;
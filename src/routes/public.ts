@@ -6,12 +6,40 @@
 
 import { Router } from 'express';
 import type { Request, Response } from 'express';
-import { getDatabase, type AttendeeView } from '../database';
-import { notifyAdmin } from '../notifications';
-import { formatICSDate, escapeICSText, isValidToken } from '../utils';
+import type { AttendeeView, PartyMemberInput, RsvpAnswers } from '../database';
+import {
+  getAttendeePartyMembers,
+  getAttendeeRsvpAnswers,
+  getAttendeeViewByToken,
+  getEventById,
+  listEventRsvpQuestions,
+  markAttendeeViewed,
+} from '../repository';
+import { buildGuestCalendar } from '../calendar';
+import { formatRsvpDeadline } from '../email-templates';
+import { responsesClosed, rsvpOptions, submitRsvp } from '../rsvp';
+import {
+  RsvpQuestionError,
+  parsePartyMembers,
+  parseRsvpAnswers,
+  questionOptions,
+  submittedAnswers,
+  submittedPartyMembers,
+} from '../rsvp-questions';
+import { isValidToken } from '../utils';
+import { largestPartyKeepingPlace } from '../waitlist';
 
 const router = Router();
 
+/**
+ * The RSVP deadline of a guest's event, as shown on their RSVP page
+ * @param attendee Attendee
+ * @returns The deadline in the event's timezone, or an empty string if there isn't one
+ */
+function rsvpDeadlineText(attendee: AttendeeView): string {
+  return formatRsvpDeadline({ rsvp_deadline: attendee.event_rsvp_deadline, timezone: attendee.event_timezone });
+}
+
 // ============================================================================
 // Landing Page
 // ============================================================================
@@ -33,28 +61,33 @@ router.get('/rsvp/:tok', (req: Request, res: Response) => {
     return;
   }
   
-  const db = getDatabase();
-  const attendee = db.prepare(
-    `SELECT a.*, 
-            e.title AS event_title, 
-            e.date as event_date, 
-            e.description as event_desc,
-            e.banner_image_filename AS event_banner_image_filename,
-            e.location_name AS event_location_name,
-            e.location_href AS event_location_href,
-            e.date_end AS event_date_end,
-            e.timezone AS event_timezone
-     FROM attendees a 
-     JOIN events e ON a.event_id=e.id 
-     WHERE a.token=?`
-  ).get(req.params.tok) as AttendeeView | undefined; 
+  const attendee = getAttendeeViewByToken(req.params.tok);
 
   if (!attendee) {
     res.status(404).send('Invalid link');
     return;
   }
+
+  // The event page links here with ?preview=1, so an admin checking a guest's page isn't counted as the guest opening it
+  if (req.query.preview !== '1') {
+    markAttendeeViewed(attendee.id);
+  }
+
+  if (attendee.event_cancelled_at) {
+    res.render('cancelled', { attendee });
+    return;
+  }
   
-  res.render('rsvp', { attendee, csrfToken: req.csrfToken() });
+  res.render('rsvp', {
+    attendee,
+    questions: listEventRsvpQuestions(attendee.event_id),
+    answers: getAttendeeRsvpAnswers(attendee.id),
+    members: getAttendeePartyMembers(attendee.id),
+    questionOptions,
+    deadline: rsvpDeadlineText(attendee),
+    closed: responsesClosed(attendee),
+    csrfToken: req.csrfToken(),
+  });
 });
 
 /**
@@ -67,43 +100,99 @@ router.post('/rsvp/:token', async (req: Request, res: Response) => {
   }
   
   const { rsvp, party_size: partySizeStr } = req.body;
-  const now = Date.now();
-  const db = getDatabase();
-  
-  const attendeeData = db.prepare(
-    `SELECT a.name, a.token, a.party_size AS original_party_size, 
-            e.title AS event_title 
-     FROM attendees a 
-     JOIN events e ON a.event_id=e.id 
-     WHERE a.token=?`
-  ).get(req.params.token) as { name: string; token: string; event_title: string; original_party_size: number; } | undefined;
+  const attendeeData = getAttendeeViewByToken(req.params.token);
 
   if (!attendeeData) {
     res.status(404).send('Invalid token or attendee not found.');
     return;
   }
 
-  let finalPartySize = attendeeData.original_party_size; 
+  if (attendeeData.event_cancelled_at) {
+    res.status(409).render('cancelled', { attendee: attendeeData });
+    return;
+  }
+
+  // The form is read-only after the deadline, but a page left open (or a replayed request) still ends up here
+  if (responsesClosed(attendeeData)) {
+    res.status(403).render('rsvp', {
+      attendee: attendeeData,
+      questions: listEventRsvpQuestions(attendeeData.event_id),
+      answers: getAttendeeRsvpAnswers(attendeeData.id),
+      members: getAttendeePartyMembers(attendeeData.id),
+      questionOptions,
+      deadline: rsvpDeadlineText(attendeeData),
+      closed: true,
+      error: 'Sorry, responses for this event have closed, so your answer was not changed.',
+      csrfToken: req.csrfToken(),
+    });
+    return;
+  }
+
+  if (!rsvpOptions(attendeeData.event_allow_maybe).includes(rsvp)) {
+    res.status(400).send('Invalid RSVP. Please go back and choose one of the answers offered.');
+    return;
+  }
+
+  let finalPartySize = attendeeData.party_size; 
 
-  if (rsvp === 'yes') {
+  if (rsvp !== 'no') {
     const parsedPartySize = parseInt(partySizeStr, 10);
     if (isNaN(parsedPartySize) || parsedPartySize < 1) {
-      res.status(400).send('Invalid party size for RSVP "yes". Please go back and enter a valid number.');
+      res.status(400).send(`Invalid party size for RSVP "${rsvp}". Please go back and enter a valid number.`);
       return;
     }
     finalPartySize = parsedPartySize;
   }
 
-  db.prepare('UPDATE attendees SET rsvp=?, party_size=?, responded_at=?, last_modified=? WHERE token=?')
-    .run(rsvp, finalPartySize, now, now, req.params.token);
-  
-  await notifyAdmin(attendeeData, rsvp, (rsvp === 'yes' ? finalPartySize : 0));
+  // Questions and names are checked here so a guest who missed one gets the form back with what they entered.
+  // A guest who declines keeps the names they gave before, in case they change their mind.
+  const questions = listEventRsvpQuestions(attendeeData.event_id);
+  let answers: RsvpAnswers = {};
+  let members: PartyMemberInput[] | undefined;
+  let formError: string | undefined;
+  try {
+    answers = parseRsvpAnswers(questions, req.body, rsvp);
+    members = rsvp === 'no' ? undefined : parsePartyMembers(questions, req.body, rsvp, finalPartySize);
+  } catch (error) {
+    if (!(error instanceof RsvpQuestionError)) throw error;
+    formError = error.message;
+  }
+
+  // A guest with a place at a full event can't grow their party into seats that aren't free
+  const largestParty = rsvp === 'yes' ? largestPartyKeepingPlace(attendeeData) : null;
+  if (!formError && largestParty !== null && finalPartySize > largestParty) {
+    formError = `Sorry, the event is full, so your group can be at most ${largestParty} ${largestParty === 1 ? 'person' : 'people'} `
+      + 'without losing your place. Please contact the host if more people need to come.';
+  }
+
+  if (formError) {
+    res.status(400).render('rsvp', {
+      attendee: { ...attendeeData, rsvp, party_size: finalPartySize },
+      questions,
+      answers: submittedAnswers(questions, req.body),
+      members: submittedPartyMembers(questions, req.body, finalPartySize),
+      questionOptions,
+      deadline: rsvpDeadlineText(attendeeData),
+      closed: false,
+      error: formError,
+      csrfToken: req.csrfToken(),
+    });
+    return;
+  }
+
+  const appBaseUrl = req.app.locals.APP_BASE_URL || `http://localhost:${process.env.PORT || '3000'}`;
+  const { confirmationQueued, waitlisted } = await submitRsvp(attendeeData, rsvp, finalPartySize, {
+    userAgent: req.get('user-agent') ?? null,
+    ip: req.ip ?? null,
+  }, appBaseUrl, answers, members);
   
   res.render('thanks', { 
     rsvp, 
-    party_size: (rsvp === 'yes' ? finalPartySize : 0),
+    party_size: (rsvp === 'no' ? 0 : finalPartySize),
+    waitlisted,
     token: req.params.token,
     event_title: attendeeData.event_title,
+    confirmation_email: confirmationQueued ? attendeeData.email : null,
   });
 });
 
@@ -120,89 +209,20 @@ router.get('/ics/:token', async (req: Request, res: Response) => {
     return;
   }
 
-  const db = getDatabase();
-  const eventDataForICS = db.prepare(
-    `SELECT e.id AS event_id,
-            e.title AS event_title, 
-            e.date AS event_date, 
-            e.description AS event_desc,
-            e.location_name AS event_location_name,
-            e.location_href AS event_location_href,
-            e.date_end AS event_date_end
-     FROM attendees a 
-     JOIN events e ON a.event_id=e.id 
-     WHERE a.token=?`
-  ).get(req.params.token) as { 
-    event_id: number;
-    event_title: string; 
-    event_date: number; 
-    event_desc: string | null; 
-    event_location_name: string | null;
-    event_location_href: string | null;
-    event_date_end: number | null;
-  } | undefined;
+  const eventDataForICS = getAttendeeViewByToken(req.params.token);
 
   if (!eventDataForICS) {
     res.status(404).send('Event details not found for this token.');
     return;
   }
 
-  const { 
-    event_id,
-    event_title, 
-    event_date, 
-    event_desc, 
-    event_location_name, 
-    event_location_href,
-    event_date_end 
-  } = eventDataForICS;
-
-  const now = Date.now();
-  const dtstamp = formatICSDate(now);
-  const dtstart = formatICSDate(event_date);
-  
-  // Extract domain from APP_BASE_URL for UID
+  const event = getEventById(eventDataForICS.event_id)!;
   const appBaseUrl = req.app.locals.APP_BASE_URL || `http://localhost:${process.env.PORT || '3000'}`;
-  const domain = appBaseUrl.replace(/^https?:\/\//, '').split('/')[0];
-  const rsvpLink = `${appBaseUrl}/rsvp/${req.params.token}`;
-
-  let icsContent = [
-    'BEGIN:VCALENDAR',
-    'VERSION:2.0',
-    `PRODID:-//${domain}//NONSGML Event Calendar//EN`,
-    'BEGIN:VEVENT',
-    `UID:event-${event_id}@${domain}`,
-    `DTSTAMP:${dtstamp}`,
-    `DTSTART:${dtstart}`,
-  ];
-
-  if (event_date_end) {
-    icsContent.push(`DTEND:${formatICSDate(event_date_end)}`);
-  }
-
-  icsContent.push(`SUMMARY:${escapeICSText(event_title)}`);
-
-  if (event_location_href) {
-    icsContent.push(`URL:${escapeICSText(event_location_href)}`);
-  }
-  
-  let descriptionForICS = event_desc || '';
-  descriptionForICS += `\n\nManage your RSVP or view event details: ${rsvpLink}`;
-  icsContent.push(`DESCRIPTION:${escapeICSText(descriptionForICS, true)}`);
+  const calendar = buildGuestCalendar(event, req.params.token, appBaseUrl);
 
-  if (event_location_name) {
-    icsContent.push(`LOCATION:${escapeICSText(event_location_name)}`);
-  }
-  
-  icsContent.push('END:VEVENT');
-  icsContent.push('END:VCALENDAR');
-  icsContent.push(''); 
-
-  const filenameSafeTitle = (event_title || 'event').replace(/[^a-z0-9_.-]/gi, '_').substring(0, 50);
-  
   res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
-  res.setHeader('Content-Disposition', `attachment; filename="${filenameSafeTitle}.ics"`);
-  res.send(icsContent.join('\r\n'));
+  res.setHeader('Content-Disposition', `attachment; filename="${calendar.filename}"`);
+  res.send(calendar.content);
 });
 
 export default router;
@@ -0,0 +1,47 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+// src/routes/questions.ts
+// Admin routes for the custom questions on an event's RSVP form
+
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { deleteRsvpQuestion, getEventById } from '../repository';
+import { RsvpQuestionError, addRsvpQuestion } from '../rsvp-questions';
+
+const router = Router();
+
+// ============================================================================
+// RSVP Questions
+// ============================================================================
+
+/**
+ * Add a question to the end of the RSVP form
+ * Body: label, type, options (one per line), required, attending_only
+ */
+router.post('/events/:eventId/questions', (req: Request, res: Response) => {
+  const eventId = +req.params.eventId;
+  if (!getEventById(eventId)) {
+    res.status(404).send('Event not found');
+    return;
+  }
+
+  try {
+    addRsvpQuestion(eventId, req.body);
+  } catch (error) {
+    if (!(error instanceof RsvpQuestionError)) throw error;
+    return res.redirect(`/admin/${eventId}?error=${encodeURIComponent(error.message)}`);
+  }
+  res.redirect(`/admin/${eventId}?message=${encodeURIComponent('Question added.')}`);
+});
+
+/**
+ * Delete a question and every answer to it
+ */
+router.post('/events/:eventId/questions/:questionId/delete', (req: Request, res: Response) => {
+  const eventId = +req.params.eventId;
+  deleteRsvpQuestion(eventId, +req.params.questionId);
+  res.redirect(`/admin/${eventId}?message=${encodeURIComponent('Question deleted.')}`);
+});
+
+export default router;
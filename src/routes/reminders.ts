@@ -0,0 +1,48 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+// src/routes/reminders.ts
+// Admin routes for an event's reminder rules
+
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { deleteReminderRule, getEventById } from '../repository';
+import { ReminderError, addReminderRule, queueDueReminders } from '../reminders';
+
+const router = Router();
+
+// ============================================================================
+// Reminder Rules
+// ============================================================================
+
+/**
+ * Add a reminder rule; reminders already due are queued right away
+ * Body: days_before, audience
+ */
+router.post('/events/:eventId/reminders', (req: Request, res: Response) => {
+  const eventId = +req.params.eventId;
+  if (!getEventById(eventId)) {
+    res.status(404).send('Event not found');
+    return;
+  }
+
+  try {
+    addReminderRule(eventId, req.body.days_before, req.body.audience);
+  } catch (error) {
+    if (!(error instanceof ReminderError)) throw error;
+    return res.redirect(`/admin/${eventId}?error=${encodeURIComponent(error.message)}`);
+  }
+  queueDueReminders(req.app.locals.APP_BASE_URL || `http://localhost:${process.env.PORT || '3000'}`);
+  res.redirect(`/admin/${eventId}?message=${encodeURIComponent('Reminder added.')}`);
+});
+
+/**
+ * Delete a reminder rule (reminders it already queued still go out)
+ */
+router.post('/events/:eventId/reminders/:ruleId/delete', (req: Request, res: Response) => {
+  const eventId = +req.params.eventId;
+  deleteReminderRule(eventId, +req.params.ruleId);
+  res.redirect(`/admin/${eventId}?message=${encodeURIComponent('Reminder deleted.')}`);
+});
+
+export default router;
@@ -0,0 +1,296 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+// src/routes/series.ts
+// Recurring event series routes (schedule, exceptions and shared guest list)
+
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { fromZonedTime, formatInTimeZone } from 'date-fns-tz';
+import { ensureContact, type SeriesInput } from '../database';
+import { describeSeriesChanges, queueEventUpdates } from '../event-updates';
+import {
+  addSeriesExdate,
+  addSeriesMember,
+  createSeries,
+  getSeriesById,
+  listSeriesMembers,
+  listSeriesOccurrences,
+  removeSeriesExdate,
+  removeSeriesMember,
+  setEventDeleteRequested,
+  updateSeries,
+} from '../repository';
+import {
+  SeriesError,
+  createUpcomingOccurrences,
+  describeRecurrence,
+  expandOccurrences,
+  firstOccurrence,
+  normalizeRecurrenceRule,
+  recurrenceRuleFromForm,
+} from '../series';
+import { getTimezones, normalizeAdditionalEmails, normalizeEmail } from '../utils';
+
+const router = Router();
+
+// How many scheduled dates the series page lists
+const SCHEDULE_PREVIEW_COUNT = 12;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Helper functions
+// ============================================================================
+
+/**
+ * Convert the fields of the create/edit series forms into a SeriesInput
+ * The first date is moved forward to the first date the rule produces.
+ *
+ * @throws SeriesError if the schedule is invalid
+ */
+function parseSeriesForm(body: Record<string, any>): SeriesInput {
+  const { title, date, date_end, description, location_name, location_href } = body;
+  const timezone = body.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+  if (!title || !date) {
+    throw new SeriesError('A series needs a title and a first date.');
+  }
+
+  const rrule = body.rrule?.trim() ? normalizeRecurrenceRule(body.rrule) : recurrenceRuleFromForm(body, timezone);
+  const requestedStart = fromZonedTime(date, timezone).getTime();
+  const dtstart = firstOccurrence(rrule, requestedStart, timezone);
+  const duration = date_end ? fromZonedTime(date_end, timezone).getTime() - requestedStart : null;
+  const horizonDays = parseInt(body.horizon_days, 10);
+
+  return {
+    title,
+    description: description || null,
+    location_name: location_name || null,
+    location_href: location_href || null,
+    timezone,
+    dtstart,
+    duration_ms: duration && duration > 0 ? duration : null,
+    rrule,
+    horizon_days: horizonDays >= 1 && horizonDays <= 366 ? horizonDays : 60,
+  };
+}
+
+/** The edit series form fields, for carrying an edit through the confirmation step */
+function seriesFormFields(body: Record<string, string>): Record<string, string> {
+  const fields = ['title', 'date', 'date_end', 'timezone', 'rrule', 'horizon_days', 'location_name', 'location_href', 'description'];
+  return Object.fromEntries(fields.map(field => [field, body[field] ?? '']));
+}
+
+// ============================================================================
+// Series Pages
+// ============================================================================
+
+/**
+ * Show a series: schedule, exceptions, guest list and occurrences
+ */
+router.get('/series/:seriesId', (req: Request, res: Response) => {
+  const seriesId = +req.params.seriesId;
+  const series = getSeriesById(seriesId);
+
+  if (!series) {
+    res.status(404).send('Series not found');
+    return;
+  }
+
+  const now = Date.now();
+  const occurrences = listSeriesOccurrences(seriesId);
+  const byStart = new Map(occurrences.map(e => [e.occurrence_start, e]));
+  const schedule = expandOccurrences({ ...series, exdates: '[]' }, now, now + 5 * 366 * DAY_MS)
+    .slice(0, SCHEDULE_PREVIEW_COUNT)
+    .map(start => ({ start, event: byStart.get(start) }));
+
+  res.render('series', {
+    series,
+    recurrenceText: describeRecurrence(series.rrule),
+    exdates: new Set(JSON.parse(series.exdates) as number[]),
+    schedule,
+    pastOccurrences: occurrences.filter(e => e.date < now).reverse(),
+    members: listSeriesMembers(seriesId),
+    localDate: (timestamp: number) => formatInTimeZone(timestamp, series.timezone, "yyyy-MM-dd'T'HH:mm"),
+    displayDate: (timestamp: number) => formatInTimeZone(timestamp, series.timezone, 'EEE d MMM yyyy, HH:mm'),
+    error: req.query.error,
+    message: req.query.message,
+    csrfToken: req.csrfToken(),
+    timezones: getTimezones(),
+  });
+});
+
+// ============================================================================
+// Series CRUD Operations
+// ============================================================================
+
+/**
+ * Create a series and its first occurrences
+ */
+router.post('/series', (req: Request, res: Response) => {
+  let input: SeriesInput;
+  try {
+    input = parseSeriesForm(req.body);
+  } catch (error: any) {
+    if (!(error instanceof SeriesError)) throw error;
+    res.redirect(`/admin?error=${encodeURIComponent(error.message)}`);
+    return;
+  }
+
+  const seriesId = createSeries(input);
+  createUpcomingOccurrences(seriesId);
+  res.redirect(`/admin/series/${seriesId}`);
+});
+
+/**
+ * Update a series' details and schedule
+ * When that moves or relocates upcoming occurrences whose guests were already invited, the admin first
+ * sees what changed and chooses whether to email the guests (body: notify = '1' or '0').
+ */
+router.post('/series/:seriesId/update', (req: Request, res: Response) => {
+  const seriesId = +req.params.seriesId;
+  const redirectUrl = `/admin/series/${seriesId}`;
+  const series = getSeriesById(seriesId);
+
+  if (!series) {
+    res.status(404).send('Series not found');
+    return;
+  }
+
+  let input: SeriesInput;
+  try {
+    input = parseSeriesForm(req.body);
+  } catch (error: any) {
+    if (!(error instanceof SeriesError)) throw error;
+    res.redirect(`${redirectUrl}?error=${encodeURIComponent(error.message)}`);
+    return;
+  }
+
+  const now = Date.now();
+  const changed = describeSeriesChanges(seriesId, input, now);
+
+  if (changed.length > 0 && req.body.notify === undefined) {
+    res.render('series-update', {
+      series,
+      changed,
+      invitedCount: changed.reduce((total, occurrence) => total + occurrence.invitedCount, 0),
+      displayDate: (timestamp: number) => formatInTimeZone(timestamp, series.timezone, 'EEE d MMM yyyy, HH:mm'),
+      form: seriesFormFields(req.body),
+      csrfToken: req.csrfToken(),
+    });
+    return;
+  }
+
+  const updated = updateSeries(seriesId, input, now)!;
+  createUpcomingOccurrences(seriesId);
+  let message = updated > 0 ? `Saved, and updated ${updated} upcoming occurrence${updated === 1 ? '' : 's'}.` : 'Saved.';
+
+  if (req.body.notify === '1' && changed.length > 0) {
+    const appBaseUrl = req.app.locals.APP_BASE_URL || `http://localhost:${process.env.PORT || '3000'}`;
+    const queued = changed.reduce((total, { event }) => total + queueEventUpdates(event.id, event, appBaseUrl), 0);
+    message += ` Emailing the changes to ${queued} guest${queued === 1 ? '' : 's'}.`;
+  }
+  res.redirect(`${redirectUrl}?message=${encodeURIComponent(message)}`);
+});
+
+/**
+ * Create any occurrences within the horizon that do not exist yet (also runs hourly)
+ */
+router.post('/series/:seriesId/create-occurrences', (req: Request, res: Response) => {
+  const seriesId = +req.params.seriesId;
+  const created = createUpcomingOccurrences(seriesId);
+  res.redirect(`/admin/series/${seriesId}?message=${encodeURIComponent(`Created ${created.length} occurrence${created.length === 1 ? '' : 's'}.`)}`);
+});
+
+// ============================================================================
+// Exceptions
+// ============================================================================
+
+/**
+ * Skip one date of a series (its event, if already created, is scheduled for deletion)
+ */
+router.post('/series/:seriesId/skip', (req: Request, res: Response) => {
+  const seriesId = +req.params.seriesId;
+  const start = +req.body.start;
+
+  if (!getSeriesById(seriesId) || isNaN(start)) {
+    res.status(404).send('Series not found');
+    return;
+  }
+
+  addSeriesExdate(seriesId, start);
+  const event = listSeriesOccurrences(seriesId).find(e => e.occurrence_start === start);
+  if (event) {
+    setEventDeleteRequested(event.id, true);
+  }
+  res.redirect(`/admin/series/${seriesId}`);
+});
+
+/**
+ * Stop skipping a date of a series
+ */
+router.post('/series/:seriesId/restore', (req: Request, res: Response) => {
+  const seriesId = +req.params.seriesId;
+  const start = +req.body.start;
+
+  if (!getSeriesById(seriesId) || isNaN(start)) {
+    res.status(404).send('Series not found');
+    return;
+  }
+
+  removeSeriesExdate(seriesId, start);
+  const event = listSeriesOccurrences(seriesId).find(e => e.occurrence_start === start);
+  if (event) {
+    setEventDeleteRequested(event.id, false);
+  }
+  createUpcomingOccurrences(seriesId);
+  res.redirect(`/admin/series/${seriesId}`);
+});
+
+// ============================================================================
+// Guest List
+// ============================================================================
+
+/**
+ * Add someone to the series' guest list (and to its upcoming occurrences)
+ */
+router.post('/series/:seriesId/members', (req: Request, res: Response) => {
+  const seriesId = +req.params.seriesId;
+  const redirectUrl = `/admin/series/${seriesId}`;
+  const email = normalizeEmail((req.body.email || '').toString());
+  const name = (req.body.name || '').toString().trim();
+  const partySize = parseInt(req.body.party_size, 10);
+
+  if (!getSeriesById(seriesId)) {
+    res.status(404).send('Series not found');
+    return;
+  }
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    res.redirect(`${redirectUrl}?error=${encodeURIComponent('Invalid or missing primary email format.')}`);
+    return;
+  }
+
+  const additionalEmails = normalizeAdditionalEmails(
+    (req.body.additional_emails || '').toString().split(/[\n\r,]+/).filter((e: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(e.trim())),
+    email
+  );
+  const contactId = ensureContact(name || email, email, additionalEmails.length > 0 ? JSON.stringify(additionalEmails) : null);
+  addSeriesMember(seriesId, contactId, isNaN(partySize) || partySize < 1 ? 1 : partySize);
+  res.redirect(redirectUrl);
+});
+
+/**
+ * Take someone off the series' guest list (and out of the upcoming occurrences they have not replied to)
+ */
+router.post('/series/:seriesId/members/:contactId/remove', (req: Request, res: Response) => {
+  const seriesId = +req.params.seriesId;
+  const { removed, kept } = removeSeriesMember(seriesId, +req.params.contactId);
+  console.log(`Removed contact ${req.params.contactId} from series ${seriesId} and ${removed} upcoming occurrence(s).`);
+  if (kept === 0) {
+    res.redirect(`/admin/series/${seriesId}`);
+    return;
+  }
+  const message = `Removed from the series. Kept on ${kept} upcoming date${kept === 1 ? '' : 's'} they already replied to; remove them there if needed.`;
+  res.redirect(`/admin/series/${seriesId}?message=${encodeURIComponent(message)}`);
+});
+
+export default router;
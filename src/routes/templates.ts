@@ -0,0 +1,218 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+// src/routes/templates.ts
+// Admin routes for editing and previewing email templates
+
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import type { EventRecord } from '../database';
+import {
+  EmailTemplateError,
+  isEmailTemplateKind,
+  renderGuestEmail,
+  resolveEmailTemplate,
+  TEMPLATE_DEFINITIONS,
+  validateEmailTemplate,
+} from '../email-templates';
+import type { EmailTemplate, EmailTemplateKind, TemplateGuest } from '../email-templates';
+import { deleteEmailTemplate, getAttendeeById, getEventById, listEventAttendees, saveEmailTemplate } from '../repository';
+
+const router = Router();
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+// Stand-ins for previewing the instance default, which belongs to no event
+const SAMPLE_GUEST: TemplateGuest = {
+  name: 'Alex Example',
+  token: 'sample-token',
+  party_size: 2,
+  rsvp: 'yes',
+  changes: [{ label: 'Where', before: 'The old place', after: 'The new place' }],
+};
+
+function sampleEvent(): EventRecord {
+  const date = new Date();
+  date.setDate(date.getDate() + 14);
+  date.setHours(19, 0, 0, 0);
+  return {
+    id: 0,
+    title: 'Sample Party',
+    description: 'Bring a friend and something to share.',
+    date: date.getTime(),
+    date_end: date.getTime() + 3 * 60 * 60 * 1000,
+    location_name: 'The Community Hall',
+    location_href: null,
+    timezone: null,
+    cancellation_reason: 'The hall is closed for repairs. We hope to find a new date soon.',
+  };
+}
+
+function appBaseUrl(req: Request): string {
+  return req.app.locals.APP_BASE_URL || `http://localhost:${process.env.PORT || '3000'}`;
+}
+
+/** The kind of template a request is about (query or body `kind`, default invitation) */
+function templateKind(req: Request): EmailTemplateKind {
+  const kind = req.body?.kind ?? req.query.kind;
+  return isEmailTemplateKind(kind) ? kind : 'invitation';
+}
+
+/** Where the editor for a kind of template lives */
+function editorPath(kind: EmailTemplateKind, eventId: number | null): string {
+  return `${eventId !== null ? `/admin/events/${eventId}/template` : '/admin/templates'}?kind=${kind}`;
+}
+
+function templateFromBody(req: Request): EmailTemplate {
+  return {
+    subject: typeof req.body.subject === 'string' ? req.body.subject : '',
+    body: typeof req.body.body === 'string' ? req.body.body.replace(/\r\n/g, '\n') : '',
+  };
+}
+
+/**
+ * Render the template editor for an event, or for the instance default when event is null
+ * @param draft Unsaved template to show instead of the stored one (after a validation error)
+ */
+function renderEditor(req: Request, res: Response, event: EventRecord | null, draft?: EmailTemplate, error?: string): void {
+  const kind = templateKind(req);
+  const { template, source } = resolveEmailTemplate(kind, event ? event.id : null);
+  res.status(error ? 400 : 200).render('email-template', {
+    event,
+    attendees: event ? listEventAttendees(event.id) : [],
+    kind,
+    kinds: TEMPLATE_DEFINITIONS,
+    template: draft ?? template,
+    source,
+    definition: TEMPLATE_DEFINITIONS[kind],
+    message: req.query.message,
+    error: error ?? req.query.error,
+    csrfToken: req.csrfToken(),
+  });
+}
+
+// ============================================================================
+// Instance Default
+// ============================================================================
+
+/**
+ * Edit the template used by events without their own
+ * Query: kind (default invitation)
+ */
+router.get('/templates', (req: Request, res: Response) => {
+  renderEditor(req, res, null);
+});
+
+/**
+ * Save an instance default template
+ * Body: kind, subject, body
+ */
+router.post('/templates', (req: Request, res: Response) => {
+  const kind = templateKind(req);
+  const template = templateFromBody(req);
+  try {
+    validateEmailTemplate(kind, template);
+  } catch (error) {
+    if (!(error instanceof EmailTemplateError)) throw error;
+    return renderEditor(req, res, null, template, error.message);
+  }
+  saveEmailTemplate(kind, null, template.subject, template.body);
+  res.redirect(`${editorPath(kind, null)}&message=${encodeURIComponent('Saved the default template.')}`);
+});
+
+/**
+ * Go back to a built-in template
+ * Body: kind
+ */
+router.post('/templates/reset', (req: Request, res: Response) => {
+  const kind = templateKind(req);
+  deleteEmailTemplate(kind, null);
+  res.redirect(`${editorPath(kind, null)}&message=${encodeURIComponent('Reset the default template to the built-in one.')}`);
+});
+
+/**
+ * Render a draft template for the live preview
+ * Body: kind, subject, body, event_id (optional), attendee_id (optional)
+ * Returns: {subject, html, text}, or {error} with status 400
+ */
+router.post('/templates/preview', (req: Request, res: Response) => {
+  const kind = templateKind(req);
+  const template = templateFromBody(req);
+  const event = req.body.event_id ? getEventById(+req.body.event_id) : undefined;
+  if (req.body.event_id && !event) {
+    res.status(404).json({ error: 'Event not found.' });
+    return;
+  }
+
+  let guest = SAMPLE_GUEST;
+  if (event && req.body.attendee_id) {
+    const attendee = getAttendeeById(+req.body.attendee_id);
+    if (!attendee || attendee.event_id !== event.id) {
+      res.status(404).json({ error: 'Attendee not found.' });
+      return;
+    }
+    guest = { ...attendee, changes: SAMPLE_GUEST.changes };
+  }
+
+  try {
+    validateEmailTemplate(kind, template);
+    res.json(renderGuestEmail(kind, event ?? sampleEvent(), guest, appBaseUrl(req), template));
+  } catch (error) {
+    if (!(error instanceof EmailTemplateError)) throw error;
+    res.status(400).json({ error: error.message });
+  }
+});
+
+// ============================================================================
+// Per-Event Templates
+// ============================================================================
+
+/**
+ * Edit an event's own template
+ * Query: kind (default invitation)
+ */
+router.get('/events/:eventId/template', (req: Request, res: Response) => {
+  const event = getEventById(+req.params.eventId);
+  if (!event) {
+    res.status(404).send('Event not found');
+    return;
+  }
+  renderEditor(req, res, event);
+});
+
+/**
+ * Save an event's own template
+ * Body: kind, subject, body
+ */
+router.post('/events/:eventId/template', (req: Request, res: Response) => {
+  const event = getEventById(+req.params.eventId);
+  if (!event) {
+    res.status(404).send('Event not found');
+    return;
+  }
+  const kind = templateKind(req);
+  const template = templateFromBody(req);
+  try {
+    validateEmailTemplate(kind, template);
+  } catch (error) {
+    if (!(error instanceof EmailTemplateError)) throw error;
+    return renderEditor(req, res, event, template, error.message);
+  }
+  saveEmailTemplate(kind, event.id, template.subject, template.body);
+  res.redirect(`${editorPath(kind, event.id)}&message=${encodeURIComponent('Saved the template for this event.')}`);
+});
+
+/**
+ * Drop an event's own template so it uses the instance default again
+ * Body: kind
+ */
+router.post('/events/:eventId/template/reset', (req: Request, res: Response) => {
+  const eventId = +req.params.eventId;
+  const kind = templateKind(req);
+  deleteEmailTemplate(kind, eventId);
+  res.redirect(`${editorPath(kind, eventId)}&message=${encodeURIComponent('This event now uses the default template.')}`);
+});
+
+export default router;
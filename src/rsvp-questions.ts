@@ -0,0 +1,389 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+// src/rsvp-questions.ts
+// Custom questions on an event's RSVP form and the people in each guest's party:
+// defining questions, checking guests' answers and names, and tallying them
+
+import type { PartyMember, PartyMemberInput, RsvpAnswer, RsvpAnswers, RsvpQuestion, RsvpQuestionType } from './database';
+import { createRsvpQuestion } from './repository';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const MAX_LABEL_LENGTH = 200;
+const MAX_OPTIONS = 30;
+const MAX_TEXT_LENGTH = 200;
+const MAX_LONG_TEXT_LENGTH = 4000;
+const MAX_MEMBER_NAME_LENGTH = 100;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export class RsvpQuestionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RsvpQuestionError';
+  }
+}
+
+/** How each type of question is described in the admin */
+export const RSVP_QUESTION_TYPES: Record<RsvpQuestionType, { label: string }> = {
+  text: { label: 'Short text' },
+  long_text: { label: 'Long text' },
+  single_choice: { label: 'One choice' },
+  multi_choice: { label: 'Several choices' },
+  number: { label: 'Number' },
+};
+
+/** What the guests who were asked a question answered, for the event page */
+export interface AnswerTally {
+  question: RsvpQuestion;
+  answered: number; // Guests (people, for per-person questions) who answered
+  asked: number; // Guests the question applies to: everyone who replied, or only those who said yes
+  summary: string; // e.g. "12 vegetarian, 3 vegan" or "14 in total"; empty for text questions
+}
+
+/** One person coming to an event, for the headcount roster */
+export interface RosterEntry {
+  attendee: { id: number; name: string; party_size: number };
+  position: number; // 1 = the guest, 2 and up = the people they bring
+  name: string | null; // null = the guest didn't name this person
+  answers: RsvpAnswers; // Answers to the per-person questions
+}
+
+// ============================================================================
+// Questions
+// ============================================================================
+
+/** The choices of a choice question */
+export function questionOptions(question: Pick<RsvpQuestion, 'options'>): string[] {
+  return JSON.parse(question.options);
+}
+
+function isChoiceType(type: RsvpQuestionType): boolean {
+  return type === 'single_choice' || type === 'multi_choice';
+}
+
+/**
+ * Add a question to an event's RSVP form, from the admin form
+ * @param eventId Event ID
+ * @param body Submitted form: label, type, options (one per line), required, attending_only
+ * @returns New question ID
+ * @throws RsvpQuestionError if the input is invalid
+ */
+export function addRsvpQuestion(eventId: number, body: Record<string, unknown>): number {
+  const label = String(body.label ?? '').trim();
+  if (!label || label.length > MAX_LABEL_LENGTH) {
+    throw new RsvpQuestionError(`A question needs a label of at most ${MAX_LABEL_LENGTH} characters.`);
+  }
+  const type = String(body.type ?? '');
+  if (!Object.prototype.hasOwnProperty.call(RSVP_QUESTION_TYPES, type)) {
+    throw new RsvpQuestionError('Choose what kind of answer the question takes.');
+  }
+
+  let options: string[] = [];
+  if (isChoiceType(type as RsvpQuestionType)) {
+    options = [...new Set(String(body.options ?? '').split(/\r?\n/).map(option => option.trim()).filter(Boolean))];
+    if (options.length < 2 || options.length > MAX_OPTIONS) {
+      throw new RsvpQuestionError(`Give between 2 and ${MAX_OPTIONS} choices, one per line.`);
+    }
+  }
+
+  return createRsvpQuestion(eventId, {
+    type: type as RsvpQuestionType,
+    label,
+    options,
+    required: body.required === '1',
+    attendingOnly: body.attending_only === '1',
+    perPerson: body.per_person === '1',
+  });
+}
+
+/** Whether a question is asked of a guest with this response */
+export function isAsked(question: RsvpQuestion, rsvp: string | null): boolean {
+  return !question.attending_only || rsvp === 'yes';
+}
+
+// ============================================================================
+// Answers
+// ============================================================================
+
+/**
+ * Check the values given as one person's answer to a question
+ * @param question Question
+ * @param values Non-empty values, trimmed (one, or several for a multi-choice question)
+ * @param forWhom Added to the problem to say whose answer it is, e.g. " for Sam"
+ * @returns The answer to store, or the problem with it
+ */
+function checkAnswer(
+  question: Pick<RsvpQuestion, 'type' | 'label' | 'options'>,
+  values: string[],
+  forWhom: string
+): { answer: RsvpAnswer } | { problem: string } {
+  switch (question.type) {
+    case 'text':
+    case 'long_text': {
+      const max = question.type === 'text' ? MAX_TEXT_LENGTH : MAX_LONG_TEXT_LENGTH;
+      return values[0].length > max
+        ? { problem: `Your answer to “${question.label}”${forWhom} is too long (at most ${max} characters).` }
+        : { answer: values[0] };
+    }
+    case 'number': {
+      const number = Number(values[0]);
+      return Number.isFinite(number) ? { answer: number } : { problem: `“${question.label}”${forWhom} takes a number.` };
+    }
+    case 'single_choice':
+    case 'multi_choice': {
+      const options = questionOptions(question);
+      const picked = options.filter(option => values.includes(option));
+      if (picked.length !== new Set(values).size || (question.type === 'single_choice' && picked.length > 1)) {
+        return { problem: `Please choose ${question.type === 'single_choice' ? 'one of' : 'from'} the answers offered for “${question.label}”${forWhom}.` };
+      }
+      return { answer: question.type === 'single_choice' ? picked[0] : picked };
+    }
+  }
+}
+
+/**
+ * Read and check one person's answers from the RSVP form (fields <prefix>q_<question ID>)
+ * @param questions The questions to read
+ * @param body Submitted form
+ * @param prefix Field name prefix: empty for the guest, member_<position>_ for the people they bring
+ * @param rsvp The guest's response
+ * @param forWhom Added to each problem to say whose answer it is, e.g. " for Sam"
+ * @param problems Collects what is missing or invalid
+ * @returns The valid answers
+ */
+function checkAnswers(
+  questions: RsvpQuestion[],
+  body: Record<string, unknown>,
+  prefix: string,
+  rsvp: string,
+  forWhom: string,
+  problems: string[]
+): RsvpAnswers {
+  const answers: RsvpAnswers = {};
+
+  for (const question of questions.filter(q => isAsked(q, rsvp))) {
+    const raw = body[`${prefix}q_${question.id}`];
+    const values = (Array.isArray(raw) ? raw : raw === undefined ? [] : [raw]).map(value => String(value).trim()).filter(Boolean);
+
+    if (values.length === 0) {
+      if (question.required) problems.push(`Please answer “${question.label}”${forWhom}.`);
+      continue;
+    }
+
+    const checked = checkAnswer(question, values, forWhom);
+    if ('problem' in checked) {
+      problems.push(checked.problem);
+    } else {
+      answers[question.id] = checked.answer;
+    }
+  }
+
+  return answers;
+}
+
+/**
+ * Check an answer that was stored before, e.g. one in an imported event bundle, as if it had just been submitted
+ * @param question The question it answers
+ * @param answer Stored answer
+ * @returns The answer to store, or undefined if it is not a valid answer to the question
+ */
+export function checkStoredAnswer(question: Pick<RsvpQuestion, 'type' | 'label' | 'options'>, answer: unknown): RsvpAnswer | undefined {
+  const expected = question.type === 'number' ? typeof answer === 'number'
+    : question.type === 'multi_choice' ? Array.isArray(answer) && answer.every(value => typeof value === 'string')
+    : typeof answer === 'string';
+  if (!expected) return undefined;
+
+  const values = (Array.isArray(answer) ? answer : [answer]).map(value => String(value).trim()).filter(Boolean);
+  if (values.length === 0) return undefined;
+  const checked = checkAnswer(question, values, '');
+  return 'answer' in checked ? checked.answer : undefined;
+}
+
+/**
+ * Read and check a guest's answers from the RSVP form (fields q_<question ID>)
+ * Questions that only apply to guests who said yes are left out for everyone else.
+ *
+ * @param questions The event's questions
+ * @param body Submitted form
+ * @param rsvp The guest's response
+ * @returns The guest's answers, ready to store
+ * @throws RsvpQuestionError listing every answer that is missing or invalid
+ */
+export function parseRsvpAnswers(questions: RsvpQuestion[], body: Record<string, unknown>, rsvp: string): RsvpAnswers {
+  const problems: string[] = [];
+  const answers = checkAnswers(questions, body, '', rsvp, '', problems);
+
+  if (problems.length > 0) {
+    throw new RsvpQuestionError(problems.join(' '));
+  }
+  return answers;
+}
+
+/**
+ * Read and check the names of the people coming with a guest, and their answers to the
+ * per-person questions (fields member_<position>_name and member_<position>_q_<question ID>)
+ *
+ * @param questions The event's questions
+ * @param body Submitted form
+ * @param rsvp The guest's response
+ * @param partySize Total people in the group, including the guest
+ * @returns One entry per person after the guest, ready to store
+ * @throws RsvpQuestionError listing every name or answer that is missing or invalid
+ */
+export function parsePartyMembers(
+  questions: RsvpQuestion[],
+  body: Record<string, unknown>,
+  rsvp: string,
+  partySize: number
+): PartyMemberInput[] {
+  const perPerson = questions.filter(q => q.per_person);
+  const members: PartyMemberInput[] = [];
+  const problems: string[] = [];
+
+  for (let position = 2; position <= partySize; position++) {
+    const name = String(body[`member_${position}_name`] ?? '').trim();
+    if (!name || name.length > MAX_MEMBER_NAME_LENGTH) {
+      problems.push(`Please give the name of person ${position} in your group (at most ${MAX_MEMBER_NAME_LENGTH} characters).`);
+    }
+    const forWhom = ` for ${name || `person ${position}`}`;
+    members.push({ name, answers: checkAnswers(perPerson, body, `member_${position}_`, rsvp, forWhom, problems) });
+  }
+
+  if (problems.length > 0) {
+    throw new RsvpQuestionError(problems.join(' '));
+  }
+  return members;
+}
+
+/**
+ * A person's answers exactly as submitted, to show the form again after it was refused
+ * @param questions The event's questions
+ * @param body Submitted form
+ * @param prefix Field name prefix (see parsePartyMembers())
+ */
+export function submittedAnswers(questions: RsvpQuestion[], body: Record<string, unknown>, prefix: string = ''): RsvpAnswers {
+  const answers: RsvpAnswers = {};
+  for (const question of questions) {
+    const raw = body[`${prefix}q_${question.id}`];
+    if (raw !== undefined) {
+      answers[question.id] = Array.isArray(raw) ? raw.map(String) : String(raw);
+    }
+  }
+  return answers;
+}
+
+/**
+ * The people in a guest's party exactly as submitted, to show the form again after it was refused
+ * @param questions The event's questions
+ * @param body Submitted form
+ * @param partySize Total people in the group, including the guest
+ */
+export function submittedPartyMembers(questions: RsvpQuestion[], body: Record<string, unknown>, partySize: number): PartyMemberInput[] {
+  const perPerson = questions.filter(q => q.per_person);
+  const members: PartyMemberInput[] = [];
+  for (let position = 2; position <= partySize; position++) {
+    members.push({
+      name: String(body[`member_${position}_name`] ?? ''),
+      answers: submittedAnswers(perPerson, body, `member_${position}_`),
+    });
+  }
+  return members;
+}
+
+/** An answer as text, for the admin table */
+export function formatAnswer(answer: RsvpAnswer | undefined): string {
+  if (answer === undefined) return '';
+  return Array.isArray(answer) ? answer.join(', ') : String(answer);
+}
+
+/**
+ * The people a guest brings, as far as their party size goes
+ * Members beyond it are left over from a larger party the guest had before.
+ */
+function membersInParty(attendee: { id: number; party_size: number }, members: Record<number, PartyMember[]>): PartyMember[] {
+  return (members[attendee.id] ?? []).filter(member => member.position <= attendee.party_size);
+}
+
+/**
+ * Tally the answers to each of an event's questions
+ * Only guests the question still applies to are counted, so a guest who changed to "no"
+ * doesn't count towards the meal choices, nor does one on the waitlist for questions asked of guests who are coming.
+ * Per-person questions count everyone in each party.
+ *
+ * @param questions The event's questions
+ * @param attendees The event's attendees
+ * @param answers Answers grouped by attendee ID
+ * @param members Party members grouped by attendee ID
+ * @returns One tally per question, in form order
+ */
+export function tallyAnswers(
+  questions: RsvpQuestion[],
+  attendees: { id: number; rsvp: string | null; party_size: number; waitlisted_at?: number | null }[],
+  answers: Record<number, RsvpAnswers>,
+  members: Record<number, PartyMember[]> = {}
+): AnswerTally[] {
+  return questions.map(question => {
+    const askedGuests = attendees.filter(a => a.rsvp !== null && isAsked(question, a.rsvp) && !(question.attending_only && a.waitlisted_at));
+    const given = askedGuests.flatMap(a => [
+      answers[a.id]?.[question.id],
+      ...(question.per_person ? membersInParty(a, members).map(member => member.answers[question.id]) : []),
+    ]).filter((answer): answer is RsvpAnswer => answer !== undefined);
+    const asked = question.per_person ? askedGuests.reduce((sum, a) => sum + a.party_size, 0) : askedGuests.length;
+
+    let summary: string;
+    if (isChoiceType(question.type)) {
+      const counts = new Map(questionOptions(question).map(option => [option, 0]));
+      for (const answer of given) {
+        for (const option of Array.isArray(answer) ? answer : [answer]) {
+          if (counts.has(String(option))) counts.set(String(option), counts.get(String(option))! + 1);
+        }
+      }
+      summary = [...counts].filter(([, count]) => count > 0).map(([option, count]) => `${count} ${option}`).join(', ');
+    } else if (question.type === 'number') {
+      const total = given.reduce<number>((sum, answer) => sum + Number(answer), 0);
+      summary = given.length > 0 ? `${total} in total` : '';
+    } else {
+      summary = ''; // Free text: read the answers in the guest list
+    }
+
+    return { question, answered: given.length, asked, summary };
+  });
+}
+
+/**
+ * List everyone coming to an event, one entry per person in each party of a guest who said yes and has a place
+ * People the guest didn't name (e.g. after an admin raised the party size) get a null name.
+ *
+ * @param questions The event's questions
+ * @param attendees The event's attendees, in the order to list them
+ * @param answers Answers grouped by attendee ID
+ * @param members Party members grouped by attendee ID
+ */
+export function partyRoster(
+  questions: RsvpQuestion[],
+  attendees: { id: number; name: string; rsvp: string | null; party_size: number; waitlisted_at?: number | null }[],
+  answers: Record<number, RsvpAnswers>,
+  members: Record<number, PartyMember[]>
+): RosterEntry[] {
+  const perPerson = questions.filter(q => q.per_person);
+  const pick = (all: RsvpAnswers | undefined): RsvpAnswers =>
+    Object.fromEntries(perPerson.filter(q => all?.[q.id] !== undefined).map(q => [q.id, all![q.id]]));
+
+  return attendees.filter(a => a.rsvp === 'yes' && !a.waitlisted_at).flatMap(attendee => {
+    const named = new Map(membersInParty(attendee, members).map(member => [member.position, member]));
+    return Array.from({ length: attendee.party_size }, (_, i): RosterEntry => {
+      const position = i + 1;
+      if (position === 1) {
+        return { attendee, position, name: attendee.name, answers: pick(answers[attendee.id]) };
+      }
+      const member = named.get(position);
+      return { attendee, position, name: member?.name ?? null, answers: member?.answers ?? {} };
+    });
+  });
+}
@@ -0,0 +1,67 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+// src/rsvp.ts
+// Recording a guest's response, wherever it comes from (the RSVP page or a calendar reply)
+
+import type { AttendeeView, PartyMemberInput, RsvpAnswers, RsvpRequestInfo } from './database';
+import { queueConfirmation } from './confirmations';
+import { notifyAdmin } from './notifications';
+import { getEventById, recordRsvp } from './repository';
+import { updateWaitlist } from './waitlist';
+
+/**
+ * The answers a guest can give to an event
+ * @param allowMaybe Whether the event offers "maybe"
+ */
+export function rsvpOptions(allowMaybe: number | boolean | undefined): string[] {
+  return allowMaybe ? ['yes', 'maybe', 'no'] : ['yes', 'no'];
+}
+
+/**
+ * Whether a guest can no longer change their answer: the event's RSVP deadline has passed,
+ * the host hasn't reopened responses, and hasn't let this guest answer late
+ * @param attendee Attendee, with their event's deadline
+ * @param now Current time (for testing)
+ */
+export function responsesClosed(
+  attendee: Pick<AttendeeView, 'event_rsvp_deadline' | 'event_responses_reopened' | 'late_rsvp_allowed'>,
+  now: number = Date.now()
+): boolean {
+  return attendee.event_rsvp_deadline != null && now > attendee.event_rsvp_deadline
+    && !attendee.event_responses_reopened && !attendee.late_rsvp_allowed;
+}
+
+/**
+ * Record a guest's response, tell the admin and queue the guest's confirmation
+ * For events with a capacity, a "yes" that doesn't fit goes on the waitlist, and places freed by
+ * the response go to the guests waiting. A guest who already had a place keeps it, so check a bigger
+ * party against largestPartyKeepingPlace() first.
+ *
+ * @param attendee Attendee who responded
+ * @param rsvp Response ('yes', 'maybe' or 'no'; check it with rsvpOptions() first)
+ * @param partySize Party size (kept as it was for 'no')
+ * @param requestInfo Where the response came from, for the RSVP history
+ * @param appBaseUrl Base URL for links in the confirmation email
+ * @param answers Answers to the event's questions (kept as they were if undefined, e.g. for calendar replies)
+ * @param members The people coming with the guest (kept as they were if undefined)
+ * @returns Whether a confirmation email is on its way, and whether the guest is on the waitlist
+ */
+export async function submitRsvp(
+  attendee: AttendeeView,
+  rsvp: string,
+  partySize: number,
+  requestInfo: RsvpRequestInfo,
+  appBaseUrl: string,
+  answers?: RsvpAnswers,
+  members?: PartyMemberInput[]
+): Promise<{ confirmationQueued: boolean; waitlisted: boolean }> {
+  const previous = recordRsvp(attendee.id, rsvp, partySize, requestInfo, answers, members);
+  const hadPlace = attendee.rsvp === 'yes' && !attendee.waitlisted_at;
+  const { waitlisted } = updateWaitlist(attendee.event_id, appBaseUrl, { id: attendee.id, hadPlace });
+
+  await notifyAdmin(attendee, rsvp, (rsvp === 'no' ? 0 : partySize), previous);
+
+  const confirmationQueued = queueConfirmation(getEventById(attendee.event_id)!, attendee.id, appBaseUrl);
+  return { confirmationQueued, waitlisted };
+}
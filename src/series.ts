@@ -0,0 +1,266 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+// src/series.ts
+// Recurring event series: recurrence rules, occurrence creation and calendar output
+
+import { RRule } from 'rrule';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import type { EventRecord, SeriesRecord } from './database';
+import type { IcsEvent } from './ics';
+import { createSeriesOccurrence, getSeriesById, listSeries, listSeriesOccurrences } from './repository';
+import { formatICSDate } from './utils';
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+const SERIES_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export class SeriesError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SeriesError';
+  }
+}
+
+// ============================================================================
+// Recurrence Rules
+// ============================================================================
+
+// rrule works on "floating" dates: the wall-clock time in the series' timezone,
+// stored as if it were UTC. Expanding in wall-clock time keeps a 19:00 game night
+// at 19:00 across DST changes.
+const toFloating = (timestamp: number, timezone: string) =>
+  new Date(formatInTimeZone(timestamp, timezone, "yyyy-MM-dd'T'HH:mm:ss.SSS'Z'"));
+const fromFloating = (date: Date, timezone: string) =>
+  fromZonedTime(date.toISOString().replace('Z', ''), timezone).getTime();
+
+function buildRule(rrule: string, dtstart: number, timezone: string): RRule {
+  const options = RRule.parseString(rrule);
+  // UNTIL is a real UTC time (as calendar apps read it), so it is compared in wall-clock time too
+  if (options.until) {
+    options.until = toFloating(options.until.getTime(), timezone);
+  }
+  return new RRule({ ...options, dtstart: toFloating(dtstart, timezone), tzid: null });
+}
+
+/**
+ * Validate and normalize an RRULE value
+ * @param rrule RRULE value, with or without the "RRULE:" prefix
+ * @returns Normalized RRULE value
+ * @throws SeriesError if the rule cannot be parsed or is not a daily/weekly/monthly/yearly rule
+ */
+export function normalizeRecurrenceRule(rrule: string): string {
+  const value = rrule.trim().replace(/^RRULE:/i, '');
+  let options;
+  try {
+    options = RRule.parseString(value);
+  } catch (error: any) {
+    throw new SeriesError(`Invalid recurrence rule: ${error.message}`);
+  }
+  if (![RRule.YEARLY, RRule.MONTHLY, RRule.WEEKLY, RRule.DAILY].includes(options.freq as number)) {
+    throw new SeriesError('Recurrence rules must repeat daily, weekly, monthly or yearly.');
+  }
+  if (/(^|;)DTSTART[=:]/i.test(value)) {
+    throw new SeriesError('Give the first date separately, not as DTSTART inside the rule.');
+  }
+  return RRule.optionsToString(options).replace(/^RRULE:/, '');
+}
+
+/**
+ * Build an RRULE value from the fields of the series form
+ * @param fields freq (WEEKLY or MONTHLY), interval, weekdays (weekly: MO..SU), monthly_ordinal
+ *   (monthly: 1-4 or -1 for "last", with weekday; empty for the same day of the month), until (date), count
+ * @param timezone Timezone of the series, whose last day ends at the end of the until date
+ * @returns RRULE value
+ * @throws SeriesError if the fields do not describe a rule
+ */
+export function recurrenceRuleFromForm(fields: Record<string, string | string[] | undefined>, timezone: string): string {
+  const weekdayCodes = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+  const freq = String(fields.freq ?? '').toUpperCase();
+  const parts = [`FREQ=${freq}`];
+
+  const interval = parseInt(String(fields.interval ?? ''), 10);
+  if (interval > 1) parts.push(`INTERVAL=${interval}`);
+
+  if (freq === 'WEEKLY') {
+    const weekdays = ([] as string[]).concat(fields.weekdays ?? []).filter(d => weekdayCodes.includes(d));
+    if (weekdays.length > 0) parts.push(`BYDAY=${weekdays.join(',')}`);
+  } else if (freq === 'MONTHLY') {
+    const ordinal = parseInt(String(fields.monthly_ordinal ?? ''), 10);
+    const weekday = String(fields.monthly_weekday ?? '');
+    if (!isNaN(ordinal)) {
+      if (![1, 2, 3, 4, -1].includes(ordinal) || !weekdayCodes.includes(weekday)) {
+        throw new SeriesError('Choose which weekday of the month the series is on.');
+      }
+      parts.push(`BYDAY=${ordinal > 0 ? '+' : ''}${ordinal}${weekday}`);
+    }
+  } else {
+    throw new SeriesError('Choose whether the series repeats weekly or monthly.');
+  }
+
+  const count = parseInt(String(fields.count ?? ''), 10);
+  if (count > 0) {
+    parts.push(`COUNT=${count}`);
+  } else if (fields.until) {
+    const until = /^\d{4}-\d{2}-\d{2}$/.test(String(fields.until)) ? fromZonedTime(`${fields.until}T23:59:59`, timezone).getTime() : NaN;
+    if (isNaN(until)) {
+      throw new SeriesError('Give the last date as a date.');
+    }
+    parts.push(`UNTIL=${formatICSDate(until)}`);
+  }
+  return normalizeRecurrenceRule(parts.join(';'));
+}
+
+/**
+ * Describe a recurrence rule in English, e.g. "every month on the 2nd Friday"
+ * @param rrule RRULE value
+ * @returns Description
+ */
+export function describeRecurrence(rrule: string): string {
+  return RRule.fromString(rrule).toText();
+}
+
+/**
+ * Find the first occurrence of a rule at or after a start time
+ * The rule's own days win over the start date, so "every 2nd Friday" starting on a Monday begins that Friday.
+ *
+ * @param rrule RRULE value
+ * @param start Requested first date
+ * @param timezone Timezone the rule is expanded in
+ * @returns Start of the first occurrence
+ * @throws SeriesError if the rule has no occurrence at or after the start
+ */
+export function firstOccurrence(rrule: string, start: number, timezone: string): number {
+  const first = buildRule(rrule, start, timezone).after(toFloating(start, timezone), true);
+  if (!first) {
+    throw new SeriesError('The recurrence rule has no dates on or after the first date.');
+  }
+  return fromFloating(first, timezone);
+}
+
+/**
+ * List a series' scheduled occurrence starts in a time range, leaving out skipped ones
+ * @param series Series
+ * @param from Range start (inclusive)
+ * @param to Range end (inclusive)
+ * @returns Occurrence starts, in order
+ */
+export function expandOccurrences(series: SeriesRecord, from: number, to: number): number[] {
+  const exdates = new Set(JSON.parse(series.exdates) as number[]);
+  return buildRule(series.rrule, series.dtstart, series.timezone)
+    .between(toFloating(from, series.timezone), toFloating(to, series.timezone), true)
+    .map(date => fromFloating(date, series.timezone))
+    .filter(start => !exdates.has(start));
+}
+
+// ============================================================================
+// Occurrences
+// ============================================================================
+
+/**
+ * Create the events for a series' occurrences within its horizon that do not exist yet
+ * Skipped occurrences and ones that already have an event (even one being deleted) are left alone.
+ *
+ * @param seriesId Series ID
+ * @param now Current time (for testing)
+ * @returns IDs of the events created
+ */
+export function createUpcomingOccurrences(seriesId: number, now: number = Date.now()): number[] {
+  const series = getSeriesById(seriesId);
+  if (!series) return [];
+
+  const existing = new Set(listSeriesOccurrences(seriesId).map(e => e.occurrence_start));
+  const created = expandOccurrences(series, now, now + series.horizon_days * DAY_MS)
+    .filter(start => !existing.has(start))
+    .map(start => createSeriesOccurrence(series, start));
+
+  if (created.length > 0) {
+    console.log(`Created ${created.length} occurrence(s) of series ${seriesId} ("${series.title}").`);
+  }
+  return created;
+}
+
+/**
+ * Create upcoming occurrences for every series
+ * @param now Current time (for testing)
+ * @returns Number of events created
+ */
+export function createAllUpcomingOccurrences(now: number = Date.now()): number {
+  return listSeries().reduce((total, series) => total + createUpcomingOccurrences(series.id, now).length, 0);
+}
+
+/**
+ * Start the periodic occurrence-creation timer
+ * @returns Timer handle (unref'd so it never keeps the process alive)
+ */
+export function startSeriesSchedule(): NodeJS.Timeout {
+  const run = () => {
+    try {
+      createAllUpcomingOccurrences();
+    } catch (err) {
+      console.error('Creating series occurrences failed:', err);
+    }
+  };
+  run();
+  return setInterval(run, SERIES_INTERVAL_MS).unref();
+}
+
+// ============================================================================
+// Calendar Output
+// ============================================================================
+
+/**
+ * Describe a series for a guest's calendar: one recurring VEVENT, plus overrides for occurrences
+ * that were moved or cancelled. The guest's own occurrence is left out; the caller adds it
+ * under the guest's invitation UID.
+ *
+ * @param series Series
+ * @param occurrence The occurrence the guest was invited to
+ * @param domain Host name used in UIDs
+ * @returns VEVENTs sharing one UID
+ */
+export function seriesCalendarEvents(series: SeriesRecord, occurrence: EventRecord, domain: string): IcsEvent[] {
+  const occurrences = listSeriesOccurrences(series.id);
+  const excluded = occurrences.filter(e => e.delete_requested_at || e.id === occurrence.id).map(e => e.occurrence_start!);
+  const uid = `series-${series.id}@${domain}`;
+  const toIcs = (event: EventRecord): IcsEvent => ({
+    uid,
+    recurrenceId: event.occurrence_start,
+    sequence: event.sequence ?? 0,
+    status: event.cancelled_at ? 'CANCELLED' : null,
+    start: event.date,
+    end: event.date_end,
+    summary: event.title,
+    description: event.description || '',
+    locationName: event.location_name,
+    locationHref: event.location_href,
+    timezone: series.timezone,
+  });
+
+  const master: IcsEvent = {
+    uid,
+    start: series.dtstart,
+    end: series.duration_ms ? series.dtstart + series.duration_ms : null,
+    summary: series.title,
+    description: `${series.description || ''}\n\nEach date has its own RSVP link in its invitation email.`,
+    locationName: series.location_name,
+    locationHref: series.location_href,
+    timezone: series.timezone,
+    rrule: series.rrule,
+    exdates: [...new Set([...JSON.parse(series.exdates) as number[], ...excluded])].sort((a, b) => a - b),
+  };
+
+  const overrides = occurrences
+    .filter(e => !e.delete_requested_at && e.id !== occurrence.id && e.occurrence_start !== null && e.occurrence_start !== undefined)
+    .filter(e => e.date !== e.occurrence_start || e.title !== series.title || e.cancelled_at)
+    .map(toIcs);
+
+  return [master, ...overrides];
+}
@@ -28,6 +28,12 @@ import fs from 'fs';
 import { initializeDatabase, getDatabase } from './database';
 import publicRoutes from './routes/public';
 import adminRoutes from './routes/admin';
+import backupRoutes from './routes/backup';
+import contactRoutes from './routes/contacts';
+import seriesRoutes from './routes/series';
+import templateRoutes from './routes/templates';
+import reminderRoutes from './routes/reminders';
+import questionRoutes from './routes/questions';
 import attendeeRoutes from './routes/attendees';
 
 // ============================================================================
@@ -84,7 +90,7 @@ const csrfProtection = csurf();
 // Multer Configuration (for file uploads)
 // ============================================================================
 
-import { upload } from './multer-config';
+import { upload, adminUpload } from './multer-config';
 
 // ============================================================================
 // Database Initialization
@@ -99,7 +105,8 @@ export const db = getDatabase();
 
 // Admin + attendee routes (protected by reverse proxy auth - no built-in authentication)
 // Multer runs before CSRF so multipart forms (with or without files) populate req.body/_csrf
-app.use('/admin', upload.single('banner_image'), csrfProtection, adminRoutes, attendeeRoutes);
+// Backup, contact and template routes come first so /admin/backup, /admin/contacts and /admin/templates are not taken for event IDs
+app.use('/admin', adminUpload, csrfProtection, backupRoutes, contactRoutes, seriesRoutes, templateRoutes, reminderRoutes, questionRoutes, adminRoutes, attendeeRoutes);
 
 // Public routes
 app.use('/', upload.none(), csrfProtection, publicRoutes);
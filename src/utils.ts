@@ -23,6 +23,62 @@ export function isValidToken(token: string): boolean {
   return /^[0-9a-f]{32}$/.test(token);
 }
 
+/**
+ * Normalize an email address the way attendees are matched (trimmed and lowercased)
+ * @param email Email address
+ * @returns Normalized email address
+ */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Normalize a list of additional (CC) emails: deduplicated, without blanks or the primary email
+ * @param emails Additional emails
+ * @param primaryEmail Primary email (already normalized)
+ * @returns Normalized additional emails
+ */
+export function normalizeAdditionalEmails(emails: string[], primaryEmail: string): string[] {
+  return [...new Set(emails.map(normalizeEmail).filter(e => e && e !== primaryEmail))];
+}
+
+/**
+ * Parse additional_emails JSON field and return CC email list
+ * @param additionalEmailsJson JSON string from database
+ * @param primaryEmail Primary email to exclude from CC list
+ * @param attendeeId Attendee ID for error logging
+ * @returns Array of CC email addresses
+ */
+export function parseCCEmails(additionalEmailsJson: string | null, primaryEmail: string, attendeeId: number): string[] {
+  if (!additionalEmailsJson) return [];
+
+  try {
+    const parsed = JSON.parse(additionalEmailsJson);
+    if (Array.isArray(parsed)) {
+      return parsed
+        .map(e => String(e).trim().toLowerCase())
+        .filter(e => e && e !== primaryEmail);
+    }
+  } catch (e) {
+    console.error(`Error parsing additional_emails for attendee ${attendeeId}:`, e);
+  }
+
+  return [];
+}
+
+/**
+ * Parse attendee tags from free-form input such as "family, #college work"
+ * Tags are single words of letters, digits and - _ . : (anything else is dropped),
+ * split on commas and whitespace, lowercased, deduplicated, and cut to 40 characters.
+ *
+ * @param input Tag text, or a list of tag texts (e.g. repeated form fields)
+ * @returns Normalized tags, in the order first seen
+ */
+export function parseTags(input: string | string[] | undefined | null): string[] {
+  const parts = ([] as string[]).concat(input ?? []).flatMap(text => String(text).split(/[\s,]+/));
+  return [...new Set(parts.map(t => t.replace(/[^\p{L}\p{N}_.:-]/gu, '').toLowerCase().substring(0, 40)).filter(t => t))];
+}
+
 /**
  * Format a JavaScript timestamp to ICS UTC date-time string
  * @param timestamp JS timestamp in milliseconds
@@ -72,6 +128,20 @@ export function escapeICSText(text: string | null | undefined, isHtmlContent: bo
     .replace(/;/g, '\\;');  // Escape semicolons
 }
 
+/**
+ * Escape text for use in HTML content or attribute values
+ * @param text Text to escape
+ * @returns HTML-safe text
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#039;');
+}
+
 /**
  * Convert HTML to plain text for email bodies
  * Handles common HTML tags and entities
@@ -97,6 +167,17 @@ export function htmlToPlainText(html: string | null | undefined): string {
   return text.trim();
 }
 
+/**
+ * Describe an RSVP response for humans, e.g. "yes (4)", "maybe (2)" or "no"
+ * @param rsvp RSVP response (null if none)
+ * @param partySize Party size recorded with the response
+ * @returns Short description of the response
+ */
+export function formatRsvpResponse(rsvp: string | null, partySize: number | null): string {
+  if (!rsvp) return 'no response';
+  return rsvp === 'no' ? rsvp : `${rsvp} (${partySize ?? 1})`;
+}
+
 /**
  * Get IANA timezone list with fallback for older Node versions
  * @returns Array of IANA timezone names
@@ -151,12 +232,14 @@ export function deriveNameFromEmail(parsedAddress: { name?: string; address?: st
 
 /**
  * Parse a single line from a CSV or TSV file
- * Automatically detects delimiter and extracts email and name
- * 
+ * Automatically detects delimiter and extracts email and name.
+ * Columns made only of #hashtags (e.g. "#family #wave-1") are read as tags.
+ *
  * @param line Single line from CSV/TSV file
- * @returns Object with email, name, and party_size (based on number of emails), or null if no email found
+ * @returns Object with email, name, party_size (based on number of emails) and tags (only if any),
+ *   or null if no email found
  */
-export function parseCsvTsvLine(line: string): { email: string; name: string; party_size: number } | null {
+export function parseCsvTsvLine(line: string): { email: string; name: string; party_size: number; tags?: string[] } | null {
   if (!line || !line.trim()) {
     return null;
   }
@@ -196,6 +279,7 @@ export function parseCsvTsvLine(line: string): { email: string; name: string; pa
   
   // Simple email regex for column detection
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  const tagColumnRegex = /^#[^\s#]+(\s+#[^\s#]+)*$/;
   
   let email: string | null = null;
   let name: string | null = null;
@@ -215,9 +299,9 @@ export function parseCsvTsvLine(line: string): { email: string; name: string; pa
     return null;
   }
   
-  // Find first non-email column for name
+  // Find first non-email, non-tag column for name
   for (const col of columns) {
-    if (col && !emailRegex.test(col)) {
+    if (col && !emailRegex.test(col) && !tagColumnRegex.test(col)) {
       name = col;
       break;
     }
@@ -225,6 +309,7 @@ export function parseCsvTsvLine(line: string): { email: string; name: string; pa
   
   // Use derived name if no name column found
   const finalName = name || deriveNameFromEmail({ address: email });
+  const tags = parseTags(columns.filter(col => tagColumnRegex.test(col)));
   
-  return { email, name: finalName, party_size: emailCount };
+  return { email, name: finalName, party_size: emailCount, ...(tags.length > 0 && { tags }) };
 }
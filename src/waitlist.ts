@@ -0,0 +1,125 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+// src/waitlist.ts
+// Event capacity: waitlisting guests whose "yes" doesn't fit, and giving places to the waitlist as they free up
+
+import type { EventRecord } from './database';
+import { getDatabase } from './database';
+import { kickEmailQueue, registerGuestEmailHandler } from './email-queue';
+import { sendWaitlistPromotion } from './notifications';
+import {
+  enqueueEmail,
+  getAttendeeById,
+  getConfirmedHeadcount,
+  getEventById,
+  listWaitlist,
+  setAttendeeWaitlisted,
+} from './repository';
+
+// ============================================================================
+// Places
+// ============================================================================
+
+/**
+ * Give places to the guests on an event's waitlist, in the order they joined it
+ * A party too big for the places left is passed over (keeping its place in line) for smaller ones behind it.
+ *
+ * @param event Event
+ * @returns IDs of the guests who got a place
+ */
+function promoteFromWaitlist(event: EventRecord): number[] {
+  let headcount = getConfirmedHeadcount(event.id);
+  const promoted: number[] = [];
+  for (const guest of listWaitlist(event.id)) {
+    if (event.capacity != null && headcount + guest.party_size > event.capacity) continue;
+    setAttendeeWaitlisted(guest.id, null);
+    headcount += guest.party_size;
+    promoted.push(guest.id);
+  }
+  return promoted;
+}
+
+/**
+ * The largest party a guest can answer yes with without losing the place they have
+ * A guest who already has a place keeps it however the numbers change, so asking for more seats than are
+ * free is refused rather than sending the whole party to the waitlist.
+ *
+ * @param attendee Attendee, as they were before answering
+ * @returns The most people they can bring, or null if any number will do (no capacity, or no place to lose)
+ */
+export function largestPartyKeepingPlace(
+  attendee: { id: number; event_id: number; rsvp: string | null; party_size: number; waitlisted_at?: number | null }
+): number | null {
+  const capacity = getEventById(attendee.event_id)?.capacity;
+  if (capacity == null || attendee.rsvp !== 'yes' || attendee.waitlisted_at) return null;
+  return Math.max(capacity - getConfirmedHeadcount(attendee.event_id, attendee.id), attendee.party_size);
+}
+
+/**
+ * Bring an event's waitlist up to date after a guest responds, or after the capacity or guest list changes,
+ * and queue an email to each guest who got a place
+ * A "yes" that doesn't fit joins the end of the waitlist; a guest already waiting keeps their place in it,
+ * so changing their answers doesn't send them to the back, and a guest who already had a place keeps that.
+ * Any other answer takes a guest off the waitlist.
+ *
+ * @param eventId Event ID
+ * @param appBaseUrl Base URL for RSVP links in the emails
+ * @param respondent Guest who just responded, if any, and whether they had a place before
+ * @param now Current time (for testing)
+ * @returns Whether the respondent is on the waitlist, and the other guests who got a place
+ */
+export function updateWaitlist(
+  eventId: number,
+  appBaseUrl: string,
+  respondent?: { id: number; hadPlace: boolean },
+  now: number = Date.now()
+): { waitlisted: boolean; promoted: number[] } {
+  const db = getDatabase();
+  const event = getEventById(eventId);
+  if (!event) return { waitlisted: false, promoted: [] };
+  const respondentId = respondent?.id;
+
+  const { waitlisted, promoted } = db.transaction(() => {
+    let waitlisted = false;
+    if (respondent) {
+      const guest = getAttendeeById(respondent.id);
+      let waitlistedAt: number | null = null;
+      if (guest?.rsvp === 'yes' && event.capacity != null) {
+        if (guest.waitlisted_at) {
+          waitlistedAt = guest.waitlisted_at;
+        } else if (!respondent.hadPlace && getConfirmedHeadcount(eventId, respondent.id) + guest.party_size > event.capacity) {
+          waitlistedAt = now;
+        }
+      }
+      setAttendeeWaitlisted(respondent.id, waitlistedAt);
+      waitlisted = waitlistedAt !== null;
+    }
+
+    const promoted = promoteFromWaitlist(event);
+    if (respondentId !== undefined && promoted.includes(respondentId)) {
+      waitlisted = false;
+    }
+    return { waitlisted, promoted: promoted.filter(id => id !== respondentId) };
+  })();
+
+  // The guest who just responded sees where they stand on the thanks page instead
+  for (const attendeeId of promoted) {
+    enqueueEmail('waitlist_promotion', eventId, attendeeId, { appBaseUrl });
+  }
+  if (promoted.length > 0) {
+    kickEmailQueue();
+  }
+  return { waitlisted, promoted };
+}
+
+// ============================================================================
+// Sending
+// ============================================================================
+
+// Queued promotions are sent by the email queue worker
+registerGuestEmailHandler(
+  'waitlist_promotion',
+  (attendee, primaryEmail, ccEmails, event, { appBaseUrl }) => sendWaitlistPromotion(attendee, primaryEmail, ccEmails, event, appBaseUrl),
+  (attendee) => attendee.rsvp === 'yes' && !attendee.waitlisted_at ? null : 'they no longer have a place'
+);
@@ -11,15 +11,16 @@ process.env.DB_PATH = ':memory:';
 process.env.SMTP_USER = 'test@example.com';
 process.env.SMTP_PASS = 'testpass';
 
-import { parseCCEmails, sendAndMarkInvitation } from '../src/routes/attendees';
+import '../src/routes/attendees';
 import { initializeDatabase, getDatabase, upsertAttendee } from '../src/database';
-import type { EventRecord } from '../src/database';
+import { enqueueEmail, getAttendeeById } from '../src/repository';
+import { processEmailQueue } from '../src/email-queue';
 import { deriveNameFromEmail } from '../src/utils';
 import addressparser from 'addressparser';
 
 // Mock the notifications module
 jest.mock('../src/notifications', () => ({
-  sendInvitation: jest.fn().mockResolvedValue(undefined),
+  sendInvitation: jest.fn().mockResolvedValue({ messageId: '<invite@example.com>', accepted: [], rejected: [] }),
 }));
 
 import { sendInvitation } from '../src/notifications';
@@ -28,64 +29,19 @@ import { sendInvitation } from '../src/notifications';
 initializeDatabase(':memory:');
 const db = getDatabase();
 
-describe('parseCCEmails', () => {
-  it('returns empty array when additionalEmailsJson is null', () => {
-    const result = parseCCEmails(null, 'primary@example.com', 1);
-    expect(result).toEqual([]);
-  });
-
-  it('returns empty array when additionalEmailsJson is empty string', () => {
-    const result = parseCCEmails('', 'primary@example.com', 1);
-    expect(result).toEqual([]);
-  });
-
-  it('parses valid JSON array of emails', () => {
-    const json = JSON.stringify(['friend@example.com', 'colleague@example.com']);
-    const result = parseCCEmails(json, 'primary@example.com', 1);
-    expect(result).toEqual(['friend@example.com', 'colleague@example.com']);
-  });
-
-  it('filters out primary email from CC list', () => {
-    const json = JSON.stringify(['primary@example.com', 'friend@example.com']);
-    const result = parseCCEmails(json, 'primary@example.com', 1);
-    expect(result).toEqual(['friend@example.com']);
-  });
-
-  it('trims and lowercases emails', () => {
-    const json = JSON.stringify(['  Friend@Example.COM  ', 'Colleague@Test.ORG']);
-    const result = parseCCEmails(json, 'primary@example.com', 1);
-    expect(result).toEqual(['friend@example.com', 'colleague@test.org']);
-  });
-
-  it('filters out empty strings', () => {
-    const json = JSON.stringify(['friend@example.com', '', '  ', 'colleague@example.com']);
-    const result = parseCCEmails(json, 'primary@example.com', 1);
-    expect(result).toEqual(['friend@example.com', 'colleague@example.com']);
-  });
-
-  it('handles invalid JSON gracefully', () => {
-    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
-    const result = parseCCEmails('not valid json', 'primary@example.com', 1);
-    expect(result).toEqual([]);
-    expect(consoleErrorSpy).toHaveBeenCalled();
-    consoleErrorSpy.mockRestore();
-  });
-
-  it('returns empty array when parsed JSON is not an array', () => {
-    const json = JSON.stringify({ email: 'test@example.com' });
-    const result = parseCCEmails(json, 'primary@example.com', 1);
-    expect(result).toEqual([]);
-  });
-
-  it('handles mixed-case primary email matching', () => {
-    const json = JSON.stringify(['PRIMARY@EXAMPLE.COM', 'friend@example.com']);
-    const result = parseCCEmails(json, 'primary@example.com', 1);
-    expect(result).toEqual(['friend@example.com']);
-  });
-});
-
-describe('sendAndMarkInvitation', () => {
+describe('invitations', () => {
   const mockSendInvitation = sendInvitation as jest.MockedFunction<typeof sendInvitation>;
+  const appBaseUrl = 'http://localhost:3000';
+
+  /** Add attendee 1 to the test event and send their queued invitation */
+  async function invite(email: string, additionalEmails: string | null = null, now?: number): Promise<void> {
+    if (!getAttendeeById(1)) {
+      db.prepare('INSERT INTO attendees (id, event_id, name, email, party_size, token, additional_emails) VALUES (?, ?, ?, ?, ?, ?, ?)')
+        .run(1, 1, 'Test User', email, 1, 'abc123', additionalEmails);
+    }
+    enqueueEmail('invitation', 1, 1, { appBaseUrl });
+    await processEmailQueue(now);
+  }
 
   beforeAll(() => {
     // Create a test event
@@ -96,53 +52,28 @@ describe('sendAndMarkInvitation', () => {
   beforeEach(() => {
     // Clear attendees table
     db.prepare('DELETE FROM attendees').run();
+    db.prepare('DELETE FROM email_queue').run();
+    db.prepare('DELETE FROM email_attempts').run();
     mockSendInvitation.mockClear();
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
   });
 
-  it('throws error when attendee has no email', async () => {
-    const attendee = {
-      id: 1,
-      name: 'Test User',
-      email: '',
-      token: 'abc123',
-      event_id: 1,
-      additional_emails: null,
-    };
-
-    const event: EventRecord = {
-      id: 1,
-      title: 'Test Event',
-      date: Date.now(),
-      description: 'Test',
-    };
-
-    await expect(
-      sendAndMarkInvitation(attendee, event, 'http://localhost:3000')
-    ).rejects.toThrow('Primary email missing for attendee ID 1');
+  it('gives up when attendee has no email', async () => {
+    await invite('');
+
+    expect(mockSendInvitation).not.toHaveBeenCalled();
+    expect(db.prepare('SELECT status, last_error FROM email_queue').get()).toEqual({
+      status: 'failed', last_error: 'Primary email missing for attendee ID 1',
+    });
   });
 
-  it('sends invitation and marks attendee as sent', async () => {
-    // Insert attendee
-    db.prepare('INSERT INTO attendees (id, event_id, name, email, party_size, token, is_sent) VALUES (?, ?, ?, ?, ?, ?, ?)')
-      .run(1, 1, 'Test User', 'test@example.com', 1, 'abc123', 0);
-
-    const attendee = {
-      id: 1,
-      name: 'Test User',
-      email: 'test@example.com',
-      token: 'abc123',
-      event_id: 1,
-      additional_emails: null,
-    };
-
-    const event: EventRecord = {
-      id: 1,
-      title: 'Test Event',
-      date: Date.now(),
-      description: 'Test',
-    };
-
-    await sendAndMarkInvitation(attendee, event, 'http://localhost:3000');
+  it('sends invitation and logs the delivery', async () => {
+    await invite('test@example.com');
 
     // Verify sendInvitation was called with correct params
     expect(mockSendInvitation).toHaveBeenCalledWith(
@@ -150,41 +81,22 @@ describe('sendAndMarkInvitation', () => {
       'test@example.com',
       [],
       'abc123',
-      event,
-      'http://localhost:3000'
+      expect.objectContaining({ id: 1, title: 'Test Event' }),
+      'http://localhost:3000',
+      1
     );
 
-    // Verify attendee is marked as sent
-    const updatedAttendee = db.prepare('SELECT is_sent, last_modified FROM attendees WHERE id = ?').get(1) as { is_sent: number; last_modified: number };
-    expect(updatedAttendee.is_sent).toBe(1);
+    // Verify the delivery was logged
+    expect(db.prepare('SELECT kind, message_id, to_address, cc_addresses, error FROM deliveries WHERE attendee_id = ?').all(1)).toEqual([
+      { kind: 'invitation', message_id: '<invite@example.com>', to_address: 'test@example.com', cc_addresses: '[]', error: null },
+    ]);
+    const updatedAttendee = db.prepare('SELECT last_modified FROM attendees WHERE id = ?').get(1) as { last_modified: number };
     expect(updatedAttendee.last_modified).toBeGreaterThan(0);
   });
 
   it('sends invitation with CC emails when additional_emails exists', async () => {
     const ccEmails = ['friend@example.com', 'colleague@example.com'];
-    const additionalEmailsJson = JSON.stringify(ccEmails);
-
-    // Insert attendee
-    db.prepare('INSERT INTO attendees (id, event_id, name, email, party_size, token, is_sent, additional_emails) VALUES (?, ?, ?, ?, ?, ?, ?, ?)')
-      .run(1, 1, 'Test User', 'test@example.com', 1, 'abc123', 0, additionalEmailsJson);
-
-    const attendee = {
-      id: 1,
-      name: 'Test User',
-      email: 'test@example.com',
-      token: 'abc123',
-      event_id: 1,
-      additional_emails: additionalEmailsJson,
-    };
-
-    const event: EventRecord = {
-      id: 1,
-      title: 'Test Event',
-      date: Date.now(),
-      description: 'Test',
-    };
-
-    await sendAndMarkInvitation(attendee, event, 'http://localhost:3000');
+    await invite('test@example.com', JSON.stringify(ccEmails));
 
     // Verify sendInvitation was called with CC emails
     expect(mockSendInvitation).toHaveBeenCalledWith(
@@ -192,33 +104,14 @@ describe('sendAndMarkInvitation', () => {
       'test@example.com',
       ccEmails,
       'abc123',
-      event,
-      'http://localhost:3000'
+      expect.objectContaining({ id: 1 }),
+      'http://localhost:3000',
+      1
     );
   });
 
   it('trims and lowercases primary email before sending', async () => {
-    // Insert attendee with uppercase email
-    db.prepare('INSERT INTO attendees (id, event_id, name, email, party_size, token, is_sent) VALUES (?, ?, ?, ?, ?, ?, ?)')
-      .run(1, 1, 'Test User', '  TEST@EXAMPLE.COM  ', 1, 'abc123', 0);
-
-    const attendee = {
-      id: 1,
-      name: 'Test User',
-      email: '  TEST@EXAMPLE.COM  ',
-      token: 'abc123',
-      event_id: 1,
-      additional_emails: null,
-    };
-
-    const event: EventRecord = {
-      id: 1,
-      title: 'Test Event',
-      date: Date.now(),
-      description: 'Test',
-    };
-
-    await sendAndMarkInvitation(attendee, event, 'http://localhost:3000');
+    await invite('  TEST@EXAMPLE.COM  ');
 
     // Verify sendInvitation was called with normalized email
     expect(mockSendInvitation).toHaveBeenCalledWith(
@@ -226,35 +119,28 @@ describe('sendAndMarkInvitation', () => {
       'test@example.com',
       [],
       'abc123',
-      event,
-      'http://localhost:3000'
+      expect.objectContaining({ id: 1 }),
+      'http://localhost:3000',
+      1
     );
   });
 
+  it('logs the error and leaves the attendee unsent when sending fails', async () => {
+    mockSendInvitation.mockRejectedValueOnce(new Error('550 mailbox unavailable'));
+
+    await invite('test@example.com');
+    expect(getAttendeeById(1)).toMatchObject({ is_sent: 0, last_delivery_error: '550 mailbox unavailable' });
+
+    await processEmailQueue(Date.now() + 24 * 60 * 60 * 1000); // Once the retry is due
+    expect(getAttendeeById(1)).toMatchObject({ is_sent: 1, last_delivery_error: null });
+    expect(db.prepare('SELECT error FROM deliveries WHERE attendee_id = ? ORDER BY id').all(1)).toEqual([
+      { error: '550 mailbox unavailable' },
+      { error: null },
+    ]);
+  });
+
   it('filters primary email from CC list', async () => {
-    const additionalEmailsJson = JSON.stringify(['test@example.com', 'friend@example.com']);
-
-    // Insert attendee
-    db.prepare('INSERT INTO attendees (id, event_id, name, email, party_size, token, is_sent, additional_emails) VALUES (?, ?, ?, ?, ?, ?, ?, ?)')
-      .run(1, 1, 'Test User', 'test@example.com', 1, 'abc123', 0, additionalEmailsJson);
-
-    const attendee = {
-      id: 1,
-      name: 'Test User',
-      email: 'test@example.com',
-      token: 'abc123',
-      event_id: 1,
-      additional_emails: additionalEmailsJson,
-    };
-
-    const event: EventRecord = {
-      id: 1,
-      title: 'Test Event',
-      date: Date.now(),
-      description: 'Test',
-    };
-
-    await sendAndMarkInvitation(attendee, event, 'http://localhost:3000');
+    await invite('test@example.com', JSON.stringify(['test@example.com', 'friend@example.com']));
 
     // Verify primary email was filtered out from CC
     expect(mockSendInvitation).toHaveBeenCalledWith(
@@ -262,8 +148,9 @@ describe('sendAndMarkInvitation', () => {
       'test@example.com',
       ['friend@example.com'],
       'abc123',
-      event,
-      'http://localhost:3000'
+      expect.objectContaining({ id: 1 }),
+      'http://localhost:3000',
+      1
     );
   });
 });
@@ -0,0 +1,142 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+/**
+ * tests/backup.test.ts
+ * Jest tests for backup, retention and restore
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as tar from 'tar';
+import * as Database from 'better-sqlite3';
+
+// Restore swaps real files, so use an on-disk database in a scratch directory
+const scratchDir = fs.mkdtempSync(path.join(os.tmpdir(), 'odette-backup-test-'));
+const dbPath = path.join(scratchDir, 'rsvp.sqlite');
+const bannerDir = path.join(scratchDir, 'banners');
+const backupDir = path.join(scratchDir, 'backups');
+process.env.DB_PATH = dbPath;
+process.env.EVENT_BANNER_STORAGE_PATH = bannerDir;
+process.env.BACKUP_DIR = backupDir;
+
+import { initializeDatabase, getDatabase } from '../src/database';
+import { createEvent, getEventById, listEvents } from '../src/repository';
+import { BackupError, createBackup, getBackupPath, listBackups, pruneBackups, restoreBackup } from '../src/backup';
+
+const eventInput = (title: string) => ({
+  title, date: Date.now(), description: null, location_name: null, location_href: null, date_end: null, timezone: null,
+});
+
+/** Rewrite an archive after letting `mutate` change its extracted contents */
+async function repackBackup(archivePath: string, mutate: (dir: string) => void): Promise<string> {
+  const dir = fs.mkdtempSync(path.join(scratchDir, 'repack-'));
+  await tar.x({ file: archivePath, cwd: dir });
+  mutate(dir);
+  const repacked = path.join(scratchDir, `repacked-${path.basename(dir)}.tar.gz`);
+  await tar.c({ gzip: true, file: repacked, cwd: dir }, fs.readdirSync(dir));
+  return repacked;
+}
+
+describe('backup and restore', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+    fs.rmSync(backupDir, { recursive: true, force: true });
+    fs.rmSync(bannerDir, { recursive: true, force: true });
+    fs.mkdirSync(bannerDir, { recursive: true });
+    fs.readdirSync(scratchDir).filter(n => n.includes('.pre-restore-'))
+      .forEach(n => fs.rmSync(path.join(scratchDir, n), { recursive: true, force: true }));
+    if (fs.existsSync(dbPath)) {
+      getDatabase().close();
+      fs.rmSync(dbPath);
+    }
+    initializeDatabase(dbPath);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    getDatabase().close();
+    fs.rmSync(scratchDir, { recursive: true, force: true });
+  });
+
+  it('writes an archive with the database, banners and a manifest', async () => {
+    createEvent(eventInput('Wedding'));
+    fs.writeFileSync(path.join(bannerDir, 'event-1-banner.png'), 'png');
+
+    const backup = await createBackup(Date.parse('2026-06-01T12:00:00Z'));
+    expect(backup.filename).toBe('odette-backup-2026-06-01T12-00-00-000Z.tar.gz');
+
+    const entries: string[] = [];
+    await tar.t({ file: getBackupPath(backup.filename), onReadEntry: e => { entries.push(e.path); } });
+    expect(entries).toEqual(expect.arrayContaining(['manifest.json', 'rsvp.sqlite', 'banners/event-1-banner.png']));
+  });
+
+  it('restores the database and banners, keeping the previous database aside', async () => {
+    createEvent(eventInput('Wedding'));
+    fs.writeFileSync(path.join(bannerDir, 'event-1-banner.png'), 'png');
+    const backup = await createBackup();
+
+    createEvent(eventInput('Added after the backup'));
+    fs.rmSync(path.join(bannerDir, 'event-1-banner.png'));
+
+    const result = await restoreBackup(getBackupPath(backup.filename));
+
+    expect(listEvents({ archived: false }).map(e => e.title)).toEqual(['Wedding']);
+    expect(fs.readFileSync(path.join(bannerDir, 'event-1-banner.png'), 'utf8')).toBe('png');
+    expect(result.previousDatabasePath).toMatch(/rsvp\.sqlite\.pre-restore-/);
+    expect(fs.existsSync(result.previousDatabasePath!)).toBe(true);
+  });
+
+  it('rejects a backup from a newer schema without touching the live database', async () => {
+    const eventId = createEvent(eventInput('Wedding'));
+    const backup = await createBackup();
+    const tampered = await repackBackup(getBackupPath(backup.filename), (dir) => {
+      const db = new Database.default(path.join(dir, 'rsvp.sqlite'));
+      db.prepare('INSERT INTO schema_migrations (version, name, started_at, applied_at) VALUES (999, ?, 0, 0)').run('from the future');
+      db.close();
+      const manifest = JSON.parse(fs.readFileSync(path.join(dir, 'manifest.json'), 'utf8'));
+      fs.writeFileSync(path.join(dir, 'manifest.json'), JSON.stringify({ ...manifest, schema_version: 999 }));
+    });
+
+    await expect(restoreBackup(tampered)).rejects.toThrow(/only knows up to/);
+    expect(getEventById(eventId)?.title).toBe('Wedding');
+    expect(fs.readdirSync(scratchDir).some(n => n.includes('pre-restore'))).toBe(false);
+  });
+
+  it('rejects archives that are not backups', async () => {
+    const bogus = path.join(scratchDir, 'bogus.tar.gz');
+    const dir = fs.mkdtempSync(path.join(scratchDir, 'bogus-'));
+    fs.writeFileSync(path.join(dir, 'notes.txt'), 'hello');
+    await tar.c({ gzip: true, file: bogus, cwd: dir }, ['notes.txt']);
+
+    await expect(restoreBackup(bogus)).rejects.toThrow(BackupError);
+    await expect(restoreBackup(path.join(scratchDir, 'missing.tar.gz'))).rejects.toThrow(/Cannot read backup archive/);
+  });
+
+  it('keeps only the newest backups', async () => {
+    for (let day = 1; day <= 4; day++) {
+      await createBackup(Date.parse(`2026-06-0${day}T00:00:00Z`));
+    }
+
+    const deleted = await pruneBackups(2);
+
+    expect(deleted).toEqual([
+      'odette-backup-2026-06-02T00-00-00-000Z.tar.gz',
+      'odette-backup-2026-06-01T00-00-00-000Z.tar.gz',
+    ]);
+    expect((await listBackups()).map(b => b.filename)).toEqual([
+      'odette-backup-2026-06-04T00-00-00-000Z.tar.gz',
+      'odette-backup-2026-06-03T00-00-00-000Z.tar.gz',
+    ]);
+  });
+
+  it('refuses backup filenames outside the backup directory', () => {
+    expect(() => getBackupPath('../rsvp.sqlite')).toThrow(BackupError);
+    expect(() => getBackupPath('odette-backup-../../etc.tar.gz')).toThrow(BackupError);
+  });
+});
@@ -0,0 +1,106 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+/**
+ * tests/bounces.test.ts
+ * Jest tests for reading delivery status notifications and flagging bounced addresses
+ */
+
+// Ensure in-memory DB before importing modules
+process.env.DB_PATH = ':memory:';
+
+import { initializeDatabase, getDatabase, upsertAttendee } from '../src/database';
+import { listEventBounces, recordDelivery } from '../src/repository';
+import { applyBounces, extractDeliveryStatus } from '../src/bounces';
+
+initializeDatabase(':memory:');
+const db = getDatabase();
+
+/** A bounce as mail servers send them: multipart/report with the status and the original headers */
+function bounceMessage(recipient: string, options: { messageId?: string; action?: string; arrivalDate?: string | null } = {}): Buffer {
+  return Buffer.from([
+    'From: Mail Delivery System <MAILER-DAEMON@mx.example.org>', 'To: rsvp@example.org',
+    'Subject: Undelivered Mail Returned to Sender', 'MIME-Version: 1.0',
+    'Content-Type: multipart/report; report-type=delivery-status;', ' boundary="report"', '',
+    '--report', 'Content-Type: text/plain; charset=us-ascii', '', 'I\'m sorry to have to inform you that your message could not be delivered.', '',
+    '--report', 'Content-Type: message/delivery-status', '',
+    'Reporting-MTA: dns; mx.example.org',
+    ...(options.arrivalDate === null ? [] : [`Arrival-Date: ${options.arrivalDate ?? 'Mon, 1 Jun 2030 10:00:00 +0000'}`]), '',
+    `Final-Recipient: rfc822; ${recipient.toUpperCase()}`, `Original-Recipient: rfc822;${recipient}`,
+    `Action: ${options.action ?? 'failed'}`, 'Status: 5.1.1',
+    'Diagnostic-Code: smtp; 550 5.1.1 <' + recipient + '>: Recipient address rejected:', ' User unknown in virtual mailbox table', '',
+    '--report', 'Content-Type: text/rfc822-headers', '',
+    'From: rsvp@example.org', `To: ${recipient}`, 'Subject: Invitation: Garden Party',
+    ...(options.messageId ? [`Message-ID: ${options.messageId}`] : []), '',
+    '--report--', '',
+  ].join('\r\n'));
+}
+
+describe('bounces', () => {
+  let attendeeId: number;
+
+  beforeEach(() => {
+    db.prepare('DELETE FROM events').run();
+    db.prepare('INSERT INTO events (id, title, date) VALUES (1, ?, ?)').run('Garden Party', Date.UTC(2030, 5, 1, 17));
+    upsertAttendee(1, 'Jo', 'jo@example.com', 1, ['partner@example.com']);
+    attendeeId = (db.prepare('SELECT id FROM attendees').get() as { id: number }).id;
+    recordDelivery(attendeeId, 'invitation', { to: 'jo@example.com', cc: ['partner@example.com'], messageId: '<invite-1@example.org>' }, 1000);
+    recordDelivery(attendeeId, 'reminder', { to: 'jo@example.com', cc: ['partner@example.com'], messageId: '<reminder-1@example.org>' }, 2000);
+  });
+
+  it('reads the recipients and the bounced Message-ID from a report', () => {
+    expect(extractDeliveryStatus(bounceMessage('jo@example.com', { messageId: '<invite-1@example.org>' }))).toEqual([{
+      messageId: '<invite-1@example.org>',
+      reportedAt: Date.UTC(2030, 5, 1, 10),
+      recipients: [{
+        recipient: 'jo@example.com',
+        action: 'failed',
+        status: '5.1.1',
+        diagnostic: 'smtp; 550 5.1.1 <jo@example.com>: Recipient address rejected: User unknown in virtual mailbox table',
+      }],
+    }]);
+    expect(extractDeliveryStatus(Buffer.from('Subject: hello\r\n\r\nJust a note'))).toEqual([]);
+  });
+
+  it('flags the delivery named by the Message-ID, once', () => {
+    const message = bounceMessage('jo@example.com', { messageId: '<invite-1@example.org>' });
+    expect(applyBounces(message, 3000)).toEqual([{
+      recorded: true,
+      attendeeId,
+      summary: 'jo@example.com (Jo, Garden Party) bounced: 550 5.1.1 <jo@example.com>: Recipient address rejected: User unknown in virtual mailbox table',
+    }]);
+    expect(applyBounces(message, 4000)).toMatchObject([{ recorded: false, summary: expect.stringContaining('already recorded') }]);
+
+    // The reminder went out after the invitation bounced, so only a bounce of the reminder would still count
+    expect(listEventBounces(1)).toEqual([]);
+    applyBounces(bounceMessage('jo@example.com', { messageId: '<reminder-1@example.org>' }), 5000);
+    expect(listEventBounces(1)).toMatchObject([{ attendee_name: 'Jo', kind: 'reminder', recipient: 'jo@example.com', status: '5.1.1' }]);
+  });
+
+  it('falls back to the latest email to the address, and skips reports that are not failures', () => {
+    expect(applyBounces(bounceMessage('partner@example.com', { action: 'delayed' }))).toMatchObject([{ recorded: false }]);
+    expect(applyBounces(bounceMessage('stranger@example.com'))).toMatchObject([{ recorded: false, summary: 'No email to stranger@example.com was found.' }]);
+
+    applyBounces(bounceMessage('partner@example.com'));
+    expect(listEventBounces(1)).toMatchObject([{ kind: 'reminder', recipient: 'partner@example.com' }]);
+
+    // Fixing the address clears the warning
+    upsertAttendee(1, 'Jo', 'jo@example.com', 1, ['partner@example.net']);
+    expect(listEventBounces(1)).toEqual([]);
+  });
+
+  it('does not pin an old bounce without a Message-ID on an email sent after it', () => {
+    const message = bounceMessage('jo@example.com');
+    applyBounces(message);
+    expect(listEventBounces(1)).toMatchObject([{ kind: 'reminder' }]);
+
+    // The admin sends again; reading the same mbox again must not flag the new email
+    recordDelivery(attendeeId, 'reminder', { to: 'jo@example.com', cc: [], messageId: '<reminder-2@example.org>' }, Date.UTC(2030, 5, 2));
+    expect(applyBounces(message)).toMatchObject([{ recorded: false }]);
+    expect(listEventBounces(1)).toEqual([]);
+
+    // Nor can an undated report be matched to anything
+    expect(applyBounces(bounceMessage('jo@example.com', { arrivalDate: null }))).toMatchObject([{ recorded: false }]);
+    expect(listEventBounces(1)).toEqual([]);
+  });
+});
@@ -0,0 +1,163 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+/**
+ * tests/calendar-replies.test.ts
+ * Jest tests for iTIP calendar invitations and ingesting guests' iMIP replies
+ */
+
+// Ensure in-memory DB before importing modules
+process.env.DB_PATH = ':memory:';
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { initializeDatabase, getDatabase, upsertAttendee } from '../src/database';
+import { getAttendeeById, getEventById, getEventRsvpHistory } from '../src/repository';
+import { buildCalendarRequest } from '../src/calendar';
+import { applyCalendarReplies, processCalendarReplyDrop } from '../src/calendar-replies';
+import { parseCalendar } from '../src/ics';
+import * as mail from '../src/mail';
+import { sendConfirmation, sendInvitation } from '../src/notifications';
+import { formatICSDate } from '../src/utils';
+
+initializeDatabase(':memory:');
+const db = getDatabase();
+const BASE_URL = 'https://rsvp.example.com';
+
+/** A calendar app's REPLY to an invitation */
+function replyCalendar(uid: string, email: string, partstat: string, sentAt: number = Date.now()): string {
+  return [
+    'BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Example//Calendar//EN', 'METHOD:REPLY',
+    'BEGIN:VEVENT', `UID:${uid}`, `DTSTAMP:${formatICSDate(sentAt)}`,
+    `ATTENDEE;CN="Some One";PARTSTAT=${partstat}:mailto:${email.toUpperCase()}`,
+    'ORGANIZER:mailto:rsvp@example.org', 'END:VEVENT', 'END:VCALENDAR', '',
+  ].join('\r\n');
+}
+
+/** An email carrying a reply, the way calendar apps send them (nested multiparts, base64) */
+function replyEmail(calendar: string, subject: string = 'Accepted: Garden Party'): Buffer {
+  const encoded = Buffer.from(calendar).toString('base64').match(/.{1,76}/g)!.join('\r\n');
+  return Buffer.from([
+    'From: Someone <someone@example.com>', 'To: rsvp@example.org', `Subject: ${subject}`, 'MIME-Version: 1.0',
+    'Content-Type: multipart/mixed;', ' boundary="outer"', '',
+    '--outer', 'Content-Type: multipart/alternative; boundary=inner', '',
+    '--inner', 'Content-Type: text/plain; charset=utf-8', '', 'Someone has accepted.',
+    '--inner', 'Content-Type: text/calendar; charset=utf-8; method=REPLY', 'Content-Transfer-Encoding: base64', '', encoded,
+    '--inner--', '--outer--', '',
+  ].join('\r\n'));
+}
+
+describe('calendar invitations and replies', () => {
+  let token: string;
+  let attendeeId: number;
+
+  beforeAll(() => {
+    mail.setMailConfig(mail.mailConfigFromEnv({ MAIL_TRANSPORT: 'log', MAIL_FROM: 'rsvp@example.org', MAIL_FROM_NAME: 'Party Hosts' }));
+  });
+
+  afterAll(() => {
+    mail.setMailConfig(null);
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+    db.prepare('DELETE FROM events').run();
+    db.prepare('INSERT INTO events (id, title, date) VALUES (1, ?, ?)').run('Garden Party', Date.UTC(2030, 5, 1, 17));
+    upsertAttendee(1, 'Jo', 'jo@example.com', 2, ['partner@example.com']);
+    ({ id: attendeeId, token } = db.prepare('SELECT id, token FROM attendees').get() as { id: number; token: string });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('builds a request addressed to the guest, from the mail sender', () => {
+    const request = buildCalendarRequest(getEventById(1)!, { name: 'Jo', email: 'jo@example.com', token }, BASE_URL);
+    const [calendar] = parseCalendar(request);
+    expect(calendar.properties).toContainEqual({ name: 'METHOD', params: {}, value: 'REQUEST' });
+    const [vevent] = calendar.components;
+    const property = (name: string) => vevent.properties.find(p => p.name === name);
+    expect(property('UID')!.value).toBe(`invite-${token}@rsvp.example.com`);
+    expect(property('ORGANIZER')).toEqual({ name: 'ORGANIZER', params: { CN: 'Party Hosts' }, value: 'mailto:rsvp@example.org' });
+    expect(property('ATTENDEE')).toEqual({
+      name: 'ATTENDEE',
+      params: { CN: 'Jo', ROLE: 'REQ-PARTICIPANT', PARTSTAT: 'NEEDS-ACTION', RSVP: 'TRUE' },
+      value: 'mailto:jo@example.com',
+    });
+  });
+
+  it('embeds the request in invitations only for events that turned it on', async () => {
+    const sendMail = jest.spyOn(mail, 'sendMail').mockResolvedValue({ messageId: '<x@example.com>', accepted: [], rejected: [] });
+    await sendInvitation('Jo', 'jo@example.com', [], token, getEventById(1)!, BASE_URL);
+    expect(sendMail.mock.calls[0][0].icalEvent).toBeUndefined();
+
+    db.prepare('UPDATE events SET calendar_invites = 1').run();
+    await sendInvitation('Jo', 'jo@example.com', [], token, getEventById(1)!, BASE_URL);
+    expect(sendMail.mock.calls[1][0].icalEvent).toMatchObject({ method: 'REQUEST', content: expect.stringContaining(`UID:invite-${token}@`) });
+
+    // The calendar file attached to the confirmation is the same calendar entry
+    await sendConfirmation({ name: 'Jo', token, party_size: 1 }, 'jo@example.com', [], getEventById(1)!, BASE_URL);
+    expect(String(sendMail.mock.calls[2][0].attachments![0].content)).toContain(`UID:invite-${token}@`);
+  });
+
+  it('records the answer in a reply from any of the guest\'s addresses, once', async () => {
+    const message = replyEmail(replyCalendar(`invite-${token}@rsvp.example.com`, 'partner@example.com', 'ACCEPTED'));
+    expect(await applyCalendarReplies(message, BASE_URL)).toEqual([{ applied: true, attendeeId, summary: 'Jo said yes to Garden Party.' }]);
+    expect(getAttendeeById(attendeeId)).toMatchObject({ rsvp: 'yes', party_size: 2 });
+    expect(getEventRsvpHistory(1)[attendeeId]).toMatchObject([{ new_rsvp: 'yes', user_agent: 'Calendar reply from partner@example.com' }]);
+
+    // Reading the same message again changes nothing
+    expect(await applyCalendarReplies(message, BASE_URL)).toMatchObject([{ applied: false, summary: expect.stringContaining('older than their latest response') }]);
+    expect(getEventRsvpHistory(1)[attendeeId]).toHaveLength(1);
+  });
+
+  it('skips replies it cannot map onto an RSVP', async () => {
+    const tentative = replyEmail(replyCalendar(`invite-${token}@rsvp.example.com`, 'jo@example.com', 'TENTATIVE'));
+    expect(await applyCalendarReplies(tentative, BASE_URL)).toMatchObject([{ applied: false, summary: 'Jo answered "TENTATIVE" to Garden Party, which isn\'t an RSVP option.' }]);
+    const delegated = replyEmail(replyCalendar(`invite-${token}@rsvp.example.com`, 'jo@example.com', 'DELEGATED'));
+    expect(await applyCalendarReplies(delegated, BASE_URL)).toMatchObject([{ applied: false }]);
+    const forwarded = replyEmail(replyCalendar(`invite-${token}@rsvp.example.com`, 'friend@example.com', 'DECLINED'));
+    expect(await applyCalendarReplies(forwarded, BASE_URL)).toMatchObject([{ applied: false, summary: 'No attendee in the reply to Garden Party is one of Jo\'s addresses.' }]);
+    const stranger = replyEmail(replyCalendar('event-1@elsewhere.example.com', 'jo@example.com', 'ACCEPTED'));
+    expect(await applyCalendarReplies(stranger, BASE_URL)).toMatchObject([{ applied: false, summary: 'No guest matches the invitation "event-1@elsewhere.example.com".' }]);
+    expect(await applyCalendarReplies(Buffer.from('Subject: hello\r\n\r\nJust a note'), BASE_URL)).toEqual([]);
+    expect(getAttendeeById(attendeeId)!.rsvp).toBeNull();
+  });
+
+  it('records a tentative answer as maybe for events that offer it', async () => {
+    db.prepare('UPDATE events SET allow_maybe = 1').run();
+    const tentative = replyEmail(replyCalendar(`invite-${token}@rsvp.example.com`, 'jo@example.com', 'TENTATIVE'), 'Tentative: Garden Party');
+    expect(await applyCalendarReplies(tentative, BASE_URL)).toMatchObject([{ applied: true, summary: 'Jo said maybe to Garden Party.' }]);
+    expect(getAttendeeById(attendeeId)!.rsvp).toBe('maybe');
+
+    // An update to the invitation keeps the guest's answer in their calendar
+    const request = buildCalendarRequest(getEventById(1)!, { name: 'Jo', email: 'jo@example.com', token, rsvp: 'maybe' }, BASE_URL);
+    expect(request).toContain('PARTSTAT=TENTATIVE');
+  });
+
+  it('reads maildir and mbox drops', async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'odette-replies-'));
+    try {
+      await fs.promises.mkdir(path.join(dir, 'maildir', 'new'), { recursive: true });
+      await fs.promises.writeFile(path.join(dir, 'maildir', 'new', '1.host'), replyEmail(replyCalendar(`invite-${token}@x`, 'jo@example.com', 'DECLINED', Date.now() - 1000)));
+      expect(await processCalendarReplyDrop(path.join(dir, 'maildir'), BASE_URL)).toMatchObject([{ applied: true, summary: 'Jo said no to Garden Party.' }]);
+      expect(fs.readdirSync(path.join(dir, 'maildir', 'new'))).toEqual([]);
+      expect(fs.readdirSync(path.join(dir, 'maildir', 'cur'))).toEqual(['1.host:2,S']);
+
+      // A later change of mind, after an older reply
+      const mbox = [
+        'From someone@example.com Mon Jun  1 10:00:00 2030',
+        replyEmail(replyCalendar(`invite-${token}@x`, 'jo@example.com', 'ACCEPTED', Date.now() - 5000)).toString(),
+        'From someone@example.com Mon Jun  1 11:00:00 2030',
+        replyEmail(replyCalendar(`invite-${token}@x`, 'jo@example.com', 'ACCEPTED', Date.now() + 60000)).toString(),
+      ].join('\n');
+      await fs.promises.writeFile(path.join(dir, 'replies.mbox'), mbox);
+      const outcomes = await processCalendarReplyDrop(path.join(dir, 'replies.mbox'), BASE_URL);
+      expect(outcomes.map(o => o.applied)).toEqual([false, true]);
+      expect(getAttendeeById(attendeeId)!.rsvp).toBe('yes');
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,79 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+/**
+ * tests/cancellations.test.ts
+ * Jest tests for cancelling an event
+ */
+
+// Ensure in-memory DB before importing modules
+process.env.DB_PATH = ':memory:';
+
+import { initializeDatabase, getDatabase } from '../src/database';
+import { enqueueEmail, getAttendeeViewByToken, getEventById } from '../src/repository';
+import * as emailQueue from '../src/email-queue';
+import { cancelEventAndNotify } from '../src/cancellations';
+import { buildGuestCalendar } from '../src/calendar';
+import { BASE_URL, addGuest, holdEmailQueue, resetEvent } from './fixtures';
+
+jest.mock('../src/mail', () => ({
+  ...jest.requireActual('../src/mail'),
+  sendMail: jest.fn(),
+}));
+
+import { sendMail } from '../src/mail';
+
+initializeDatabase(':memory:');
+const db = getDatabase();
+const mockSendMail = sendMail as jest.MockedFunction<typeof sendMail>;
+
+describe('event cancellation', () => {
+  let jo: { id: number; token: string };
+  let sam: { id: number; token: string };
+
+  beforeEach(() => {
+    holdEmailQueue();
+    resetEvent();
+    jo = addGuest('Jo', { additionalEmails: ['partner@example.com'] });
+    sam = addGuest('Sam', { invited: false });
+    mockSendMail.mockReset().mockResolvedValue({ messageId: '<cancel@example.com>', accepted: [], rejected: [] });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('emails invited guests a calendar CANCEL and drops their other waiting email', async () => {
+    enqueueEmail('invitation', 1, sam.id, { appBaseUrl: BASE_URL });
+    expect(cancelEventAndNotify(1, 'The garden is flooded.', BASE_URL)).toBe(1);
+    expect(cancelEventAndNotify(1, null, BASE_URL)).toBeUndefined(); // Already cancelled
+    expect(getEventById(1)).toMatchObject({ cancellation_reason: 'The garden is flooded.', sequence: 1 });
+    expect(getAttendeeViewByToken(sam.token)!.event_cancelled_at).toEqual(expect.any(Number));
+
+    await emailQueue.processEmailQueue();
+    expect(mockSendMail).toHaveBeenCalledTimes(1);
+    const message = mockSendMail.mock.calls[0][0];
+    expect(message).toMatchObject({ to: 'jo@example.com', cc: ['partner@example.com'], subject: 'Cancelled: Garden Party' });
+    expect(message.text).toContain('The garden is flooded.');
+    const content = String(message.attachments![0].content);
+    expect(content).toContain('METHOD:CANCEL');
+    expect(content).toContain(`UID:invite-${jo.token}@rsvp.example.com`);
+    expect(content).toContain('STATUS:CANCELLED');
+    expect(content).toContain('SEQUENCE:1');
+    expect(db.prepare(`SELECT kind FROM email_queue`).all()).toEqual([{ kind: 'cancellation' }]);
+  });
+
+  it('cancels the calendar invitation itself for events that sent one', async () => {
+    db.prepare('UPDATE events SET calendar_invites = 1').run();
+    cancelEventAndNotify(1, null, BASE_URL);
+    await emailQueue.processEmailQueue();
+
+    const { icalEvent, text } = mockSendMail.mock.calls[0][0];
+    expect(icalEvent).toMatchObject({ method: 'CANCEL', content: expect.stringContaining(`UID:invite-${jo.token}@rsvp.example.com`) });
+    expect(icalEvent).toMatchObject({ content: expect.stringContaining('STATUS:CANCELLED') });
+    expect(text).not.toContain('null');
+
+    // The download link serves the cancellation too
+    expect(buildGuestCalendar(getEventById(1)!, jo.token, BASE_URL).content).toContain('METHOD:CANCEL');
+  });
+});
@@ -0,0 +1,76 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+/**
+ * tests/confirmations.test.ts
+ * Jest tests for RSVP confirmation emails
+ */
+
+// Ensure in-memory DB before importing modules
+process.env.DB_PATH = ':memory:';
+
+import { initializeDatabase, getDatabase } from '../src/database';
+import { getEventById, recordRsvp, setEventSendConfirmations } from '../src/repository';
+import * as emailQueue from '../src/email-queue';
+import { queueConfirmation } from '../src/confirmations';
+import { BASE_URL, addGuest, holdEmailQueue, resetEvent } from './fixtures';
+
+jest.mock('../src/mail', () => ({
+  sendMail: jest.fn(),
+}));
+
+import { sendMail } from '../src/mail';
+
+initializeDatabase(':memory:');
+const db = getDatabase();
+const mockSendMail = sendMail as jest.MockedFunction<typeof sendMail>;
+
+describe('RSVP confirmations', () => {
+  let attendeeId: number;
+
+  beforeEach(() => {
+    holdEmailQueue();
+    resetEvent();
+    attendeeId = addGuest('Jo', { additionalEmails: ['partner@example.com'], invited: false }).id;
+    mockSendMail.mockReset().mockResolvedValue({ messageId: '<confirm@example.com>', accepted: [], rejected: [] });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('is only sent for events that turned it on', () => {
+    expect(queueConfirmation(getEventById(1)!, attendeeId, BASE_URL)).toBe(false);
+    setEventSendConfirmations(1, true);
+    expect(queueConfirmation(getEventById(1)!, attendeeId, BASE_URL)).toBe(true);
+    expect(db.prepare(`SELECT COUNT(*) AS n FROM email_queue WHERE kind = 'confirmation'`).get()).toEqual({ n: 1 });
+  });
+
+  it('states the current answer to every address, with the calendar file attached', async () => {
+    setEventSendConfirmations(1, true);
+    recordRsvp(attendeeId, 'no', 1);
+    queueConfirmation(getEventById(1)!, attendeeId, BASE_URL);
+    recordRsvp(attendeeId, 'yes', 3); // Changed before the first confirmation went out
+    queueConfirmation(getEventById(1)!, attendeeId, BASE_URL);
+    await emailQueue.processEmailQueue();
+
+    expect(mockSendMail).toHaveBeenCalledTimes(1);
+    const message = mockSendMail.mock.calls[0][0];
+    expect(message).toMatchObject({ to: 'jo@example.com', cc: ['partner@example.com'], subject: 'Your RSVP for Garden Party: Yes, 3 people' });
+    expect(message.html).toContain('The Garden');
+    expect(message.html).toContain(`${BASE_URL}/rsvp/`);
+    const [attachment] = message.attachments!;
+    expect(attachment).toMatchObject({ filename: 'Garden_Party.ics', contentType: 'text/calendar; charset=utf-8' });
+    expect(attachment.content).toContain('SUMMARY:Garden Party');
+
+    expect(db.prepare(`SELECT kind, message_id FROM deliveries`).all()).toEqual([{ kind: 'confirmation', message_id: '<confirm@example.com>' }]);
+
+    // A later change gets its own confirmation
+    recordRsvp(attendeeId, 'no', 3);
+    queueConfirmation(getEventById(1)!, attendeeId, BASE_URL);
+    await emailQueue.processEmailQueue();
+    expect(mockSendMail).toHaveBeenCalledTimes(2);
+    expect(mockSendMail.mock.calls[1][0].subject).toBe('Your RSVP for Garden Party: No');
+    expect(mockSendMail.mock.calls[1][0].html).toContain("Sorry you can't make it.");
+  });
+});
@@ -8,7 +8,7 @@
 
 // Ensure in-memory DB before importing modules
 process.env.DB_PATH = ':memory:';
-import { upsertAttendee, initializeDatabase, getDatabase } from '../src/database';
+import { upsertAttendee, initializeDatabase, getDatabase, getAttendeeStatsForEvents, getEventAttendeeStats } from '../src/database';
 
 // Initialize database for tests
 initializeDatabase(':memory:');
@@ -94,3 +94,63 @@ describe('upsertAttendee', () => {
     expect(after.party_size).toBe(2); // Other fields should still update
   });
 });
+
+describe('getAttendeeStatsForEvents', () => {
+  beforeAll(() => {
+    db.prepare('INSERT INTO events (id, title, date) VALUES (?, ?, ?), (?, ?, ?), (?, ?, ?)')
+      .run(10, 'Stats A', Date.now(), 11, 'Stats B', Date.now(), 12, 'Empty', Date.now());
+    const insertAttendee = db.prepare(
+      'INSERT INTO attendees (event_id, name, email, party_size, token, rsvp, viewed_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+    );
+    const insertDelivery = db.prepare('INSERT INTO deliveries (attendee_id, kind, attempted_at, to_address, error) VALUES (?, ?, ?, ?, ?)');
+    const insert = (eventId: number, name: string, email: string, partySize: number, token: string,
+                    isSent: number, rsvp: string | null, viewedAt: number | null, sendError: string | null) => {
+      const attendeeId = insertAttendee.run(eventId, name, email, partySize, token, rsvp, viewedAt).lastInsertRowid;
+      if (isSent || sendError) insertDelivery.run(attendeeId, 'invitation', Date.now(), email, isSent ? null : sendError);
+    };
+    insert(10, 'Unsent', 'u@example.com', 2, 'tok-a1', 0, null, null, null);
+    insert(10, 'Failed', 'f@example.com', 1, 'tok-a2', 0, null, null, '550 mailbox unavailable');
+    insert(10, 'Waiting', 'w@example.com', 3, 'tok-a3', 1, null, null, null);
+    insert(10, 'Opened', 'o@example.com', 4, 'tok-a4', 1, null, Date.now(), null);
+    insert(10, 'Yes', 'y@example.com', 5, 'tok-a5', 1, 'yes', Date.now(), null);
+    insert(10, 'No', 'n@example.com', 6, 'tok-a6', 1, 'no', Date.now(), null);
+    insert(10, 'Maybe', 'm@example.com', 2, 'tok-a7', 1, 'maybe', Date.now(), null);
+    insert(11, 'Other', 'x@example.com', 7, 'tok-b1', 1, 'yes', null, null);
+  });
+
+  afterAll(() => {
+    db.prepare('DELETE FROM attendees WHERE event_id IN (10, 11, 12)').run();
+  });
+
+  it('computes every field for each requested event', () => {
+    const stats = getAttendeeStatsForEvents([10, 11]);
+    expect(stats.get(10)).toEqual({
+      potentialGuests: 23,
+      guestsNotSent: 3,
+      guestsInvited: 20,
+      guestsAwaitingReply: 7,
+      guestsViewedNotResponded: 4,
+      guestsAttending: 5,
+      guestsNotAttending: 6,
+      guestsMaybe: 2,
+      guestsWaitlisted: 0,
+      invitationsFailed: 1,
+    });
+    expect(stats.get(11)?.guestsAttending).toBe(7);
+  });
+
+  it('returns zeroed stats for events without attendees', () => {
+    const stats = getAttendeeStatsForEvents([12]);
+    expect(stats.get(12)).toEqual(getEventAttendeeStats(99999));
+    expect(stats.get(12)?.potentialGuests).toBe(0);
+  });
+
+  it('covers all events when no subset is given', () => {
+    const stats = getAttendeeStatsForEvents();
+    expect([...stats.keys()]).toEqual(expect.arrayContaining([10, 11, 12]));
+  });
+
+  it('agrees with getEventAttendeeStats', () => {
+    expect(getEventAttendeeStats(10)).toEqual(getAttendeeStatsForEvents([10]).get(10));
+  });
+});
@@ -0,0 +1,196 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+/**
+ * tests/email-queue.test.ts
+ * Jest tests for the durable outgoing email queue
+ */
+
+// Ensure in-memory DB and small limits before importing modules
+process.env.DB_PATH = ':memory:';
+process.env.EMAIL_RATE_PER_MINUTE = '3';
+process.env.EMAIL_MAX_ATTEMPTS = '3';
+process.env.EMAIL_RETRY_BASE_SECONDS = '60';
+
+import { initializeDatabase, getDatabase, upsertAttendee } from '../src/database';
+import {
+  enqueueEmail,
+  getEmailQueueStats,
+  listFailedEmailJobs,
+  requeueInterruptedEmailJobs,
+  retryFailedEmailJobs,
+} from '../src/repository';
+import {
+  PermanentEmailError,
+  processEmailQueue,
+  registerEmailHandler,
+  registerGuestEmailHandler,
+  retryDelay,
+} from '../src/email-queue';
+
+initializeDatabase(':memory:');
+const db = getDatabase();
+
+const handler = jest.fn();
+registerEmailHandler('test', handler);
+const guestSender = jest.fn();
+registerGuestEmailHandler('guest_test', guestSender, (attendee) => attendee.rsvp === 'no' ? 'they are not coming' : null);
+registerGuestEmailHandler('guest_cancelled_test', guestSender, undefined, { requireCancelled: true });
+
+const now = Date.UTC(2030, 0, 1);
+const MINUTE_MS = 60 * 1000;
+
+function addGuest(name: string, email: string): number {
+  upsertAttendee(1, name, email);
+  return (db.prepare('SELECT id FROM attendees WHERE email = ?').get(email) as { id: number }).id;
+}
+
+function queueForAttendees(count: number): void {
+  for (let i = 0; i < count; i++) {
+    const attendeeId = addGuest(`Guest ${i}`, `guest${i}@example.com`);
+    enqueueEmail('test', 1, attendeeId, { n: i }, now);
+  }
+}
+
+function statuses(): string[] {
+  return (db.prepare('SELECT status FROM email_queue ORDER BY id').all() as { status: string }[]).map(r => r.status);
+}
+
+describe('email queue', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+    db.prepare('DELETE FROM events').run();
+    db.prepare('DELETE FROM email_attempts').run();
+    db.prepare('INSERT INTO events (id, title, date) VALUES (1, ?, ?)').run('Party', now + 7 * 24 * 60 * MINUTE_MS);
+    handler.mockReset().mockResolvedValue(undefined);
+    guestSender.mockReset().mockResolvedValue({ messageId: '<guest@example.com>', accepted: [], rejected: [] });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('queues one unsent message of a kind per attendee', () => {
+    const attendeeId = addGuest('Jo', 'jo@example.com');
+    expect(enqueueEmail('test', 1, attendeeId, undefined, now)).toBe(true);
+    expect(enqueueEmail('test', 1, attendeeId, undefined, now)).toBe(false);
+    expect(enqueueEmail('other', 1, attendeeId, undefined, now)).toBe(true);
+  });
+
+  it('sends due messages up to the per-minute limit', async () => {
+    queueForAttendees(5);
+    expect(await processEmailQueue(now)).toBe(3);
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(JSON.parse(handler.mock.calls[0][0].payload)).toEqual({ n: 0 });
+    expect(getEmailQueueStats(1)).toMatchObject({ pending: 2, sent: 3, failed: 0 });
+
+    expect(await processEmailQueue(now + 30 * 1000)).toBe(0);
+    expect(await processEmailQueue(now + MINUTE_MS + 1)).toBe(2);
+    expect(statuses()).toEqual(['sent', 'sent', 'sent', 'sent', 'sent']);
+    expect(getEmailQueueStats(1)).toMatchObject({ pending: 0, sent: 0 });
+  });
+
+  it('counts every attempt against the limit, retries included', async () => {
+    queueForAttendees(1);
+    handler.mockRejectedValueOnce(Object.assign(new Error('550 no such user'), { responseCode: 550 }));
+    await processEmailQueue(now);
+    retryFailedEmailJobs(1, undefined, now);
+    await processEmailQueue(now);
+    expect(statuses()).toEqual(['sent']);
+
+    enqueueEmail('test', 1, addGuest('Jo', 'jo@example.com'), undefined, now);
+    enqueueEmail('test', 1, addGuest('Sam', 'sam@example.com'), undefined, now);
+    expect(await processEmailQueue(now)).toBe(1);
+  });
+
+  it('retries transient failures with exponential backoff, then gives up', async () => {
+    queueForAttendees(1);
+    handler.mockRejectedValue(Object.assign(new Error('421 try again later'), { responseCode: 421 }));
+
+    await processEmailQueue(now);
+    const job = db.prepare('SELECT status, attempts, next_attempt_at, last_error FROM email_queue').get();
+    expect(job).toEqual({ status: 'pending', attempts: 1, next_attempt_at: now + retryDelay(1), last_error: '421 try again later' });
+    expect(getEmailQueueStats(1)).toMatchObject({ retrying: 1, nextAttemptAt: now + MINUTE_MS });
+
+    expect(await processEmailQueue(now + MINUTE_MS - 1)).toBe(0);
+    await processEmailQueue(now + 10 * MINUTE_MS);
+    expect(db.prepare('SELECT next_attempt_at FROM email_queue').get()).toEqual({ next_attempt_at: now + 10 * MINUTE_MS + retryDelay(2) });
+    expect(retryDelay(2)).toBe(2 * MINUTE_MS);
+
+    await processEmailQueue(now + 20 * MINUTE_MS);
+    expect(statuses()).toEqual(['failed']);
+    expect(handler).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up at once on permanent failures, and can be retried by hand', async () => {
+    queueForAttendees(2);
+    handler
+      .mockRejectedValueOnce(Object.assign(new Error('550 no such user'), { responseCode: 550 }))
+      .mockRejectedValueOnce(new PermanentEmailError('The event is being deleted.'));
+
+    await processEmailQueue(now);
+    expect(statuses()).toEqual(['failed', 'failed']);
+    expect(listFailedEmailJobs(1).map(j => [j.attendee_name, j.last_error])).toEqual([
+      ['Guest 0', '550 no such user'],
+      ['Guest 1', 'The event is being deleted.'],
+    ]);
+
+    expect(retryFailedEmailJobs(1, listFailedEmailJobs(1)[0].id, now + MINUTE_MS)).toBe(1);
+    await processEmailQueue(now + MINUTE_MS);
+    expect(statuses()).toEqual(['sent', 'failed']);
+  });
+
+  it('requeues messages interrupted mid-send', async () => {
+    queueForAttendees(1);
+    db.prepare(`UPDATE email_queue SET status = 'sending'`).run();
+    expect(await processEmailQueue(now)).toBe(0);
+    expect(requeueInterruptedEmailJobs()).toBe(1);
+    expect(await processEmailQueue(now)).toBe(1);
+  });
+
+  it('fails messages nobody knows how to send', async () => {
+    const attendeeId = addGuest('Jo', 'jo@example.com');
+    enqueueEmail('unknown', 1, attendeeId, undefined, now);
+    await processEmailQueue(now);
+    expect(listFailedEmailJobs(1)[0].last_error).toBe('No handler for "unknown" emails.');
+  });
+
+  it('sends guest emails only while they apply, logging each attempt in the guest\'s deliveries', async () => {
+    jest.spyOn(console, 'log').mockImplementation();
+    const jo = addGuest('Jo', 'jo@example.com');
+    const sam = addGuest('Sam', 'sam@example.com');
+    db.prepare(`UPDATE attendees SET rsvp = 'no' WHERE id = ?`).run(sam);
+    enqueueEmail('guest_test', 1, jo, { appBaseUrl: 'https://rsvp.example.com' }, now);
+    enqueueEmail('guest_test', 1, sam, undefined, now);
+    await processEmailQueue(now);
+
+    expect(guestSender).toHaveBeenCalledTimes(1);
+    expect(guestSender.mock.calls[0].slice(1, 3)).toEqual(['jo@example.com', []]);
+    expect(guestSender.mock.calls[0][4]).toEqual({ appBaseUrl: 'https://rsvp.example.com' });
+    expect(statuses()).toEqual(['sent', 'sent']); // Skipped, not failed
+    expect(db.prepare('SELECT attendee_id, kind, message_id FROM deliveries').all())
+      .toEqual([{ attendee_id: jo, kind: 'guest_test', message_id: '<guest@example.com>' }]);
+
+    // Gives up once the event is cancelled; a failed send is logged too
+    guestSender.mockRejectedValueOnce(new Error('Connection refused'));
+    enqueueEmail('guest_test', 1, jo, undefined, now);
+    await processEmailQueue(now);
+    expect(db.prepare('SELECT error FROM deliveries ORDER BY id DESC').get()).toEqual({ error: 'Connection refused' });
+    db.prepare('UPDATE events SET cancelled_at = ?').run(now);
+    await processEmailQueue(now + 60 * MINUTE_MS); // Retried after the backoff
+    expect(listFailedEmailJobs(1).map(j => j.last_error)).toEqual(['The event was cancelled.']);
+  });
+
+  it('sends guest emails that require a cancelled event only once it is cancelled', async () => {
+    const jo = addGuest('Jo', 'jo@example.com');
+    enqueueEmail('guest_cancelled_test', 1, jo, undefined, now);
+    await processEmailQueue(now);
+    expect(listFailedEmailJobs(1).map(j => j.last_error)).toEqual(['The event is not cancelled.']);
+
+    db.prepare('UPDATE events SET cancelled_at = ?').run(now);
+    enqueueEmail('guest_cancelled_test', 1, jo, undefined, now);
+    await processEmailQueue(now);
+    expect(guestSender).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,129 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+/**
+ * tests/email-templates.test.ts
+ * Jest tests for editable email templates
+ */
+
+// Ensure in-memory DB before importing modules
+process.env.DB_PATH = ':memory:';
+import { initializeDatabase, getDatabase } from '../src/database';
+import type { EventRecord } from '../src/database';
+import { deleteEmailTemplate, getEmailTemplate, saveEmailTemplate } from '../src/repository';
+import {
+  describeTimeUntil,
+  EmailTemplateError,
+  renderEmail,
+  renderGuestEmail,
+  renderTemplate,
+  resolveEmailTemplate,
+  validateEmailTemplate,
+} from '../src/email-templates';
+
+initializeDatabase(':memory:');
+const db = getDatabase();
+
+const event: EventRecord = {
+  id: 1,
+  title: 'Fish & Chips',
+  description: '<p>Bring <b>napkins</b></p>',
+  date: Date.UTC(2030, 5, 7, 23, 0),
+  date_end: null,
+  location_name: 'The Pier',
+  location_href: 'https://maps.example.com/?q=pier&z=1',
+  timezone: 'America/New_York',
+};
+const guest = { name: 'Jo <Jojo>', token: 'tok123', party_size: 3 };
+
+describe('renderTemplate', () => {
+  const values = { name: { text: 'A & B' }, link: { text: 'x', html: '<a href="x">x</a>' }, empty: { text: '' } };
+
+  it('escapes values in HTML and leaves them alone in text', () => {
+    expect(renderTemplate('Hi {{name}} {{ link }}', values, 'html')).toBe('Hi A &amp; B <a href="x">x</a>');
+    expect(renderTemplate('Hi {{name}} {{link}}', values, 'text')).toBe('Hi A & B x');
+  });
+
+  it('drops sections whose value is empty, including nested ones', () => {
+    expect(renderTemplate('[{{#name}}n{{#empty}}e{{#link}}l{{/link}}{{/empty}}{{/name}}]', values, 'text')).toBe('[n]');
+    expect(renderTemplate('[{{#empty}}{{name}}{{/empty}}]', values, 'text')).toBe('[]');
+  });
+
+  it('rejects unknown placeholders and unbalanced sections', () => {
+    expect(() => renderTemplate('{{nope}}', values, 'text')).toThrow(new EmailTemplateError('Unknown placeholder {{nope}}.'));
+    expect(() => renderTemplate('{{#name}}', values, 'text')).toThrow('{{#name}} is never closed.');
+    expect(() => renderTemplate('{{#name}}{{/link}}', values, 'text')).toThrow('{{/link}} does not match');
+  });
+});
+
+describe('validateEmailTemplate', () => {
+  it('requires a subject and body using known placeholders', () => {
+    expect(() => validateEmailTemplate('invitation', { subject: ' ', body: 'x' })).toThrow('The subject cannot be empty.');
+    expect(() => validateEmailTemplate('invitation', { subject: 'x', body: '{{guest}}' })).toThrow('Unknown placeholder {{guest}}.');
+    expect(() => validateEmailTemplate('invitation', { subject: '{{event_title}}', body: '{{#event_location}}{{event_location}}{{/event_location}}' })).not.toThrow();
+  });
+});
+
+describe('invitation templates', () => {
+  beforeEach(() => {
+    db.prepare('DELETE FROM events').run();
+    db.prepare('INSERT INTO events (id, title, date) VALUES (1, ?, ?), (2, ?, ?)').run('One', event.date, 'Two', event.date);
+  });
+
+  it('renders the built-in invitation', () => {
+    const email = renderGuestEmail('invitation', event, guest, 'https://rsvp.example.com');
+    expect(email.subject).toBe('Invitation: Fish & Chips');
+    expect(email.html).toContain('<p>Hi Jo &lt;Jojo&gt;,</p>');
+    expect(email.html).toContain('<strong>Fish &amp; Chips</strong>');
+    expect(email.html).toContain('<a href="https://maps.example.com/?q=pier&amp;z=1" target="_blank">The Pier</a>');
+    expect(email.html).toContain('Bring napkins');
+    expect(email.html).toContain('<a href="https://rsvp.example.com/rsvp/tok123">https://rsvp.example.com/rsvp/tok123</a>');
+    expect(email.html).toContain('https://rsvp.example.com/ics/tok123');
+    expect(email.text).toContain('Hi Jo <Jojo>,');
+    expect(email.text).toContain('7:00 PM');
+  });
+
+  it('leaves out the location and details sections when the event has none', () => {
+    const bare = { ...event, location_name: null, location_href: null, description: null };
+    const email = renderGuestEmail('invitation', bare, guest, 'https://rsvp.example.com');
+    expect(email.html).not.toContain('Where:');
+    expect(email.html).not.toContain('Event Details:');
+  });
+
+  it('uses the event template, then the instance default, then the built-in one', () => {
+    expect(resolveEmailTemplate('invitation', 1).source).toBe('built-in');
+
+    saveEmailTemplate('invitation', null, 'Default {{event_title}}', 'Default body');
+    saveEmailTemplate('invitation', 1, 'Own {{event_title}}', 'For {{party_size}}');
+    saveEmailTemplate('invitation', 1, 'Own {{event_title}}!', 'For {{party_size}}');
+    expect(db.prepare('SELECT COUNT(*) AS n FROM email_templates').get()).toEqual({ n: 2 });
+
+    expect(resolveEmailTemplate('invitation', 1)).toEqual({ template: { subject: 'Own {{event_title}}!', body: 'For {{party_size}}' }, source: 'event' });
+    expect(resolveEmailTemplate('invitation', 2).source).toBe('instance');
+    expect(renderGuestEmail('invitation', event, guest, '')).toMatchObject({ subject: 'Own Fish & Chips!', text: 'For 3' });
+
+    deleteEmailTemplate('invitation', 1);
+    expect(getEmailTemplate('invitation', 1)).toBeUndefined();
+    expect(resolveEmailTemplate('invitation', 1).source).toBe('instance');
+    deleteEmailTemplate('invitation', null);
+  });
+
+  it('drops an event template along with its event', () => {
+    saveEmailTemplate('invitation', 2, 'S', 'B');
+    db.prepare('DELETE FROM events WHERE id = 2').run();
+    expect(getEmailTemplate('invitation', 2)).toBeUndefined();
+  });
+
+  it('renders reminders with the time left until the event', () => {
+    const email = renderGuestEmail('reminder', event, guest, 'https://rsvp.example.com', undefined, event.date - 3 * 24 * 60 * 60 * 1000);
+    expect(email.subject).toBe('Reminder: Fish & Chips is in 3 days');
+    expect(email.html).toContain('https://rsvp.example.com/ics/tok123');
+    expect(describeTimeUntil(event.date, event.date - 90 * 60 * 1000)).toBe('in 2 hours');
+    expect(describeTimeUntil(event.date, event.date - 20 * 60 * 1000)).toBe('starting soon');
+    expect(() => validateEmailTemplate('invitation', { subject: '{{time_until}}', body: 'x' })).toThrow('Unknown placeholder');
+  });
+
+  it('keeps subjects on one line', () => {
+    expect(renderEmail({ subject: 'A\n  {{guest_name}}', body: 'b' }, { guest_name: { text: 'x\r\nBcc: y' } }).subject).toBe('A x Bcc: y');
+  });
+});
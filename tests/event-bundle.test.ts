@@ -0,0 +1,291 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+/**
+ * tests/event-bundle.test.ts
+ * Jest tests for event export/import bundles
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as tar from 'tar';
+
+// Ensure in-memory DB and a scratch banner directory before importing modules
+const bannerDir = fs.mkdtempSync(path.join(os.tmpdir(), 'odette-banners-'));
+process.env.DB_PATH = ':memory:';
+process.env.EVENT_BANNER_STORAGE_PATH = bannerDir;
+
+import { initializeDatabase, getDatabase, upsertAttendee } from '../src/database';
+import {
+  createEvent,
+  createReminderRule,
+  createRsvpQuestion,
+  getEventAttendeeTags,
+  getEventById,
+  getEventRsvpHistory,
+  getEventSnapshot,
+  listEventAttendees,
+  recordRsvp,
+  setAttendeeLateRsvpAllowed,
+  setAttendeeWaitlisted,
+  setEventAllowMaybe,
+  setEventBanner,
+  setEventCalendarInvites,
+  setEventCapacity,
+  setEventResponsesReopened,
+  setEventRsvpDeadline,
+  setEventSendConfirmations,
+} from '../src/repository';
+import { EventBundleError, exportEventBundle, findEmailCollisions, importEventBundle } from '../src/event-bundle';
+
+initializeDatabase(':memory:');
+const db = getDatabase();
+
+/** Build a bundle archive from an event.json object, as another instance might have */
+async function makeBundle(eventJson: object): Promise<Buffer> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'odette-bundle-test-'));
+  fs.writeFileSync(path.join(dir, 'event.json'), JSON.stringify(eventJson));
+  const archivePath = path.join(dir, 'bundle.tar.gz');
+  await tar.c({ gzip: true, file: archivePath, cwd: dir }, ['event.json']);
+  const data = fs.readFileSync(archivePath);
+  fs.rmSync(dir, { recursive: true, force: true });
+  return data;
+}
+
+describe('event bundles', () => {
+  let sourceEventId: number;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+    db.prepare('DELETE FROM events').run();
+    sourceEventId = createEvent({
+      title: 'Wedding', date: Date.parse('2030-06-01T18:00:00Z'), description: '<p>Hi</p>',
+      location_name: 'Hall', location_href: null, date_end: null, timezone: 'Europe/Paris',
+    });
+    fs.writeFileSync(path.join(bannerDir, 'event-1-banner.png'), 'png');
+    setEventBanner(sourceEventId, 'event-1-banner.png');
+    upsertAttendee(sourceEventId, 'Jo', 'jo@example.com', 2, ['partner@example.com'], ['family']);
+    upsertAttendee(sourceEventId, 'Sam', 'sam@example.com', 1);
+    const jo = listEventAttendees(sourceEventId).find(a => a.email === 'jo@example.com')!;
+    recordRsvp(jo.id, 'yes', 3);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    fs.rmSync(bannerDir, { recursive: true, force: true });
+  });
+
+  it('returns undefined when exporting an unknown event', async () => {
+    expect(await exportEventBundle(9999)).toBeUndefined();
+  });
+
+  it('recreates the event, attendees, RSVPs, history, tags and banner with the same tokens', async () => {
+    const bundle = (await exportEventBundle(sourceEventId))!;
+    expect(bundle.filename).toBe('Wedding.odette-event.tar.gz');
+    const sourceAttendees = listEventAttendees(sourceEventId);
+    // Importing into the same instance with kept tokens would collide, so remove the source first
+    db.prepare('DELETE FROM events WHERE id = ?').run(sourceEventId);
+
+    const result = await importEventBundle(bundle.data, { tokens: 'keep' });
+
+    const event = getEventById(result.eventId)!;
+    expect(event).toMatchObject({ title: 'Wedding', location_name: 'Hall', timezone: 'Europe/Paris', description: '<p>Hi</p>' });
+    expect(event.banner_image_filename).toMatch(new RegExp(`^event-${result.eventId}-\\d+\\.png$`));
+    expect(fs.readFileSync(path.join(bannerDir, event.banner_image_filename!), 'utf8')).toBe('png');
+
+    const attendees = listEventAttendees(result.eventId);
+    expect(result.attendeeCount).toBe(2);
+    expect(attendees.map(a => a.token).sort()).toEqual(sourceAttendees.map(a => a.token).sort());
+    const jo = attendees.find(a => a.email === 'jo@example.com')!;
+    expect(jo).toMatchObject({ rsvp: 'yes', party_size: 3, additional_emails: '["partner@example.com"]' });
+    expect(getEventAttendeeTags(result.eventId)[jo.id]).toEqual(['family']);
+    expect(getEventRsvpHistory(result.eventId)[jo.id]).toEqual([
+      expect.objectContaining({ old_rsvp: null, new_rsvp: 'yes', new_party_size: 3 }),
+    ]);
+  });
+
+  it('recreates the event\'s settings, questions, answers, party members, waitlist and reminders sent', async () => {
+    setEventSendConfirmations(sourceEventId, true);
+    setEventCalendarInvites(sourceEventId, true);
+    setEventAllowMaybe(sourceEventId, true);
+    setEventCapacity(sourceEventId, 3);
+    setEventRsvpDeadline(sourceEventId, Date.parse('2030-05-25T00:00:00Z'));
+    setEventResponsesReopened(sourceEventId, true);
+    const meal = createRsvpQuestion(sourceEventId, {
+      type: 'single_choice', label: 'Meal', options: ['Fish', 'Veg'], required: true, attendingOnly: true, perPerson: true,
+    });
+    const songs = createRsvpQuestion(sourceEventId, {
+      type: 'multi_choice', label: 'Songs', options: ['A', 'B'], required: false, attendingOnly: false, perPerson: false,
+    });
+    createReminderRule(sourceEventId, 1, 'no_reply');
+    const week = createReminderRule(sourceEventId, 7, 'attending');
+
+    const attendees = listEventAttendees(sourceEventId);
+    const jo = attendees.find(a => a.email === 'jo@example.com')!;
+    const sam = attendees.find(a => a.email === 'sam@example.com')!;
+    recordRsvp(jo.id, 'yes', 2, {}, { [meal]: 'Fish', [songs]: ['A', 'B'] }, [{ name: 'Pat', answers: { [meal]: 'Veg' } }]);
+    recordRsvp(sam.id, 'maybe', 1);
+    setAttendeeWaitlisted(jo.id, Date.parse('2030-05-01T00:00:00Z'));
+    setAttendeeLateRsvpAllowed(sam.id, true);
+    db.prepare('INSERT INTO reminder_sends (rule_id, attendee_id, queued_at) VALUES (?, ?, 0)').run(week, jo.id);
+
+    const source = getEventSnapshot(sourceEventId)!;
+    expect(source.attendees.find(a => a.name === 'Jo')).toMatchObject({
+      answers: { 0: 'Fish', 1: ['A', 'B'] }, members: [{ name: 'Pat', answers: { 0: 'Veg' } }], reminded: [0],
+    });
+    const bundle = (await exportEventBundle(sourceEventId))!;
+    db.prepare('DELETE FROM events WHERE id = ?').run(sourceEventId);
+
+    const result = await importEventBundle(bundle.data, { tokens: 'keep' });
+
+    expect(getEventSnapshot(result.eventId)).toEqual(source);
+  });
+
+  it('forgets which reminders were sent when regenerating tokens', async () => {
+    const rule = createReminderRule(sourceEventId, 7, 'no_reply');
+    db.prepare('INSERT INTO reminder_sends (rule_id, attendee_id, queued_at) SELECT ?, id, 0 FROM attendees').run(rule);
+    const bundle = (await exportEventBundle(sourceEventId))!;
+
+    const result = await importEventBundle(bundle.data, { tokens: 'regenerate' });
+
+    expect(getEventSnapshot(result.eventId)!.reminder_rules).toEqual([{ days_before: 7, audience: 'no_reply' }]);
+    expect(getEventSnapshot(result.eventId)!.attendees.map(a => a.reminded)).toEqual([[], []]);
+  });
+
+  it('imports format 1 bundles with default settings and no questions or reminders', async () => {
+    const data = await makeBundle({
+      format: 1,
+      exported_at: Date.now(),
+      event: { title: 'Old', date: Date.now() },
+      attendees: [{ name: 'Jo', email: 'jo@example.com', token: 'c'.repeat(32), party_size: 1, rsvp: 'yes' }],
+    });
+
+    const result = await importEventBundle(data, { tokens: 'keep' });
+
+    expect(getEventSnapshot(result.eventId)).toMatchObject({
+      event: { title: 'Old', allow_maybe: 0, capacity: null, rsvp_deadline: null },
+      questions: [],
+      reminder_rules: [],
+      attendees: [{ rsvp: 'yes', waitlisted_at: null, late_rsvp_allowed: 0, answers: {}, members: [], reminded: [] }],
+    });
+  });
+
+  it('accepts answers that fit their questions', async () => {
+    const data = await makeBundle({
+      format: 2,
+      exported_at: Date.now(),
+      event: { title: 'Good', date: Date.now() },
+      questions: [
+        { type: 'text', label: 'Note' },
+        { type: 'single_choice', label: 'Meal', options: ['Fish', 'Veg'], per_person: 1 },
+        { type: 'number', label: 'Age', per_person: 1 },
+      ],
+      attendees: [{
+        name: 'Jo', email: 'jo@example.com', token: 'e'.repeat(32), party_size: 2,
+        answers: { 0: 'Hi', 1: 'Fish', 2: 30 },
+        members: [{ name: 'Pat', answers: { 1: 'Veg', 2: 8 } }],
+      }],
+    });
+
+    const result = await importEventBundle(data, { tokens: 'keep' });
+
+    expect(getEventSnapshot(result.eventId)?.attendees).toMatchObject([
+      { answers: { 0: 'Hi', 1: 'Fish', 2: 30 }, members: [{ name: 'Pat', answers: { 1: 'Veg', 2: 8 } }] },
+    ]);
+  });
+
+  it.each([
+    ['an unknown RSVP', { rsvp: 'perhaps' }, /Attendee #1/],
+    ['an unknown RSVP in the history', { history: [{ changed_at: 0, new_rsvp: 'sure', new_party_size: 1 }] }, /Attendee #1/],
+    ['an answer to a question the bundle lacks', { answers: { 3: 'Fish' } }, /Attendee #1/],
+    ['a choice that is not offered', { answers: { 1: 'Pizza' } }, /Attendee #1/],
+    ['text for a number question', { answers: { 2: 'ten' } }, /Attendee #1/],
+    ['a number for a text question', { answers: { 0: 5 } }, /Attendee #1/],
+    ['a party member answering a question asked once per guest', { party_size: 2, members: [{ name: 'Pat', answers: { 0: 'Hi' } }] }, /Attendee #1/],
+    ['a reminder the bundle lacks', { reminded: [1] }, /Attendee #1/],
+  ])('rejects attendees with %s', async (_case, fields, error) => {
+    const data = await makeBundle({
+      format: 2,
+      exported_at: Date.now(),
+      event: { title: 'Bad', date: Date.now() },
+      questions: [
+        { type: 'text', label: 'Note' },
+        { type: 'single_choice', label: 'Meal', options: ['Fish', 'Veg'], per_person: 1 },
+        { type: 'number', label: 'Age', per_person: 1 },
+      ],
+      reminder_rules: [{ days_before: 1, audience: 'attending' }],
+      attendees: [{ name: 'Jo', email: 'jo@example.com', token: 'd'.repeat(32), ...fields }],
+    });
+
+    await expect(importEventBundle(data, { tokens: 'keep' })).rejects.toThrow(error);
+    expect(db.prepare("SELECT COUNT(*) AS n FROM events WHERE title = 'Bad'").get()).toEqual({ n: 0 });
+  });
+
+  it('rejects unknown question types, choice questions without choices, unknown reminder audiences and capacities', async () => {
+    const bundle = (extra: object) => makeBundle({
+      format: 2, exported_at: Date.now(), event: { title: 'Bad', date: Date.now() }, attendees: [], ...extra,
+    });
+    await expect(importEventBundle(await bundle({ questions: [{ type: 'essay', label: 'Why' }] }), { tokens: 'keep' }))
+      .rejects.toThrow(/Question #1/);
+    await expect(importEventBundle(await bundle({ questions: [{ type: 'single_choice', label: 'Meal', options: [] }] }), { tokens: 'keep' }))
+      .rejects.toThrow(/Question #1/);
+    await expect(importEventBundle(await bundle({ reminder_rules: [{ days_before: 1, audience: 'everyone' }] }), { tokens: 'keep' }))
+      .rejects.toThrow(/Reminder #1/);
+    await expect(importEventBundle(await bundle({ event: { title: 'Bad', date: Date.now(), capacity: 0 } }), { tokens: 'keep' }))
+      .rejects.toThrow(/malformed event/);
+  });
+
+  it('refuses to keep tokens that are already in use, leaving nothing behind', async () => {
+    const bundle = (await exportEventBundle(sourceEventId))!;
+
+    await expect(importEventBundle(bundle.data, { tokens: 'keep' })).rejects.toThrow(/already in use/);
+    expect(db.prepare('SELECT COUNT(*) AS n FROM events').get()).toEqual({ n: 1 });
+  });
+
+  it('issues new tokens and marks attendees as not yet invited when regenerating', async () => {
+    db.prepare(`INSERT INTO deliveries (attendee_id, kind, attempted_at, to_address) SELECT id, 'invitation', 0, email FROM attendees`).run();
+    const bundle = (await exportEventBundle(sourceEventId))!;
+    const sourceTokens = listEventAttendees(sourceEventId).map(a => a.token);
+
+    const result = await importEventBundle(bundle.data, { tokens: 'regenerate' });
+
+    const attendees = listEventAttendees(result.eventId);
+    expect(attendees).toHaveLength(2);
+    attendees.forEach(a => {
+      expect(sourceTokens).not.toContain(a.token);
+      expect(a.is_sent).toBe(0);
+    });
+  });
+
+  it('rejects bundles whose attendees collide under upsertAttendee email matching', async () => {
+    const attendee = (email: string, token: string) => ({ name: 'X', email, token, party_size: 1, rsvp: null });
+    const data = await makeBundle({
+      format: 1,
+      exported_at: Date.now(),
+      event: { title: 'Dupes', date: Date.now() },
+      attendees: [attendee('Bob@Example.com', 'a'.repeat(32)), attendee(' bob@example.com', 'b'.repeat(32))],
+    });
+
+    await expect(importEventBundle(data, { tokens: 'keep' })).rejects.toThrow(/share an email address: Bob@Example.com \/  bob@example.com/);
+    expect(db.prepare("SELECT COUNT(*) AS n FROM events WHERE title = 'Dupes'").get()).toEqual({ n: 0 });
+  });
+
+  it('rejects archives that are not event bundles', async () => {
+    await expect(importEventBundle(Buffer.from('not a tarball'), { tokens: 'keep' })).rejects.toThrow(EventBundleError);
+    await expect(importEventBundle(await makeBundle({ format: 3 }), { tokens: 'keep' })).rejects.toThrow(/Unsupported bundle format/);
+  });
+});
+
+describe('findEmailCollisions', () => {
+  it('groups emails that differ only by case or surrounding whitespace', () => {
+    expect(findEmailCollisions([
+      { email: 'a@example.com' },
+      { email: 'B@example.com' },
+      { email: 'b@example.com ' },
+    ])).toEqual([['B@example.com', 'b@example.com ']]);
+  });
+});
@@ -0,0 +1,176 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+/**
+ * tests/event-updates.test.ts
+ * Jest tests for "event updated" emails to invited guests
+ */
+
+// Ensure in-memory DB before importing modules
+process.env.DB_PATH = ':memory:';
+
+import { initializeDatabase, getDatabase, ensureContact, type EventInput, type SeriesInput } from '../src/database';
+import {
+  addSeriesMember,
+  createSeries,
+  getEventById,
+  listEventAttendees,
+  listSeriesOccurrences,
+  recordDelivery,
+  requeueFailedDeliveries,
+  updateEvent,
+  updateSeries,
+} from '../src/repository';
+import * as emailQueue from '../src/email-queue';
+import { describeEventChanges, describeSeriesChanges, queueEventUpdates } from '../src/event-updates';
+import { createUpcomingOccurrences } from '../src/series';
+import { BASE_URL, addGuest, holdEmailQueue, resetEvent } from './fixtures';
+
+jest.mock('../src/mail', () => ({
+  sendMail: jest.fn(),
+}));
+
+import { sendMail } from '../src/mail';
+
+initializeDatabase(':memory:');
+const db = getDatabase();
+const mockSendMail = sendMail as jest.MockedFunction<typeof sendMail>;
+
+const PARTY: EventInput = {
+  title: 'Garden Party',
+  date: Date.UTC(2030, 5, 1, 17),
+  description: null,
+  location_name: 'The Garden',
+  location_href: null,
+  date_end: null,
+  timezone: 'UTC',
+};
+
+describe('event updates', () => {
+  beforeEach(() => {
+    holdEmailQueue();
+    resetEvent({ timezone: PARTY.timezone });
+    addGuest('Jo');
+    addGuest('Sam', { invited: false });
+    mockSendMail.mockReset().mockResolvedValue({ messageId: '<update@example.com>', accepted: [], rejected: [] });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('bumps the calendar sequence only when the time or place changes', () => {
+    updateEvent(1, { ...PARTY, title: 'Garden Party!', description: 'Bring a hat' });
+    expect(getEventById(1)!.sequence).toBe(0);
+    updateEvent(1, { ...PARTY, location_name: 'The Park' });
+    expect(getEventById(1)!.sequence).toBe(1);
+  });
+
+  it('describes what changed', () => {
+    const before = getEventById(1)!;
+    expect(describeEventChanges(before, { ...before, description: 'New words' })).toEqual([]);
+    expect(describeEventChanges(before, { ...before, location_name: 'The Park', location_href: 'https://maps.example.com' })).toEqual([
+      { label: 'Where', before: 'The Garden', after: 'The Park, https://maps.example.com' },
+    ]);
+    expect(describeEventChanges(before, { ...before, timezone: 'America/New_York' }).map(c => c.label)).toEqual(['When']);
+  });
+
+  it('emails invited guests once for several edits, with the new calendar entry', async () => {
+    const original = getEventById(1)!;
+    updateEvent(1, { ...PARTY, location_name: 'The Park' });
+    expect(queueEventUpdates(1, original, BASE_URL)).toBe(1);
+    const edited = getEventById(1)!;
+    updateEvent(1, { ...PARTY, location_name: 'The Beach' });
+    queueEventUpdates(1, edited, BASE_URL);
+    await emailQueue.processEmailQueue();
+
+    expect(mockSendMail).toHaveBeenCalledTimes(1);
+    const message = mockSendMail.mock.calls[0][0];
+    expect(message).toMatchObject({ to: 'jo@example.com', subject: 'Updated: Garden Party' });
+    expect(message.text).toMatch(/Where: The Beach\s+was The Garden/);
+    const [attachment] = message.attachments!;
+    expect(attachment.content).toContain('SEQUENCE:2');
+    expect(attachment.content).toContain('LOCATION:The Beach');
+    expect(db.prepare(`SELECT kind, message_id FROM deliveries WHERE kind = 'update'`).all()).toEqual([{ kind: 'update', message_id: '<update@example.com>' }]);
+  });
+
+  it('tells guests what changed when a failed update is retried', async () => {
+    const [jo] = listEventAttendees(1).filter(a => a.name === 'Jo');
+    const original = getEventById(1)!;
+    updateEvent(1, { ...PARTY, location_name: 'The Park' });
+    queueEventUpdates(1, original, BASE_URL);
+    jest.spyOn(console, 'error').mockImplementation();
+    mockSendMail.mockRejectedValueOnce(Object.assign(new Error('550 mailbox full'), { responseCode: 550 }));
+    await emailQueue.processEmailQueue();
+    expect(db.prepare(`SELECT status FROM email_queue WHERE kind = 'update'`).get()).toEqual({ status: 'failed' });
+
+    expect(requeueFailedDeliveries(1, { appBaseUrl: BASE_URL }, jo.id)).toBe(1);
+    await emailQueue.processEmailQueue();
+    expect(mockSendMail).toHaveBeenCalledTimes(2);
+    expect(mockSendMail.mock.calls[1][0].text).toMatch(/Where: The Park\s+was The Garden/);
+  });
+
+  it('sends nothing if the event was changed back before the email went out', async () => {
+    const original = getEventById(1)!;
+    updateEvent(1, { ...PARTY, date: PARTY.date + 3600000 });
+    queueEventUpdates(1, original, BASE_URL);
+    updateEvent(1, PARTY);
+    await emailQueue.processEmailQueue();
+
+    expect(mockSendMail).not.toHaveBeenCalled();
+    expect(db.prepare(`SELECT COUNT(*) AS n FROM email_queue WHERE status = 'pending'`).get()).toEqual({ n: 0 });
+  });
+});
+
+describe('series updates', () => {
+  const now = Date.UTC(2030, 0, 1);
+  const GAME_NIGHT: SeriesInput = {
+    title: 'Game Night',
+    description: null,
+    location_name: 'The Pub',
+    location_href: null,
+    timezone: 'Europe/Paris',
+    dtstart: Date.UTC(2030, 0, 11, 18),
+    duration_ms: null,
+    rrule: 'FREQ=MONTHLY;BYDAY=+2FR',
+    horizon_days: 60,
+  };
+
+  beforeEach(() => {
+    holdEmailQueue();
+    db.prepare('DELETE FROM events').run();
+    db.prepare('DELETE FROM series').run();
+    mockSendMail.mockReset().mockResolvedValue({ messageId: '<update@example.com>', accepted: [], rejected: [] });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('emails the invited guests of upcoming occurrences whose place changes', async () => {
+    const seriesId = createSeries(GAME_NIGHT);
+    addSeriesMember(seriesId, ensureContact('Jo', 'jo@example.com', null), 1, now);
+    createUpcomingOccurrences(seriesId, now);
+    const [first, second] = listSeriesOccurrences(seriesId);
+    const [jo] = listEventAttendees(first.id);
+    recordDelivery(jo.id, 'invitation', { to: 'jo@example.com', messageId: '<invite@example.com>' }); // Only the first went out
+
+    const moved = { ...GAME_NIGHT, title: 'Board Game Night', location_name: 'The Library' };
+    expect(describeSeriesChanges(seriesId, { ...GAME_NIGHT, title: 'Board Game Night' }, now)).toEqual([]);
+    const changed = describeSeriesChanges(seriesId, moved, now);
+    expect(changed).toEqual([{
+      event: expect.objectContaining({ id: first.id, location_name: 'The Pub' }),
+      changes: [{ label: 'Where', before: 'The Pub', after: 'The Library' }],
+      invitedCount: 1,
+    }]);
+
+    expect(updateSeries(seriesId, moved, now)).toBe(2);
+    expect(getEventById(first.id)).toMatchObject({ title: 'Board Game Night', location_name: 'The Library', sequence: 1 });
+    expect(getEventById(second.id)!.sequence).toBe(1);
+
+    expect(queueEventUpdates(first.id, changed[0].event, BASE_URL)).toBe(1);
+    await emailQueue.processEmailQueue();
+    expect(mockSendMail).toHaveBeenCalledTimes(1);
+    expect(mockSendMail.mock.calls[0][0].text).toMatch(/Where: The Library\s+was The Pub/);
+  });
+});
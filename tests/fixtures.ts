@@ -0,0 +1,57 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+/**
+ * tests/fixtures.ts
+ * Shared setup for the guest email tests: one event, its guests, and an email queue that sends only when asked
+ * Import it after setting process.env.DB_PATH.
+ */
+
+import { getDatabase, upsertAttendee } from '../src/database';
+import * as emailQueue from '../src/email-queue';
+import { recordDelivery } from '../src/repository';
+
+export const BASE_URL = 'https://rsvp.example.com';
+
+/**
+ * Start from an empty database holding only event 1, by default the Garden Party
+ * @param columns Columns to set on the event, replacing the defaults
+ */
+export function resetEvent(columns: Record<string, string | number | null> = {}): void {
+  const db = getDatabase();
+  db.prepare('DELETE FROM events').run();
+  db.prepare('DELETE FROM email_queue').run();
+  db.prepare('DELETE FROM email_attempts').run();
+  const fields = { id: 1, title: 'Garden Party', date: Date.UTC(2030, 5, 1, 17), location_name: 'The Garden', ...columns };
+  db.prepare(`INSERT INTO events (${Object.keys(fields).join(', ')}) VALUES (${Object.keys(fields).map(() => '?').join(', ')})`)
+    .run(...Object.values(fields));
+}
+
+/**
+ * Add a guest to event 1, at <name>@example.com
+ * @param name Guest's name
+ * @param options Party size, other addresses, whether their invitation went out (it did by default) and their answer
+ * @returns The guest's attendee ID and RSVP token
+ */
+export function addGuest(
+  name: string,
+  options: { partySize?: number; additionalEmails?: string[]; invited?: boolean; rsvp?: string | null } = {}
+): { id: number; token: string } {
+  const db = getDatabase();
+  const email = `${name.toLowerCase()}@example.com`;
+  upsertAttendee(1, name, email, options.partySize ?? 1, options.additionalEmails ?? []);
+  const guest = db.prepare('SELECT id, token FROM attendees WHERE event_id = 1 AND email = ?').get(email) as { id: number; token: string };
+  if (options.rsvp !== undefined) {
+    db.prepare('UPDATE attendees SET rsvp = ? WHERE id = ?').run(options.rsvp, guest.id);
+  }
+  if (options.invited ?? true) {
+    recordDelivery(guest.id, 'invitation', { to: email, messageId: `<invite-${guest.id}@example.com>` });
+  }
+  return guest;
+}
+
+/** Keep the queue from sending on its own (tests call processEmailQueue()) and the log quiet; undo with jest.restoreAllMocks() */
+export function holdEmailQueue(): void {
+  jest.spyOn(console, 'log').mockImplementation();
+  jest.spyOn(emailQueue, 'kickEmailQueue').mockImplementation();
+}
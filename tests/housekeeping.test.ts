@@ -0,0 +1,99 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+/**
+ * tests/housekeeping.test.ts
+ * Jest tests for deferred event deletion and unused banner cleanup
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+// Ensure in-memory DB and a scratch banner directory before importing modules
+const bannerDir = fs.mkdtempSync(path.join(os.tmpdir(), 'odette-banners-'));
+process.env.DB_PATH = ':memory:';
+process.env.EVENT_BANNER_STORAGE_PATH = bannerDir;
+process.env.EVENT_DELETE_GRACE_MINUTES = '30';
+
+import { initializeDatabase, getDatabase, upsertAttendee } from '../src/database';
+import { recordRsvp, setEventDeleteRequested } from '../src/repository';
+import { pruneUnusedBanners, purgeExpiredEventDeletions } from '../src/housekeeping';
+
+initializeDatabase(':memory:');
+const db = getDatabase();
+
+afterAll(() => {
+  fs.rmSync(bannerDir, { recursive: true, force: true });
+});
+
+describe('purgeExpiredEventDeletions', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+    db.prepare('DELETE FROM events').run();
+    fs.writeFileSync(path.join(bannerDir, 'event-1-banner.png'), 'png');
+    db.prepare('INSERT INTO events (id, title, date, banner_image_filename) VALUES (?, ?, ?, ?)')
+      .run(1, 'Old Party', Date.now(), 'event-1-banner.png');
+    upsertAttendee(1, 'Jo', 'jo@example.com', 2);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('leaves events alone during the grace period', async () => {
+    setEventDeleteRequested(1, true);
+    expect(await purgeExpiredEventDeletions(Date.now() + 29 * 60 * 1000)).toBe(0);
+    expect(db.prepare('SELECT id FROM events WHERE id = 1').get()).toBeDefined();
+  });
+
+  it('deletes the event, its attendees and its banner after the grace period', async () => {
+    const { id } = db.prepare('SELECT id FROM attendees WHERE event_id = 1').get() as { id: number };
+    recordRsvp(id, 'yes', 2);
+    setEventDeleteRequested(1, true);
+
+    expect(await purgeExpiredEventDeletions(Date.now() + 31 * 60 * 1000)).toBe(1);
+    expect(db.prepare('SELECT id FROM events WHERE id = 1').get()).toBeUndefined();
+    expect(db.prepare('SELECT COUNT(*) AS n FROM attendees').get()).toEqual({ n: 0 });
+    expect(db.prepare('SELECT COUNT(*) AS n FROM rsvp_history').get()).toEqual({ n: 0 });
+    expect(fs.existsSync(path.join(bannerDir, 'event-1-banner.png'))).toBe(false);
+  });
+
+  it('does not delete an event whose deletion was undone', async () => {
+    setEventDeleteRequested(1, true);
+    setEventDeleteRequested(1, false);
+    expect(await purgeExpiredEventDeletions(Date.now() + 24 * 60 * 60 * 1000)).toBe(0);
+    expect(fs.existsSync(path.join(bannerDir, 'event-1-banner.png'))).toBe(true);
+  });
+});
+
+describe('pruneUnusedBanners', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+    db.prepare('DELETE FROM events').run();
+    for (const name of fs.readdirSync(bannerDir)) fs.rmSync(path.join(bannerDir, name));
+    fs.writeFileSync(path.join(bannerDir, 'event-1-banner.png'), 'png');
+    fs.writeFileSync(path.join(bannerDir, 'event-1-unconfirmed.png'), 'png');
+    db.prepare('INSERT INTO events (id, title, date, banner_image_filename) VALUES (?, ?, ?, ?)')
+      .run(1, 'Party', Date.now(), 'event-1-banner.png');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('keeps an upload no event uses for a day, in case its confirmation page is still open', async () => {
+    expect(await pruneUnusedBanners(Date.now() + DAY_MS - 60 * 1000)).toBe(0);
+    expect(fs.existsSync(path.join(bannerDir, 'event-1-unconfirmed.png'))).toBe(true);
+  });
+
+  it('deletes older uploads no event uses, keeping the banners of events, even deleted ones', async () => {
+    setEventDeleteRequested(1, true);
+
+    expect(await pruneUnusedBanners(Date.now() + DAY_MS + 60 * 1000)).toBe(1);
+    expect(fs.existsSync(path.join(bannerDir, 'event-1-unconfirmed.png'))).toBe(false);
+    expect(fs.existsSync(path.join(bannerDir, 'event-1-banner.png'))).toBe(true);
+  });
+});
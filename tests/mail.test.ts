@@ -0,0 +1,105 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+/**
+ * tests/mail.test.ts
+ * Jest tests for the mail transport configuration and outboxes
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MailConfigError, mailConfigFromEnv, sendMail, setMailConfig } from '../src/mail';
+
+describe('mailConfigFromEnv', () => {
+  it('keeps the original Gmail setup working', () => {
+    const config = mailConfigFromEnv({ SMTP_USER: 'me@gmail.com', SMTP_PASS: 'app-password' });
+    expect(config).toMatchObject({
+      transport: 'gmail',
+      from: 'me@gmail.com',
+      smtp: { host: 'smtp.gmail.com', port: 465, tls: 'implicit', user: 'me@gmail.com' },
+    });
+  });
+
+  it('only logs messages when nothing is configured', () => {
+    expect(mailConfigFromEnv({}).transport).toBe('log');
+  });
+
+  it('configures a local relay without authentication', () => {
+    const config = mailConfigFromEnv({
+      SMTP_HOST: 'localhost',
+      SMTP_PORT: '25',
+      SMTP_TLS: 'none',
+      MAIL_FROM: 'rsvp@example.org',
+      MAIL_FROM_NAME: 'Example "Events"',
+      MAIL_REPLY_TO: 'hosts@example.org',
+    });
+    expect(config).toEqual({
+      transport: 'smtp',
+      from: '"Example Events" <rsvp@example.org>',
+      replyTo: 'hosts@example.org',
+      smtp: { host: 'localhost', port: 25, tls: 'none', rejectUnauthorized: true, user: undefined, pass: undefined },
+    });
+  });
+
+  it('picks the TLS mode from the port', () => {
+    expect(mailConfigFromEnv({ SMTP_HOST: 'mx', SMTP_PORT: '465', MAIL_FROM: 'a@b.c' }).smtp?.tls).toBe('implicit');
+    expect(mailConfigFromEnv({ SMTP_HOST: 'mx', MAIL_FROM: 'a@b.c' }).smtp).toMatchObject({ port: 587, tls: 'opportunistic' });
+  });
+
+  it('rejects incomplete or invalid settings', () => {
+    expect(() => mailConfigFromEnv({ MAIL_TRANSPORT: 'pigeon' })).toThrow(MailConfigError);
+    expect(() => mailConfigFromEnv({ MAIL_TRANSPORT: 'smtp', MAIL_FROM: 'a@b.c' })).toThrow('SMTP_HOST');
+    expect(() => mailConfigFromEnv({ MAIL_TRANSPORT: 'sendmail' })).toThrow('MAIL_FROM');
+    expect(() => mailConfigFromEnv({ SMTP_HOST: 'mx', MAIL_FROM: 'a@b.c', SMTP_TLS: 'maybe' })).toThrow('SMTP_TLS');
+    expect(() => mailConfigFromEnv({ MAIL_TRANSPORT: 'json', DKIM_DOMAIN: 'example.org' })).toThrow('DKIM_SELECTOR');
+  });
+});
+
+describe('outbox transports', () => {
+  let outboxDir: string;
+
+  beforeEach(() => {
+    outboxDir = fs.mkdtempSync(path.join(os.tmpdir(), 'odette-outbox-'));
+  });
+
+  afterEach(() => {
+    setMailConfig(null);
+    fs.rmSync(outboxDir, { recursive: true, force: true });
+  });
+
+  it('writes DKIM-signed .eml files with the configured From and Reply-To', async () => {
+    const { privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 1024 });
+    setMailConfig(mailConfigFromEnv({
+      MAIL_TRANSPORT: 'file',
+      MAIL_OUTBOX_DIR: outboxDir,
+      MAIL_FROM: 'rsvp@example.org',
+      MAIL_FROM_NAME: 'Example Events',
+      MAIL_REPLY_TO: 'hosts@example.org',
+      DKIM_DOMAIN: 'example.org',
+      DKIM_SELECTOR: 'odette',
+      DKIM_PRIVATE_KEY: privateKey.export({ type: 'pkcs1', format: 'pem' }).toString().replace(/\n/g, '\\n'),
+    }));
+
+    const sent = await sendMail({ to: 'guest@example.com', subject: 'Hello', text: 'Hi there' });
+    const message = fs.readFileSync(sent.outboxPath!, 'utf8').replace(/\r?\n[ \t]+/g, ' '); // Unfold headers
+    expect(path.dirname(sent.outboxPath!)).toBe(outboxDir);
+    expect(message).toMatch(/^DKIM-Signature: .*d=example\.org; .*s=odette;/m);
+    expect(message).toContain('From: Example Events <rsvp@example.org>');
+    expect(message).toContain('Reply-To: hosts@example.org');
+    expect(message).toContain(`Message-ID: ${sent.messageId}`);
+  });
+
+  it('writes JSON messages', async () => {
+    setMailConfig(mailConfigFromEnv({ MAIL_TRANSPORT: 'json', MAIL_OUTBOX_DIR: outboxDir }));
+    const sent = await sendMail({ to: 'guest@example.com', subject: 'Hello', text: 'Hi there' });
+    const message = JSON.parse(fs.readFileSync(sent.outboxPath!, 'utf8'));
+    expect(message).toMatchObject({
+      from: { address: 'odette@localhost' },
+      to: [{ address: 'guest@example.com' }],
+      subject: 'Hello',
+      messageId: sent.messageId,
+    });
+  });
+});
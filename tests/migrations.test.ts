@@ -0,0 +1,140 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+/**
+ * tests/migrations.test.ts
+ * Jest tests for the versioned schema migration runner
+ */
+
+import * as Database from 'better-sqlite3';
+import {
+  MIGRATIONS,
+  MigrationError,
+  getMigrationStatus,
+  getPendingMigrations,
+  getSchemaVersion,
+  runMigrations,
+  type Migration,
+} from '../src/migrations';
+
+function columnsOf(db: Database.Database, table: string): string[] {
+  return (db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]).map(c => c.name);
+}
+
+describe('runMigrations', () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database.default(':memory:');
+    jest.spyOn(console, 'log').mockImplementation();
+  });
+
+  afterEach(() => {
+    db.close();
+    jest.restoreAllMocks();
+  });
+
+  it('applies every migration to an empty database', () => {
+    expect(getPendingMigrations(db)).toHaveLength(MIGRATIONS.length);
+    runMigrations(db);
+    expect(getPendingMigrations(db)).toHaveLength(0);
+    expect(getSchemaVersion(db)).toBe(MIGRATIONS[MIGRATIONS.length - 1].version);
+    expect(columnsOf(db, 'events')).toContain('timezone');
+    expect(columnsOf(db, 'attendees')).toContain('additional_emails');
+  });
+
+  it('is a no-op when run twice', () => {
+    runMigrations(db);
+    const before = getMigrationStatus(db);
+    runMigrations(db);
+    expect(getMigrationStatus(db)).toEqual(before);
+  });
+
+  it('brings a pre-migration-framework database up to date', () => {
+    db.prepare('CREATE TABLE events (id INTEGER PRIMARY KEY, title TEXT NOT NULL, date INTEGER NOT NULL, description TEXT)').run();
+    db.prepare(`CREATE TABLE attendees (
+      id INTEGER PRIMARY KEY, event_id INTEGER NOT NULL, name TEXT NOT NULL, email TEXT NOT NULL,
+      party_size INTEGER NOT NULL DEFAULT 1, token TEXT NOT NULL UNIQUE, is_sent INTEGER NOT NULL DEFAULT 0,
+      rsvp TEXT DEFAULT NULL, responded_at INTEGER DEFAULT NULL
+    )`).run();
+    db.prepare('INSERT INTO events (id, title, date) VALUES (1, ?, ?)').run('Old Event', Date.now());
+
+    runMigrations(db);
+
+    expect(columnsOf(db, 'events')).toEqual(expect.arrayContaining(['banner_image_filename', 'location_name', 'location_href', 'date_end', 'timezone']));
+    expect(columnsOf(db, 'attendees')).toEqual(expect.arrayContaining(['last_modified', 'additional_emails']));
+    expect(db.prepare('SELECT title FROM events WHERE id = 1').get()).toEqual({ title: 'Old Event' });
+  });
+
+  it('creates one contact per distinct attendee email when adding the contact directory', () => {
+    runMigrations(db, MIGRATIONS.filter(m => m.version < 5));
+    db.prepare('INSERT INTO events (id, title, date) VALUES (1, ?, 0), (2, ?, 0)').run('First', 'Second');
+    const insert = db.prepare('INSERT INTO attendees (event_id, name, email, token, last_modified) VALUES (?, ?, ?, ?, ?)');
+    insert.run(1, 'Jo', 'jo@example.com', 'a', 100);
+    insert.run(2, 'Joanna', 'Jo@Example.com ', 'b', 200);
+    insert.run(2, 'Sam', 'sam@example.com', 'c', null);
+
+    runMigrations(db);
+
+    expect(db.prepare('SELECT name, email FROM contacts ORDER BY email').all()).toEqual([
+      { name: 'Joanna', email: 'jo@example.com' },
+      { name: 'Sam', email: 'sam@example.com' },
+    ]);
+    const linked = db.prepare('SELECT a.token, c.email FROM attendees a JOIN contacts c ON a.contact_id = c.id ORDER BY a.token').all();
+    expect(linked).toEqual([
+      { token: 'a', email: 'jo@example.com' },
+      { token: 'b', email: 'jo@example.com' },
+      { token: 'c', email: 'sam@example.com' },
+    ]);
+  });
+
+  it('turns the invitation flag and last error into delivery log entries', () => {
+    runMigrations(db, MIGRATIONS.filter(m => m.version < 9));
+    db.prepare('INSERT INTO events (id, title, date) VALUES (1, ?, 0)').run('Party');
+    const insert = db.prepare('INSERT INTO attendees (id, event_id, name, email, token, is_sent, last_send_error, last_modified) VALUES (?, 1, ?, ?, ?, ?, ?, ?)');
+    insert.run(1, 'Sent', 'sent@example.com', 'a', 1, null, 100);
+    insert.run(2, 'Failed', 'failed@example.com', 'b', 0, '550 mailbox unavailable', 200);
+    insert.run(3, 'Resend failed', 'resend@example.com', 'c', 1, 'timeout', 300);
+    insert.run(4, 'Never', 'never@example.com', 'd', 0, null, null);
+
+    runMigrations(db);
+
+    expect(columnsOf(db, 'attendees')).not.toEqual(expect.arrayContaining(['is_sent']));
+    expect(columnsOf(db, 'attendees')).not.toEqual(expect.arrayContaining(['last_send_error']));
+    expect(db.prepare('SELECT attendee_id, kind, attempted_at, to_address, error FROM deliveries ORDER BY id').all()).toEqual([
+      { attendee_id: 1, kind: 'invitation', attempted_at: 100, to_address: 'sent@example.com', error: null },
+      { attendee_id: 3, kind: 'invitation', attempted_at: 300, to_address: 'resend@example.com', error: null },
+      { attendee_id: 2, kind: 'invitation', attempted_at: 200, to_address: 'failed@example.com', error: '550 mailbox unavailable' },
+      { attendee_id: 3, kind: 'invitation', attempted_at: 300, to_address: 'resend@example.com', error: 'timeout' },
+    ]);
+  });
+
+  it('rolls back a failing migration and refuses to run again', () => {
+    jest.spyOn(console, 'error').mockImplementation();
+    const migrations: Migration[] = [
+      ...MIGRATIONS,
+      {
+        version: 1000,
+        name: 'broken',
+        up: (d) => {
+          d.prepare('CREATE TABLE half_done (id INTEGER)').run();
+          throw new Error('boom');
+        }
+      },
+    ];
+
+    expect(() => runMigrations(db, migrations)).toThrow(MigrationError);
+    expect(columnsOf(db, 'half_done')).toEqual([]);
+    expect(getMigrationStatus(db).find(m => m.version === 1000)?.applied_at).toBeNull();
+    expect(getPendingMigrations(db, migrations).map(m => m.version)).toEqual([1000]);
+
+    expect(() => runMigrations(db, migrations)).toThrow(/never completed/);
+  });
+
+  it('refuses to run against a database from a newer version', () => {
+    runMigrations(db);
+    db.prepare('INSERT INTO schema_migrations (version, name, started_at, applied_at) VALUES (?, ?, ?, ?)')
+      .run(9999, 'from the future', Date.now(), Date.now());
+    expect(() => runMigrations(db)).toThrow(/only knows up to/);
+  });
+});
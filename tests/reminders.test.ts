@@ -0,0 +1,187 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+/**
+ * tests/reminders.test.ts
+ * Jest tests for scheduled reminder emails
+ */
+
+// Ensure in-memory DB before importing modules
+process.env.DB_PATH = ':memory:';
+process.env.EMAIL_RATE_PER_MINUTE = '100';
+
+import { initializeDatabase, getDatabase } from '../src/database';
+import {
+  listEventReminderRules,
+  requeueFailedDeliveries,
+  setAttendeeLateRsvpAllowed,
+  setEventResponsesReopened,
+  setEventRsvpDeadline,
+} from '../src/repository';
+import { processEmailQueue } from '../src/email-queue';
+import { ReminderError, addReminderRule, queueDueReminders } from '../src/reminders';
+import { BASE_URL, addGuest, resetEvent } from './fixtures';
+
+jest.mock('../src/notifications', () => ({
+  sendReminder: jest.fn(),
+}));
+
+import { sendReminder } from '../src/notifications';
+
+initializeDatabase(':memory:');
+const db = getDatabase();
+const mockSendReminder = sendReminder as jest.MockedFunction<typeof sendReminder>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const eventDate = Date.UTC(2030, 5, 10, 18);
+
+/** Add a guest, optionally invited already and with an answer */
+function guest(name: string, invited: boolean, rsvp: string | null = null): number {
+  return addGuest(name, { invited, rsvp }).id;
+}
+
+function queuedReminders(): { attendee_id: number; payload: string; status: string }[] {
+  return db.prepare(`SELECT attendee_id, payload, status FROM email_queue WHERE kind = 'reminder' ORDER BY id`).all() as any[];
+}
+
+describe('reminders', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+    resetEvent({ title: 'Party', date: eventDate, location_name: null });
+    mockSendReminder.mockReset().mockResolvedValue({ messageId: '<reminder@example.com>' } as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('validates new rules', () => {
+    expect(() => addReminderRule(1, '0', 'attending')).toThrow(ReminderError);
+    expect(() => addReminderRule(1, '2.5', 'attending')).toThrow('between 1 and 365 days');
+    expect(() => addReminderRule(1, '3', 'everyone')).toThrow('Choose who the reminder is for.');
+    addReminderRule(1, '3', 'attending');
+    expect(listEventReminderRules(1)).toMatchObject([{ days_before: 3, audience: 'attending', queued: 0 }]);
+  });
+
+  it('queues each due reminder once per invited guest in its audience', () => {
+    const yes = guest('Yes', true, 'yes');
+    guest('No', true, 'no');
+    guest('Quiet', true);
+    guest('Uninvited', false, 'yes');
+    addReminderRule(1, '3', 'attending');
+
+    expect(queueDueReminders(BASE_URL, eventDate - 3 * DAY_MS - 1)).toBe(0);
+    expect(queueDueReminders(BASE_URL, eventDate - 3 * DAY_MS)).toBe(1);
+    expect(queuedReminders()).toEqual([{ attendee_id: yes, payload: expect.stringContaining(`"appBaseUrl":"${BASE_URL}"`), status: 'pending' }]);
+
+    // Running again (e.g. after a restart) queues nothing new, but late joiners still get it
+    expect(queueDueReminders(BASE_URL, eventDate - 2 * DAY_MS)).toBe(0);
+    const late = guest('Late', true, 'yes');
+    expect(queueDueReminders(BASE_URL, eventDate - 2 * DAY_MS)).toBe(1);
+    expect(queuedReminders().map(r => r.attendee_id)).toEqual([yes, late]);
+    expect(listEventReminderRules(1)[0].queued).toBe(2);
+
+    // Nothing once the event has started, or for archived events
+    guest('Later', true, 'yes');
+    expect(queueDueReminders(BASE_URL, eventDate)).toBe(0);
+    db.prepare('UPDATE events SET archived_at = 1').run();
+    expect(queueDueReminders(BASE_URL, eventDate - DAY_MS)).toBe(0);
+  });
+
+  it('sends nudges and reminders with their own templates and logs them', async () => {
+    const yes = guest('Yes', true, 'yes');
+    const quiet = guest('Quiet', true);
+    const unsure = guest('Unsure', true, 'maybe');
+    addReminderRule(1, '7', 'no_reply');
+    addReminderRule(1, '3', 'attending');
+    addReminderRule(1, '3', 'maybe');
+
+    queueDueReminders(BASE_URL, eventDate - 3 * DAY_MS);
+    await processEmailQueue(eventDate - 3 * DAY_MS);
+
+    expect(mockSendReminder.mock.calls.map(call => [call[0], call[1]])).toEqual([['nudge', 'Quiet'], ['reminder', 'Yes'], ['maybe_nudge', 'Unsure']]);
+    expect(mockSendReminder).toHaveBeenCalledWith('reminder', 'Yes', 'yes@example.com', [], expect.any(String), expect.objectContaining({ id: 1 }), BASE_URL, 1);
+    const logged = db.prepare(`SELECT attendee_id, message_id FROM deliveries WHERE kind = 'reminder' ORDER BY attendee_id`).all();
+    expect(logged).toEqual([
+      { attendee_id: yes, message_id: '<reminder@example.com>' },
+      { attendee_id: quiet, message_id: '<reminder@example.com>' },
+      { attendee_id: unsure, message_id: '<reminder@example.com>' },
+    ]);
+  });
+
+  it('queues a second due reminder for the same guest after the first is sent', async () => {
+    const yes = guest('Yes', true, 'yes');
+    addReminderRule(1, '7', 'attending');
+    addReminderRule(1, '3', 'attending');
+
+    expect(queueDueReminders(BASE_URL, eventDate - 2 * DAY_MS)).toBe(1);
+    await processEmailQueue(eventDate - 2 * DAY_MS);
+    expect(queueDueReminders(BASE_URL, eventDate - 2 * DAY_MS)).toBe(1);
+    await processEmailQueue(eventDate - 2 * DAY_MS);
+    expect(queueDueReminders(BASE_URL, eventDate - 2 * DAY_MS)).toBe(0);
+    expect(mockSendReminder).toHaveBeenCalledTimes(2);
+    expect(queuedReminders().map(r => r.attendee_id)).toEqual([yes, yes]);
+  });
+
+  it('skips guests who replied while their nudge waited in the queue', async () => {
+    const quiet = guest('Quiet', true);
+    addReminderRule(1, '7', 'no_reply');
+    queueDueReminders(BASE_URL, eventDate - 7 * DAY_MS);
+    db.prepare(`UPDATE attendees SET rsvp = 'yes' WHERE id = ?`).run(quiet);
+
+    await processEmailQueue(eventDate - 7 * DAY_MS);
+    expect(mockSendReminder).not.toHaveBeenCalled();
+  });
+
+  it('asks for answers only while the guest can still give them', async () => {
+    const quiet = guest('Quiet', true);
+    guest('Unsure', true, 'maybe');
+    const yes = guest('Yes', true, 'yes');
+    addReminderRule(1, '7', 'no_reply');
+    addReminderRule(1, '7', 'maybe');
+    addReminderRule(1, '7', 'attending');
+    setEventRsvpDeadline(1, eventDate - 8 * DAY_MS);
+
+    // Past the deadline, only the guests who are coming are reminded
+    expect(queueDueReminders(BASE_URL, eventDate - 7 * DAY_MS)).toBe(1);
+    expect(queuedReminders().map(r => r.attendee_id)).toEqual([yes]);
+    await processEmailQueue(eventDate - 7 * DAY_MS);
+
+    // A late override or reopening lets the nudges through
+    setAttendeeLateRsvpAllowed(quiet, true);
+    expect(queueDueReminders(BASE_URL, eventDate - 7 * DAY_MS)).toBe(1);
+    await processEmailQueue(eventDate - 7 * DAY_MS);
+    setEventResponsesReopened(1, true);
+    expect(queueDueReminders(BASE_URL, eventDate - 7 * DAY_MS)).toBe(1);
+    await processEmailQueue(eventDate - 7 * DAY_MS);
+    expect(mockSendReminder.mock.calls.map(call => [call[0], call[1]])).toEqual([['reminder', 'Yes'], ['nudge', 'Quiet'], ['maybe_nudge', 'Unsure']]);
+  });
+
+  it('skips nudges whose guests could no longer answer by the time they were sent', async () => {
+    guest('Quiet', true);
+    addReminderRule(1, '7', 'no_reply');
+    queueDueReminders(BASE_URL, eventDate - 7 * DAY_MS);
+    setEventRsvpDeadline(1, Date.now() - DAY_MS);
+
+    await processEmailQueue(eventDate - 7 * DAY_MS);
+    expect(mockSendReminder).not.toHaveBeenCalled();
+  });
+
+  it('resends the reminder that failed when a failed delivery is retried', async () => {
+    const quiet = guest('Quiet', true);
+    const nudge = addReminderRule(1, '7', 'no_reply');
+    queueDueReminders(BASE_URL, eventDate - 3 * DAY_MS);
+    jest.spyOn(console, 'error').mockImplementation();
+    mockSendReminder.mockRejectedValueOnce(Object.assign(new Error('550 no such user'), { responseCode: 550 }));
+    await processEmailQueue(eventDate - 3 * DAY_MS);
+    expect(queuedReminders()[0].status).toBe('failed');
+    addReminderRule(1, '3', 'no_reply'); // A later rule doesn't change which reminder is resent
+    db.prepare(`DELETE FROM email_queue`).run(); // The delivery log alone remembers which reminder it was
+
+    expect(requeueFailedDeliveries(1, { appBaseUrl: 'https://new.example.com' }, quiet, eventDate - 3 * DAY_MS)).toBe(1);
+    expect(JSON.parse(queuedReminders()[0].payload)).toEqual({ appBaseUrl: 'https://new.example.com', ruleId: nudge });
+    await processEmailQueue(eventDate - 3 * DAY_MS);
+    expect(mockSendReminder).toHaveBeenCalledTimes(2);
+    expect(mockSendReminder.mock.calls[1]).toEqual(['nudge', 'Quiet', 'quiet@example.com', [], expect.any(String), expect.anything(), 'https://new.example.com', 1]);
+  });
+});
@@ -0,0 +1,370 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+/**
+ * tests/repository.test.ts
+ * Jest tests for the event and attendee data-access functions
+ */
+
+// Ensure in-memory DB before importing modules
+process.env.DB_PATH = ':memory:';
+import { initializeDatabase, getDatabase, getEventAttendeeStats, getEventTagStats, upsertAttendee } from '../src/database';
+import {
+  createEvent,
+  deleteAttendee,
+  enqueueEmail,
+  getAttendeeViewByToken,
+  getContactById,
+  getContactsByIds,
+  getEventAttendeeTags,
+  getEventById,
+  getEventRsvpHistory,
+  getInviteeByEmail,
+  listContactEvents,
+  listContacts,
+  listEventAttendees,
+  listEvents,
+  listPendingInvitees,
+  markAttendeeViewed,
+  recordDelivery,
+  requeueFailedDeliveries,
+  recordRsvp,
+  searchContacts,
+  setAttendeeTags,
+  setEventArchived,
+  setEventDeleteRequested,
+  updateAttendeeDetails,
+  updateContact,
+  updateEvent,
+  updateTagForAttendees,
+} from '../src/repository';
+
+// Initialize database for tests
+initializeDatabase(':memory:');
+const db = getDatabase();
+
+const eventInput = {
+  title: 'Repo Party',
+  date: Date.UTC(2030, 0, 1, 19),
+  description: '<p>Fun</p>',
+  location_name: 'The Park',
+  location_href: null,
+  date_end: null,
+  timezone: 'UTC',
+};
+
+describe('events', () => {
+  afterEach(() => {
+    db.prepare('DELETE FROM events').run();
+  });
+
+  it('creates, reads and updates an event', () => {
+    const id = createEvent(eventInput);
+    expect(getEventById(id)).toMatchObject({ id, title: 'Repo Party', location_name: 'The Park', banner_image_filename: null });
+
+    expect(updateEvent(id, { ...eventInput, title: 'Renamed', location_name: null })).toBe(true);
+    expect(getEventById(id)).toMatchObject({ title: 'Renamed', location_name: null });
+    expect(updateEvent(id + 1000, eventInput)).toBe(false);
+  });
+
+  it('lists current and archived events separately and hides pending deletions', () => {
+    const current = createEvent(eventInput);
+    const archived = createEvent({ ...eventInput, title: 'Archived' });
+    const doomed = createEvent({ ...eventInput, title: 'Doomed' });
+    setEventArchived(archived, true);
+    setEventDeleteRequested(doomed, true);
+
+    expect(listEvents().map(e => e.id)).toEqual([current]);
+    expect(listEvents({ archived: true }).map(e => e.id)).toEqual([archived]);
+  });
+});
+
+describe('attendees', () => {
+  let eventId: number;
+
+  beforeAll(() => {
+    eventId = createEvent(eventInput);
+  });
+
+  afterEach(() => {
+    db.prepare('DELETE FROM attendees').run();
+  });
+
+  it('joins event fields onto the attendee by token', () => {
+    upsertAttendee(eventId, 'Kim', 'kim@example.com', 2, ['kim2@example.com']);
+    const { token } = getInviteeByEmail(eventId, ' KIM@example.com ')!;
+
+    const view = getAttendeeViewByToken(token)!;
+    expect(view).toMatchObject({
+      name: 'Kim',
+      email: 'kim@example.com',
+      party_size: 2,
+      event_id: eventId,
+      event_title: 'Repo Party',
+      event_desc: '<p>Fun</p>',
+      event_location_name: 'The Park',
+      event_timezone: 'UTC',
+      additional_emails: JSON.stringify(['kim2@example.com']),
+    });
+    expect(getAttendeeViewByToken('0'.repeat(32))).toBeUndefined();
+  });
+
+  it('tracks invitation state', () => {
+    upsertAttendee(eventId, 'Lee', 'lee@example.com');
+    upsertAttendee(eventId, 'Max', 'max@example.com');
+    const lee = getInviteeByEmail(eventId, 'lee@example.com')!;
+
+    recordDelivery(lee.id, 'invitation', { to: 'lee@example.com', error: 'timeout' });
+    expect(listPendingInvitees(eventId).map(a => a.name).sort()).toEqual(['Lee', 'Max']);
+    expect(listEventAttendees(eventId).find(a => a.id === lee.id)?.last_delivery_error).toBe('timeout');
+
+    expect(getEventAttendeeStats(eventId)).toMatchObject({ guestsInvited: 0, invitationsFailed: 1 });
+
+    recordDelivery(lee.id, 'invitation', { to: 'lee@example.com', messageId: '<1@example.com>' });
+    expect(listPendingInvitees(eventId).map(a => a.name)).toEqual(['Max']);
+    expect(listEventAttendees(eventId).find(a => a.id === lee.id)).toMatchObject({ is_sent: 1, last_delivery_error: null });
+
+    // A failed reminder is a failed email, but not a failed invitation
+    recordDelivery(lee.id, 'reminder', { to: 'lee@example.com', error: 'timeout' });
+    expect(listEventAttendees(eventId).find(a => a.id === lee.id)?.last_delivery_error).toBe('timeout');
+    expect(getEventAttendeeStats(eventId)).toMatchObject({ guestsInvited: 1, guestsNotSent: 1, invitationsFailed: 0 });
+  });
+
+  it('queues failed deliveries again, replacing given-up queue entries', () => {
+    upsertAttendee(eventId, 'Oz', 'oz@example.com');
+    upsertAttendee(eventId, 'Pia', 'pia@example.com');
+    const oz = getInviteeByEmail(eventId, 'oz@example.com')!;
+    const pia = getInviteeByEmail(eventId, 'pia@example.com')!;
+    recordDelivery(oz.id, 'invitation', { to: 'oz@example.com', error: '550 mailbox unavailable' });
+    recordDelivery(pia.id, 'invitation', { to: 'pia@example.com', error: 'timeout' }, 1000);
+    recordDelivery(pia.id, 'invitation', { to: 'pia@example.com', messageId: '<2@example.com>' }, 2000);
+    enqueueEmail('invitation', eventId, oz.id);
+    db.prepare(`UPDATE email_queue SET status = 'failed'`).run();
+
+    expect(requeueFailedDeliveries(eventId, { appBaseUrl: 'https://rsvp.example.com' })).toBe(1);
+    expect(db.prepare('SELECT attendee_id, status, payload FROM email_queue').all()).toEqual([
+      { attendee_id: oz.id, status: 'pending', payload: '{"appBaseUrl":"https://rsvp.example.com"}' },
+    ]);
+    db.prepare('DELETE FROM email_queue').run();
+  });
+
+  it('only records the first view', () => {
+    upsertAttendee(eventId, 'Ned', 'ned@example.com');
+    const ned = getInviteeByEmail(eventId, 'ned@example.com')!;
+    markAttendeeViewed(ned.id);
+    const firstView = listEventAttendees(eventId)[0].viewed_at;
+    expect(firstView).toBeGreaterThan(0);
+
+    db.prepare('UPDATE attendees SET viewed_at = 1 WHERE id = ?').run(ned.id);
+    markAttendeeViewed(ned.id);
+    expect(listEventAttendees(eventId)[0].viewed_at).toBe(1);
+  });
+
+  it('updates details and rejects a primary email already used in the event', () => {
+    upsertAttendee(eventId, 'Oli', 'oli@example.com');
+    upsertAttendee(eventId, 'Pat', 'pat@example.com');
+    const oli = getInviteeByEmail(eventId, 'oli@example.com')!;
+
+    expect(updateAttendeeDetails(oli.id, 'Olivia', 'olivia@example.com', null)).toBe(eventId);
+    expect(getInviteeByEmail(eventId, 'olivia@example.com')?.name).toBe('Olivia');
+
+    expect(() => updateAttendeeDetails(oli.id, 'Olivia', 'pat@example.com', null)).toThrow(/already in use/);
+    expect(() => updateAttendeeDetails(99999, 'Nobody', 'nobody@example.com', null)).toThrow(/not found/);
+  });
+
+  it('deletes an attendee', () => {
+    upsertAttendee(eventId, 'Quinn', 'quinn@example.com');
+    const quinn = getInviteeByEmail(eventId, 'quinn@example.com')!;
+    expect(deleteAttendee(quinn.id)).toBe(true);
+    expect(deleteAttendee(quinn.id)).toBe(false);
+  });
+});
+
+describe('contacts', () => {
+  let pastEventId: number;
+  let futureEventId: number;
+  const now = Date.UTC(2029, 0, 1);
+
+  beforeEach(() => {
+    db.prepare('DELETE FROM contacts').run();
+    pastEventId = createEvent({ ...eventInput, title: 'Last Year', date: Date.UTC(2028, 0, 1) });
+    futureEventId = createEvent({ ...eventInput, title: 'Next Year', date: Date.UTC(2030, 0, 1) });
+  });
+
+  afterEach(() => {
+    db.prepare('DELETE FROM events').run();
+  });
+
+  it('links attendees with the same email in different events to one contact', () => {
+    upsertAttendee(pastEventId, 'Rae', 'rae@example.com');
+    upsertAttendee(futureEventId, 'Rachel', ' RAE@example.com');
+
+    const contacts = listContacts();
+    expect(contacts).toHaveLength(1);
+    expect(contacts[0]).toMatchObject({ name: 'Rae', email: 'rae@example.com', event_count: 2 });
+    expect(listContactEvents(contacts[0].id).map(e => e.event_title)).toEqual(['Next Year', 'Last Year']);
+  });
+
+  it('picks contacts with the party size of their latest event', () => {
+    upsertAttendee(pastEventId, 'Rae', 'rae@example.com', 3);
+    upsertAttendee(futureEventId, 'Sid', 'sid@example.com', 2);
+    upsertAttendee(pastEventId, 'Sid', 'sid@example.com', 4);
+    const ids = listContacts().map(c => c.id);
+    expect(getContactsByIds(ids).map(c => [c.name, c.party_size]).sort()).toEqual([['Rae', 3], ['Sid', 2]]);
+  });
+
+  it('applies contact edits to upcoming events only', () => {
+    upsertAttendee(pastEventId, 'Sid', 'sid@example.com');
+    upsertAttendee(futureEventId, 'Sid', 'sid@example.com');
+    const contactId = listEventAttendees(futureEventId)[0].contact_id!;
+
+    expect(updateContact(contactId, 'Sidney', 'sidney@example.com', '["cc@example.com"]', now)).toBe(1);
+
+    expect(getContactById(contactId)).toMatchObject({ name: 'Sidney', email: 'sidney@example.com' });
+    expect(listEventAttendees(futureEventId)[0]).toMatchObject({ name: 'Sidney', email: 'sidney@example.com', additional_emails: '["cc@example.com"]' });
+    expect(listEventAttendees(pastEventId)[0]).toMatchObject({ name: 'Sid', email: 'sid@example.com', contact_id: contactId });
+  });
+
+  it('rejects an email that belongs to another contact or attendee', () => {
+    upsertAttendee(futureEventId, 'Tao', 'tao@example.com');
+    upsertAttendee(futureEventId, 'Uma', 'uma@example.com');
+    const tao = listEventAttendees(futureEventId).find(a => a.name === 'Tao')!;
+
+    expect(() => updateContact(tao.contact_id!, 'Tao', 'uma@example.com', null, now)).toThrow(/Another contact/);
+    db.prepare("UPDATE attendees SET contact_id = NULL WHERE name = 'Uma'").run();
+    db.prepare("DELETE FROM contacts WHERE email = 'uma@example.com'").run();
+    expect(() => updateContact(tao.contact_id!, 'Tao', 'uma@example.com', null, now)).toThrow(/already invited separately/);
+    expect(getContactById(tao.contact_id!)?.email).toBe('tao@example.com');
+  });
+
+  it('searches by name or email and skips people already invited', () => {
+    upsertAttendee(pastEventId, 'Vic', 'vic@example.com');
+    upsertAttendee(pastEventId, 'Wren', 'wren@example.org');
+    upsertAttendee(futureEventId, 'Vic', 'vic@example.com');
+
+    expect(searchContacts('example').map(c => c.name)).toEqual(['Vic', 'Wren']);
+    expect(searchContacts('WREN').map(c => c.name)).toEqual(['Wren']);
+    expect(searchContacts('example', futureEventId).map(c => c.name)).toEqual(['Wren']);
+    expect(searchContacts('100%')).toEqual([]);
+  });
+});
+
+describe('tags', () => {
+  let eventId: number;
+  let otherEventId: number;
+  const idOf = (email: string) => listEventAttendees(eventId).find(a => a.email === email)!.id;
+
+  beforeEach(() => {
+    eventId = createEvent(eventInput);
+    otherEventId = createEvent({ ...eventInput, title: 'Other' });
+  });
+
+  afterEach(() => {
+    db.prepare('DELETE FROM events').run();
+  });
+
+  it('adds tags on upsert without removing existing ones', () => {
+    upsertAttendee(eventId, 'Ann', 'ann@example.com', 1, [], ['family']);
+    upsertAttendee(eventId, 'Ann', 'ann@example.com', 1, [], ['wave-1', 'family']);
+    upsertAttendee(eventId, 'Ann', 'ann@example.com');
+
+    expect(getEventAttendeeTags(eventId)).toEqual({ [idOf('ann@example.com')]: ['family', 'wave-1'] });
+  });
+
+  it('replaces tags and bulk-edits only attendees of the given event', () => {
+    upsertAttendee(eventId, 'Bo', 'bo@example.com', 1, [], ['work']);
+    upsertAttendee(eventId, 'Cy', 'cy@example.com');
+    upsertAttendee(otherEventId, 'Di', 'di@example.com');
+    const di = listEventAttendees(otherEventId)[0].id;
+
+    setAttendeeTags(idOf('bo@example.com'), ['college']);
+    expect(updateTagForAttendees(eventId, [idOf('bo@example.com'), idOf('cy@example.com'), di], 'wave-2', 'add')).toBe(2);
+    expect(getEventAttendeeTags(eventId)).toEqual({
+      [idOf('bo@example.com')]: ['college', 'wave-2'],
+      [idOf('cy@example.com')]: ['wave-2'],
+    });
+    expect(getEventAttendeeTags(otherEventId)).toEqual({});
+
+    expect(updateTagForAttendees(eventId, [idOf('bo@example.com'), di], 'wave-2', 'remove')).toBe(1);
+    expect(getEventAttendeeTags(eventId)[idOf('bo@example.com')]).toEqual(['college']);
+  });
+
+  it('lists pending invitees and statistics per tag', () => {
+    upsertAttendee(eventId, 'Ed', 'ed@example.com', 2, [], ['family', 'wave-1']);
+    upsertAttendee(eventId, 'Flo', 'flo@example.com', 1, [], ['wave-1']);
+    upsertAttendee(eventId, 'Gus', 'gus@example.com', 3, [], ['family']);
+    upsertAttendee(eventId, 'Hal', 'hal@example.com');
+    recordDelivery(idOf('ed@example.com'), 'invitation', { to: 'ed@example.com' });
+    recordRsvp(idOf('ed@example.com'), 'yes', 2);
+
+    expect(listPendingInvitees(eventId, 'wave-1').map(a => a.name)).toEqual(['Flo']);
+    expect(listPendingInvitees(eventId)).toHaveLength(3);
+    expect(getEventTagStats(eventId)).toEqual([
+      expect.objectContaining({ tag: 'family', attendees: 2, potentialGuests: 5, guestsAttending: 2, guestsNotSent: 3 }),
+      expect.objectContaining({ tag: 'wave-1', attendees: 2, potentialGuests: 3, guestsAttending: 2, guestsNotSent: 1 }),
+    ]);
+  });
+
+  it('shows each event\'s tags on the contact history', () => {
+    upsertAttendee(eventId, 'Ivy', 'ivy@example.com', 1, [], ['family', 'college']);
+    const contactId = listEventAttendees(eventId)[0].contact_id!;
+
+    expect(listContactEvents(contactId)[0].tags?.split(' ').sort()).toEqual(['college', 'family']);
+  });
+});
+
+describe('recordRsvp', () => {
+  const eventId = 2;
+
+  beforeAll(() => {
+    db.prepare('INSERT INTO events (id, title, date, description) VALUES (?, ?, ?, ?)')
+      .run(eventId, 'History Event', Date.now(), 'Desc');
+  });
+
+  afterEach(() => {
+    db.prepare('DELETE FROM rsvp_history').run();
+    db.prepare('DELETE FROM attendees').run();
+  });
+
+  it('updates the attendee and returns the previous response', () => {
+    upsertAttendee(eventId, 'Gus', 'gus@example.com', 4);
+    const { id } = db.prepare('SELECT id FROM attendees WHERE email = ?').get('gus@example.com') as { id: number };
+
+    expect(recordRsvp(id, 'yes', 4)).toEqual({ rsvp: null, party_size: 4 });
+    expect(recordRsvp(id, 'no', 4)).toEqual({ rsvp: 'yes', party_size: 4 });
+
+    const row = db.prepare('SELECT rsvp, responded_at FROM attendees WHERE id = ?').get(id) as any;
+    expect(row.rsvp).toBe('no');
+    expect(row.responded_at).toBeGreaterThan(0);
+  });
+
+  it('appends every submission to the history', () => {
+    upsertAttendee(eventId, 'Hal', 'hal@example.com', 2);
+    const { id } = db.prepare('SELECT id FROM attendees WHERE email = ?').get('hal@example.com') as { id: number };
+
+    recordRsvp(id, 'yes', 2, { userAgent: 'TestBrowser/1.0', ip: '192.0.2.1' });
+    recordRsvp(id, 'yes', 3);
+    recordRsvp(id, 'no', 3);
+
+    const history = getEventRsvpHistory(eventId)[id];
+    expect(history.map(h => [h.old_rsvp, h.old_party_size, h.new_rsvp, h.new_party_size])).toEqual([
+      [null, 2, 'yes', 2],
+      ['yes', 2, 'yes', 3],
+      ['yes', 3, 'no', 3],
+    ]);
+    expect(history[0].user_agent).toBe('TestBrowser/1.0');
+    expect(history[0].ip).toBe('192.0.2.1');
+  });
+
+  it('returns undefined for an unknown attendee', () => {
+    expect(recordRsvp(12345, 'yes', 1)).toBeUndefined();
+    expect(db.prepare('SELECT COUNT(*) AS n FROM rsvp_history').get()).toEqual({ n: 0 });
+  });
+
+  it('does not allow history entries to be rewritten', () => {
+    upsertAttendee(eventId, 'Ivy', 'ivy@example.com', 1);
+    const { id } = db.prepare('SELECT id FROM attendees WHERE email = ?').get('ivy@example.com') as { id: number };
+    recordRsvp(id, 'yes', 1);
+    expect(() => db.prepare("UPDATE rsvp_history SET new_rsvp = 'no'").run()).toThrow(/append-only/);
+  });
+});
@@ -0,0 +1,68 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+/**
+ * tests/rsvp-deadline.test.ts
+ * Jest tests for the RSVP deadline and reopening responses after it
+ */
+
+// Ensure in-memory DB before importing modules
+process.env.DB_PATH = ':memory:';
+
+import { initializeDatabase, getDatabase, upsertAttendee } from '../src/database';
+import {
+  getAttendeeViewByToken,
+  getEventById,
+  setAttendeeLateRsvpAllowed,
+  setEventResponsesReopened,
+  setEventRsvpDeadline,
+} from '../src/repository';
+import { renderGuestEmail } from '../src/email-templates';
+import { responsesClosed } from '../src/rsvp';
+
+initializeDatabase(':memory:');
+const db = getDatabase();
+
+const DEADLINE = Date.UTC(2030, 4, 31, 3, 59); // 11:59 PM on May 30 in New York
+const AFTER = DEADLINE + 60 * 1000;
+
+describe('RSVP deadline', () => {
+  let token: string;
+  let attendeeId: number;
+
+  beforeEach(() => {
+    db.prepare('DELETE FROM events').run();
+    db.prepare('INSERT INTO events (id, title, date, timezone) VALUES (1, ?, ?, ?)').run('Gala', Date.UTC(2030, 5, 7, 23), 'America/New_York');
+    upsertAttendee(1, 'Jo', 'jo@example.com', 2);
+    ({ id: attendeeId, token } = db.prepare('SELECT id, token FROM attendees').get() as { id: number; token: string });
+  });
+
+  it('closes responses after the deadline, unless the host reopens them or lets the guest answer late', () => {
+    expect(responsesClosed(getAttendeeViewByToken(token)!, AFTER)).toBe(false); // No deadline
+
+    setEventRsvpDeadline(1, DEADLINE);
+    expect(responsesClosed(getAttendeeViewByToken(token)!, DEADLINE)).toBe(false);
+    expect(responsesClosed(getAttendeeViewByToken(token)!, AFTER)).toBe(true);
+
+    setAttendeeLateRsvpAllowed(attendeeId, true);
+    expect(responsesClosed(getAttendeeViewByToken(token)!, AFTER)).toBe(false);
+    setAttendeeLateRsvpAllowed(attendeeId, false);
+
+    setEventResponsesReopened(1, true);
+    expect(responsesClosed(getAttendeeViewByToken(token)!, AFTER)).toBe(false);
+
+    // A new deadline closes them again once it passes
+    setEventRsvpDeadline(1, DEADLINE + 24 * 60 * 60 * 1000);
+    expect(getEventById(1)!.responses_reopened).toBe(0);
+    expect(responsesClosed(getAttendeeViewByToken(token)!, AFTER + 24 * 60 * 60 * 1000)).toBe(true);
+  });
+
+  it('tells guests in the invitation when to reply by, in the event\'s timezone', () => {
+    const guest = { name: 'Jo', token, party_size: 2 };
+    expect(renderGuestEmail('invitation', getEventById(1)!, guest, 'https://rsvp.example.com').text).not.toContain('Please reply by');
+
+    setEventRsvpDeadline(1, DEADLINE);
+    const email = renderGuestEmail('invitation', getEventById(1)!, guest, 'https://rsvp.example.com');
+    expect(email.html).toContain('Please reply by <strong>Thursday, May 30, 2030 at 11:59 PM</strong>.');
+  });
+});
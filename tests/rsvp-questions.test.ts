@@ -0,0 +1,136 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+/**
+ * tests/rsvp-questions.test.ts
+ * Jest tests for custom RSVP questions
+ */
+
+// Ensure in-memory DB before importing modules
+process.env.DB_PATH = ':memory:';
+
+import { initializeDatabase, getDatabase, upsertAttendee } from '../src/database';
+import {
+  getAttendeePartyMembers,
+  getAttendeeRsvpAnswers,
+  getEventPartyMembers,
+  getEventRsvpAnswers,
+  listEventAttendees,
+  listEventRsvpQuestions,
+  recordRsvp,
+} from '../src/repository';
+import { RsvpQuestionError, addRsvpQuestion, parsePartyMembers, parseRsvpAnswers, partyRoster, tallyAnswers } from '../src/rsvp-questions';
+
+initializeDatabase(':memory:');
+const db = getDatabase();
+
+describe('RSVP questions', () => {
+  let meal: number;
+  let allergies: number;
+  let songs: number;
+  let children: number;
+
+  beforeEach(() => {
+    db.prepare('DELETE FROM events').run();
+    db.prepare('INSERT INTO events (id, title, date) VALUES (1, ?, ?)').run('Wedding', Date.UTC(2030, 5, 1, 17));
+    meal = addRsvpQuestion(1, { label: 'Meal', type: 'single_choice', options: 'vegetarian\r\nvegan\r\nfish\r\nvegan', required: '1', attending_only: '1' });
+    allergies = addRsvpQuestion(1, { label: 'Allergies', type: 'multi_choice', options: 'nuts\ngluten\ndairy', attending_only: '1' });
+    songs = addRsvpQuestion(1, { label: 'Song requests', type: 'long_text' });
+    children = addRsvpQuestion(1, { label: 'Children', type: 'number', attending_only: '1' });
+  });
+
+  it('defines questions in order, and refuses ones that cannot be answered', () => {
+    expect(listEventRsvpQuestions(1).map(q => [q.label, q.required, q.attending_only])).toEqual([
+      ['Meal', 1, 1], ['Allergies', 0, 1], ['Song requests', 0, 0], ['Children', 0, 1],
+    ]);
+    expect(listEventRsvpQuestions(1)[0].options).toBe('["vegetarian","vegan","fish"]');
+
+    expect(() => addRsvpQuestion(1, { label: '', type: 'text' })).toThrow(RsvpQuestionError);
+    expect(() => addRsvpQuestion(1, { label: 'Colour', type: 'favourite' })).toThrow(RsvpQuestionError);
+    expect(() => addRsvpQuestion(1, { label: 'Meal', type: 'single_choice', options: 'fish' })).toThrow('Give between 2');
+  });
+
+  it('checks answers, and only asks guests who are coming about the meal', () => {
+    const questions = listEventRsvpQuestions(1);
+    expect(parseRsvpAnswers(questions, {
+      [`q_${meal}`]: 'vegan', [`q_${allergies}`]: ['dairy', 'nuts'], [`q_${songs}`]: '  ', [`q_${children}`]: '2',
+    }, 'yes')).toEqual({ [meal]: 'vegan', [allergies]: ['nuts', 'dairy'], [children]: 2 });
+
+    expect(() => parseRsvpAnswers(questions, { [`q_${children}`]: 'two' }, 'yes'))
+      .toThrow('Please answer “Meal”. “Children” takes a number.');
+    expect(() => parseRsvpAnswers(questions, { [`q_${meal}`]: ['vegan', 'fish'] }, 'yes')).toThrow('choose one of');
+    expect(() => parseRsvpAnswers(questions, { [`q_${meal}`]: 'beef' }, 'yes')).toThrow(RsvpQuestionError);
+
+    // Declining skips the questions for guests who are coming, even if answers were sent
+    expect(parseRsvpAnswers(questions, { [`q_${meal}`]: 'beef', [`q_${songs}`]: 'Dancing Queen' }, 'no'))
+      .toEqual({ [songs]: 'Dancing Queen' });
+  });
+
+  it('stores each guest\'s latest answers and tallies them', () => {
+    upsertAttendee(1, 'Jo', 'jo@example.com', 2);
+    upsertAttendee(1, 'Sam', 'sam@example.com', 1);
+    upsertAttendee(1, 'Kim', 'kim@example.com', 1);
+    const [jo, sam, kim] = ['Jo', 'Sam', 'Kim'].map(name => (db.prepare('SELECT id FROM attendees WHERE name = ?').get(name) as { id: number }).id);
+
+    recordRsvp(jo, 'yes', 2, {}, { [meal]: 'vegan', [allergies]: ['nuts'], [children]: 1 });
+    recordRsvp(sam, 'yes', 1, {}, { [meal]: 'fish', [songs]: 'Dancing Queen' });
+    recordRsvp(sam, 'yes', 1, {}, { [meal]: 'vegan', [children]: 2 });
+    recordRsvp(kim, 'yes', 1, {}, { [meal]: 'vegetarian' });
+    recordRsvp(kim, 'no', 1); // A calendar reply: answers are kept, but no longer counted
+    expect(getAttendeeRsvpAnswers(sam)).toEqual({ [meal]: 'vegan', [children]: 2 });
+    expect(getAttendeeRsvpAnswers(kim)).toEqual({ [meal]: 'vegetarian' });
+
+    const tallies = tallyAnswers(listEventRsvpQuestions(1), listEventAttendees(1), getEventRsvpAnswers(1));
+    expect(tallies.map(t => [t.question.label, t.summary, t.answered, t.asked])).toEqual([
+      ['Meal', '2 vegan', 2, 2],
+      ['Allergies', '1 nuts', 1, 2],
+      ['Song requests', '', 0, 3],
+      ['Children', '3 in total', 2, 2],
+    ]);
+
+    // A guest on the waitlist has no place yet, so isn't counted for questions asked of guests who are coming
+    db.prepare('UPDATE attendees SET waitlisted_at = 1 WHERE id = ?').run(sam);
+    const waiting = tallyAnswers(listEventRsvpQuestions(1), listEventAttendees(1), getEventRsvpAnswers(1));
+    expect(waiting.map(t => [t.question.label, t.summary, t.answered, t.asked])).toEqual([
+      ['Meal', '1 vegan', 1, 1],
+      ['Allergies', '1 nuts', 1, 1],
+      ['Song requests', '', 0, 3],
+      ['Children', '1 in total', 1, 1],
+    ]);
+  });
+
+  it('names everyone in a party, asks each of them the per-person questions and lists them on the roster', () => {
+    const main = addRsvpQuestion(1, { label: 'Main', type: 'single_choice', options: 'beef\nfish', per_person: '1' });
+    const questions = listEventRsvpQuestions(1);
+    upsertAttendee(1, 'Jo', 'jo@example.com', 1);
+    upsertAttendee(1, 'Kim', 'kim@example.com', 2);
+    const [jo, kim] = ['Jo', 'Kim'].map(name => (db.prepare('SELECT id FROM attendees WHERE name = ?').get(name) as { id: number }).id);
+
+    const body = {
+      [`q_${meal}`]: 'vegan', [`q_${main}`]: 'fish',
+      member_2_name: ' Sam ', [`member_2_q_${main}`]: 'beef', [`member_2_q_${meal}`]: 'ignored',
+      member_3_name: 'Alex', [`member_3_q_${main}`]: 'lamb',
+    };
+    expect(() => parsePartyMembers(questions, body, 'yes', 4))
+      .toThrow('Please choose one of the answers offered for “Main” for Alex. Please give the name of person 4 in your group');
+    const members = parsePartyMembers(questions, body, 'yes', 2);
+    expect(members).toEqual([{ name: 'Sam', answers: { [main]: 'beef' } }]);
+
+    recordRsvp(jo, 'yes', 2, {}, parseRsvpAnswers(questions, body, 'yes'), members);
+    recordRsvp(kim, 'yes', 2); // Kim's guest was never named
+    expect(getAttendeePartyMembers(jo)).toMatchObject([{ position: 2, name: 'Sam', answers: { [main]: 'beef' } }]);
+
+    const attendees = listEventAttendees(1);
+    const answers = getEventRsvpAnswers(1);
+    const partyMembers = getEventPartyMembers(1);
+    expect(partyRoster(questions, attendees, answers, partyMembers).map(p => [p.name, p.position, p.answers])).toEqual([
+      ['Jo', 1, { [main]: 'fish' }], ['Sam', 2, { [main]: 'beef' }], ['Kim', 1, {}], [null, 2, {}],
+    ]);
+    expect(tallyAnswers(questions, attendees, answers, partyMembers).find(t => t.question.id === main))
+      .toMatchObject({ summary: '1 beef, 1 fish', answered: 2, asked: 4 });
+
+    // Coming alone drops Sam from the party, though the name is kept until the guest answers again
+    recordRsvp(jo, 'yes', 1);
+    expect(partyRoster(questions, listEventAttendees(1), answers, getEventPartyMembers(1)).map(p => p.name)).toEqual(['Jo', 'Kim', null]);
+  });
+});
@@ -0,0 +1,199 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+/**
+ * tests/series.test.ts
+ * Jest tests for recurring event series and their calendar output
+ */
+
+// Ensure in-memory DB before importing modules
+process.env.DB_PATH = ':memory:';
+import { initializeDatabase, getDatabase, ensureContact } from '../src/database';
+import {
+  addSeriesExdate,
+  addSeriesMember,
+  createSeries,
+  getEventById,
+  getSeriesById,
+  listSeriesMembers,
+  listSeriesOccurrences,
+  purgeDeletedEvents,
+  recordRsvp,
+  removeSeriesMember,
+  setEventDeleteRequested,
+} from '../src/repository';
+import {
+  SeriesError,
+  createUpcomingOccurrences,
+  describeRecurrence,
+  expandOccurrences,
+  firstOccurrence,
+  normalizeRecurrenceRule,
+  recurrenceRuleFromForm,
+} from '../src/series';
+import { buildGuestCalendar, invitationUid } from '../src/calendar';
+
+initializeDatabase(':memory:');
+const db = getDatabase();
+
+// Second Friday of the month, 19:00 in Paris; the first one is 2030-01-11
+const seriesInput = {
+  title: 'Game Night',
+  description: null,
+  location_name: 'The Pub',
+  location_href: null,
+  timezone: 'Europe/Paris',
+  dtstart: Date.UTC(2030, 0, 11, 18),
+  duration_ms: 3 * 60 * 60 * 1000,
+  rrule: 'FREQ=MONTHLY;BYDAY=+2FR',
+  horizon_days: 60,
+};
+
+describe('recurrence rules', () => {
+  it('builds rules from the series form', () => {
+    expect(recurrenceRuleFromForm({ freq: 'WEEKLY', interval: '2', weekdays: ['TU', 'TH'] }, 'UTC'))
+      .toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH');
+    expect(recurrenceRuleFromForm({ freq: 'MONTHLY', monthly_ordinal: '-1', monthly_weekday: 'SU', count: '6' }, 'UTC'))
+      .toBe('FREQ=MONTHLY;BYDAY=-1SU;COUNT=6');
+    expect(describeRecurrence(recurrenceRuleFromForm({ freq: 'MONTHLY', monthly_ordinal: '2', monthly_weekday: 'FR' }, 'UTC')))
+      .toBe('every month on the 2nd Friday');
+    expect(() => recurrenceRuleFromForm({ freq: 'HOURLY' }, 'UTC')).toThrow(SeriesError);
+  });
+
+  it('ends the series at the end of the last day in its own timezone', () => {
+    // Thursdays at 22:00 in Tokyo (13:00 UTC), up to and including 2030-01-10
+    const tokyo = recurrenceRuleFromForm({ freq: 'WEEKLY', weekdays: ['TH'], until: '2030-01-10' }, 'Asia/Tokyo');
+    expect(tokyo).toBe('FREQ=WEEKLY;BYDAY=TH;UNTIL=20300110T145959Z');
+    const series = { ...seriesInput, id: 1, timezone: 'Asia/Tokyo', dtstart: Date.UTC(2030, 0, 3, 13), rrule: tokyo, exdates: '[]', created_at: 0 };
+    expect(expandOccurrences(series, Date.UTC(2030, 0, 1), Date.UTC(2030, 1, 1))).toEqual([Date.UTC(2030, 0, 3, 13), Date.UTC(2030, 0, 10, 13)]);
+
+    // Thursdays at 20:00 in Los Angeles (04:00 UTC on Friday)
+    const la = recurrenceRuleFromForm({ freq: 'WEEKLY', weekdays: ['TH'], until: '2030-01-10' }, 'America/Los_Angeles');
+    expect(la).toBe('FREQ=WEEKLY;BYDAY=TH;UNTIL=20300111T075959Z');
+    const west = { ...series, timezone: 'America/Los_Angeles', dtstart: Date.UTC(2030, 0, 4, 4), rrule: la };
+    expect(expandOccurrences(west, Date.UTC(2030, 0, 1), Date.UTC(2030, 1, 1))).toEqual([Date.UTC(2030, 0, 4, 4), Date.UTC(2030, 0, 11, 4)]);
+
+    expect(() => recurrenceRuleFromForm({ freq: 'WEEKLY', until: 'soon' }, 'UTC')).toThrow(SeriesError);
+  });
+
+  it('rejects unsupported rules', () => {
+    expect(normalizeRecurrenceRule('RRULE:FREQ=DAILY')).toBe('FREQ=DAILY');
+    expect(() => normalizeRecurrenceRule('FREQ=MINUTELY')).toThrow(SeriesError);
+    expect(() => normalizeRecurrenceRule('DTSTART=20300101T000000Z;FREQ=DAILY')).toThrow(SeriesError);
+  });
+
+  it('moves the first date to the first one the rule produces', () => {
+    // Tuesday 2030-01-01 19:00 Paris -> Friday 2030-01-11
+    expect(firstOccurrence('FREQ=MONTHLY;BYDAY=+2FR', Date.UTC(2030, 0, 1, 18), 'Europe/Paris'))
+      .toBe(Date.UTC(2030, 0, 11, 18));
+    expect(() => firstOccurrence('FREQ=DAILY;UNTIL=20200101T000000Z', Date.UTC(2030, 0, 1), 'UTC')).toThrow(SeriesError);
+  });
+
+  it('keeps the local time across DST changes and leaves out skipped dates', () => {
+    const series = { ...seriesInput, id: 1, exdates: JSON.stringify([Date.UTC(2030, 1, 8, 18)]), created_at: 0 };
+    expect(expandOccurrences(series, Date.UTC(2030, 0, 1), Date.UTC(2030, 4, 1))).toEqual([
+      Date.UTC(2030, 0, 11, 18),
+      Date.UTC(2030, 2, 8, 18), // still CET
+      Date.UTC(2030, 3, 12, 17), // CEST: 19:00 local is 17:00 UTC
+    ]);
+  });
+});
+
+describe('occurrences', () => {
+  const now = Date.UTC(2030, 0, 1);
+  let seriesId: number;
+  let contactId: number;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation();
+    db.prepare('DELETE FROM events').run();
+    db.prepare('DELETE FROM series').run();
+    db.prepare('DELETE FROM contacts').run();
+    seriesId = createSeries(seriesInput);
+    contactId = ensureContact('Jo', 'jo@example.com', null);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('creates each occurrence within the horizon once, inviting the guest list', () => {
+    addSeriesMember(seriesId, contactId, 2, now);
+    expect(createUpcomingOccurrences(seriesId, now)).toHaveLength(2);
+    expect(createUpcomingOccurrences(seriesId, now)).toHaveLength(0);
+
+    const occurrences = listSeriesOccurrences(seriesId);
+    expect(occurrences.map(e => e.date)).toEqual([Date.UTC(2030, 0, 11, 18), Date.UTC(2030, 1, 8, 18)]);
+    expect(occurrences[0]).toMatchObject({ title: 'Game Night', location_name: 'The Pub', date_end: Date.UTC(2030, 0, 11, 21) });
+    const attendees = db.prepare('SELECT event_id, email, party_size, contact_id FROM attendees ORDER BY event_id').all();
+    expect(attendees).toEqual(occurrences.map(e => ({ event_id: e.id, email: 'jo@example.com', party_size: 2, contact_id: contactId })));
+  });
+
+  it('adds and removes guests from upcoming occurrences only', () => {
+    createUpcomingOccurrences(seriesId, now);
+    const later = Date.UTC(2030, 0, 20);
+    addSeriesMember(seriesId, contactId, 1, later);
+    expect(db.prepare('SELECT COUNT(*) AS n FROM attendees').get()).toEqual({ n: 1 });
+
+    addSeriesMember(seriesId, contactId, 1, now);
+    expect(db.prepare('SELECT COUNT(*) AS n FROM attendees').get()).toEqual({ n: 2 });
+    expect(removeSeriesMember(seriesId, contactId, later)).toEqual({ removed: 1, kept: 0 });
+    expect(db.prepare('SELECT COUNT(*) AS n FROM attendees').get()).toEqual({ n: 1 });
+  });
+
+  it('keeps a removed guest on the upcoming occurrences they already replied to', () => {
+    addSeriesMember(seriesId, contactId, 2, now);
+    const [replied, unreplied] = createUpcomingOccurrences(seriesId, now);
+    const { id } = db.prepare('SELECT id FROM attendees WHERE event_id = ?').get(replied) as { id: number };
+    recordRsvp(id, 'yes', 2);
+
+    expect(removeSeriesMember(seriesId, contactId, now)).toEqual({ removed: 1, kept: 1 });
+    expect(listSeriesMembers(seriesId)).toEqual([]);
+    expect(db.prepare('SELECT event_id, rsvp FROM attendees').all()).toEqual([{ event_id: replied, rsvp: 'yes' }]);
+    expect(db.prepare('SELECT COUNT(*) AS n FROM attendees WHERE event_id = ?').get(unreplied)).toEqual({ n: 0 });
+    expect(db.prepare('SELECT COUNT(*) AS n FROM rsvp_history WHERE attendee_id = ?').get(id)).toEqual({ n: 1 });
+  });
+
+  it('does not recreate skipped or purged occurrences', () => {
+    addSeriesExdate(seriesId, Date.UTC(2030, 0, 11, 18));
+    expect(createUpcomingOccurrences(seriesId, now)).toHaveLength(1);
+
+    const [event] = listSeriesOccurrences(seriesId);
+    setEventDeleteRequested(event.id, true);
+    purgeDeletedEvents(Date.now() + 1);
+    expect(JSON.parse(getSeriesById(seriesId)!.exdates)).toEqual([Date.UTC(2030, 0, 11, 18), Date.UTC(2030, 1, 8, 18)]);
+    expect(createUpcomingOccurrences(seriesId, now)).toHaveLength(0);
+  });
+
+  it('describes the series for a guest calendar, with their own date under their invitation UID', () => {
+    createUpcomingOccurrences(seriesId, now);
+    const [first, second] = listSeriesOccurrences(seriesId);
+    db.prepare('UPDATE events SET date = date + 3600000 WHERE id = ?').run(first.id); // Moved an hour later
+
+    const ics = buildGuestCalendar(getEventById(second.id)!, 'abc', 'https://rsvp.example.com').content;
+    const lines = ics.split('\r\n');
+    expect(lines).toContain('TZID:Europe/Paris');
+    expect(lines).toContain('RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU');
+    expect(lines).toContain('DTSTART:20300331T020000');
+    expect(lines).toContain('RRULE:FREQ=MONTHLY;BYDAY=+2FR');
+    expect(lines).toContain('EXDATE;TZID=Europe/Paris:20300208T190000');
+    expect(lines).toContain('RECURRENCE-ID;TZID=Europe/Paris:20300111T190000');
+    expect(lines).toContain('DTSTART;TZID=Europe/Paris:20300111T200000');
+    expect(lines.filter(l => l === `UID:series-${seriesId}@rsvp.example.com`)).toHaveLength(2);
+    expect(lines).toContain(`UID:${invitationUid('abc', 'https://rsvp.example.com')}`);
+    expect(ics.replace(/\r\n /g, '')).toContain('https://rsvp.example.com/rsvp/abc');
+    expect(lines.every(l => Buffer.byteLength(l) <= 75)).toBe(true);
+  });
+});
+
+describe('series deletion', () => {
+  it('keeps occurrences as standalone events', () => {
+    jest.spyOn(console, 'log').mockImplementation();
+    db.prepare('DELETE FROM events').run();
+    const seriesId = createSeries({ ...seriesInput, horizon_days: 30 });
+    createUpcomingOccurrences(seriesId, Date.UTC(2030, 0, 1));
+    db.prepare('DELETE FROM series WHERE id = ?').run(seriesId);
+    expect(db.prepare('SELECT series_id FROM events').all()).toEqual([{ series_id: null }]);
+    jest.restoreAllMocks();
+  });
+});
@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: AGPL-3.0-or-later
 // Copyright (C) 2025 Chris Danis
 
-import { generateToken, isValidToken, deriveNameFromEmail, parseCsvTsvLine } from '../src/utils';
+import { generateToken, isValidToken, deriveNameFromEmail, parseCsvTsvLine, formatRsvpResponse, normalizeEmail, normalizeAdditionalEmails, parseCCEmails, parseTags } from '../src/utils';
 
 describe('generateToken', () => {
   it('returns a 32-character hex string', () => {
@@ -121,6 +121,18 @@ describe('parseCsvTsvLine', () => {
     });
   });
 
+  describe('tag columns', () => {
+    it('reads hashtag columns as tags and not as the name', () => {
+      const result = parseCsvTsvLine('#Family #wave-1,John Doe,john@example.com');
+      expect(result).toEqual({ email: 'john@example.com', name: 'John Doe', party_size: 1, tags: ['family', 'wave-1'] });
+    });
+
+    it('treats a column with other words as a name', () => {
+      const result = parseCsvTsvLine('#1 Fan,john@example.com');
+      expect(result).toEqual({ email: 'john@example.com', name: '#1 Fan', party_size: 1 });
+    });
+  });
+
   describe('TSV format (tab-separated)', () => {
     it('parses email and name from TSV', () => {
       const result = parseCsvTsvLine('John Doe\tjohn@example.com');
@@ -252,3 +264,100 @@ describe('parseCsvTsvLine', () => {
     });
   });
 });
+
+describe('formatRsvpResponse', () => {
+  it('includes the party size for yes', () => {
+    expect(formatRsvpResponse('yes', 4)).toBe('yes (4)');
+  });
+
+  it('omits the party size for no', () => {
+    expect(formatRsvpResponse('no', 4)).toBe('no');
+  });
+
+  it('describes a missing response', () => {
+    expect(formatRsvpResponse(null, null)).toBe('no response');
+  });
+});
+
+describe('normalizeEmail', () => {
+  it('trims and lowercases', () => {
+    expect(normalizeEmail('  Jo@Example.COM ')).toBe('jo@example.com');
+  });
+});
+
+describe('normalizeAdditionalEmails', () => {
+  it('deduplicates and drops blanks and the primary email', () => {
+    expect(normalizeAdditionalEmails(['B@x.com', 'b@x.com', ' ', 'Jo@x.com', 'c@x.com'], 'jo@x.com')).toEqual(['b@x.com', 'c@x.com']);
+  });
+});
+
+describe('parseTags', () => {
+  it('splits on commas and whitespace, lowercases and deduplicates', () => {
+    expect(parseTags('Family, college  work,family')).toEqual(['family', 'college', 'work']);
+  });
+
+  it('accepts repeated fields and drops hashes and punctuation', () => {
+    expect(parseTags(['#wave-1', "o'brien's", '#'])).toEqual(['wave-1', 'obriens']);
+  });
+
+  it('returns nothing for missing input', () => {
+    expect(parseTags(undefined)).toEqual([]);
+    expect(parseTags('  ')).toEqual([]);
+  });
+});
+
+describe('parseCCEmails', () => {
+  it('returns empty array when additionalEmailsJson is null', () => {
+    const result = parseCCEmails(null, 'primary@example.com', 1);
+    expect(result).toEqual([]);
+  });
+
+  it('returns empty array when additionalEmailsJson is empty string', () => {
+    const result = parseCCEmails('', 'primary@example.com', 1);
+    expect(result).toEqual([]);
+  });
+
+  it('parses valid JSON array of emails', () => {
+    const json = JSON.stringify(['friend@example.com', 'colleague@example.com']);
+    const result = parseCCEmails(json, 'primary@example.com', 1);
+    expect(result).toEqual(['friend@example.com', 'colleague@example.com']);
+  });
+
+  it('filters out primary email from CC list', () => {
+    const json = JSON.stringify(['primary@example.com', 'friend@example.com']);
+    const result = parseCCEmails(json, 'primary@example.com', 1);
+    expect(result).toEqual(['friend@example.com']);
+  });
+
+  it('trims and lowercases emails', () => {
+    const json = JSON.stringify(['  Friend@Example.COM  ', 'Colleague@Test.ORG']);
+    const result = parseCCEmails(json, 'primary@example.com', 1);
+    expect(result).toEqual(['friend@example.com', 'colleague@test.org']);
+  });
+
+  it('filters out empty strings', () => {
+    const json = JSON.stringify(['friend@example.com', '', '  ', 'colleague@example.com']);
+    const result = parseCCEmails(json, 'primary@example.com', 1);
+    expect(result).toEqual(['friend@example.com', 'colleague@example.com']);
+  });
+
+  it('handles invalid JSON gracefully', () => {
+    const consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation();
+    const result = parseCCEmails('not valid json', 'primary@example.com', 1);
+    expect(result).toEqual([]);
+    expect(consoleErrorSpy).toHaveBeenCalled();
+    consoleErrorSpy.mockRestore();
+  });
+
+  it('returns empty array when parsed JSON is not an array', () => {
+    const json = JSON.stringify({ email: 'test@example.com' });
+    const result = parseCCEmails(json, 'primary@example.com', 1);
+    expect(result).toEqual([]);
+  });
+
+  it('handles mixed-case primary email matching', () => {
+    const json = JSON.stringify(['PRIMARY@EXAMPLE.COM', 'friend@example.com']);
+    const result = parseCCEmails(json, 'primary@example.com', 1);
+    expect(result).toEqual(['friend@example.com']);
+  });
+});
@@ -0,0 +1,130 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+// Copyright (C) 2025 Chris Danis
+
+/**
+ * tests/waitlist.test.ts
+ * Jest tests for event capacity and the waitlist
+ */
+
+// Ensure in-memory DB before importing modules
+process.env.DB_PATH = ':memory:';
+
+import { initializeDatabase, getDatabase, getEventAttendeeStats } from '../src/database';
+import { getAttendeeViewByToken, setEventCapacity } from '../src/repository';
+import * as emailQueue from '../src/email-queue';
+import { submitRsvp } from '../src/rsvp';
+import { largestPartyKeepingPlace, updateWaitlist } from '../src/waitlist';
+import { BASE_URL, addGuest, holdEmailQueue, resetEvent } from './fixtures';
+
+jest.mock('../src/mail', () => ({
+  sendMail: jest.fn(),
+}));
+
+import { sendMail } from '../src/mail';
+
+initializeDatabase(':memory:');
+const db = getDatabase();
+const mockSendMail = sendMail as jest.MockedFunction<typeof sendMail>;
+
+/** Invite a guest (as if their invitation went out) and return their token */
+function invite(name: string, partySize: number): string {
+  return addGuest(name, { partySize }).token;
+}
+
+/** Answer as the guest would on the RSVP page */
+function respond(token: string, rsvp: string, partySize: number) {
+  return submitRsvp(getAttendeeViewByToken(token)!, rsvp, partySize, {}, BASE_URL);
+}
+
+function waitlisted(): string[] {
+  return (db.prepare('SELECT name FROM attendees WHERE waitlisted_at IS NOT NULL ORDER BY waitlisted_at, id').all() as { name: string }[])
+    .map(row => row.name);
+}
+
+describe('waitlist', () => {
+  beforeEach(() => {
+    holdEmailQueue();
+    resetEvent({ title: 'Supper Club', date: Date.UTC(2030, 5, 1, 19), location_name: null, capacity: 4 });
+    mockSendMail.mockReset().mockResolvedValue({ messageId: '<waitlist@example.com>', accepted: [], rejected: [] });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('puts a yes that would go over capacity on the waitlist, and counts it apart', async () => {
+    const ann = invite('Ann', 3);
+    const bo = invite('Bo', 2);
+    const cy = invite('Cy', 1);
+
+    expect(await respond(ann, 'yes', 3)).toMatchObject({ waitlisted: false });
+    expect(await respond(bo, 'yes', 2)).toMatchObject({ waitlisted: true });
+    expect(await respond(cy, 'yes', 1)).toMatchObject({ waitlisted: false }); // Still fits
+    expect(waitlisted()).toEqual(['Bo']);
+
+    const stats = getEventAttendeeStats(1);
+    expect([stats.guestsAttending, stats.guestsWaitlisted]).toEqual([4, 2]);
+
+    // Answering again keeps a waiting guest in line; saying no takes them off it
+    await respond(bo, 'yes', 2);
+    expect(waitlisted()).toEqual(['Bo']);
+    await respond(bo, 'no', 2);
+    expect(waitlisted()).toEqual([]);
+  });
+
+  it('gives freed places out in order, passing over parties that do not fit, and emails those who got one', async () => {
+    const [ann, bo, cy, di] = [['Ann', 4], ['Bo', 3], ['Cy', 2], ['Di', 1]].map(([name, size]) => invite(name as string, size as number));
+    await respond(ann, 'yes', 4);
+    await respond(bo, 'yes', 3);
+    await respond(cy, 'yes', 2);
+    await respond(di, 'yes', 1);
+    expect(waitlisted()).toEqual(['Bo', 'Cy', 'Di']);
+
+    // Ann brings one fewer: Bo's and Cy's parties don't fit in the one place, Di does
+    expect(await respond(ann, 'yes', 3)).toMatchObject({ waitlisted: false });
+    expect(waitlisted()).toEqual(['Bo', 'Cy']);
+
+    // Ann can't come after all: Bo gets the 3 places, leaving none for Cy
+    await respond(ann, 'no', 3);
+    expect(waitlisted()).toEqual(['Cy']);
+
+    await emailQueue.processEmailQueue();
+    expect(mockSendMail.mock.calls.map(([options]) => [options.to, options.subject])).toEqual([
+      ['di@example.com', "You're in: Supper Club"],
+      ['bo@example.com', "You're in: Supper Club"],
+    ]);
+  });
+
+  it('never takes a place away from a guest who has one', async () => {
+    const ann = invite('Ann', 3);
+    const bo = invite('Bo', 1);
+    await respond(ann, 'yes', 2);
+    await respond(bo, 'yes', 1);
+
+    // Ann may take the one free place, but not more, and Bo has nothing to lose yet
+    expect(largestPartyKeepingPlace(getAttendeeViewByToken(ann)!)).toBe(3);
+    expect(largestPartyKeepingPlace({ ...getAttendeeViewByToken(bo)!, rsvp: null })).toBeNull();
+
+    // Lowering the capacity under what guests already hold doesn't send anyone to the waitlist when they answer again
+    setEventCapacity(1, 2);
+    expect(largestPartyKeepingPlace(getAttendeeViewByToken(ann)!)).toBe(2);
+    expect(await respond(ann, 'yes', 2)).toMatchObject({ waitlisted: false });
+    expect(await respond(bo, 'yes', 1)).toMatchObject({ waitlisted: false });
+    expect(waitlisted()).toEqual([]);
+  });
+
+  it('gives places to everyone waiting when the capacity is raised or removed', async () => {
+    const ann = invite('Ann', 4);
+    const bo = invite('Bo', 2);
+    await respond(ann, 'yes', 4);
+    await respond(bo, 'yes', 2);
+    expect(waitlisted()).toEqual(['Bo']);
+
+    setEventCapacity(1, 5);
+    expect(updateWaitlist(1, BASE_URL).promoted).toEqual([]);
+    setEventCapacity(1, null);
+    expect(updateWaitlist(1, BASE_URL).promoted).toHaveLength(1);
+    expect(waitlisted()).toEqual([]);
+    expect(db.prepare(`SELECT COUNT(*) AS n FROM email_queue WHERE kind = 'waitlist_promotion'`).get()).toEqual({ n: 1 });
+  });
+});